@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+/**
+ * Entry point of the `otp` command-line tool (see src/cli.ts)
+ */
+
+const { existsSync } = require('fs');
+const { join } = require('path');
+
+const cli = join(__dirname, '..', 'dist', 'cli.js');
+
+if (!existsSync(cli)) {
+  console.error(`otp: ${cli} not found. Run "npm run build" first to build the command-line tool.`);
+  process.exitCode = 1;
+} else {
+  require(cli).runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
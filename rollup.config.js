@@ -4,9 +4,15 @@ import typescript from 'rollup-plugin-typescript2';
 import terser from '@rollup/plugin-terser';
 import dts from 'rollup-plugin-dts';
 import { readFileSync } from 'fs';
+import { builtinModules } from 'module';
 
 const packageJson = JSON.parse(readFileSync('./package.json', 'utf8'));
 
+// Node built-ins the library pulls in (async_hooks, crypto, fs, path, stream, ...) stay require() calls
+const nodeBuiltins = [...builtinModules, ...builtinModules.map(name => `node:${name}`)];
+// The UMD builds take them from require() under CommonJS, or from same-named globals
+const nodeGlobals = Object.fromEntries(builtinModules.map(name => [name, name]));
+
 export default [
   // Main build
   {
@@ -31,7 +37,25 @@ export default [
         useTsconfigDeclarationDir: true,
       }),
     ],
-    external: [],
+    external: nodeBuiltins,
+  },
+  // Command-line tool (bin/otp.js)
+  {
+    input: 'src/cli.ts',
+    output: {
+      file: 'dist/cli.js',
+      format: 'cjs',
+      sourcemap: true,
+    },
+    plugins: [
+      resolve({ preferBuiltins: true }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        useTsconfigDeclarationDir: true,
+      }),
+    ],
+    external: nodeBuiltins,
   },
   // UMD build
   {
@@ -40,6 +64,7 @@ export default [
       file: 'dist/index.umd.js',
       format: 'umd',
       name: 'OpenTrustProtocol',
+      globals: nodeGlobals,
       sourcemap: true,
     },
     plugins: [
@@ -50,6 +75,7 @@ export default [
         useTsconfigDeclarationDir: true,
       }),
     ],
+    external: nodeBuiltins,
   },
   // Minified UMD build
   {
@@ -58,6 +84,7 @@ export default [
       file: 'dist/index.umd.min.js',
       format: 'umd',
       name: 'OpenTrustProtocol',
+      globals: nodeGlobals,
       sourcemap: true,
     },
     plugins: [
@@ -69,12 +96,13 @@ export default [
       }),
       terser(),
     ],
+    external: nodeBuiltins,
   },
   // Type definitions
   {
     input: 'dist/types/index.d.ts',
     output: [{ file: 'dist/index.d.ts', format: 'esm' }],
     plugins: [dts()],
-    external: [/\.css$/],
+    external: [/\.css$/, ...nodeBuiltins],
   },
 ];
@@ -0,0 +1,151 @@
+/**
+ * Canonical JSON for Conformance Seals and Judgment IDs
+ *
+ * Hashes are only reproducible across implementations if every implementation
+ * serializes the same data to the same bytes. `JSON.stringify` does not guarantee
+ * that: key order follows object insertion order. This module implements JSON
+ * canonicalization in the style of RFC 8785 (JCS):
+ *
+ * - Object keys are sorted by their UTF-16 code units
+ * - Numbers use the ECMAScript shortest round-trip form (`-0` becomes `0`)
+ * - Non-finite numbers are rejected
+ * - Object properties whose value is `undefined` are omitted
+ * - No insignificant whitespace
+ *
+ * Every seal and Judgment ID records the canonicalization it was computed with,
+ * so values produced before canonicalization existed remain verifiable.
+ */
+
+/**
+ * Identifier of a canonicalization scheme
+ *
+ * - `otp-jcs-v1`: RFC 8785 style canonical JSON (current default)
+ * - `otp-json-legacy`: plain `JSON.stringify`, used by seals and IDs that predate `otp-jcs-v1`
+ */
+export type CanonicalizationId = 'otp-jcs-v1' | 'otp-json-legacy';
+
+/**
+ * Canonicalization used for newly generated seals and Judgment IDs
+ */
+export const DEFAULT_CANONICALIZATION: CanonicalizationId = 'otp-jcs-v1';
+
+/**
+ * Canonicalization assumed when none is recorded
+ */
+export const LEGACY_CANONICALIZATION: CanonicalizationId = 'otp-json-legacy';
+
+/**
+ * Serializes a value to canonical JSON (RFC 8785 style)
+ *
+ * @param value - Any JSON-compatible value; objects with a `toJSON` method are converted first
+ * @returns The canonical JSON string
+ * @throws Error if the value contains non-finite numbers, BigInts or circular references
+ *
+ * @example
+ * ```typescript
+ * canonicalize({ b: 1, a: [1.0, 'x', undefined] }); // '{"a":[1,"x",null],"b":1}'
+ * ```
+ */
+export function canonicalize(value: unknown): string {
+  const serialized = serialize(value, new Set());
+  if (serialized === undefined) {
+    throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+  }
+  return serialized;
+}
+
+/**
+ * Serializes a value with the given canonicalization scheme
+ *
+ * @param value - The value to serialize
+ * @param canonicalization - The canonicalization scheme
+ * @returns The serialized string
+ * @throws Error if the scheme is unknown or the value cannot be serialized
+ */
+export function serializeWith(value: unknown, canonicalization: CanonicalizationId): string {
+  switch (canonicalization) {
+    case 'otp-jcs-v1':
+      return canonicalize(value);
+    case 'otp-json-legacy':
+      return JSON.stringify(value, null, 0);
+    default:
+      throw new Error(`Unknown canonicalization: ${canonicalization}`);
+  }
+}
+
+/**
+ * Checks whether a string names a supported canonicalization scheme
+ *
+ * @param value - The value to check
+ * @returns true if the value is a CanonicalizationId
+ */
+export function isCanonicalizationId(value: unknown): value is CanonicalizationId {
+  return value === 'otp-jcs-v1' || value === 'otp-json-legacy';
+}
+
+/**
+ * Compares two strings by UTF-16 code units, independent of locale
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Negative, zero or positive like a sort comparator
+ */
+export function compareCodeUnits(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Recursive serializer; returns undefined for values JSON omits
+ * @private
+ */
+function serialize(value: unknown, seen: Set<object>): string | undefined {
+  if (value === null) {
+    return 'null';
+  }
+
+  if (typeof value === 'object' && typeof (value as any).toJSON === 'function') {
+    return serialize((value as any).toJSON(), seen);
+  }
+
+  switch (typeof value) {
+    case 'boolean':
+      return value ? 'true' : 'false';
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`Cannot canonicalize non-finite number: ${value}`);
+      }
+      // ECMAScript Number-to-String is the RFC 8785 number format; -0 becomes "0"
+      return String(value);
+    case 'string':
+      return JSON.stringify(value);
+    case 'bigint':
+      throw new Error('Cannot canonicalize BigInt values');
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined;
+  }
+
+  const object = value as object;
+  if (seen.has(object)) {
+    throw new Error('Cannot canonicalize circular structure');
+  }
+  seen.add(object);
+
+  let result: string;
+  if (Array.isArray(object)) {
+    result = `[${object.map(item => serialize(item, seen) ?? 'null').join(',')}]`;
+  } else {
+    const members: string[] = [];
+    for (const key of Object.keys(object).sort(compareCodeUnits)) {
+      const member = serialize((object as Record<string, unknown>)[key], seen);
+      if (member !== undefined) {
+        members.push(`${JSON.stringify(key)}:${member}`);
+      }
+    }
+    result = `{${members.join(',')}}`;
+  }
+
+  seen.delete(object);
+  return result;
+}
@@ -0,0 +1,378 @@
+/**
+ * OTP Command-Line Tool
+ * =====================
+ *
+ * Offline `otp` command for operators who want to map, fuse and verify judgments
+ * without writing a script. Judgments are read and written in the same JSON shape
+ * as NeutrosophicJudgment.toJSON; any file argument may be `-` for stdin.
+ *
+ * ```
+ * otp map <mapper.json>                            values on stdin -> judgments
+ * otp fuse [--operator <id>] [--weights <w,...>] [--timestamp <iso>] <judgment.json>...
+ * otp verify <judgment.json>                       check Judgment ID, seal, fused values and hash links
+ * otp id <judgment.json>                           print the Judgment ID
+ * otp registry validate|list <bundle.json>         check or list a mapper config bundle
+ * ```
+ *
+ * Exit codes: 0 success, 1 failed verification or validation, 2 usage error.
+ */
+
+import { readFileSync } from 'fs';
+import { NeutrosophicJudgment } from './judgment';
+import { fuse, FusionOptions } from './fusion';
+import { getGlobalFusionRegistry } from './fusion-registry';
+import { generateJudgmentId, verifyJudgmentId } from './judgment-id';
+import { ConformanceError, verifyConformanceSealDetailed, verifyFusion } from './conformance';
+import { isLinkedChain, verifyProvenanceChain } from './provenance-chain';
+import { FixedClock } from './clock';
+import { MapperRegistry, MapperValidator, createMapperFromConfig } from './mapper';
+
+/**
+ * Input and output used by the CLI
+ */
+export interface CliIO {
+  /** Read a file as UTF-8 text */
+  readFile(path: string): string;
+  /** Read all of stdin as UTF-8 text */
+  readStdin(): Promise<string>;
+  /** Write to stdout */
+  write(text: string): void;
+  /** Write to stderr */
+  error(text: string): void;
+}
+
+/**
+ * CLI IO backed by the current process
+ */
+export const processIO: CliIO = {
+  readFile: path => readFileSync(path, 'utf8'),
+  readStdin: () => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on('data', chunk => chunks.push(Buffer.from(chunk)));
+    process.stdin.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    process.stdin.on('error', reject);
+  }),
+  write: text => { process.stdout.write(text); },
+  error: text => { process.stderr.write(text); }
+};
+
+const USAGE = `Usage: otp <command> [options]
+
+Commands:
+  map <mapper.json>                         Map values read from stdin to judgments
+  fuse [options] <judgment.json>...         Fuse judgments
+      --operator <id>                       Fusion operator (default: otp-cawa-v1.1)
+      --weights <w1,w2,...>                 Weights for weighted operators
+      --timestamp <iso>                     Fixed timestamp for reproducible output
+  verify <judgment.json>                    Verify Judgment ID, Conformance Seal, fused values and hash links
+  id <judgment.json>                        Print the Judgment ID
+  registry validate <bundle.json>           Validate a mapper config bundle
+  registry list <bundle.json>               List the mappers in a bundle
+
+Files may be given as - to read stdin.
+`;
+
+/**
+ * Error in the command line itself (exit code 2)
+ * @private
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Runs the `otp` command
+ *
+ * @param argv - Command-line arguments without the node and script paths
+ * @param io - Input and output (default: the current process)
+ * @returns The exit code
+ *
+ * @example
+ * ```typescript
+ * const code = await runCli(['id', 'judgment.json']);
+ * ```
+ */
+export async function runCli(argv: string[], io: CliIO = processIO): Promise<number> {
+  const [command, ...args] = argv;
+
+  try {
+    switch (command) {
+      case 'map':
+        return await mapCommand(args, io);
+      case 'fuse':
+        return await fuseCommand(args, io);
+      case 'verify':
+        return await verifyCommand(args, io);
+      case 'id':
+        return await idCommand(args, io);
+      case 'registry':
+        return await registryCommand(args, io);
+      case undefined:
+      case 'help':
+      case '--help':
+      case '-h':
+        io.write(USAGE);
+        return command === undefined ? 2 : 0;
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    io.error(`otp: ${message}\n`);
+    if (error instanceof UsageError) {
+      io.error(`Run 'otp help' for usage.\n`);
+      return 2;
+    }
+    return 1;
+  }
+}
+
+/**
+ * otp map <mapper.json>
+ * @private
+ */
+async function mapCommand(args: string[], io: CliIO): Promise<number> {
+  const [configPath] = expectPositionals(args, 1, 'map <mapper.json>');
+  const mapper = createMapperFromConfig(await readJson(configPath!, io));
+
+  const text = await io.readStdin();
+  let values: unknown;
+  try {
+    values = JSON.parse(text);
+  } catch {
+    // Not a JSON document: one value per line
+    values = text.split(/\r?\n/).filter(line => line.trim() !== '').map(parseLine);
+  }
+
+  const judgments = Array.isArray(values)
+    ? values.map(value => mapper.apply(value))
+    : mapper.apply(values);
+  writeJson(judgments, io);
+  return 0;
+}
+
+/**
+ * otp fuse [--operator <id>] [--weights <w,...>] [--timestamp <iso>] <judgment.json>...
+ * @private
+ */
+async function fuseCommand(args: string[], io: CliIO): Promise<number> {
+  const { options, positionals } = parseOptions(args, ['operator', 'weights', 'timestamp']);
+  if (positionals.length === 0) {
+    throw new UsageError('fuse requires at least one judgment file');
+  }
+
+  const operatorId = options['operator'] ?? 'otp-cawa-v1.1';
+  if (!getGlobalFusionRegistry().has(operatorId)) {
+    throw new UsageError(`Unknown fusion operator: ${operatorId}`);
+  }
+
+  let weights: number[] | undefined;
+  if (options['weights'] !== undefined) {
+    weights = options['weights'].split(',').map(weight => {
+      const value = Number(weight);
+      if (weight.trim() === '' || !Number.isFinite(value)) {
+        throw new UsageError(`Invalid weight: '${weight}'`);
+      }
+      return value;
+    });
+  }
+
+  const fusionOptions: FusionOptions = {};
+  if (options['timestamp'] !== undefined) {
+    fusionOptions.clock = new FixedClock(options['timestamp']);
+  }
+
+  const judgments: NeutrosophicJudgment[] = [];
+  for (const path of positionals) {
+    judgments.push(NeutrosophicJudgment.fromJSON(await readJson(path, io)));
+  }
+
+  writeJson(fuse(operatorId, judgments, weights, fusionOptions), io);
+  return 0;
+}
+
+/**
+ * otp verify <judgment.json>
+ * @private
+ */
+async function verifyCommand(args: string[], io: CliIO): Promise<number> {
+  const [path] = expectPositionals(args, 1, 'verify <judgment.json>');
+  const judgment = NeutrosophicJudgment.fromJSON(await readJson(path!, io));
+  const chain = judgment.provenance_chain;
+  const report: Record<string, any> = {};
+
+  report['judgment_id'] = chain.some(entry => (entry as any).judgment_id)
+    ? { valid: verifyJudgmentId(judgment) }
+    : { valid: false, reason: 'Judgment does not carry a Judgment ID' };
+
+  if (chain.some(entry => (entry as any).conformance_seal)) {
+    const { valid, status, reason } = verifyConformanceSealDetailed(judgment);
+    report['conformance_seal'] = reason === undefined ? { valid, status } : { valid, status, reason };
+    report['fusion'] = fusionReport(judgment);
+  }
+
+  if (isLinkedChain(chain)) {
+    report['provenance_chain'] = verifyProvenanceChain(judgment);
+  }
+
+  const valid = Object.values(report).every(check => check.valid);
+  writeJson({ valid, ...report }, io);
+  return valid ? 0 : 1;
+}
+
+/**
+ * Recomputes the fused values, which the Conformance Seal does not cover
+ * @private
+ */
+function fusionReport(judgment: NeutrosophicJudgment): Record<string, any> {
+  try {
+    const { values_valid, expected, reason } = verifyFusion(judgment);
+    if (values_valid) {
+      return { valid: true };
+    }
+    return expected === undefined ? { valid: false, reason } : { valid: false, reason, expected };
+  } catch (error) {
+    if (error instanceof ConformanceError) {
+      return { valid: false, reason: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * otp id <judgment.json>
+ * @private
+ */
+async function idCommand(args: string[], io: CliIO): Promise<number> {
+  const [path] = expectPositionals(args, 1, 'id <judgment.json>');
+  const judgment = NeutrosophicJudgment.fromJSON(await readJson(path!, io));
+
+  // A recorded ID identifies the judgment; otherwise compute it
+  const last = judgment.provenance_chain[judgment.provenance_chain.length - 1] as any;
+  io.write(`${last?.judgment_id ?? generateJudgmentId(judgment)}\n`);
+  return 0;
+}
+
+/**
+ * otp registry validate|list <bundle.json>
+ * @private
+ */
+async function registryCommand(args: string[], io: CliIO): Promise<number> {
+  const [action, path] = expectPositionals(args, 2, 'registry validate|list <bundle.json>');
+  const bundle = await readJson(path!, io);
+  const configs: any[] = Array.isArray(bundle) ? bundle : bundle?.mappers;
+  if (!Array.isArray(configs)) {
+    throw new Error('Mapper bundle must be an array of configurations or a registry snapshot');
+  }
+
+  switch (action) {
+    case 'list': {
+      const validator = new MapperValidator();
+      for (const config of configs) {
+        const parameters = mapperParameters(config);
+        io.write(`${parameters.id}\t${config.type ?? validator.detectType(parameters) ?? 'unknown'}\t${parameters.version}\n`);
+      }
+      return 0;
+    }
+    case 'validate': {
+      const { errors } = new MapperRegistry().import(configs, { dryRun: true });
+      configs.forEach((config, index) => {
+        const error = errors.find(candidate => candidate.index === index);
+        const label = error?.id ?? mapperParameters(config)?.id ?? `#${index}`;
+        io.write(error ? `error\t${label}\t${error.message}\n` : `ok\t${label}\n`);
+      });
+      return errors.length === 0 ? 0 : 1;
+    }
+    default:
+      throw new UsageError(`Unknown registry action: ${action}`);
+  }
+}
+
+/**
+ * Unwraps MapperRegistry.export() entries to their parameters
+ * @private
+ */
+function mapperParameters(config: any): any {
+  return config && typeof config === 'object' && config.parameters && typeof config.parameters === 'object'
+    ? config.parameters
+    : config;
+}
+
+/**
+ * Parses one stdin line: JSON if possible, otherwise the raw string
+ * @private
+ */
+function parseLine(line: string): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    return line.trim();
+  }
+}
+
+/**
+ * Reads and parses a JSON file (`-` for stdin)
+ * @private
+ */
+async function readJson(path: string, io: CliIO): Promise<any> {
+  const text = path === '-' ? await io.readStdin() : io.readFile(path);
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${path === '-' ? 'stdin' : path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Writes a value as indented JSON
+ * @private
+ */
+function writeJson(value: unknown, io: CliIO): void {
+  io.write(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+/**
+ * Checks the number of positional arguments
+ * @private
+ */
+function expectPositionals(args: string[], count: number, usage: string): string[] {
+  if (args.length !== count || args.some(arg => arg.startsWith('--'))) {
+    throw new UsageError(`Usage: otp ${usage}`);
+  }
+  return args;
+}
+
+/**
+ * Splits `--name value` options from positional arguments
+ * @private
+ */
+function parseOptions(
+  args: string[],
+  allowed: string[]
+): { options: Record<string, string>; positionals: string[] } {
+  const options: Record<string, string> = {};
+  const positionals: string[] = [];
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]!;
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inline] = arg.slice(2).split(/=(.*)/s, 2) as [string, string | undefined];
+    if (!allowed.includes(name)) {
+      throw new UsageError(`Unknown option: --${name}`);
+    }
+    const value = inline ?? args[++index];
+    if (value === undefined) {
+      throw new UsageError(`Option --${name} requires a value`);
+    }
+    options[name] = value;
+  }
+
+  return { options, positionals };
+}
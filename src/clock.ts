@@ -0,0 +1,163 @@
+/**
+ * Clock Abstraction for Reproducible Judgments
+ *
+ * Every timestamp the SDK writes into a provenance chain (mapper entries, fusion
+ * entries, Judgment ID entries, outcome entries) is read from a Clock. By default
+ * this is the system clock. A clock can be passed per call, installed for the
+ * duration of a (possibly asynchronous) callback with `withClock`, or set as the
+ * process-wide default, so that fused judgments and their Judgment IDs are
+ * byte-for-byte reproducible in tests, replays and cross-language comparisons.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Source of the current time
+ */
+export interface Clock {
+  /**
+   * Get the current time
+   * @returns The current time as a Date
+   */
+  now(): Date;
+}
+
+/**
+ * Options accepted by functions that write timestamps
+ */
+export interface ClockOptions {
+  /** Clock used for timestamps (default: the current context clock) */
+  clock?: Clock;
+}
+
+/**
+ * Clock backed by the system time
+ */
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+/**
+ * Clock that always returns the same instant
+ *
+ * Example:
+ * ```typescript
+ * const clock = new FixedClock('2025-01-01T00:00:00Z');
+ * const fused = conflict_aware_weighted_average(judgments, weights, { clock });
+ * ```
+ */
+export class FixedClock implements Clock {
+  private time: number;
+
+  /**
+   * @param time - The fixed instant (Date, ISO 8601 string or epoch milliseconds)
+   * @throws Error if the time is not a valid date
+   */
+  constructor(time: Date | string | number) {
+    this.time = toEpochMillis(time);
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  /**
+   * Move the fixed instant forward (or backward for negative values)
+   * @param milliseconds - Number of milliseconds to advance
+   */
+  advance(milliseconds: number): void {
+    this.time += milliseconds;
+  }
+}
+
+/**
+ * Clock shifted by a constant offset from another clock
+ *
+ * Useful for replaying events at their original time or simulating clock skew.
+ */
+export class OffsetClock implements Clock {
+  /**
+   * @param offsetMilliseconds - Offset added to the base clock
+   * @param base - The clock to shift (default: system clock)
+   */
+  constructor(
+    public readonly offsetMilliseconds: number,
+    private readonly base: Clock = new SystemClock()
+  ) {}
+
+  now(): Date {
+    return new Date(this.base.now().getTime() + this.offsetMilliseconds);
+  }
+}
+
+// Process-wide default clock and per-context overrides
+const systemClock = new SystemClock();
+let defaultClock: Clock = systemClock;
+const contextClock = new AsyncLocalStorage<Clock>();
+
+/**
+ * Get the clock in effect for the current context
+ *
+ * @returns The clock installed by the innermost `withClock`, or the default clock
+ */
+export function getClock(): Clock {
+  return contextClock.getStore() ?? defaultClock;
+}
+
+/**
+ * Set the process-wide default clock
+ *
+ * @param clock - The new default clock
+ */
+export function setDefaultClock(clock: Clock): void {
+  defaultClock = clock;
+}
+
+/**
+ * Restore the system clock as the process-wide default
+ */
+export function resetDefaultClock(): void {
+  defaultClock = systemClock;
+}
+
+/**
+ * Run a callback with a clock installed for its (synchronous and asynchronous) context
+ *
+ * @param clock - The clock to use inside the callback
+ * @param fn - The callback to run
+ * @returns The callback's return value
+ *
+ * @example
+ * ```typescript
+ * const fused = withClock(new FixedClock('2025-01-01T00:00:00Z'), () =>
+ *   conflict_aware_weighted_average(judgments, weights)
+ * );
+ * ```
+ */
+export function withClock<T>(clock: Clock, fn: () => T): T {
+  return contextClock.run(clock, fn);
+}
+
+/**
+ * Create an ISO 8601 timestamp from a clock
+ *
+ * @param clock - Optional clock (default: the current context clock)
+ * @returns ISO 8601 timestamp string
+ */
+export function currentTimestamp(clock?: Clock): string {
+  return (clock ?? getClock()).now().toISOString();
+}
+
+/**
+ * Convert a date-like value to epoch milliseconds
+ * @private
+ */
+function toEpochMillis(time: Date | string | number): number {
+  const millis = time instanceof Date ? time.getTime() : typeof time === 'number' ? time : Date.parse(time);
+  if (!Number.isFinite(millis)) {
+    throw new Error(`Invalid time for clock: ${String(time)}`);
+  }
+  return millis;
+}
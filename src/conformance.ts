@@ -23,11 +23,30 @@
  */
 
 import { NeutrosophicJudgment, ProvenanceEntry } from './judgment';
+import { generateJudgmentId } from './judgment-id';
+import { FusionValues } from './fusion-operators';
+import {
+  CanonicalizationId,
+  DEFAULT_CANONICALIZATION,
+  LEGACY_CANONICALIZATION,
+  compareCodeUnits,
+  isCanonicalizationId,
+  serializeWith
+} from './canonical';
+import { FusionOperatorRegistry, getGlobalFusionRegistry } from './fusion-registry';
 import { createHash } from 'crypto';
+import { EXPIRED_FUSION_VALUES, applyTimeDecay } from './decay';
+import { reliabilityWeights, sourceOf } from './reliability';
 
 // The canonical separator used in seal generation
 const SEAL_SEPARATOR = '::';
 
+// Default absolute tolerance when comparing recomputed fusion values
+const DEFAULT_VALUE_TOLERANCE = 1e-9;
+
+// Fusion entry metadata the weights were derived from, covered by the seal when present
+const SEALED_PARAMETERS = ['reliability', 'decay'];
+
 /**
  * Error class for conformance seal related errors
  */
@@ -38,6 +57,85 @@ export class ConformanceError extends Error {
   }
 }
 
+/**
+ * Outcome of a self-contained seal verification
+ *
+ * - `valid`: the seal was re-derived from the embedded inputs and matches
+ * - `tampered`: an input chain, the embedded input digests or the seal disagree
+ * - `truncated`: provenance entries belonging to the inputs are missing
+ * - `redacted`: input entries were redacted, so the seal cannot be re-derived
+ * - `unverifiable`: the fusion entry carries no embedded inputs (legacy judgment)
+ */
+export type SealVerificationStatus = 'valid' | 'tampered' | 'truncated' | 'redacted' | 'unverifiable';
+
+/**
+ * Detailed result of verifying a Conformance Seal from the fused judgment alone
+ */
+export interface SealVerificationResult {
+  /** True only when the status is `valid` */
+  valid: boolean;
+  /** Verification outcome */
+  status: SealVerificationStatus;
+  /** Operator ID recorded in the fusion provenance entry */
+  operator_id?: string;
+  /** Seal stored in the fusion provenance entry */
+  stored_seal?: string;
+  /** Seal re-derived from the embedded inputs */
+  computed_seal?: string;
+  /** Indexes of the inputs that caused a non-valid status */
+  affected_inputs?: number[];
+  /** Human-readable explanation for a non-valid status */
+  reason?: string;
+}
+
+/**
+ * Input judgments and weights reconstructed from a fused judgment
+ */
+export interface FusionInputs {
+  judgments: NeutrosophicJudgment[];
+  weights: number[];
+}
+
+/**
+ * Options for verifyFusion
+ */
+export interface FusionVerificationOptions {
+  /** Input judgments; reconstructed from the fused judgment when omitted */
+  inputs?: NeutrosophicJudgment[];
+  /** Input weights; required together with `inputs` */
+  weights?: number[];
+  /** Absolute tolerance for each fused component (default: 1e-9) */
+  tolerance?: number;
+  /** Registry used to resolve the operator ID (default: the global fusion registry) */
+  registry?: FusionOperatorRegistry;
+}
+
+/**
+ * Result of re-running a fusion operator against a fused judgment
+ */
+export interface FusionVerificationResult {
+  /** True when both the seal and the fused values check out */
+  valid: boolean;
+  /** Operator ID recorded in the fusion provenance entry */
+  operator_id: string;
+  /** Whether the stored seal matches the inputs */
+  seal_valid: boolean;
+  /** Seal verification outcome */
+  seal_status: SealVerificationStatus;
+  /** Whether every fused component is within tolerance of the recomputed value */
+  values_valid: boolean;
+  /** Absolute tolerance used for the value comparison */
+  tolerance: number;
+  /** T, I, F carried by the fused judgment */
+  actual: FusionValues;
+  /** T, I, F recomputed from the inputs (absent when inputs are unavailable) */
+  expected?: FusionValues;
+  /** Per-component difference `actual - expected` */
+  deltas?: FusionValues;
+  /** Human-readable explanation for an invalid result */
+  reason?: string;
+}
+
 /**
  * Represents a judgment-weight pair for canonical ordering
  */
@@ -65,6 +163,10 @@ interface JudgmentWeightPair {
  * @param judgments - Array of input Neutrosophic Judgments
  * @param weights - Corresponding weights for each judgment
  * @param operatorId - The fusion operator identifier (e.g., "otp-cawa-v1.1")
+ * @param canonicalization - Canonicalization scheme (default: RFC 8785 style `otp-jcs-v1`);
+ *        pass `otp-json-legacy` to reproduce seals generated before canonical JSON
+ * @param parameters - Fusion parameters the weights were derived with, such as `{ decay }`;
+ *        appended to the sealed input only when given, so seals without parameters are unchanged
  * @returns A SHA-256 hash as a hexadecimal string representing the Conformance Seal
  * @throws {ConformanceError} If inputs are invalid or serialization fails
  * 
@@ -84,7 +186,9 @@ interface JudgmentWeightPair {
 export function generateConformanceSeal(
   judgments: NeutrosophicJudgment[],
   weights: number[],
-  operatorId: string
+  operatorId: string,
+  canonicalization: CanonicalizationId = DEFAULT_CANONICALIZATION,
+  parameters?: Record<string, any>
 ): string {
   // Step 1: Validate inputs
   if (judgments.length !== weights.length) {
@@ -136,6 +240,10 @@ export function generateConformanceSeal(
   });
   
   // Step 3: Sort canonically by source_id from last provenance entry
+  // (legacy seals used the locale-dependent comparison)
+  const compare = canonicalization === LEGACY_CANONICALIZATION
+    ? (a: string, b: string) => a.localeCompare(b)
+    : compareCodeUnits;
   pairs.sort((a, b) => {
     const aSource = a.judgment.provenance_chain.length > 0 
       ? a.judgment.provenance_chain[a.judgment.provenance_chain.length - 1]!.source_id
@@ -144,19 +252,26 @@ export function generateConformanceSeal(
       ? b.judgment.provenance_chain[b.judgment.provenance_chain.length - 1]!.source_id
       : '';
     
-    return aSource.localeCompare(bSource);
+    return compare(aSource, bSource);
   });
   
   // Step 4: Serialize to canonical JSON (no spaces, sorted keys)
   let canonicalJson: string;
   try {
-    canonicalJson = JSON.stringify(pairs, null, 0);
+    canonicalJson = serializeWith(pairs, canonicalization);
   } catch (error) {
     throw new ConformanceError(`Serialization error: ${error}`);
   }
   
   // Step 5: Concatenate components
-  const inputString = `${canonicalJson}${SEAL_SEPARATOR}${operatorId}`;
+  let inputString = `${canonicalJson}${SEAL_SEPARATOR}${operatorId}`;
+  if (parameters !== undefined) {
+    try {
+      inputString += `${SEAL_SEPARATOR}${serializeWith(parameters, canonicalization)}`;
+    } catch (error) {
+      throw new ConformanceError(`Serialization error: ${error}`);
+    }
+  }
   
   // Step 6: Calculate SHA-256 hash
   const hash = createHash('sha256');
@@ -199,26 +314,23 @@ export function verifyConformanceSealWithInputs(
   inputJudgments: NeutrosophicJudgment[],
   weights: number[]
 ): boolean {
-  // Extract the last provenance entry (should be the fusion operation)
-  if (fusedJudgment.provenance_chain.length === 0) {
-    throw new ConformanceError('Empty provenance chain');
-  }
+  const { entry } = findFusionEntry(fusedJudgment);
   
-  const lastEntry = fusedJudgment.provenance_chain[fusedJudgment.provenance_chain.length - 1];
-  
-  // Extract stored seal
-  const storedSeal = (lastEntry as any).conformance_seal;
-  if (!storedSeal) {
-    throw new ConformanceError('Missing conformance seal in fused judgment');
-  }
-  
-  // Extract operator ID
-  const operatorId = lastEntry!.source_id;
+  // Extract stored seal, operator ID and the canonicalization the seal was made with
+  const storedSeal = (entry as any).conformance_seal as string;
+  const operatorId = entry.source_id;
+  const canonicalization = recordedCanonicalization(entry);
   
   // Regenerate the seal with the provided inputs
   let regeneratedSeal: string;
   try {
-    regeneratedSeal = generateConformanceSeal(inputJudgments, weights, operatorId);
+    regeneratedSeal = generateConformanceSeal(
+      inputJudgments,
+      weights,
+      operatorId,
+      canonicalization,
+      sealParameters(entry)
+    );
   } catch (error) {
     throw new ConformanceError(`Failed to regenerate seal: ${error}`);
   }
@@ -230,25 +342,23 @@ export function verifyConformanceSealWithInputs(
 /**
  * Verifies a Conformance Seal against a fused judgment.
  * 
- * This function extracts the necessary components from a fused judgment and
- * attempts to verify the Conformance Seal. Note: This is a simplified version
- * that requires the input judgments and weights to be stored in metadata.
+ * The fusion operators embed a compact description of every input (its
+ * Judgment ID, T/I/F values and provenance length) in the fusion provenance
+ * entry. Together with the input chains that precede the fusion entry this is
+ * enough to reconstruct the inputs and re-derive the seal without any
+ * external data.
  * 
  * @param fusedJudgment - The fused judgment containing the seal to verify
- * @returns True if the seal is valid, False otherwise
- * @throws {ConformanceError} If the judgment is malformed or missing required data
+ * @returns True if the seal is valid, False if the judgment was tampered with,
+ *          truncated or redacted
+ * @throws {ConformanceError} If the judgment is malformed, missing a seal, or
+ *         predates embedded inputs (use verifyConformanceSealWithInputs instead)
  * 
  * @example
  * ```typescript
- * const fusedJudgment = new NeutrosophicJudgment(0.8, 0.2, 0.0, [
- *   { 
- *     source_id: "otp-cawa-v1.1", 
- *     timestamp: "2023-01-01T00:00:00Z", 
- *     conformance_seal: "a4db4938080620093bb04105897a34577009d20b4b0e3724df06ffbf0bf32b81"
- *   }
- * ]);
+ * const fused = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4]);
  * 
- * const isValid = verifyConformanceSeal(fusedJudgment);
+ * const isValid = verifyConformanceSeal(fused);
  * if (isValid) {
  *   console.log("✅ Judgment is mathematically proven conformant!");
  * } else {
@@ -257,30 +367,430 @@ export function verifyConformanceSealWithInputs(
  * ```
  */
 export function verifyConformanceSeal(fusedJudgment: NeutrosophicJudgment): boolean {
-  // Extract the last provenance entry (should be the fusion operation)
-  if (fusedJudgment.provenance_chain.length === 0) {
-    throw new ConformanceError('Empty provenance chain');
+  const result = verifyConformanceSealDetailed(fusedJudgment);
+  
+  if (result.status === 'unverifiable') {
+    throw new ConformanceError(
+      `${result.reason}. Use verifyConformanceSealWithInputs() instead.`
+    );
   }
   
-  const lastEntry = fusedJudgment.provenance_chain[fusedJudgment.provenance_chain.length - 1];
+  return result.valid;
+}
+
+/**
+ * Verifies a Conformance Seal from the fused judgment alone and reports why
+ * verification failed.
+ * 
+ * @param fusedJudgment - The fused judgment containing the seal to verify
+ * @returns A SealVerificationResult describing the outcome
+ * @throws {ConformanceError} If the judgment has no sealed fusion entry
+ * 
+ * @example
+ * ```typescript
+ * const result = verifyConformanceSealDetailed(fusedJudgment);
+ * if (result.status === 'truncated') {
+ *   console.log(`Inputs ${result.affected_inputs} lost provenance entries`);
+ * }
+ * ```
+ */
+export function verifyConformanceSealDetailed(fusedJudgment: NeutrosophicJudgment): SealVerificationResult {
+  const { entry } = findFusionEntry(fusedJudgment);
+  const base = {
+    operator_id: entry.source_id,
+    stored_seal: (entry as any).conformance_seal as string
+  };
   
-  // Extract conformance seal
-  const storedSeal = (lastEntry as any).conformance_seal;
-  if (!storedSeal) {
-    throw new ConformanceError('Missing conformance seal in fused judgment');
+  let inputs: FusionInputs;
+  try {
+    inputs = extractFusionInputs(fusedJudgment);
+  } catch (error) {
+    if (error instanceof InputReconstructionError) {
+      return {
+        ...base,
+        valid: false,
+        status: error.status,
+        affected_inputs: error.affected_inputs,
+        reason: error.message
+      };
+    }
+    throw error;
   }
   
-  // Extract operator ID (not used in this simplified implementation)
-  // const _operatorId = lastEntry!.source_id;
+  let computedSeal: string;
+  try {
+    computedSeal = generateConformanceSeal(
+      inputs.judgments,
+      inputs.weights,
+      base.operator_id,
+      recordedCanonicalization(entry),
+      sealParameters(entry)
+    );
+  } catch (error) {
+    throw new ConformanceError(`Failed to regenerate seal: ${error}`);
+  }
   
-  // For a complete implementation, we need to store the input judgments
-  // and weights in the fusion operation metadata. For now, we'll indicate
-  // this limitation in the error message.
-  throw new ConformanceError(
-    'Complete verification requires input judgments and weights to be stored in fusion metadata. ' +
-    'This is a limitation of the current implementation that will be addressed in the next iteration. ' +
-    'Use verifyConformanceSealWithInputs() instead.'
-  );
+  if (computedSeal !== base.stored_seal) {
+    return {
+      ...base,
+      computed_seal: computedSeal,
+      valid: false,
+      status: 'tampered',
+      reason: 'Re-derived seal does not match the stored seal'
+    };
+  }
+  
+  const reason = derivedWeightsMismatch(inputs, entry);
+  if (reason) {
+    return { ...base, computed_seal: computedSeal, valid: false, status: 'tampered', reason };
+  }
+  
+  return { ...base, computed_seal: computedSeal, valid: true, status: 'valid' };
+}
+
+/**
+ * Reconstructs the input judgments and weights of a fusion operation from the
+ * data embedded in the fused judgment.
+ * 
+ * @param fusedJudgment - The fused judgment
+ * @returns The input judgments (in fusion order) and their weights
+ * @throws {ConformanceError} If the inputs cannot be reconstructed faithfully
+ */
+export function extractFusionInputs(fusedJudgment: NeutrosophicJudgment): FusionInputs {
+  const { entry, index } = findFusionEntry(fusedJudgment);
+  const descriptors = entry.metadata?.['inputs'];
+  const weights = entry.metadata?.['weights'];
+  const canonicalization = recordedCanonicalization(entry);
+  
+  if (!Array.isArray(descriptors) || !Array.isArray(weights)) {
+    throw new InputReconstructionError(
+      'unverifiable',
+      'Fusion entry does not embed its input judgments and weights'
+    );
+  }
+  
+  if (descriptors.length !== weights.length) {
+    throw new InputReconstructionError(
+      'tampered',
+      `Fusion entry records ${descriptors.length} inputs but ${weights.length} weights`
+    );
+  }
+  
+  const malformed = descriptors
+    .map((descriptor: unknown, i: number) => (isInputDescriptor(descriptor) ? -1 : i))
+    .filter((i: number) => i >= 0);
+  if (malformed.length > 0) {
+    throw new InputReconstructionError(
+      'tampered',
+      'Fusion entry records malformed input descriptors',
+      malformed
+    );
+  }
+  
+  // The input chains are concatenated, in fusion order, right before the fusion entry
+  const expectedLength = descriptors.reduce((sum: number, d: InputDescriptor) => sum + d.provenance_length, 0);
+  if (expectedLength > index) {
+    let offset = 0;
+    const affected = descriptors
+      .map((d: InputDescriptor, i: number) => {
+        offset += d.provenance_length;
+        return offset > index ? i : -1;
+      })
+      .filter((i: number) => i >= 0);
+    throw new InputReconstructionError(
+      'truncated',
+      `Expected ${expectedLength} input provenance entries before the fusion entry, found ${index}`,
+      affected
+    );
+  }
+  if (expectedLength < index) {
+    throw new InputReconstructionError(
+      'tampered',
+      `Found ${index - expectedLength} unexpected provenance entries before the fusion entry`
+    );
+  }
+  
+  const chain = fusedJudgment.provenance_chain;
+  const segments: ProvenanceEntry[][] = [];
+  let offset = 0;
+  for (const descriptor of descriptors) {
+    segments.push(chain.slice(offset, offset + descriptor.provenance_length));
+    offset += descriptor.provenance_length;
+  }
+  
+  const redacted = segments
+    .map((segment, i) => (segment.some(e => (e as any).redacted === true) ? i : -1))
+    .filter(i => i >= 0);
+  if (redacted.length > 0) {
+    throw new InputReconstructionError(
+      'redacted',
+      'Input provenance entries were redacted; the seal cannot be re-derived',
+      redacted
+    );
+  }
+  
+  const judgments: NeutrosophicJudgment[] = [];
+  const tampered: number[] = [];
+  descriptors.forEach((descriptor: InputDescriptor, i: number) => {
+    let judgment: NeutrosophicJudgment;
+    try {
+      judgment = new NeutrosophicJudgment(descriptor.T, descriptor.I, descriptor.F, segments[i]!);
+    } catch {
+      tampered.push(i);
+      return;
+    }
+    if (generateJudgmentId(judgment, canonicalization) !== descriptor.judgment_id) {
+      tampered.push(i);
+    }
+    judgments.push(judgment);
+  });
+  
+  if (tampered.length > 0) {
+    throw new InputReconstructionError(
+      'tampered',
+      'Reconstructed inputs do not match their recorded Judgment IDs',
+      tampered
+    );
+  }
+  
+  return { judgments, weights };
+}
+
+/**
+ * Verifies both the Conformance Seal and the fused values of a judgment.
+ * 
+ * The seal only proves which inputs, weights and operator were used; it does not
+ * cover the fused T, I, F. This function resolves the operator ID of the fusion
+ * provenance entry in the fusion operator registry, re-runs the operator on the
+ * inputs and compares each component within a tolerance, so a judgment with a
+ * valid seal but altered numbers is caught. Weights derived from a recorded
+ * reliability weighting or time decay must also follow from it.
+ * 
+ * @param fusedJudgment - The fused judgment to verify
+ * @param options - Explicit inputs/weights and the comparison tolerance
+ * @returns A FusionVerificationResult with seal and value checks
+ * @throws {ConformanceError} If the judgment has no sealed fusion entry or uses an unknown operator
+ * 
+ * @example
+ * ```typescript
+ * const result = verifyFusion(fusedJudgment, { tolerance: 1e-12 });
+ * if (!result.values_valid) {
+ *   console.log(`Fused values were altered: ${JSON.stringify(result.deltas)}`);
+ * }
+ * ```
+ */
+export function verifyFusion(
+  fusedJudgment: NeutrosophicJudgment,
+  options: FusionVerificationOptions = {}
+): FusionVerificationResult {
+  const { entry } = findFusionEntry(fusedJudgment);
+  const operatorId = entry.source_id;
+  const tolerance = options.tolerance ?? DEFAULT_VALUE_TOLERANCE;
+  const actual = { T: fusedJudgment.T, I: fusedJudgment.I, F: fusedJudgment.F };
+  
+  const operator = (options.registry ?? getGlobalFusionRegistry()).get(operatorId);
+  if (!operator) {
+    throw new ConformanceError(`Unknown fusion operator: ${operatorId}`);
+  }
+  
+  let inputs: FusionInputs;
+  if (options.inputs) {
+    if (!options.weights) {
+      throw new ConformanceError('Weights must be provided together with inputs');
+    }
+    inputs = { judgments: options.inputs, weights: options.weights };
+  } else {
+    try {
+      inputs = extractFusionInputs(fusedJudgment);
+    } catch (error) {
+      if (error instanceof InputReconstructionError) {
+        return {
+          valid: false,
+          operator_id: operatorId,
+          seal_valid: false,
+          seal_status: error.status,
+          values_valid: false,
+          tolerance,
+          actual,
+          reason: error.message
+        };
+      }
+      throw error;
+    }
+  }
+  
+  const sealMatches = verifyConformanceSealWithInputs(fusedJudgment, inputs.judgments, inputs.weights);
+  const weightsMismatch = sealMatches ? derivedWeightsMismatch(inputs, entry) : undefined;
+  const sealStatus: SealVerificationStatus = sealMatches && !weightsMismatch ? 'valid' : 'tampered';
+  
+  const expected = entry.metadata?.['decay']?.expired === true
+    ? { ...EXPIRED_FUSION_VALUES }
+    : operator.compute(inputs.judgments, inputs.weights);
+  const deltas = {
+    T: actual.T - expected.T,
+    I: actual.I - expected.I,
+    F: actual.F - expected.F
+  };
+  const valuesValid = [deltas.T, deltas.I, deltas.F].every(d => Math.abs(d) <= tolerance);
+  const sealValid = sealStatus === 'valid';
+  
+  const result: FusionVerificationResult = {
+    valid: sealValid && valuesValid,
+    operator_id: operatorId,
+    seal_valid: sealValid,
+    seal_status: sealStatus,
+    values_valid: valuesValid,
+    tolerance,
+    actual,
+    expected,
+    deltas
+  };
+  
+  if (weightsMismatch) {
+    result.reason = weightsMismatch;
+  } else if (!sealValid) {
+    result.reason = 'Conformance Seal does not match the inputs';
+  } else if (!valuesValid) {
+    result.reason = `Fused values differ from ${operatorId} output by more than ${tolerance}`;
+  }
+  
+  return result;
+}
+
+/**
+ * Locates the most recent sealed fusion entry in a provenance chain
+ * 
+ * @param judgment - The fused judgment
+ * @returns The fusion entry and its index in the provenance chain
+ * @throws {ConformanceError} If the chain is empty or carries no seal
+ */
+export function findFusionEntry(judgment: NeutrosophicJudgment): { entry: ProvenanceEntry; index: number } {
+  const chain = judgment.provenance_chain;
+  if (chain.length === 0) {
+    throw new ConformanceError('Empty provenance chain');
+  }
+  
+  for (let index = chain.length - 1; index >= 0; index--) {
+    if ((chain[index] as any).conformance_seal) {
+      return { entry: chain[index]!, index };
+    }
+  }
+  
+  throw new ConformanceError('Missing conformance seal in fused judgment');
+}
+
+/**
+ * Reads the canonicalization recorded in a fusion entry; entries without one predate it
+ * @private
+ */
+function recordedCanonicalization(entry: ProvenanceEntry): CanonicalizationId {
+  const recorded = entry.metadata?.['canonicalization'];
+  if (recorded === undefined) {
+    return LEGACY_CANONICALIZATION;
+  }
+  if (!isCanonicalizationId(recorded)) {
+    throw new ConformanceError(`Unknown canonicalization: ${String(recorded)}`);
+  }
+  return recorded;
+}
+
+/**
+ * Reads the fusion parameters covered by the seal of a fusion entry
+ * @private
+ */
+function sealParameters(entry: ProvenanceEntry): Record<string, any> | undefined {
+  const parameters: Record<string, any> = {};
+  for (const name of SEALED_PARAMETERS) {
+    if (entry.metadata?.[name] !== undefined) {
+      parameters[name] = entry.metadata[name];
+    }
+  }
+  return Object.keys(parameters).length > 0 ? parameters : undefined;
+}
+
+/**
+ * Checks that the recorded weights follow from the recorded reliability weighting
+ * and time decay, applied in that order
+ * @private
+ * @returns Why they do not, or undefined if they do
+ */
+function derivedWeightsMismatch(inputs: FusionInputs, entry: ProvenanceEntry): string | undefined {
+  const reliability = entry.metadata?.['reliability'];
+  const decay = entry.metadata?.['decay'];
+  const sameValues = (a: unknown, b: readonly unknown[]) =>
+    Array.isArray(a) && a.length === b.length && a.every((value, i) => value === b[i]);
+
+  let weights: number[] = inputs.weights;
+  if (reliability !== undefined) {
+    if (!Array.isArray(reliability.base_weights) || !Array.isArray(reliability.reliabilities) ||
+        !sameValues(reliability.sources, inputs.judgments.map(sourceOf))) {
+      return 'Recorded reliability weighting does not match the fusion inputs';
+    }
+    weights = reliabilityWeights(reliability);
+    if (!sameValues(decay !== undefined ? decay.base_weights : inputs.weights, weights)) {
+      return 'Recorded weights do not follow from the recorded reliability weighting';
+    }
+  }
+
+  if (decay !== undefined) {
+    let expected: number[];
+    try {
+      expected = applyTimeDecay(inputs.judgments, decay);
+    } catch {
+      return 'Recorded weights do not follow from the recorded time decay';
+    }
+    if (!sameValues(inputs.weights, expected)) {
+      return 'Recorded weights do not follow from the recorded time decay';
+    }
+    if ((decay.expired === true) !== expected.every(w => w === 0)) {
+      return 'Recorded expiry does not follow from the recorded time decay';
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Describes one fusion input, as embedded in the fusion entry
+ * @private
+ */
+interface InputDescriptor {
+  judgment_id: string;
+  T: number;
+  I: number;
+  F: number;
+  provenance_length: number;
+}
+
+/**
+ * Checks the shape of an embedded input descriptor before it is trusted
+ * @private
+ */
+function isInputDescriptor(value: unknown): value is InputDescriptor {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const descriptor = value as Record<string, unknown>;
+  return typeof descriptor['judgment_id'] === 'string' &&
+    typeof descriptor['T'] === 'number' &&
+    typeof descriptor['I'] === 'number' &&
+    typeof descriptor['F'] === 'number' &&
+    Number.isInteger(descriptor['provenance_length']) &&
+    (descriptor['provenance_length'] as number) >= 0;
+}
+
+/**
+ * Raised internally when fusion inputs cannot be reconstructed
+ * @private
+ */
+class InputReconstructionError extends ConformanceError {
+  constructor(
+    public readonly status: Exclude<SealVerificationStatus, 'valid'>,
+    message: string,
+    public readonly affected_inputs: number[] = []
+  ) {
+    super(message);
+  }
 }
 
 /**
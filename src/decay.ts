@@ -0,0 +1,178 @@
+/**
+ * Time-Decay Weighting for Fusion
+ *
+ * Fusion normally treats old and fresh evidence alike. With time decay, the
+ * weight of each input is multiplied by a factor that falls with the age of
+ * the input: the time between its most recent provenance timestamp and a
+ * reference time. Three decay functions are supported:
+ *
+ * - `exponential`: the factor halves every `halfLife`
+ * - `linear`: the factor falls from 1 to 0 over `window`, and stays 0 after
+ * - `step`: the factor is 1 up to `cutoff` and 0 after
+ *
+ * Inputs dated after the reference time have age 0. When every input has
+ * decayed to weight 0 there is no evidence left: the fusion is marked expired
+ * and yields pure indeterminacy instead of falling back to equal weights. The
+ * decay parameters, reference time, undecayed weights and expiry are recorded
+ * in the fusion entry and covered by the Conformance Seal, and the recorded
+ * (decayed) weights can be re-derived from them and the inputs.
+ */
+
+import { NeutrosophicJudgment } from './judgment';
+import { FusionValues } from './fusion-operators';
+import { TemporalDuration } from './mapper/types';
+import { parseDuration } from './mapper/temporal';
+
+/**
+ * Decay function names
+ */
+export type TimeDecayFunction = 'exponential' | 'linear' | 'step';
+
+/**
+ * Time decay of fusion weights; durations are milliseconds or ISO 8601 durations
+ */
+export type TimeDecayOptions = (
+  | { function: 'exponential'; halfLife: TemporalDuration }
+  | { function: 'linear'; window: TemporalDuration }
+  | { function: 'step'; cutoff: TemporalDuration }
+) & {
+  /** Time the ages are measured from (default: the fusion timestamp) */
+  referenceTime?: Date | string;
+};
+
+/**
+ * Time decay as recorded in the `decay` metadata of a fusion entry
+ */
+export interface TimeDecayRecord {
+  /** The decay function */
+  function: TimeDecayFunction;
+  /** Half-life of exponential decay */
+  half_life_ms?: number;
+  /** Window of linear decay */
+  window_ms?: number;
+  /** Cutoff of step decay */
+  cutoff_ms?: number;
+  /** Time the ages are measured from */
+  reference_time: string;
+  /** Weights before decay */
+  base_weights: number[];
+  /** Set when every input has decayed to weight 0 */
+  expired?: boolean;
+}
+
+/**
+ * Values of an expired fusion: pure indeterminacy
+ */
+export const EXPIRED_FUSION_VALUES: Readonly<FusionValues> = Object.freeze({ T: 0.0, I: 1.0, F: 0.0 });
+
+/**
+ * Resolve decay options into the record stored in the fusion entry
+ *
+ * @param options - The decay options
+ * @param baseWeights - The weights before decay
+ * @param now - Reference time used when the options give none
+ * @returns The decay record
+ * @throws {Error} If the decay function is unknown, a duration is not positive or the reference time is invalid
+ */
+export function resolveTimeDecay(options: TimeDecayOptions, baseWeights: number[], now: Date): TimeDecayRecord {
+  const referenceTime = options.referenceTime === undefined ? now : new Date(options.referenceTime);
+  if (isNaN(referenceTime.getTime())) {
+    throw new Error(`Invalid decay reference time: ${String(options.referenceTime)}`);
+  }
+
+  const record = (parameter: 'half_life_ms' | 'window_ms' | 'cutoff_ms', duration: TemporalDuration): TimeDecayRecord => {
+    const millis = parseDuration(duration);
+    if (millis <= 0) {
+      throw new Error(`Decay ${parameter} must be positive, got ${millis}`);
+    }
+    return {
+      function: options.function,
+      [parameter]: millis,
+      reference_time: referenceTime.toISOString(),
+      base_weights: [...baseWeights]
+    };
+  };
+
+  switch (options.function) {
+    case 'exponential':
+      return record('half_life_ms', options.halfLife);
+    case 'linear':
+      return record('window_ms', options.window);
+    case 'step':
+      return record('cutoff_ms', options.cutoff);
+    default:
+      throw new Error(
+        `Unknown decay function '${(options as any).function}': expected one of exponential, linear, step`
+      );
+  }
+}
+
+/**
+ * Compute the decayed weights of fusion inputs
+ *
+ * @param judgments - The inputs
+ * @param decay - The decay record, with one base weight per input
+ * @returns Each base weight times the decay factor for the age of its input
+ * @throws {Error} If an input has no parseable provenance timestamp or the record is malformed
+ */
+export function applyTimeDecay(judgments: readonly NeutrosophicJudgment[], decay: TimeDecayRecord): number[] {
+  const reference = Date.parse(decay.reference_time);
+  if (!Array.isArray(decay.base_weights) || decay.base_weights.length !== judgments.length || isNaN(reference)) {
+    throw new Error('Decay record does not match the fusion inputs');
+  }
+
+  return judgments.map((judgment, i) => {
+    const age = Math.max(0, reference - latestTimestamp(judgment, i));
+    return decay.base_weights[i]! * decayFactor(decay, age);
+  });
+}
+
+/**
+ * Decay factor for an age
+ *
+ * @param decay - The decay record
+ * @param age - Age in milliseconds (non-negative)
+ * @returns The factor, between 0 and 1
+ * @throws {Error} If the record lacks the parameter of its decay function
+ */
+export function decayFactor(decay: TimeDecayRecord, age: number): number {
+  switch (decay.function) {
+    case 'exponential':
+      return Math.pow(0.5, age / requirePositive(decay.half_life_ms, 'half_life_ms'));
+    case 'linear':
+      return Math.max(0, 1 - age / requirePositive(decay.window_ms, 'window_ms'));
+    case 'step':
+      return age <= requirePositive(decay.cutoff_ms, 'cutoff_ms') ? 1.0 : 0.0;
+    default:
+      throw new Error(`Unknown decay function '${String((decay as any).function)}'`);
+  }
+}
+
+/**
+ * Most recent provenance timestamp of a judgment
+ * @private
+ */
+function latestTimestamp(judgment: NeutrosophicJudgment, index: number): number {
+  let latest = -Infinity;
+  for (const entry of judgment.provenance_chain) {
+    const time = Date.parse(entry.timestamp);
+    if (time > latest) {
+      latest = time;
+    }
+  }
+  if (latest === -Infinity) {
+    throw new Error(`Input ${index} has no valid provenance timestamp`);
+  }
+  return latest;
+}
+
+/**
+ * Read a positive decay parameter
+ * @private
+ */
+function requirePositive(value: number | undefined, name: string): number {
+  if (typeof value !== 'number' || !(value > 0)) {
+    throw new Error(`Decay record has no positive ${name}`);
+  }
+  return value;
+}
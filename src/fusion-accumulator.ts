@@ -0,0 +1,233 @@
+/**
+ * Incremental Conflict-Aware Weighted Average
+ *
+ * `conflict_aware_weighted_average` recomputes the fusion from the full list
+ * of judgments on every call. ConflictAwareAccumulator keeps the running sums
+ * the operator needs instead, so judgments can be added one at a time and the
+ * fused values read at any point without revisiting earlier inputs.
+ *
+ * The inputs themselves are kept too: the sealed judgment includes their
+ * provenance chains, and the Conformance Seal covers every input.
+ */
+
+import { NeutrosophicJudgment } from './judgment';
+import { FusionOptions, fuse, sealFusion } from './fusion';
+import { FusionValues } from './fusion-operators';
+import { getGlobalFusionRegistry } from './fusion-registry';
+import { generateJudgmentId } from './judgment-id';
+
+const CAWA_OPERATOR_ID = 'otp-cawa-v1.1';
+
+/**
+ * Checkpoint of a ConflictAwareAccumulator, as produced by `toJSON`
+ */
+export interface AccumulatorSnapshot {
+  /** ID of the fusion operator the accumulator computes */
+  operator_id: string;
+  /** The inputs in the order they were added */
+  inputs: Array<{ judgment: any; weight: number }>;
+}
+
+/**
+ * Accumulator for the conflict-aware weighted average (otp-cawa-v1.1)
+ *
+ * Adding a judgment updates the running sums of the conflict-adjusted weights
+ * (`weight * (1 - T * F)`), of T, I and F times those weights, and of the
+ * unweighted T, I and F used when every adjusted weight is zero. The sums are
+ * accumulated in the same order as the batch operator, so `values()` and
+ * `fuse()` are identical to `conflict_aware_weighted_average` over the same
+ * inputs and weights. Removing a judgment re-sums the remaining inputs in
+ * order, since subtracting from a floating-point sum would not reproduce the
+ * batch result exactly.
+ *
+ * @example
+ * ```typescript
+ * const accumulator = new ConflictAwareAccumulator();
+ * accumulator.add(judgment1, 0.6).add(judgment2, 0.4);
+ * accumulator.values();                    // { T, I, F }
+ * accumulator.remove(judgment1);
+ * const fused = accumulator.fuse({ clock }); // sealed, with Judgment ID
+ *
+ * const checkpoint = JSON.stringify(accumulator);
+ * const restored = ConflictAwareAccumulator.fromJSON(JSON.parse(checkpoint));
+ * ```
+ */
+export class ConflictAwareAccumulator {
+  private readonly judgments: NeutrosophicJudgment[] = [];
+  private readonly weights: number[] = [];
+  private totalAdjustedWeight = 0;
+  private weightedT = 0;
+  private weightedI = 0;
+  private weightedF = 0;
+  private sumT = 0;
+  private sumI = 0;
+  private sumF = 0;
+
+  /**
+   * Number of judgments in the accumulator
+   */
+  get size(): number {
+    return this.judgments.length;
+  }
+
+  /**
+   * Add a judgment
+   *
+   * @param judgment - The judgment
+   * @param weight - Its weight (default: 1)
+   * @returns The accumulator, for chaining
+   * @throws {Error} If the judgment is not a NeutrosophicJudgment or the weight is not a finite, non-negative number
+   */
+  add(judgment: NeutrosophicJudgment, weight: number = 1.0): this {
+    if (!(judgment instanceof NeutrosophicJudgment)) {
+      throw new Error('Only NeutrosophicJudgment objects can be added to the accumulator');
+    }
+    if (typeof weight !== 'number' || !Number.isFinite(weight)) {
+      throw new Error(`Weight must be a finite number, got ${weight}`);
+    }
+    if (weight < 0) {
+      throw new Error(`Weight must not be negative, got ${weight}`);
+    }
+
+    this.judgments.push(judgment);
+    this.weights.push(weight);
+    this.accumulate(judgment, weight);
+    return this;
+  }
+
+  /**
+   * Remove a previously added judgment
+   *
+   * If the judgment was added more than once, the earliest occurrence is removed.
+   *
+   * @param judgment - The judgment, or its Judgment ID
+   * @returns true if a judgment was removed
+   */
+  remove(judgment: NeutrosophicJudgment | string): boolean {
+    let index = this.judgments.indexOf(judgment as NeutrosophicJudgment);
+    if (index === -1) {
+      const judgmentId = typeof judgment === 'string' ? judgment : generateJudgmentId(judgment);
+      index = this.judgments.findIndex(each => generateJudgmentId(each) === judgmentId);
+    }
+    if (index === -1) {
+      return false;
+    }
+
+    this.judgments.splice(index, 1);
+    this.weights.splice(index, 1);
+    this.recompute();
+    return true;
+  }
+
+  /**
+   * Get the fused T, I and F values
+   *
+   * @returns The values `conflict_aware_weighted_average` computes for the current inputs
+   * @throws {Error} If the accumulator is empty
+   */
+  values(): FusionValues {
+    if (this.judgments.length === 0) {
+      throw new Error('Cannot fuse an empty accumulator');
+    }
+
+    if (this.totalAdjustedWeight === 0) {
+      const numJudgments = this.judgments.length;
+      return { T: this.sumT / numJudgments, I: this.sumI / numJudgments, F: this.sumF / numJudgments };
+    }
+
+    return {
+      T: this.weightedT / this.totalAdjustedWeight,
+      I: this.weightedI / this.totalAdjustedWeight,
+      F: this.weightedF / this.totalAdjustedWeight
+    };
+  }
+
+  /**
+   * Get the sealed fused judgment
+   *
+   * With reliability weighting or time decay the weights are derived when
+   * fusing, so the fusion is recomputed from the inputs rather than the running sums.
+   *
+   * @param options - Fusion options such as a clock, signing key, hash chaining, reliability or time decay
+   * @returns The judgment `conflict_aware_weighted_average` produces for the current inputs and weights
+   * @throws {Error} If the accumulator is empty
+   */
+  fuse(options: FusionOptions = {}): NeutrosophicJudgment {
+    const values = this.values();
+    if (options.decay || options.reliability) {
+      return fuse(CAWA_OPERATOR_ID, [...this.judgments], [...this.weights], options);
+    }
+    const operator = (options.registry ?? getGlobalFusionRegistry()).resolve(CAWA_OPERATOR_ID);
+    return sealFusion(operator, [...this.judgments], [...this.weights], values, options);
+  }
+
+  /**
+   * Get the inputs in the order they were added
+   *
+   * @returns The judgments and their weights
+   */
+  inputs(): Array<{ judgment: NeutrosophicJudgment; weight: number }> {
+    return this.judgments.map((judgment, i) => ({ judgment, weight: this.weights[i]! }));
+  }
+
+  /**
+   * Serialize the accumulator for checkpointing
+   *
+   * @returns A JSON-compatible snapshot
+   */
+  toJSON(): AccumulatorSnapshot {
+    return {
+      operator_id: CAWA_OPERATOR_ID,
+      inputs: this.judgments.map((judgment, i) => ({ judgment: judgment.toJSON(), weight: this.weights[i]! }))
+    };
+  }
+
+  /**
+   * Restore an accumulator from a snapshot
+   *
+   * @param snapshot - A snapshot produced by `toJSON`
+   * @returns The accumulator, with the same inputs and values
+   * @throws {Error} If the snapshot is for another operator, an entry is not an input, or an input is invalid
+   */
+  static fromJSON(snapshot: AccumulatorSnapshot): ConflictAwareAccumulator {
+    const isInput = (input: unknown): input is AccumulatorSnapshot['inputs'][number] =>
+      typeof input === 'object' && input !== null &&
+      typeof (input as any).judgment === 'object' && (input as any).judgment !== null;
+    if (!snapshot || snapshot.operator_id !== CAWA_OPERATOR_ID || !Array.isArray(snapshot.inputs) ||
+        !snapshot.inputs.every(isInput)) {
+      throw new Error(`Snapshot is not a checkpoint of a ${CAWA_OPERATOR_ID} accumulator`);
+    }
+
+    const accumulator = new ConflictAwareAccumulator();
+    for (const input of snapshot.inputs) {
+      accumulator.add(NeutrosophicJudgment.fromJSON(input.judgment), input.weight);
+    }
+    return accumulator;
+  }
+
+  /**
+   * Add a judgment to the running sums
+   * @private
+   */
+  private accumulate(judgment: NeutrosophicJudgment, weight: number): void {
+    const adjustedWeight = weight * (1 - judgment.T * judgment.F);
+    this.totalAdjustedWeight += adjustedWeight;
+    this.weightedT += judgment.T * adjustedWeight;
+    this.weightedI += judgment.I * adjustedWeight;
+    this.weightedF += judgment.F * adjustedWeight;
+    this.sumT += judgment.T;
+    this.sumI += judgment.I;
+    this.sumF += judgment.F;
+  }
+
+  /**
+   * Rebuild the running sums from the inputs, in order
+   * @private
+   */
+  private recompute(): void {
+    this.totalAdjustedWeight = 0;
+    this.weightedT = this.weightedI = this.weightedF = 0;
+    this.sumT = this.sumI = this.sumF = 0;
+    this.judgments.forEach((judgment, i) => this.accumulate(judgment, this.weights[i]!));
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Fusion Operator Computations for OpenTrust Protocol
+ *
+ * This module contains the pure numerical core of each standard fusion operator.
+ * The functions compute the fused T, I, F values only; sealing, provenance and
+ * Judgment ID handling live in the fusion module. Keeping the math separate lets
+ * seal verification re-run an operator and check the fused values it produced.
+ */
+
+import { NeutrosophicJudgment } from './judgment';
+
+/**
+ * The T, I, F values produced by a fusion operator
+ */
+export interface FusionValues {
+  T: number;
+  I: number;
+  F: number;
+}
+
+/**
+ * Computes the conflict-aware weighted average of a list of judgments.
+ *
+ * Each weight is adjusted by `1 - T * F` so that internally conflicting judgments
+ * contribute less. If all adjusted weights are zero, falls back to an unweighted average.
+ *
+ * @param judgments - The judgments to fuse
+ * @param weights - A numeric weight for each judgment
+ * @returns The fused T, I, F values
+ */
+export function computeConflictAwareWeightedAverage(
+  judgments: readonly NeutrosophicJudgment[],
+  weights: readonly number[]
+): FusionValues {
+  // Calculate adjusted weights based on conflicts
+  const adjustedWeights: number[] = [];
+  for (let i = 0; i < judgments.length; i++) {
+    const judgment = judgments[i]!;
+    const conflictScore = judgment.T * judgment.F;
+    const adjustedWeight = weights[i]! * (1 - conflictScore);
+    adjustedWeights.push(adjustedWeight);
+  }
+
+  const totalAdjustedWeight = adjustedWeights.reduce((sum, w) => sum + w, 0);
+
+  if (totalAdjustedWeight === 0) {
+    // Edge case: all adjusted weights are zero, fallback to unweighted average
+    const numJudgments = judgments.length;
+    return {
+      T: judgments.reduce((sum, j) => sum + j.T, 0) / numJudgments,
+      I: judgments.reduce((sum, j) => sum + j.I, 0) / numJudgments,
+      F: judgments.reduce((sum, j) => sum + j.F, 0) / numJudgments
+    };
+  }
+
+  // Normal case: use adjusted weights
+  return {
+    T: judgments.reduce((sum, j, i) => sum + j.T * adjustedWeights[i]!, 0) / totalAdjustedWeight,
+    I: judgments.reduce((sum, j, i) => sum + j.I * adjustedWeights[i]!, 0) / totalAdjustedWeight,
+    F: judgments.reduce((sum, j, i) => sum + j.F * adjustedWeights[i]!, 0) / totalAdjustedWeight
+  };
+}
+
+/**
+ * Computes the optimistic fusion (max T, min F, average I) of a list of judgments.
+ *
+ * With weights, only judgments of positive weight are considered (all of them if
+ * none has one) and I is the weighted average. Equal weights give the unweighted result.
+ *
+ * @param judgments - The judgments to fuse
+ * @param weights - Optional weight for each judgment, such as time-decayed weights
+ * @returns The fused T, I, F values, scaled to satisfy the conservation constraint
+ */
+export function computeOptimisticFusion(
+  judgments: readonly NeutrosophicJudgment[],
+  weights?: readonly number[]
+): FusionValues {
+  const { considered, I } = weightedIndeterminacy(judgments, weights);
+  return conserve({
+    T: Math.max(...considered.map(j => j.T)),
+    I,
+    F: Math.min(...considered.map(j => j.F))
+  });
+}
+
+/**
+ * Computes the pessimistic fusion (min T, max F, average I) of a list of judgments.
+ *
+ * Weights are handled as in computeOptimisticFusion.
+ *
+ * @param judgments - The judgments to fuse
+ * @param weights - Optional weight for each judgment, such as time-decayed weights
+ * @returns The fused T, I, F values, scaled to satisfy the conservation constraint
+ */
+export function computePessimisticFusion(
+  judgments: readonly NeutrosophicJudgment[],
+  weights?: readonly number[]
+): FusionValues {
+  const { considered, I } = weightedIndeterminacy(judgments, weights);
+  return conserve({
+    T: Math.min(...considered.map(j => j.T)),
+    I,
+    F: Math.max(...considered.map(j => j.F))
+  });
+}
+
+/**
+ * Selects the judgments of positive weight and averages their I by weight
+ * @private
+ */
+function weightedIndeterminacy(
+  judgments: readonly NeutrosophicJudgment[],
+  weights?: readonly number[]
+): { considered: readonly NeutrosophicJudgment[]; I: number } {
+  const positive = weights ? judgments.filter((_, i) => weights[i]! > 0) : [];
+  if (!weights || positive.length === 0) {
+    return { considered: judgments, I: judgments.reduce((sum, j) => sum + j.I, 0) / judgments.length };
+  }
+
+  const positiveWeights = weights.filter(w => w > 0);
+  return {
+    considered: positive,
+    I: positive.reduce((sum, j, i) => sum + j.I * positiveWeights[i]!, 0) /
+      positiveWeights.reduce((sum, w) => sum + w, 0)
+  };
+}
+
+/**
+ * Ensures the conservation constraint is satisfied
+ * @private
+ */
+function conserve(values: FusionValues): FusionValues {
+  const total = values.T + values.I + values.F;
+  if (total > 1.0) {
+    // Scale down proportionally to maintain relative relationships
+    return { T: values.T / total, I: values.I / total, F: values.F / total };
+  }
+  return values;
+}
@@ -0,0 +1,217 @@
+/**
+ * Fusion Operator Registry for OpenTrust Protocol
+ *
+ * Central registry of fusion operators keyed by versioned operator ID
+ * (e.g. `otp-cawa-v1.1`). Every registered operator is run through the same
+ * generic `fuse` entry point, so domain-specific operators receive the same
+ * Conformance Seal, provenance entry and Judgment ID treatment as the standard
+ * ones, and seal verification can resolve any of them by ID.
+ */
+
+import { NeutrosophicJudgment } from './judgment';
+import {
+  FusionValues,
+  computeConflictAwareWeightedAverage,
+  computeOptimisticFusion,
+  computePessimisticFusion
+} from './fusion-operators';
+
+// Operator IDs must end with a version suffix such as "-v1" or "-v1.1"
+const OPERATOR_ID_PATTERN = /^[a-z0-9][a-z0-9-]*-v\d+(\.\d+)*$/;
+
+/**
+ * Definition of a fusion operator
+ */
+export interface FusionOperator {
+  /** Versioned operator ID recorded as the fusion entry's source_id (e.g. "otp-cawa-v1.1") */
+  id: string;
+  /** Operator name recorded in the fusion entry metadata */
+  name: string;
+  /** Human-readable description of the operation */
+  description: string;
+  /** Whether the operator consumes weights; unweighted operators are sealed with equal weights */
+  weighted: boolean;
+  /**
+   * Compute the fused values
+   * @param judgments - The judgments to fuse (validated and non-empty)
+   * @param weights - One weight per judgment (equal weights for unweighted operators)
+   * @returns The fused T, I, F values
+   */
+  compute(judgments: NeutrosophicJudgment[], weights: number[]): FusionValues;
+}
+
+/**
+ * The standard OTP fusion operators
+ */
+export const BUILTIN_FUSION_OPERATORS: readonly FusionOperator[] = Object.freeze([
+  {
+    id: 'otp-cawa-v1.1',
+    name: 'conflict_aware_weighted_average',
+    description: 'Conflict-aware weighted average fusion operation',
+    weighted: true,
+    compute: computeConflictAwareWeightedAverage
+  },
+  {
+    id: 'otp-optimistic-v1.1',
+    name: 'optimistic_fusion',
+    description: 'Optimistic fusion operation',
+    weighted: false,
+    compute: (judgments, weights) => computeOptimisticFusion(judgments, weights)
+  },
+  {
+    id: 'otp-pessimistic-v1.1',
+    name: 'pessimistic_fusion',
+    description: 'Pessimistic fusion operation',
+    weighted: false,
+    compute: (judgments, weights) => computePessimisticFusion(judgments, weights)
+  }
+]);
+
+/**
+ * Registry for fusion operators
+ *
+ * Example:
+ * ```typescript
+ * const registry = getGlobalFusionRegistry();
+ *
+ * registry.register({
+ *   id: 'acme-median-v1.0',
+ *   name: 'median_fusion',
+ *   description: 'Component-wise median fusion operation',
+ *   weighted: false,
+ *   compute: judgments => ({
+ *     T: median(judgments.map(j => j.T)),
+ *     I: median(judgments.map(j => j.I)),
+ *     F: median(judgments.map(j => j.F))
+ *   })
+ * });
+ *
+ * const fused = fuse('acme-median-v1.0', judgments);
+ * ```
+ */
+export class FusionOperatorRegistry {
+  private operators: Map<string, FusionOperator> = new Map();
+
+  /**
+   * Register a fusion operator
+   *
+   * @param operator - The operator to register
+   * @throws Error if the ID is not versioned or is already registered
+   */
+  register(operator: FusionOperator): void {
+    if (!operator.id || !OPERATOR_ID_PATTERN.test(operator.id)) {
+      throw new Error(
+        `Fusion operator ID '${operator.id}' must be lowercase and end with a version suffix (e.g. 'otp-cawa-v1.1')`
+      );
+    }
+
+    if (typeof operator.compute !== 'function') {
+      throw new Error(`Fusion operator '${operator.id}' must define a compute function`);
+    }
+
+    if (this.operators.has(operator.id)) {
+      throw new Error(`Fusion operator with ID '${operator.id}' is already registered`);
+    }
+
+    this.operators.set(operator.id, operator);
+  }
+
+  /**
+   * Get an operator by ID
+   *
+   * @param id - The operator ID
+   * @returns The operator or undefined if not found
+   */
+  get(id: string): FusionOperator | undefined {
+    return this.operators.get(id);
+  }
+
+  /**
+   * Get an operator by ID, failing if it is not registered
+   *
+   * @param id - The operator ID
+   * @returns The operator
+   * @throws Error if the operator is not registered
+   */
+  resolve(id: string): FusionOperator {
+    const operator = this.operators.get(id);
+    if (!operator) {
+      throw new Error(`Unknown fusion operator: ${id}`);
+    }
+    return operator;
+  }
+
+  /**
+   * Check if an operator is registered
+   *
+   * @param id - The operator ID
+   * @returns true if the operator is registered
+   */
+  has(id: string): boolean {
+    return this.operators.has(id);
+  }
+
+  /**
+   * List all registered operator IDs
+   *
+   * @returns Array of operator IDs
+   */
+  list(): string[] {
+    return Array.from(this.operators.keys());
+  }
+
+  /**
+   * Remove an operator by ID
+   *
+   * @param id - The operator ID
+   * @returns true if removed, false if not found
+   */
+  unregister(id: string): boolean {
+    return this.operators.delete(id);
+  }
+
+  /**
+   * Get the count of registered operators
+   *
+   * @returns Number of registered operators
+   */
+  count(): number {
+    return this.operators.size;
+  }
+}
+
+/**
+ * Register the standard OTP fusion operators in a registry
+ *
+ * @param registry - The registry to populate
+ */
+export function registerBuiltinFusionOperators(registry: FusionOperatorRegistry): void {
+  for (const operator of BUILTIN_FUSION_OPERATORS) {
+    if (!registry.has(operator.id)) {
+      registry.register(operator);
+    }
+  }
+}
+
+// Singleton instance for global access
+let globalFusionRegistry: FusionOperatorRegistry | null = null;
+
+/**
+ * Get the global fusion operator registry, pre-populated with the standard operators
+ *
+ * @returns The global FusionOperatorRegistry instance
+ */
+export function getGlobalFusionRegistry(): FusionOperatorRegistry {
+  if (!globalFusionRegistry) {
+    globalFusionRegistry = new FusionOperatorRegistry();
+    registerBuiltinFusionOperators(globalFusionRegistry);
+  }
+  return globalFusionRegistry;
+}
+
+/**
+ * Reset the global fusion operator registry to the standard operators
+ */
+export function resetGlobalFusionRegistry(): void {
+  globalFusionRegistry = null;
+}
@@ -15,7 +15,62 @@
 
 import { NeutrosophicJudgment, ProvenanceEntry } from './judgment';
 import { generateConformanceSeal, createFusionProvenanceEntry } from './conformance';
-import { ensureJudgmentId } from './judgment-id';
+import { ensureJudgmentId, generateJudgmentId } from './judgment-id';
+import { FusionOperator, FusionOperatorRegistry, getGlobalFusionRegistry } from './fusion-registry';
+import { FusionValues } from './fusion-operators';
+import { ClockOptions, FixedClock, currentTimestamp, getClock } from './clock';
+import { DEFAULT_CANONICALIZATION } from './canonical';
+import { SigningKey, signFusionProvenanceEntry } from './signing';
+import { digestProvenanceEntry, isLinkedChain, linkJudgment } from './provenance-chain';
+import { ProvenanceGraph } from './provenance-graph';
+import {
+  EXPIRED_FUSION_VALUES,
+  TimeDecayOptions,
+  TimeDecayRecord,
+  applyTimeDecay,
+  resolveTimeDecay
+} from './decay';
+import { ReliabilityProfile, ReliabilityRecord, reliabilityWeights, resolveReliability } from './reliability';
+
+/**
+ * Options accepted by the generic fuse entry point
+ */
+export interface FusionOptions extends ClockOptions {
+  /** Registry used to resolve the operator ID (default: the global fusion registry) */
+  registry?: FusionOperatorRegistry;
+  /** Key used to sign the fusion provenance entry (default: unsigned) */
+  signingKey?: SigningKey;
+  /**
+   * Hash-link the fused provenance chain (default: only when every input chain is linked).
+   * Input chains are linked first and the fusion entry records their heads in `parent_digests`.
+   */
+  hashChain?: boolean;
+  /**
+   * Decay each weight with the age of its input's most recent provenance timestamp (default: no decay).
+   * Unweighted operators are decayed from equal weights. If every weight decays to 0, the fusion is
+   * marked expired and yields pure indeterminacy. The decay is recorded in the fusion entry and sealed.
+   */
+  decay?: TimeDecayOptions;
+  /**
+   * Weight each input by the reliability of its source (default: no reliability weighting).
+   * The reliabilities multiply the given weights, or equal weights, before any time decay.
+   * The profile ID, version, revision and digest are recorded in the fusion entry and sealed.
+   */
+  reliability?: ReliabilityProfile;
+  /** Reliabilities that replace the profile's for some sources; requires `reliability` */
+  reliabilityOverrides?: Record<string, number>;
+}
+
+/**
+ * Parameters the fusion weights were derived with, recorded in the fusion
+ * entry metadata and covered by the Conformance Seal
+ */
+export interface FusionParameters {
+  /** Reliability weighting */
+  reliability?: ReliabilityRecord;
+  /** Time decay */
+  decay?: TimeDecayRecord;
+}
 
 /**
  * Validates inputs for fusion functions
@@ -44,57 +99,137 @@ function validateInputs(
   }
 }
 
+/**
+ * Describes the fusion inputs in the compact, content-addressed form stored in
+ * the fusion provenance entry. Together with the concatenated input chains this
+ * lets verifyConformanceSeal re-derive the inputs from the fused judgment alone.
+ * @private
+ */
+function describeInputs(judgments: NeutrosophicJudgment[]): Array<Record<string, any>> {
+  return judgments.map(judgment => ({
+    judgment_id: generateJudgmentId(judgment, DEFAULT_CANONICALIZATION),
+    T: judgment.T,
+    I: judgment.I,
+    F: judgment.F,
+    provenance_length: judgment.provenance_chain.length
+  }));
+}
 
 /**
- * Fuses a list of judgments using the conflict-aware weighted average.
- * This is the primary and recommended operator in OTP.
+ * Fuses a list of judgments with any registered fusion operator.
+ * 
+ * The operator is resolved by its versioned ID in the fusion operator registry.
+ * Every operator, standard or custom, goes through the same pipeline:
  * 
  * **REVOLUTIONARY**: The fused judgment automatically includes:
  * - **Conformance Seal**: Mathematical proof of specification compliance
+ * - **Provenance**: The input chains followed by a sealed fusion entry that
+ *   describes every input, so ProvenanceGraph.fromJudgment can recover the
+ *   graph of who was fused with whom (`fuseGraphs` returns that graph directly)
  * - **Judgment ID**: Unique identifier for Circle of Trust tracking
  * 
+ * @param operatorId - Versioned operator ID (e.g. "otp-cawa-v1.1")
  * @param judgments - A list of NeutrosophicJudgment objects to fuse
- * @param weights - A list of numeric weights corresponding to each judgment
- * @returns A new NeutrosophicJudgment object representing the fused judgment with
- *          automatic Conformance Seal and Judgment ID generation
- * @throws {Error} If validation fails
+ * @param weights - Weights for weighted operators (default: equal weights)
+ * @param options - Fusion options such as a custom operator registry or clock
+ * @returns A new NeutrosophicJudgment representing the fused judgment
+ * @throws {Error} If validation fails or the operator is unknown
+ * 
+ * @example
+ * ```typescript
+ * const fused = fuse('otp-cawa-v1.1', [judgment1, judgment2], [0.6, 0.4]);
+ * ```
  */
-export function conflict_aware_weighted_average(
-  judgments: NeutrosophicJudgment[], 
-  weights: number[]
+export function fuse(
+  operatorId: string,
+  judgments: NeutrosophicJudgment[],
+  weights?: number[],
+  options: FusionOptions = {}
 ): NeutrosophicJudgment {
+  const operator = (options.registry ?? getGlobalFusionRegistry()).resolve(operatorId);
+
   validateInputs(judgments, weights);
 
-  // Calculate adjusted weights based on conflicts
-  const adjustedWeights: number[] = [];
-  for (let i = 0; i < judgments.length; i++) {
-    const judgment = judgments[i]!;
-    const conflictScore = judgment.T * judgment.F;
-    const adjustedWeight = weights[i]! * (1 - conflictScore);
-    adjustedWeights.push(adjustedWeight);
+  if (weights && !operator.weighted) {
+    throw new Error(`Fusion operator '${operator.id}' does not accept weights`);
   }
 
-  const totalAdjustedWeight = adjustedWeights.reduce((sum, w) => sum + w, 0);
-  
-  let finalT: number, finalI: number, finalF: number;
-  
-  if (totalAdjustedWeight === 0) {
-    // Edge case: all adjusted weights are zero, fallback to unweighted average
-    const numJudgments = judgments.length;
-    finalT = judgments.reduce((sum, j) => sum + j.T, 0) / numJudgments;
-    finalI = judgments.reduce((sum, j) => sum + j.I, 0) / numJudgments;
-    finalF = judgments.reduce((sum, j) => sum + j.F, 0) / numJudgments;
-  } else {
-    // Normal case: use adjusted weights
-    finalT = judgments.reduce((sum, j, i) => sum + j.T * adjustedWeights[i]!, 0) / totalAdjustedWeight;
-    finalI = judgments.reduce((sum, j, i) => sum + j.I * adjustedWeights[i]!, 0) / totalAdjustedWeight;
-    finalF = judgments.reduce((sum, j, i) => sum + j.F * adjustedWeights[i]!, 0) / totalAdjustedWeight;
+  // Operators without weights are sealed with equal weights
+  let sealWeights = weights ?? Array(judgments.length).fill(1.0);
+  const parameters: FusionParameters = {};
+
+  if (options.reliabilityOverrides && !options.reliability) {
+    throw new Error('reliabilityOverrides require a reliability profile');
+  }
+  if (options.reliability) {
+    parameters.reliability = resolveReliability(
+      judgments,
+      sealWeights,
+      options.reliability,
+      options.reliabilityOverrides
+    );
+    sealWeights = reliabilityWeights(parameters.reliability);
+  }
+
+  const { decay } = options;
+  if (decay) {
+    // Read the clock once so the default reference time is the fusion timestamp
+    const clock = new FixedClock((options.clock ?? getClock()).now());
+    options = { ...options, clock };
+    parameters.decay = resolveTimeDecay(decay, sealWeights, clock.now());
+    sealWeights = applyTimeDecay(judgments, parameters.decay);
+    if (sealWeights.every(w => w === 0)) {
+      // No evidence is left, so the expired inputs must not come back with equal weights
+      parameters.decay.expired = true;
+    }
+  }
+
+  const values = parameters.decay?.expired ? { ...EXPIRED_FUSION_VALUES } : operator.compute(judgments, sealWeights);
+  return sealFusion(operator, judgments, sealWeights, values, options, parameters);
+}
+
+/**
+ * Builds the fused judgment for values already computed by an operator.
+ *
+ * This is the second half of `fuse`: it links the input chains if requested,
+ * generates the Conformance Seal, appends the fusion entry and assigns the
+ * Judgment ID. Callers that maintain fused values incrementally use it to seal
+ * them; the values must be those the operator computes for the inputs, or the
+ * seal will not verify against them.
+ *
+ * @param operator - The fusion operator
+ * @param judgments - The validated input judgments
+ * @param weights - The weight of each input (equal weights for unweighted operators)
+ * @param values - The fused T, I, F values
+ * @param options - Fusion options such as a clock, signing key or hash chaining
+ * @param parameters - Reliability weighting and time decay the weights were derived with,
+ *   recorded in the fusion entry and sealed
+ * @returns The fused judgment with Conformance Seal and Judgment ID
+ */
+export function sealFusion(
+  operator: FusionOperator,
+  judgments: NeutrosophicJudgment[],
+  weights: number[],
+  values: FusionValues,
+  options: FusionOptions = {},
+  parameters: FusionParameters = {}
+): NeutrosophicJudgment {
+  const hashChain = options.hashChain ?? judgments.every(j => isLinkedChain(j.provenance_chain));
+  if (hashChain) {
+    // Links are not covered by Judgment IDs or seals, so linking leaves both unchanged
+    judgments = judgments.map(linkJudgment);
   }
 
   // **REVOLUTIONARY**: Generate Conformance Seal
   let conformanceSeal: string | undefined;
   try {
-    conformanceSeal = generateConformanceSeal(judgments, weights, 'otp-cawa-v1.1');
+    conformanceSeal = generateConformanceSeal(
+      judgments,
+      weights,
+      operator.id,
+      DEFAULT_CANONICALIZATION,
+      Object.keys(parameters).length > 0 ? parameters : undefined
+    );
   } catch (error) {
     // If seal generation fails, we should still proceed but log the error
     // This ensures backward compatibility
@@ -110,25 +245,105 @@ export function conflict_aware_weighted_average(
   
   // Create fusion provenance entry with Conformance Seal
   const fusionEntry = createFusionProvenanceEntry(
-    'otp-cawa-v1.1',
-    new Date().toISOString(),
+    operator.id,
+    currentTimestamp(options.clock),
     conformanceSeal || 'seal-generation-failed',
-    'Conflict-aware weighted average fusion operation with Conformance Seal',
+    `${operator.description} with Conformance Seal`,
     {
-      operator: 'conflict_aware_weighted_average',
+      operator: operator.name,
       input_count: judgments.length,
-      weights: weights,
-      version: '3.0.0'
+      weights,
+      inputs: describeInputs(judgments),
+      canonicalization: DEFAULT_CANONICALIZATION,
+      version: '3.0.0',
+      ...parameters
     }
   );
   
-  newProvenance.push(fusionEntry);
+  const linkedEntry = hashChain
+    ? {
+        ...fusionEntry,
+        parent_digests: judgments.map(j => digestProvenanceEntry(j.provenance_chain[j.provenance_chain.length - 1]!))
+      }
+    : fusionEntry;
+
+  newProvenance.push(options.signingKey ? signFusionProvenanceEntry(linkedEntry, options.signingKey) : linkedEntry);
 
   // Create the fused judgment
-  const fusedJudgment = new NeutrosophicJudgment(finalT, finalI, finalF, newProvenance);
+  const fusedJudgment = new NeutrosophicJudgment(values.T, values.I, values.F, newProvenance);
   
   // **REVOLUTIONARY**: Ensure the judgment has a unique ID for Circle of Trust
-  return ensureJudgmentId(fusedJudgment);
+  return ensureJudgmentId(fusedJudgment, options);
+}
+
+/**
+ * Fuses provenance graphs with any registered fusion operator.
+ *
+ * Works like `fuse`, but returns the provenance graph of the fused judgment
+ * instead of its flat chain: the fused node is added on top of the input
+ * graphs, so inputs shared by earlier fusions stay a single node no matter how
+ * deep fusions are nested. `graph.toJudgment()` gives the fused judgment with
+ * the flat chain that seals and Judgment IDs cover.
+ *
+ * @param operatorId - Versioned operator ID (e.g. "otp-cawa-v1.1")
+ * @param inputs - The graphs (or judgments) to fuse
+ * @param weights - Weights for weighted operators (default: equal weights)
+ * @param options - Fusion options, as for `fuse`
+ * @returns The provenance graph rooted at the fused judgment
+ * @throws {Error} If validation fails or the operator is unknown
+ *
+ * @example
+ * ```typescript
+ * const inner = fuseGraphs('otp-optimistic-v1.1', [sensor1, sensor2]);
+ * const outer = fuseGraphs('otp-cawa-v1.1', [inner, sensor2], [0.7, 0.3]);
+ * outer.count(); // sensor2 is one node
+ * ```
+ */
+export function fuseGraphs(
+  operatorId: string,
+  inputs: Array<ProvenanceGraph | NeutrosophicJudgment>,
+  weights?: number[],
+  options: FusionOptions = {}
+): ProvenanceGraph {
+  const graphs = inputs.map(input => input instanceof ProvenanceGraph ? input : ProvenanceGraph.fromJudgment(input));
+  const judgments = inputs.map((input, i) => input instanceof ProvenanceGraph ? graphs[i]!.toJudgment() : input);
+
+  if (options.hashChain ?? judgments.every(j => isLinkedChain(j.provenance_chain))) {
+    // Linking rewrites the entries of unlinked inputs, so their nodes are taken from the linked chains
+    for (let i = 0; i < judgments.length; i++) {
+      const linked = linkJudgment(judgments[i]!);
+      if (linked !== judgments[i]) {
+        judgments[i] = linked;
+        graphs[i] = ProvenanceGraph.fromJudgment(linked);
+      }
+    }
+  }
+
+  return ProvenanceGraph.fromFusion(fuse(operatorId, judgments, weights, options), graphs);
+}
+
+/**
+ * Fuses a list of judgments using the conflict-aware weighted average.
+ * This is the primary and recommended operator in OTP.
+ * 
+ * **REVOLUTIONARY**: The fused judgment automatically includes:
+ * - **Conformance Seal**: Mathematical proof of specification compliance
+ * - **Judgment ID**: Unique identifier for Circle of Trust tracking
+ * 
+ * @param judgments - A list of NeutrosophicJudgment objects to fuse
+ * @param weights - A list of numeric weights corresponding to each judgment
+ *        (default: equal weights, e.g. when a reliability profile supplies them)
+ * @param options - Fusion options such as a clock for reproducible timestamps
+ * @returns A new NeutrosophicJudgment object representing the fused judgment with
+ *          automatic Conformance Seal and Judgment ID generation
+ * @throws {Error} If validation fails
+ */
+export function conflict_aware_weighted_average(
+  judgments: NeutrosophicJudgment[], 
+  weights?: number[],
+  options: FusionOptions = {}
+): NeutrosophicJudgment {
+  return fuse('otp-cawa-v1.1', judgments, weights, options);
 }
 
 /**
@@ -140,64 +355,16 @@ export function conflict_aware_weighted_average(
  * - **Judgment ID**: Unique identifier for Circle of Trust tracking
  * 
  * @param judgments - A list of NeutrosophicJudgment objects
+ * @param options - Fusion options such as a clock for reproducible timestamps
  * @returns A new NeutrosophicJudgment with the max T, min F, and average I,
  *          plus automatic Conformance Seal and Judgment ID generation
  * @throws {Error} If validation fails
  */
-export function optimistic_fusion(judgments: NeutrosophicJudgment[]): NeutrosophicJudgment {
-  validateInputs(judgments);
-  
-  let finalT = Math.max(...judgments.map(j => j.T));
-  let finalF = Math.min(...judgments.map(j => j.F));
-  let finalI = judgments.reduce((sum, j) => sum + j.I, 0) / judgments.length;
-
-  // Ensure conservation constraint is satisfied
-  const total = finalT + finalI + finalF;
-  if (total > 1.0) {
-    // Scale down proportionally to maintain relative relationships
-    finalT = finalT / total;
-    finalI = finalI / total;
-    finalF = finalF / total;
-  }
-
-  // **REVOLUTIONARY**: Generate Conformance Seal
-  // For operations without weights, we use equal weights
-  const equalWeights = Array(judgments.length).fill(1.0);
-  let conformanceSeal: string | undefined;
-  try {
-    conformanceSeal = generateConformanceSeal(judgments, equalWeights, 'otp-optimistic-v1.1');
-  } catch (error) {
-    console.warn(`Failed to generate conformance seal: ${error}`);
-    conformanceSeal = undefined;
-  }
-
-  // Build the new provenance chain
-  const newProvenance: ProvenanceEntry[] = [];
-  for (const judgment of judgments) {
-    newProvenance.push(...judgment.provenance_chain);
-  }
-  
-  // Create fusion provenance entry with Conformance Seal
-  const fusionEntry = createFusionProvenanceEntry(
-    'otp-optimistic-v1.1',
-    new Date().toISOString(),
-    conformanceSeal || 'seal-generation-failed',
-    'Optimistic fusion operation with Conformance Seal',
-    {
-      operator: 'optimistic_fusion',
-      input_count: judgments.length,
-      weights: equalWeights,
-      version: '3.0.0'
-    }
-  );
-  
-  newProvenance.push(fusionEntry);
-
-  // Create the fused judgment
-  const fusedJudgment = new NeutrosophicJudgment(finalT, finalI, finalF, newProvenance);
-  
-  // **REVOLUTIONARY**: Ensure the judgment has a unique ID for Circle of Trust
-  return ensureJudgmentId(fusedJudgment);
+export function optimistic_fusion(
+  judgments: NeutrosophicJudgment[],
+  options: FusionOptions = {}
+): NeutrosophicJudgment {
+  return fuse('otp-optimistic-v1.1', judgments, undefined, options);
 }
 
 /**
@@ -209,62 +376,14 @@ export function optimistic_fusion(judgments: NeutrosophicJudgment[]): Neutrosoph
  * - **Judgment ID**: Unique identifier for Circle of Trust tracking
  * 
  * @param judgments - A list of NeutrosophicJudgment objects
+ * @param options - Fusion options such as a clock for reproducible timestamps
  * @returns A new NeutrosophicJudgment with the max F, min T, and average I,
  *          plus automatic Conformance Seal and Judgment ID generation
  * @throws {Error} If validation fails
  */
-export function pessimistic_fusion(judgments: NeutrosophicJudgment[]): NeutrosophicJudgment {
-  validateInputs(judgments);
-  
-  let finalT = Math.min(...judgments.map(j => j.T));
-  let finalF = Math.max(...judgments.map(j => j.F));
-  let finalI = judgments.reduce((sum, j) => sum + j.I, 0) / judgments.length;
-
-  // Ensure conservation constraint is satisfied
-  const total = finalT + finalI + finalF;
-  if (total > 1.0) {
-    // Scale down proportionally to maintain relative relationships
-    finalT = finalT / total;
-    finalI = finalI / total;
-    finalF = finalF / total;
-  }
-
-  // **REVOLUTIONARY**: Generate Conformance Seal
-  // For operations without weights, we use equal weights
-  const equalWeights = Array(judgments.length).fill(1.0);
-  let conformanceSeal: string | undefined;
-  try {
-    conformanceSeal = generateConformanceSeal(judgments, equalWeights, 'otp-pessimistic-v1.1');
-  } catch (error) {
-    console.warn(`Failed to generate conformance seal: ${error}`);
-    conformanceSeal = undefined;
-  }
-
-  // Build the new provenance chain
-  const newProvenance: ProvenanceEntry[] = [];
-  for (const judgment of judgments) {
-    newProvenance.push(...judgment.provenance_chain);
-  }
-  
-  // Create fusion provenance entry with Conformance Seal
-  const fusionEntry = createFusionProvenanceEntry(
-    'otp-pessimistic-v1.1',
-    new Date().toISOString(),
-    conformanceSeal || 'seal-generation-failed',
-    'Pessimistic fusion operation with Conformance Seal',
-    {
-      operator: 'pessimistic_fusion',
-      input_count: judgments.length,
-      weights: equalWeights,
-      version: '3.0.0'
-    }
-  );
-  
-  newProvenance.push(fusionEntry);
-
-  // Create the fused judgment
-  const fusedJudgment = new NeutrosophicJudgment(finalT, finalI, finalF, newProvenance);
-  
-  // **REVOLUTIONARY**: Ensure the judgment has a unique ID for Circle of Trust
-  return ensureJudgmentId(fusedJudgment);
-}
\ No newline at end of file
+export function pessimistic_fusion(
+  judgments: NeutrosophicJudgment[],
+  options: FusionOptions = {}
+): NeutrosophicJudgment {
+  return fuse('otp-pessimistic-v1.1', judgments, undefined, options);
+}
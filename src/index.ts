@@ -32,35 +32,173 @@ export { NeutrosophicJudgment, type ProvenanceEntry } from './judgment';
 export { 
   conflict_aware_weighted_average, 
   optimistic_fusion, 
-  pessimistic_fusion 
+  pessimistic_fusion,
+  fuse,
+  fuseGraphs,
+  type FusionOptions,
+  type FusionParameters
 } from './fusion';
+export {
+  FusionOperatorRegistry,
+  BUILTIN_FUSION_OPERATORS,
+  registerBuiltinFusionOperators,
+  getGlobalFusionRegistry,
+  resetGlobalFusionRegistry,
+  type FusionOperator
+} from './fusion-registry';
+export {
+  computeConflictAwareWeightedAverage,
+  computeOptimisticFusion,
+  computePessimisticFusion,
+  type FusionValues
+} from './fusion-operators';
+export {
+  ReliabilityProfile,
+  resolveReliability,
+  reliabilityWeights,
+  sourceOf,
+  type ReliabilityProfileConfig,
+  type ReliabilityObservation,
+  type ReliabilityRecord,
+  type SourceObservations
+} from './reliability';
+export {
+  applyTimeDecay,
+  decayFactor,
+  type TimeDecayFunction,
+  type TimeDecayOptions,
+  type TimeDecayRecord
+} from './decay';
+export {
+  ConflictAwareAccumulator,
+  type AccumulatorSnapshot
+} from './fusion-accumulator';
 
 // **REVOLUTIONARY**: Export Conformance Seal module
 export {
   generateConformanceSeal,
   verifyConformanceSeal,
   verifyConformanceSealWithInputs,
+  verifyConformanceSealDetailed,
+  extractFusionInputs,
+  verifyFusion,
   createFusionProvenanceEntry,
-  ConformanceError
+  ConformanceError,
+  type SealVerificationStatus,
+  type SealVerificationResult,
+  type FusionInputs,
+  type FusionVerificationOptions,
+  type FusionVerificationResult
 } from './conformance';
 
 // **REVOLUTIONARY**: Export Judgment ID module for Performance Oracle
 export {
   generateJudgmentId,
   ensureJudgmentId,
+  verifyJudgmentId,
   createOutcomeJudgment,
   outcomeJudgmentToNeutrosophic,
   OutcomeType,
   type OutcomeJudgment
 } from './judgment-id';
 
+// Export Performance Oracle metrics over decisions and their outcomes
+export {
+  PerformanceOracle,
+  computePerformanceMetrics,
+  type PerformanceOracleOptions,
+  type PerformanceSample,
+  type PerformanceMetrics,
+  type PerformanceReport,
+  type CalibrationBin,
+  type RocPoint
+} from './performance-oracle';
+
+// Export digital signatures for fusion provenance
+export {
+  generateSigningKeyPair,
+  signFusionProvenanceEntry,
+  signFusedJudgment,
+  verifySignedFusion,
+  InMemoryKeyRing,
+  FileKeyRing,
+  SignatureError,
+  type SignatureAlgorithm,
+  type FusionSignature,
+  type SigningKey,
+  type VerificationKey,
+  type KeyRing,
+  type SignatureVerificationResult
+} from './signing';
+
+// Export hash-linked provenance chains
+export {
+  digestProvenanceEntry,
+  isLinkedEntry,
+  isLinkedChain,
+  appendProvenanceEntry,
+  linkProvenanceChain,
+  linkJudgment,
+  verifyProvenanceChain,
+  type LinkedProvenanceEntry,
+  type ChainVerificationResult
+} from './provenance-chain';
+
+// Export provenance graph model
+export {
+  ProvenanceGraph,
+  type ProvenanceNode,
+  type ProvenanceEdge
+} from './provenance-graph';
+
+// Export canonical JSON used by Conformance Seals and Judgment IDs
+export {
+  canonicalize,
+  serializeWith,
+  isCanonicalizationId,
+  DEFAULT_CANONICALIZATION,
+  LEGACY_CANONICALIZATION,
+  type CanonicalizationId
+} from './canonical';
+
+// Export clock abstraction for reproducible timestamps
+export {
+  SystemClock,
+  FixedClock,
+  OffsetClock,
+  getClock,
+  setDefaultClock,
+  resetDefaultClock,
+  withClock,
+  currentTimestamp,
+  type Clock,
+  type ClockOptions
+} from './clock';
+
 // Export OTP Mapper components
 export {
   MapperType,
   type BaseMapperParams,
   type NumericalParams,
   type CategoricalParams,
+  type CategoricalMatchingOptions,
+  type CategoricalPattern,
+  type CategoricalMultiLabelOptions,
   type BooleanParams,
+  type PiecewiseKnot,
+  type ExtrapolationPolicy,
+  type PiecewiseLinearParams,
+  type LogisticMembership,
+  type GaussianMembership,
+  type TrapezoidalMembership,
+  type TriangularMembership,
+  type MembershipFunction,
+  type MembershipParams,
+  type TemporalDuration,
+  type TemporalParams,
+  type RecordField,
+  type RecordParams,
+  type RecordMapperOptions,
   type MapperParams,
   type Mapper,
   type MapperRegistry as IMapperRegistry,
@@ -71,16 +209,57 @@ export {
   NumericalMapper,
   CategoricalMapper,
   BooleanMapper,
+  PiecewiseLinearMapper,
+  MembershipMapper,
+  TemporalMapper,
+  parseDuration,
+  RecordMapper,
+  applyMapperBatch,
+  applyMapperColumnar,
+  type BatchErrorPolicy,
+  type BatchOptions,
+  type BatchError,
+  type BatchResult,
+  type ColumnarResult,
   MapperRegistry,
   MapperValidator,
   getGlobalRegistry,
   resetGlobalRegistry,
+  createMapperFromConfig,
+  type MapperImportMode,
+  type MapperImportOptions,
+  type MapperImportError,
+  type MapperImportResult,
+  MapperTypeRegistry,
+  getGlobalMapperTypeRegistry,
+  resetGlobalMapperTypeRegistry,
+  type MapperTypePlugin,
   createTimestamp,
   validateJudgmentValues,
+  normalizeJudgmentValues,
   createJudgment,
-  normalizeBooleanInput
+  normalizeBooleanInput,
+  normalizeTriStateInput,
+  DEFAULT_TRUE_VALUES,
+  DEFAULT_FALSE_VALUES,
+  DEFAULT_UNKNOWN_VALUES,
+  type BooleanVocabulary
 } from './mapper';
 
+// Export streaming mapping and windowed fusion
+export {
+  MapperTransform,
+  WindowedFusionTransform,
+  WindowedFusion,
+  mapJudgments,
+  fuseWindows,
+  type StreamJudgment,
+  type MapStreamOptions,
+  type WindowSpec,
+  type WindowOptions,
+  type WindowJudgment
+} from './stream';
+
 // Package version - **REVOLUTIONARY UPDATE**
 export const VERSION = '3.0.0';
 
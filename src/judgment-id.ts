@@ -9,6 +9,15 @@
 
 import { NeutrosophicJudgment, ProvenanceEntry } from './judgment';
 import { createHash } from 'crypto';
+import { ClockOptions, currentTimestamp } from './clock';
+import {
+  CanonicalizationId,
+  DEFAULT_CANONICALIZATION,
+  LEGACY_CANONICALIZATION,
+  isCanonicalizationId,
+  serializeWith
+} from './canonical';
+import { appendProvenanceEntry } from './provenance-chain';
 
 /**
  * Type of outcome for Performance Oracle
@@ -73,6 +82,8 @@ interface CanonicalProvenanceEntry {
  * recursive hashing.
  * 
  * @param judgment - The Neutrosophic Judgment to generate an ID for
+ * @param canonicalization - Canonicalization scheme (default: RFC 8785 style `otp-jcs-v1`);
+ *        pass `otp-json-legacy` to reproduce IDs generated before canonical JSON
  * @returns A SHA-256 hash as a hexadecimal string
  * 
  * @example
@@ -88,7 +99,10 @@ interface CanonicalProvenanceEntry {
  * console.log(`Judgment ID: ${judgmentId}`);
  * ```
  */
-export function generateJudgmentId(judgment: NeutrosophicJudgment): string {
+export function generateJudgmentId(
+  judgment: NeutrosophicJudgment,
+  canonicalization: CanonicalizationId = DEFAULT_CANONICALIZATION
+): string {
   // Create canonical representation without judgment_id
   const canonical: CanonicalJudgment = {
     T: judgment.T,
@@ -104,7 +118,7 @@ export function generateJudgmentId(judgment: NeutrosophicJudgment): string {
   };
   
   // Serialize to canonical JSON
-  const canonicalJson = JSON.stringify(canonical, null, 0);
+  const canonicalJson = serializeWith(canonical, canonicalization);
   
   // Generate SHA-256 hash
   const hash = createHash('sha256');
@@ -115,19 +129,24 @@ export function generateJudgmentId(judgment: NeutrosophicJudgment): string {
 /**
  * Ensures a Neutrosophic Judgment has a Judgment ID
  * 
- * If the judgment already has a judgment_id in its provenance_chain,
- * returns it unchanged. If not, generates a new judgment_id and returns
- * a new judgment with it added to the provenance chain.
+ * If the last entry of the judgment's provenance_chain already carries a
+ * judgment_id, returns it unchanged. If not, generates a new judgment_id and
+ * returns a new judgment with it added to the provenance chain. IDs of fused
+ * inputs earlier in the chain do not identify the fused judgment itself. In a
+ * hash-linked chain the new entry is linked to the current head.
  * 
  * @param judgment - The Neutrosophic Judgment to ensure has an ID
+ * @param options - Optional clock for the Judgment ID entry timestamp
  * @returns A Neutrosophic Judgment with a judgment_id in its provenance chain
  */
-export function ensureJudgmentId(judgment: NeutrosophicJudgment): NeutrosophicJudgment {
-  // Check if judgment already has a judgment_id in provenance
-  for (const entry of judgment.provenance_chain) {
-    if ((entry as any).judgment_id) {
-      return judgment;
-    }
+export function ensureJudgmentId(
+  judgment: NeutrosophicJudgment,
+  options: ClockOptions = {}
+): NeutrosophicJudgment {
+  // Check if judgment already has a judgment_id at the end of its provenance
+  const lastEntry = judgment.provenance_chain[judgment.provenance_chain.length - 1];
+  if (lastEntry && (lastEntry as any).judgment_id) {
+    return judgment;
   }
   
   // Generate new judgment_id
@@ -136,17 +155,18 @@ export function ensureJudgmentId(judgment: NeutrosophicJudgment): NeutrosophicJu
   // Create new provenance entry with judgment_id
   const newProvenanceEntry: ProvenanceEntry & { judgment_id: string } = {
     source_id: 'otp-judgment-id-generator',
-    timestamp: new Date().toISOString(),
+    timestamp: currentTimestamp(options.clock),
     description: 'Automatic Judgment ID generation for Circle of Trust',
     judgment_id: judgmentId,
     metadata: {
       generator: 'otp-javascript-v3.0',
-      purpose: 'circle-of-trust-tracking'
+      purpose: 'circle-of-trust-tracking',
+      canonicalization: DEFAULT_CANONICALIZATION
     }
   };
   
   // Create new judgment with updated provenance chain
-  const newProvenanceChain = [...judgment.provenance_chain, newProvenanceEntry];
+  const newProvenanceChain = appendProvenanceEntry(judgment.provenance_chain, newProvenanceEntry);
   
   return new NeutrosophicJudgment(
     judgment.T,
@@ -156,6 +176,47 @@ export function ensureJudgmentId(judgment: NeutrosophicJudgment): NeutrosophicJu
   );
 }
 
+/**
+ * Verifies the Judgment ID recorded in a Neutrosophic Judgment
+ * 
+ * Recomputes the ID of the provenance chain that preceded the most recent
+ * Judgment ID entry, using the canonicalization recorded in that entry
+ * (entries without one predate canonical JSON and use the legacy scheme).
+ * 
+ * @param judgment - The Neutrosophic Judgment to verify
+ * @returns True if the recorded ID matches, False otherwise
+ * @throws {Error} If the judgment carries no Judgment ID
+ */
+export function verifyJudgmentId(judgment: NeutrosophicJudgment): boolean {
+  const chain = judgment.provenance_chain;
+  let index = chain.length - 1;
+  while (index >= 0 && !(chain[index] as any).judgment_id) {
+    index--;
+  }
+  
+  if (index < 0) {
+    throw new Error('Judgment does not carry a Judgment ID');
+  }
+  if (index === 0) {
+    return false;
+  }
+  
+  const entry = chain[index]!;
+  const recorded = entry.metadata?.['canonicalization'] ?? LEGACY_CANONICALIZATION;
+  if (!isCanonicalizationId(recorded)) {
+    return false;
+  }
+  
+  const identified = new NeutrosophicJudgment(
+    judgment.T,
+    judgment.I,
+    judgment.F,
+    chain.slice(0, index)
+  );
+  
+  return generateJudgmentId(identified, recorded) === (entry as any).judgment_id;
+}
+
 /**
  * Creates a new Outcome Judgment for Performance Oracle tracking
  * 
@@ -166,6 +227,7 @@ export function ensureJudgmentId(judgment: NeutrosophicJudgment): NeutrosophicJu
  * @param outcomeType - Type of outcome (SUCCESS, FAILURE, PARTIAL)
  * @param oracleSource - Source of the oracle that recorded this outcome
  * @param provenanceChain - Optional provenance chain for this outcome
+ * @param options - Optional clock for the oracle entry timestamp
  * @returns A new OutcomeJudgment with automatic judgment_id generation
  * 
  * @example
@@ -188,7 +250,8 @@ export function createOutcomeJudgment(
   F: number,
   outcomeType: OutcomeType,
   oracleSource: string,
-  provenanceChain: ProvenanceEntry[] = []
+  provenanceChain: ProvenanceEntry[] = [],
+  options: ClockOptions = {}
 ): OutcomeJudgment {
   // Validate the outcome judgment parameters
   if (!(0.0 <= T && T <= 1.0)) {
@@ -210,12 +273,13 @@ export function createOutcomeJudgment(
   // Add oracle provenance entry
   const oracleEntry: ProvenanceEntry = {
     source_id: oracleSource,
-    timestamp: new Date().toISOString(),
+    timestamp: currentTimestamp(options.clock),
     description: `Outcome recorded by ${oracleSource}`,
     metadata: {
       outcome_type: outcomeType,
       links_to_judgment_id: linksToJudgmentId,
-      oracle_version: 'otp-javascript-v3.0'
+      oracle_version: 'otp-javascript-v3.0',
+      canonicalization: DEFAULT_CANONICALIZATION
     }
   };
   
@@ -0,0 +1,330 @@
+/**
+ * Batch Mapper Application
+ * ========================
+ *
+ * Applies a mapper to many values at once. Batch mode returns one judgment per
+ * value; for mappers that implement `evaluate`, all judgments share one prebuilt
+ * provenance entry instead of building an entry and timestamp per value.
+ * Columnar mode skips judgments altogether and returns T, I and F as typed
+ * arrays with one provenance descriptor shared by every row, which is faster
+ * still for large inputs.
+ */
+
+import { NeutrosophicJudgment } from '../judgment';
+import { ClockOptions, FixedClock, getClock, withClock } from '../clock';
+import { Mapper, InputError, ValidationError, validateJudgmentValues } from './types';
+
+/**
+ * Handling of values that cannot be mapped
+ *
+ * - `fail-fast`: throw an InputError naming the index of the value (default)
+ * - `skip`: leave the value out of the result
+ * - `default`: substitute the default judgment
+ */
+export type BatchErrorPolicy = 'fail-fast' | 'skip' | 'default';
+
+/**
+ * Options for batch and columnar mapper application
+ */
+export interface BatchOptions extends ClockOptions {
+  /** Handling of values that cannot be mapped (default: fail-fast) */
+  onError?: BatchErrorPolicy;
+  /** Judgment substituted by the `default` policy (default: pure indeterminacy, I = 1) */
+  defaultJudgment?: { T: number; I: number; F: number };
+}
+
+/**
+ * Value that could not be mapped
+ */
+export interface BatchError {
+  /** Position of the value in the input */
+  index: number;
+  /** What went wrong */
+  message: string;
+}
+
+/**
+ * Result of batch mapper application
+ */
+export interface BatchResult {
+  /** Judgments of the mapped (and, with the `default` policy, substituted) values */
+  judgments: NeutrosophicJudgment[];
+  /** Position in the input of each judgment */
+  indices: number[];
+  /** Values that could not be mapped */
+  errors: BatchError[];
+}
+
+/**
+ * Result of columnar mapper application
+ */
+export interface ColumnarResult {
+  /** T of each row */
+  T: Float64Array;
+  /** I of each row */
+  I: Float64Array;
+  /** F of each row */
+  F: Float64Array;
+  /** Position in the input of each row */
+  indices: Uint32Array;
+  /** Values that could not be mapped */
+  errors: BatchError[];
+  /** Provenance entry describing the transformation of all rows */
+  provenance: Record<string, any>;
+}
+
+const BATCH_ERROR_POLICIES = ['fail-fast', 'skip', 'default'];
+
+/**
+ * Judgment substituted by the `default` policy when none is configured
+ */
+const PURE_INDETERMINACY = Object.freeze({ T: 0.0, I: 1.0, F: 0.0 });
+
+/**
+ * Apply a mapper to each of a list of values
+ *
+ * The clock is read once and the mapper runs with a FixedClock at that instant.
+ * Mappers that implement `evaluate` are evaluated directly, and every judgment
+ * gets the same frozen provenance entry describing the batch; the input of a
+ * judgment is the value at its position in `indices`. Other mappers are applied,
+ * so each judgment has its own provenance entry as with `apply`. Substituted
+ * judgments have their own entry, which records the error in `metadata.batch_error`.
+ *
+ * @param mapper - The mapper
+ * @param values - The input values (an array or typed array)
+ * @param options - Error policy, default judgment and clock
+ * @returns The judgments, their input positions and the values that could not be mapped
+ * @throws InputError if the values are not an array, or with the fail-fast policy if a value cannot be mapped
+ * @throws ValidationError if the options are invalid
+ *
+ * @example
+ * ```typescript
+ * const { judgments, errors } = applyMapperBatch(healthMapper, [1.2, 2.5, 'n/a'], { onError: 'skip' });
+ * ```
+ */
+export function applyMapperBatch(mapper: Mapper, values: ArrayLike<any>, options: BatchOptions = {}): BatchResult {
+  checkBatchValues(values);
+  const { onError, defaultJudgment } = resolveErrorPolicy(options);
+  const clock = new FixedClock((options.clock ?? getClock()).now());
+  const timestamp = clock.now().toISOString();
+  const result: BatchResult = { judgments: [], indices: [], errors: [] };
+
+  let map: (value: any) => NeutrosophicJudgment = value => mapper.apply(value);
+  if (mapper.evaluate) {
+    const provenance_entry = createBatchProvenanceEntry(mapper, timestamp, 'Batch', {
+      count: values.length,
+      on_error: onError
+    });
+    Object.freeze(provenance_entry['metadata'].batch);
+    Object.freeze(provenance_entry['metadata']);
+    Object.freeze(provenance_entry);
+    map = value => {
+      const { T, I, F } = mapper.evaluate!(value);
+      return new NeutrosophicJudgment(T, I, F, [provenance_entry as any]);
+    };
+  }
+
+  withClock(clock, () => {
+    for (let index = 0; index < values.length; index++) {
+      const value = values[index];
+      try {
+        result.judgments.push(map(value));
+      } catch (error) {
+        const message = handleBatchError(error, index, onError, result.errors);
+        if (onError === 'skip') {
+          continue;
+        }
+        result.judgments.push(createSubstituteJudgment(mapper, value, timestamp, defaultJudgment, message));
+      }
+      result.indices.push(index);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Apply a mapper to a column of values, returning T, I and F as typed arrays
+ *
+ * No judgment or per-row provenance entry is built. Mappers that implement
+ * `evaluate` are evaluated directly; others are applied and their judgments
+ * discarded. A single provenance entry, timestamped with one reading of the
+ * clock, describes the whole column.
+ *
+ * @param mapper - The mapper
+ * @param values - The input values (an array or typed array)
+ * @param options - Error policy, default judgment and clock
+ * @returns The T, I and F columns, their input positions, the values that could not be mapped and the shared provenance entry
+ * @throws InputError if the values are not an array, or with the fail-fast policy if a value cannot be mapped
+ * @throws ValidationError if the options are invalid
+ *
+ * @example
+ * ```typescript
+ * const { T, I, F } = applyMapperColumnar(healthMapper, new Float64Array([1.2, 2.5, 3.1]));
+ * ```
+ */
+export function applyMapperColumnar(mapper: Mapper, values: ArrayLike<any>, options: BatchOptions = {}): ColumnarResult {
+  checkBatchValues(values);
+  const { onError, defaultJudgment } = resolveErrorPolicy(options);
+  const clock = new FixedClock((options.clock ?? getClock()).now());
+  const T = new Float64Array(values.length);
+  const I = new Float64Array(values.length);
+  const F = new Float64Array(values.length);
+  const indices = new Uint32Array(values.length);
+  const errors: BatchError[] = [];
+  let rows = 0;
+
+  const evaluate = mapper.evaluate
+    ? (value: any) => mapper.evaluate!(value)
+    : (value: any) => mapper.apply(value);
+
+  withClock(clock, () => {
+    for (let index = 0; index < values.length; index++) {
+      let judgment_data: { T: number; I: number; F: number };
+      try {
+        judgment_data = evaluate(values[index]);
+      } catch (error) {
+        handleBatchError(error, index, onError, errors);
+        if (onError === 'skip') {
+          continue;
+        }
+        judgment_data = defaultJudgment;
+      }
+      T[rows] = judgment_data.T;
+      I[rows] = judgment_data.I;
+      F[rows] = judgment_data.F;
+      indices[rows++] = index;
+    }
+  });
+
+  const trim = <A extends Float64Array | Uint32Array>(column: A): A =>
+    rows === values.length ? column : column.slice(0, rows) as A;
+
+  return {
+    T: trim(T),
+    I: trim(I),
+    F: trim(F),
+    indices: trim(indices),
+    errors,
+    provenance: createBatchProvenanceEntry(mapper, clock.now().toISOString(), 'Columnar', {
+      count: values.length,
+      rows,
+      errors: errors.length,
+      on_error: onError
+    })
+  };
+}
+
+/**
+ * Build the provenance entry shared by the rows of a batch
+ *
+ * @param mapper - The mapper
+ * @param timestamp - Timestamp of the provenance entry
+ * @param mode - 'Batch' or 'Columnar', used in the description
+ * @param batch - Counts and error policy, recorded in `metadata.batch`
+ * @returns The provenance entry
+ */
+function createBatchProvenanceEntry(
+  mapper: Mapper,
+  timestamp: string,
+  mode: 'Batch' | 'Columnar',
+  batch: Record<string, any>
+): Record<string, any> {
+  return {
+    source_id: mapper.parameters.id,
+    timestamp,
+    description: `${mode} transformation using ${mapper.parameters.id}`,
+    metadata: {
+      mapper_version: mapper.parameters.version,
+      mapper_type: mapper.mapper_type,
+      batch
+    }
+  };
+}
+
+/**
+ * Check that batch input is an array or typed array
+ *
+ * @param values - The input values
+ * @throws InputError if the values are not an array
+ */
+function checkBatchValues(values: ArrayLike<any>): void {
+  if (!Array.isArray(values) && !(ArrayBuffer.isView(values) && !(values instanceof DataView))) {
+    throw new InputError('Batch input must be an array or typed array of values');
+  }
+}
+
+/**
+ * Check the error policy and default judgment of batch options and fill in defaults
+ *
+ * @param options - The batch options
+ * @returns The error policy and default judgment
+ * @throws ValidationError if the error policy or default judgment is invalid
+ */
+export function resolveErrorPolicy(
+  options: Pick<BatchOptions, 'onError' | 'defaultJudgment'>
+): { onError: BatchErrorPolicy; defaultJudgment: { T: number; I: number; F: number } } {
+  const onError = options.onError ?? 'fail-fast';
+  if (!BATCH_ERROR_POLICIES.includes(onError)) {
+    throw new ValidationError(`Invalid onError policy '${onError}': expected one of ${BATCH_ERROR_POLICIES.join(', ')}`);
+  }
+
+  const defaultJudgment = options.defaultJudgment ?? PURE_INDETERMINACY;
+  try {
+    validateJudgmentValues(defaultJudgment.T, defaultJudgment.I, defaultJudgment.F);
+  } catch (error) {
+    throw new ValidationError(`Invalid defaultJudgment: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return { onError, defaultJudgment };
+}
+
+/**
+ * Build the judgment substituted for a value that could not be mapped
+ *
+ * @param mapper - The mapper that rejected the value
+ * @param value - The value
+ * @param timestamp - Timestamp of the provenance entry
+ * @param defaultJudgment - The substituted degrees
+ * @param message - Why the value could not be mapped, recorded in `metadata.batch_error`
+ * @returns The substitute judgment
+ */
+export function createSubstituteJudgment(
+  mapper: Mapper,
+  value: any,
+  timestamp: string,
+  defaultJudgment: { T: number; I: number; F: number },
+  message: string
+): NeutrosophicJudgment {
+  const provenance_entry = mapper.createProvenanceEntry(value, timestamp);
+  provenance_entry['metadata'] = { ...provenance_entry['metadata'], batch_error: message };
+  return new NeutrosophicJudgment(
+    defaultJudgment.T,
+    defaultJudgment.I,
+    defaultJudgment.F,
+    [provenance_entry as any]
+  );
+}
+
+/**
+ * Record a value that could not be mapped, or rethrow under the fail-fast policy
+ *
+ * Only InputErrors are subject to the policy; other errors are rethrown.
+ *
+ * @param error - The error thrown by the mapper
+ * @param index - Position of the value in the input
+ * @param onError - The error policy
+ * @param errors - The errors recorded so far
+ * @returns The error message
+ * @throws InputError naming the index under the fail-fast policy
+ */
+export function handleBatchError(error: unknown, index: number, onError: BatchErrorPolicy, errors: BatchError[]): string {
+  if (!(error instanceof InputError)) {
+    throw error;
+  }
+  if (onError === 'fail-fast') {
+    throw new InputError(`Value at index ${index}: ${error.message}`);
+  }
+  errors.push({ index, message: error.message });
+  return error.message;
+}
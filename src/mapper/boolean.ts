@@ -14,8 +14,49 @@ import {
   ValidationError,
   createTimestamp,
   validateJudgmentValues,
-  normalizeBooleanInput
+  normalizeBooleanInput,
+  normalizeTriStateInput,
+  DEFAULT_TRUE_VALUES,
+  DEFAULT_FALSE_VALUES,
+  DEFAULT_UNKNOWN_VALUES
 } from './types';
+import { BatchOptions, BatchResult, ColumnarResult, applyMapperBatch, applyMapperColumnar } from './batch';
+
+/**
+ * Judgment for unknown inputs when no unknown_map is configured
+ */
+const PURE_INDETERMINACY = Object.freeze({ T: 0.0, I: 1.0, F: 0.0 });
+
+/**
+ * Validate the true, false and unknown strings of a BooleanMapper configuration
+ * 
+ * @param params - The mapper configuration
+ * @throws ValidationError if a list is not an array of strings or a string appears in two lists
+ */
+export function validateBooleanVocabulary(params: BooleanParams): void {
+  const defaults = {
+    true_values: DEFAULT_TRUE_VALUES,
+    false_values: DEFAULT_FALSE_VALUES,
+    unknown_values: DEFAULT_UNKNOWN_VALUES
+  };
+  const seen = new Map<string, string>();
+  
+  // Lists that are not configured keep their defaults, which must not overlap either
+  for (const name of ['true_values', 'false_values', 'unknown_values'] as const) {
+    const values = params[name] ?? defaults[name];
+    if (!Array.isArray(values) || values.some(value => typeof value !== 'string')) {
+      throw new ValidationError(`${name} must be an array of strings`);
+    }
+    for (const value of values) {
+      const token = value.trim().toLowerCase();
+      const owner = seen.get(token);
+      if (owner !== undefined && owner !== name) {
+        throw new ValidationError(`'${value}' appears in both ${owner} and ${name}`);
+      }
+      seen.set(token, name);
+    }
+  }
+}
 
 /**
  * BooleanMapper for transforming boolean values
@@ -26,6 +67,10 @@ import {
  * - Integer: 1, 0
  * - String: 'true'/'false', 'yes'/'no', '1'/'0', 'on'/'off', 'enabled'/'disabled'
  * 
+ * Missing readings (`null`, `undefined`, `NaN`, '', 'unknown', 'n/a', 'null') map
+ * to `unknown_map`, which defaults to pure indeterminacy. The true, false and
+ * unknown strings can be replaced, e.g. to localize them.
+ * 
  * Example:
  * ```typescript
  * const mapper = new BooleanMapper({
@@ -37,6 +82,16 @@ import {
  * 
  * const judgment = mapper.apply(true);
  * // Result: T=0.9, I=0.1, F=0.0
+ * 
+ * const localized = new BooleanMapper({
+ *   id: 'consent-given',
+ *   version: '1.0.0',
+ *   true_map: { T: 1.0, I: 0.0, F: 0.0 },
+ *   false_map: { T: 0.0, I: 0.0, F: 1.0 },
+ *   true_values: ['sí', 'ja'],
+ *   false_values: ['no', 'nein'],
+ *   unknown_values: ['', 'ns/nc']
+ * });
  * ```
  */
 export class BooleanMapper implements Mapper {
@@ -52,7 +107,7 @@ export class BooleanMapper implements Mapper {
    * Validate the mapper configuration
    */
   validate(): boolean {
-    const { true_map, false_map } = this.parameters;
+    const { true_map, false_map, unknown_map } = this.parameters;
     
     // Validate true_map
     try {
@@ -68,24 +123,32 @@ export class BooleanMapper implements Mapper {
       throw new ValidationError(`Invalid false_map in BooleanMapper: ${error instanceof Error ? error.message : String(error)}`);
     }
     
+    // Validate unknown_map if provided
+    if (unknown_map) {
+      try {
+        validateJudgmentValues(unknown_map.T, unknown_map.I, unknown_map.F);
+      } catch (error) {
+        throw new ValidationError(`Invalid unknown_map in BooleanMapper: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    
+    validateBooleanVocabulary(this.parameters);
+    
     return true;
   }
 
   /**
    * Apply the boolean mapping to an input value
    * 
-   * Supports boolean, integer (0/1), and string representations.
+   * Supports boolean, integer (0/1), and string representations, as well as
+   * unknown values.
    * 
    * @param input_value - The boolean-like value to transform
    * @returns A NeutrosophicJudgment corresponding to the boolean state
-   * @throws InputError if the input value cannot be interpreted as a boolean
+   * @throws InputError if the input value cannot be interpreted as a boolean or unknown
    */
-  apply(input_value: boolean | number | string): NeutrosophicJudgment {
-    // Normalize the input to a boolean
-    const normalized_input = normalizeBooleanInput(input_value);
-    
-    // Get the appropriate judgment data
-    const judgment_data = normalized_input ? this.parameters.true_map : this.parameters.false_map;
+  apply(input_value: boolean | number | string | null | undefined): NeutrosophicJudgment {
+    const judgment_data = this.evaluate(input_value);
     
     // Create provenance entry
     const provenance_entry = this.createProvenanceEntry(input_value);
@@ -98,6 +161,47 @@ export class BooleanMapper implements Mapper {
     );
   }
 
+  /**
+   * Calculate T, I, F for an input value without building a judgment
+   * 
+   * @param input_value - The boolean-like value to transform
+   * @returns Object with T, I, F values
+   * @throws InputError if the input value cannot be interpreted as a boolean or unknown
+   */
+  evaluate(input_value: boolean | number | string | null | undefined): { T: number; I: number; F: number } {
+    // Normalize the input to true, false or unknown (null)
+    const normalized_input = normalizeTriStateInput(input_value, this.parameters);
+    
+    // Get the appropriate judgment data
+    const judgment_data = normalized_input === null
+      ? this.getUnknownJudgment()
+      : normalized_input ? this.parameters.true_map : this.parameters.false_map;
+    
+    return { T: judgment_data.T, I: judgment_data.I, F: judgment_data.F };
+  }
+
+  /**
+   * Apply the mapping to each of a list of values
+   * 
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The judgments, their input positions and the values that could not be mapped
+   */
+  applyBatch(values: ArrayLike<boolean | number | string | null | undefined>, options: BatchOptions = {}): BatchResult {
+    return applyMapperBatch(this, values, options);
+  }
+
+  /**
+   * Apply the mapping to a column of values, returning T, I and F as typed arrays
+   * 
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The T, I and F columns with a provenance entry shared by all rows
+   */
+  applyColumnar(values: ArrayLike<boolean | number | string | null | undefined>, options: BatchOptions = {}): ColumnarResult {
+    return applyMapperColumnar(this, values, options);
+  }
+
   /**
    * Create provenance entry for mapper application
    * 
@@ -118,7 +222,7 @@ export class BooleanMapper implements Mapper {
         original_input: {
           value: String(input_value),
           type: this.mapper_type,
-          normalized: String(normalizeBooleanInput(input_value))
+          normalized: String(normalizeTriStateInput(input_value, this.parameters) ?? 'unknown')
         }
       }
     };
@@ -142,6 +246,15 @@ export class BooleanMapper implements Mapper {
     return this.parameters.false_map;
   }
 
+  /**
+   * Get the judgment for unknown values
+   * 
+   * @returns The unknown judgment data
+   */
+  getUnknownJudgment(): { T: number; I: number; F: number } {
+    return this.parameters.unknown_map ?? { ...PURE_INDETERMINACY };
+  }
+
   /**
    * Update the true judgment mapping
    * 
@@ -172,7 +285,7 @@ export class BooleanMapper implements Mapper {
    */
   canNormalize(input_value: any): boolean {
     try {
-      normalizeBooleanInput(input_value);
+      normalizeBooleanInput(input_value, this.parameters);
       return true;
     } catch {
       return false;
@@ -187,18 +300,19 @@ export class BooleanMapper implements Mapper {
    * @throws InputError if the input cannot be normalized
    */
   normalize(input_value: any): boolean {
-    return normalizeBooleanInput(input_value);
+    return normalizeBooleanInput(input_value, this.parameters);
   }
 
   /**
    * Get all supported string representations for boolean values
    * 
-   * @returns Object with true and false string arrays
+   * @returns Object with true, false and unknown string arrays
    */
-  getSupportedStrings(): { true: string[]; false: string[] } {
+  getSupportedStrings(): { true: string[]; false: string[]; unknown: string[] } {
     return {
-      true: ['true', 'yes', '1', 'on', 'enabled'],
-      false: ['false', 'no', '0', 'off', 'disabled']
+      true: [...(this.parameters.true_values ?? DEFAULT_TRUE_VALUES)],
+      false: [...(this.parameters.false_values ?? DEFAULT_FALSE_VALUES)],
+      unknown: [...(this.parameters.unknown_values ?? DEFAULT_UNKNOWN_VALUES)]
     };
   }
 
@@ -7,6 +7,8 @@
  */
 
 import { NeutrosophicJudgment } from '../judgment';
+import { fuse } from '../fusion';
+import { getGlobalFusionRegistry } from '../fusion-registry';
 import { 
   Mapper, 
   MapperType, 
@@ -14,8 +16,191 @@ import {
   InputError, 
   ValidationError,
   createTimestamp,
-  validateJudgmentValues
+  validateJudgmentValues,
+  normalizeJudgmentValues
 } from './types';
+import { BatchOptions, BatchResult, ColumnarResult, applyMapperBatch, applyMapperColumnar } from './batch';
+
+const UNICODE_NORMALIZATION_FORMS = ['NFC', 'NFD', 'NFKC', 'NFKD'];
+
+const DEFAULT_EDIT_DISTANCE_PENALTY = 0.2;
+
+const DEFAULT_MULTI_LABEL_OPERATOR = 'otp-cawa-v1.1';
+
+const UNRECOGNIZED_LABEL_POLICIES = ['ignore', 'default', 'error'];
+
+/**
+ * How an input was matched to a category
+ */
+interface CategoryMatch {
+  /** Matching rule: exact, normalized, alias, pattern or edit_distance */
+  rule: 'exact' | 'normalized' | 'alias' | 'pattern' | 'edit_distance';
+  /** The matched category */
+  category: string;
+  /** The category, alias or pattern that matched */
+  matched: string;
+  /** Edit distance of an approximate match */
+  distance?: number;
+}
+
+/**
+ * Normalize a string according to the matching options
+ * 
+ * @param value - The string to normalize
+ * @param matching - The matching options
+ * @returns The normalized string
+ */
+function normalizeCategory(value: string, matching: CategoricalParams['matching']): string {
+  let normalized = matching?.unicode_normalization ? value.normalize(matching.unicode_normalization) : value;
+  if (matching?.normalize_whitespace) {
+    normalized = normalized.trim().replace(/\s+/g, ' ');
+  }
+  if (matching?.case_insensitive) {
+    normalized = normalized.toLowerCase();
+  }
+  return normalized;
+}
+
+/**
+ * Compile a pattern rule into a regular expression
+ * 
+ * @param pattern - The pattern rule
+ * @param matching - The matching options
+ * @returns The regular expression
+ * @throws SyntaxError if the regular expression is invalid
+ */
+function compilePattern(pattern: { regex?: string; glob?: string }, matching: CategoricalParams['matching']): RegExp {
+  const flags = matching?.case_insensitive ? 'si' : 's';
+  if (pattern.regex !== undefined) {
+    return new RegExp(pattern.regex, flags);
+  }
+  const source = (pattern.glob ?? '')
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, flags);
+}
+
+/**
+ * Levenshtein distance between two strings, counted in code points
+ * 
+ * @param a - The first string
+ * @param b - The second string
+ * @returns The number of insertions, deletions and substitutions
+ */
+function editDistance(a: string, b: string): number {
+  const source = Array.from(a);
+  const target = Array.from(b);
+  let previous = Array.from({ length: target.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (source[i - 1] === target[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[target.length]!;
+}
+
+/**
+ * Validate the aliases, patterns, matching and multi-label options of a CategoricalMapper configuration
+ * 
+ * @param params - The mapper configuration
+ * @throws ValidationError if a rule refers to an unknown category, a pattern is invalid,
+ *   two categories or aliases become indistinguishable after normalization, or an option is out of range
+ */
+export function validateCategoricalRules(params: CategoricalParams): void {
+  const { mappings, aliases, patterns, matching, multi_label } = params;
+
+  if (matching?.unicode_normalization !== undefined &&
+      !UNICODE_NORMALIZATION_FORMS.includes(matching.unicode_normalization)) {
+    throw new ValidationError(
+      `matching.unicode_normalization must be one of ${UNICODE_NORMALIZATION_FORMS.join(', ')}`
+    );
+  }
+  if (matching?.max_edit_distance !== undefined &&
+      !(Number.isInteger(matching.max_edit_distance) && matching.max_edit_distance >= 0)) {
+    throw new ValidationError('matching.max_edit_distance must be a non-negative integer');
+  }
+  if (matching?.edit_distance_penalty !== undefined &&
+      !(matching.edit_distance_penalty >= 0 && matching.edit_distance_penalty <= 1)) {
+    throw new ValidationError('matching.edit_distance_penalty must be between 0 and 1');
+  }
+
+  // Every normalized category and alias must identify a single category
+  const owners = new Map<string, string>();
+  const claim = (value: string, category: string, what: string) => {
+    const key = normalizeCategory(value, matching);
+    const owner = owners.get(key);
+    if (owner !== undefined && owner !== category) {
+      throw new ValidationError(`${what} '${value}' of category '${category}' is indistinguishable from category '${owner}'`);
+    }
+    owners.set(key, category);
+  };
+
+  for (const category of Object.keys(mappings)) {
+    claim(category, category, 'Name');
+  }
+
+  for (const [category, list] of Object.entries(aliases ?? {})) {
+    if (!(category in mappings)) {
+      throw new ValidationError(`aliases refer to unknown category '${category}'`);
+    }
+    if (!Array.isArray(list) || list.some(alias => typeof alias !== 'string')) {
+      throw new ValidationError(`aliases.${category} must be an array of strings`);
+    }
+    for (const alias of list) {
+      claim(alias, category, 'Alias');
+    }
+  }
+
+  (patterns ?? []).forEach((pattern, index) => {
+    if (!(pattern.category in mappings)) {
+      throw new ValidationError(`patterns[${index}] refers to unknown category '${pattern.category}'`);
+    }
+    if ((pattern.regex === undefined) === (pattern.glob === undefined)) {
+      throw new ValidationError(`patterns[${index}] must have exactly one of regex and glob`);
+    }
+    try {
+      compilePattern(pattern, matching);
+    } catch (error) {
+      throw new ValidationError(
+        `patterns[${index}]: Invalid regex: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+
+  if (multi_label) {
+    if (multi_label.operator !== undefined && (typeof multi_label.operator !== 'string' || !multi_label.operator)) {
+      throw new ValidationError('multi_label.operator must be a non-empty operator ID');
+    }
+    if (multi_label.weights !== undefined && multi_label.operator !== undefined &&
+        getGlobalFusionRegistry().get(multi_label.operator)?.weighted === false) {
+      throw new ValidationError(
+        `multi_label.weights cannot be used with '${multi_label.operator}', which does not accept weights`
+      );
+    }
+    for (const [category, weight] of Object.entries(multi_label.weights ?? {})) {
+      if (!(category in mappings)) {
+        throw new ValidationError(`multi_label.weights refer to unknown category '${category}'`);
+      }
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+        throw new ValidationError(`multi_label.weights.${category} must be a non-negative number`);
+      }
+    }
+    if (multi_label.unrecognized !== undefined && !UNRECOGNIZED_LABEL_POLICIES.includes(multi_label.unrecognized)) {
+      throw new ValidationError(
+        `multi_label.unrecognized must be one of ${UNRECOGNIZED_LABEL_POLICIES.join(', ')}`
+      );
+    }
+  }
+}
 
 /**
  * CategoricalMapper for transforming string/categorical values
@@ -23,6 +208,12 @@ import {
  * Maps predefined string categories to specific Neutrosophic Judgments.
  * Supports a default_judgment for unknown categories.
  * 
+ * Matching rules are tried in order: an exact match, a match of the normalized
+ * input with a normalized category or alias, the pattern rules, and finally the
+ * closest category or alias within `matching.max_edit_distance` edits. An
+ * approximate match moves part of T and F to I in proportion to its distance.
+ * The provenance entry records the rule that matched.
+ * 
  * Example:
  * ```typescript
  * const mapper = new CategoricalMapper({
@@ -77,48 +268,272 @@ export class CategoricalMapper implements Mapper {
       }
     }
     
+    validateCategoricalRules(this.parameters);
+    
     return true;
   }
 
   /**
    * Apply the categorical mapping to an input string value
    * 
-   * @param input_value - The string category to transform
+   * In multi-label mode, an array of labels is accepted as well: every
+   * recognized label is mapped on its own, and the per-label judgments are
+   * combined with the configured fusion operator. The result carries a
+   * Conformance Seal and keeps the provenance entry of each label.
+   * 
+   * @param input_value - The string category to transform, or an array of labels in multi-label mode
    * @returns A NeutrosophicJudgment corresponding to the category
    * @throws InputError if the category is not found and no default_judgment is defined
    */
-  apply(input_value: string): NeutrosophicJudgment {
-    if (typeof input_value !== 'string') {
-      throw new InputError(`Input for CategoricalMapper must be a string, got ${typeof input_value}`);
+  apply(input_value: string | string[]): NeutrosophicJudgment {
+    if (Array.isArray(input_value) && this.parameters.multi_label) {
+      return this.applyLabels(input_value);
     }
 
-    const { mappings, default_judgment } = this.parameters;
-    const judgment_data = mappings[input_value];
-
-    if (judgment_data) {
-      // Category found in mappings
-      const provenance_entry = this.createProvenanceEntry(input_value);
-      return new NeutrosophicJudgment(
-        judgment_data.T,
-        judgment_data.I,
-        judgment_data.F,
-        [provenance_entry as any]
-      );
-    } else if (default_judgment) {
-      // Category not found, use default
-      const provenance_entry = this.createProvenanceEntry(input_value);
-      return new NeutrosophicJudgment(
+    const { match, judgment_data } = this.requireLabel(input_value);
+    return new NeutrosophicJudgment(
+      judgment_data.T,
+      judgment_data.I,
+      judgment_data.F,
+      [this.createMatchedProvenanceEntry(input_value, match) as any]
+    );
+  }
+
+  /**
+   * Calculate T, I, F for an input value without building a judgment
+   * 
+   * Arrays of labels in multi-label mode are fused, so their judgment is built.
+   * 
+   * @param input_value - The string category to transform, or an array of labels in multi-label mode
+   * @returns Object with T, I, F values
+   * @throws InputError if the category is not found and no default_judgment is defined
+   */
+  evaluate(input_value: string | string[]): { T: number; I: number; F: number } {
+    if (Array.isArray(input_value) && this.parameters.multi_label) {
+      const { T, I, F } = this.applyLabels(input_value);
+      return { T, I, F };
+    }
+
+    const { judgment_data } = this.requireLabel(input_value);
+    return { T: judgment_data.T, I: judgment_data.I, F: judgment_data.F };
+  }
+
+  /**
+   * Apply the mapping to each of a list of values
+   * 
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The judgments, their input positions and the values that could not be mapped
+   */
+  applyBatch(values: ArrayLike<string | string[]>, options: BatchOptions = {}): BatchResult {
+    return applyMapperBatch(this, values, options);
+  }
+
+  /**
+   * Apply the mapping to a column of values, returning T, I and F as typed arrays
+   * 
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The T, I and F columns with a provenance entry shared by all rows
+   */
+  applyColumnar(values: ArrayLike<string | string[]>, options: BatchOptions = {}): ColumnarResult {
+    return applyMapperColumnar(this, values, options);
+  }
+
+  /**
+   * Map and fuse an array of labels
+   * 
+   * @param labels - The input labels; labels resolving to the same category are mapped once,
+   *   from the first of them
+   * @returns The fused judgment
+   * @throws InputError if a label is not a string, or no label can be mapped
+   */
+  private applyLabels(labels: string[]): NeutrosophicJudgment {
+    const { default_judgment, multi_label } = this.parameters;
+    const unrecognized = multi_label?.unrecognized ?? 'ignore';
+    const judgments: NeutrosophicJudgment[] = [];
+    const weights: number[] = [];
+    const categories: Set<string> = new Set();
+
+    for (const label of new Set(labels)) {
+      if (typeof label !== 'string') {
+        throw new InputError(`Labels for CategoricalMapper must be strings, got ${typeof label}`);
+      }
+
+      const match = this.findMatch(label);
+      if (match) {
+        if (categories.has(match.category)) {
+          continue;
+        }
+        categories.add(match.category);
+        judgments.push(this.applyLabel(label, false)!);
+        weights.push(multi_label?.weights?.[match.category] ?? 1.0);
+      } else if (unrecognized === 'error') {
+        throw new InputError(`Label '${label}' not found in mapper`);
+      } else if (unrecognized === 'default') {
+        if (!default_judgment) {
+          throw new InputError(`Label '${label}' not found in mapper and no default_judgment is defined`);
+        }
+        judgments.push(this.applyLabel(label, true)!);
+        weights.push(1.0);
+      }
+    }
+
+    if (judgments.length === 0) {
+      if (!default_judgment) {
+        throw new InputError('No label found in mapper and no default_judgment is defined');
+      }
+      judgments.push(new NeutrosophicJudgment(
         default_judgment.T,
         default_judgment.I,
         default_judgment.F,
-        [provenance_entry as any]
-      );
-    } else {
+        [this.createMatchedProvenanceEntry(labels, { rule: 'default' }) as any]
+      ));
+      weights.push(1.0);
+    }
+
+    return fuse(
+      multi_label?.operator ?? DEFAULT_MULTI_LABEL_OPERATOR,
+      judgments,
+      multi_label?.weights ? weights : undefined
+    );
+  }
+
+  /**
+   * Map a single label
+   * 
+   * @param input_value - The input label
+   * @param useDefault - Fall back to default_judgment when no rule matches
+   * @returns The judgment, or undefined if the label cannot be mapped
+   */
+  private applyLabel(input_value: string, useDefault: boolean): NeutrosophicJudgment | undefined {
+    const label = this.calculateLabel(input_value, useDefault);
+    if (!label) {
+      return undefined;
+    }
+
+    return new NeutrosophicJudgment(
+      label.judgment_data.T,
+      label.judgment_data.I,
+      label.judgment_data.F,
+      [this.createMatchedProvenanceEntry(input_value, label.match) as any]
+    );
+  }
+
+  /**
+   * Map a single label, which must be a string that matches a category or falls back to the default
+   * 
+   * @param input_value - The input label
+   * @returns The match and its judgment values
+   * @throws InputError if the input is not a string, or the category is not found and no default_judgment is defined
+   */
+  private requireLabel(input_value: unknown): { match: CategoryMatch | { rule: 'default' }; judgment_data: { T: number; I: number; F: number } } {
+    if (typeof input_value !== 'string') {
+      throw new InputError(`Input for CategoricalMapper must be a string, got ${typeof input_value}`);
+    }
+
+    const label = this.calculateLabel(input_value, true);
+    if (!label) {
       // Category not found and no default
       throw new InputError(
         `Input category '${input_value}' not found in mapper and no default_judgment is defined`
       );
     }
+    return label;
+  }
+
+  /**
+   * Calculate the judgment values of a single label
+   * 
+   * @param input_value - The input label
+   * @param useDefault - Fall back to default_judgment when no rule matches
+   * @returns The match and its judgment values, or undefined if the label cannot be mapped
+   */
+  private calculateLabel(
+    input_value: string,
+    useDefault: boolean
+  ): { match: CategoryMatch | { rule: 'default' }; judgment_data: { T: number; I: number; F: number } } | undefined {
+    const { mappings, default_judgment, matching } = this.parameters;
+    const match = this.findMatch(input_value);
+
+    if (match) {
+      // Category found by one of the matching rules
+      let judgment_data = mappings[match.category]!;
+      if (match.distance !== undefined) {
+        const penalty = Math.min(1, match.distance * (matching?.edit_distance_penalty ?? DEFAULT_EDIT_DISTANCE_PENALTY));
+        judgment_data = normalizeJudgmentValues(
+          judgment_data.T * (1 - penalty),
+          judgment_data.I + (judgment_data.T + judgment_data.F) * penalty,
+          judgment_data.F * (1 - penalty)
+        );
+      }
+      return { match, judgment_data };
+    } else if (useDefault && default_judgment) {
+      // Category not found, use default
+      return { match: { rule: 'default' }, judgment_data: default_judgment };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Create a provenance entry that records the matching rule
+   * 
+   * @param input_value - The input value that was transformed
+   * @param match - The match, or the default rule
+   * @returns A provenance entry object
+   */
+  private createMatchedProvenanceEntry(input_value: any, match: CategoryMatch | { rule: 'default' }): Record<string, any> {
+    const provenance_entry = this.createProvenanceEntry(input_value);
+    provenance_entry['metadata'].match = match;
+    return provenance_entry;
+  }
+
+  /**
+   * Find the category of an input value
+   * 
+   * @param input_value - The input string
+   * @returns The match, or undefined if no rule matches
+   */
+  private findMatch(input_value: string): CategoryMatch | undefined {
+    const { mappings, aliases, patterns, matching } = this.parameters;
+
+    if (Object.prototype.hasOwnProperty.call(mappings, input_value)) {
+      return { rule: 'exact', category: input_value, matched: input_value };
+    }
+
+    // Normalized categories and aliases, in definition order
+    const input = normalizeCategory(input_value, matching);
+    const candidates: Array<{ category: string; value: string; rule: 'normalized' | 'alias' }> = [
+      ...Object.keys(mappings).map(category => ({ category, value: category, rule: 'normalized' as const })),
+      ...Object.entries(aliases ?? {})
+        .filter(([category]) => category in mappings)
+        .flatMap(([category, list]) => list.map(alias => ({ category, value: alias, rule: 'alias' as const })))
+    ];
+
+    const normalized = candidates.find(candidate => normalizeCategory(candidate.value, matching) === input);
+    if (normalized) {
+      return { rule: normalized.rule, category: normalized.category, matched: normalized.value };
+    }
+
+    for (const pattern of patterns ?? []) {
+      if (pattern.category in mappings && compilePattern(pattern, matching).test(input)) {
+        return { rule: 'pattern', category: pattern.category, matched: (pattern.regex ?? pattern.glob)! };
+      }
+    }
+
+    const max_edit_distance = matching?.max_edit_distance ?? 0;
+    let closest: CategoryMatch | undefined;
+    if (max_edit_distance > 0) {
+      for (const candidate of candidates) {
+        const distance = editDistance(input, normalizeCategory(candidate.value, matching));
+        if (distance <= max_edit_distance && (!closest || distance < closest.distance!)) {
+          closest = { rule: 'edit_distance', category: candidate.category, matched: candidate.value, distance };
+        }
+      }
+    }
+
+    return closest;
   }
 
   /**
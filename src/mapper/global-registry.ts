@@ -0,0 +1,37 @@
+/**
+ * Global Mapper Registry Resolution
+ * =================================
+ *
+ * Mappers that look up other mappers (such as RecordMapper) need the global
+ * mapper registry, but the registry module imports every mapper class. This
+ * module holds a provider for the global registry instead, so those mappers can
+ * resolve it lazily without importing the registry module back.
+ */
+
+import { MapperRegistry as IMapperRegistry } from './types';
+
+let provider: (() => IMapperRegistry) | null = null;
+
+/**
+ * Set the provider of the global mapper registry
+ *
+ * Called by the registry module when it is loaded.
+ *
+ * @param globalRegistry - Returns the global mapper registry
+ */
+export function setGlobalRegistryProvider(globalRegistry: () => IMapperRegistry): void {
+  provider = globalRegistry;
+}
+
+/**
+ * Resolve the global mapper registry
+ *
+ * @returns The global mapper registry
+ * @throws Error if the registry module has not been loaded
+ */
+export function resolveGlobalRegistry(): IMapperRegistry {
+  if (!provider) {
+    throw new Error('The global mapper registry is not available: import the mapper registry module first');
+  }
+  return provider();
+}
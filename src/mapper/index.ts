@@ -3,8 +3,9 @@
  * ================================
  * 
  * This module provides tools for transforming raw data into Neutrosophic Judgments.
- * It includes various mapper types (numerical, categorical, boolean) and a registry
- * for managing them, ensuring auditable and consistent data transformation.
+ * It includes various mapper types (numerical, categorical, boolean, piecewise-linear,
+ * membership, temporal, record) and a registry for managing them, ensuring auditable and consistent
+ * data transformation.
  */
 
 // Export types and interfaces
@@ -13,7 +14,23 @@ export {
   type BaseMapperParams,
   type NumericalParams,
   type CategoricalParams,
+  type CategoricalMatchingOptions,
+  type CategoricalPattern,
+  type CategoricalMultiLabelOptions,
   type BooleanParams,
+  type PiecewiseKnot,
+  type ExtrapolationPolicy,
+  type PiecewiseLinearParams,
+  type LogisticMembership,
+  type GaussianMembership,
+  type TrapezoidalMembership,
+  type TriangularMembership,
+  type MembershipFunction,
+  type MembershipParams,
+  type TemporalDuration,
+  type TemporalParams,
+  type RecordField,
+  type RecordParams,
   type MapperParams,
   type Mapper,
   type MapperRegistry as IMapperRegistry,
@@ -23,18 +40,54 @@ export {
   ValidationError,
   createTimestamp,
   validateJudgmentValues,
+  normalizeJudgmentValues,
   createJudgment,
-  normalizeBooleanInput
+  normalizeBooleanInput,
+  normalizeTriStateInput,
+  DEFAULT_TRUE_VALUES,
+  DEFAULT_FALSE_VALUES,
+  DEFAULT_UNKNOWN_VALUES,
+  type BooleanVocabulary
 } from './types';
 
 // Export mapper implementations
 export { NumericalMapper } from './numerical';
 export { CategoricalMapper } from './categorical';
 export { BooleanMapper } from './boolean';
+export { PiecewiseLinearMapper } from './piecewise';
+export { MembershipMapper } from './membership';
+export { TemporalMapper, parseDuration } from './temporal';
+export { RecordMapper, type RecordMapperOptions } from './record';
+
+// Export batch and columnar application
+export {
+  applyMapperBatch,
+  applyMapperColumnar,
+  type BatchErrorPolicy,
+  type BatchOptions,
+  type BatchError,
+  type BatchResult,
+  type ColumnarResult
+} from './batch';
 
 // Export registry and validator
-export { MapperRegistry, getGlobalRegistry, resetGlobalRegistry } from './registry';
+export {
+  MapperRegistry,
+  getGlobalRegistry,
+  resetGlobalRegistry,
+  createMapperFromConfig,
+  type MapperImportMode,
+  type MapperImportOptions,
+  type MapperImportError,
+  type MapperImportResult
+} from './registry';
 export { MapperValidator } from './validator';
+export {
+  MapperTypeRegistry,
+  getGlobalMapperTypeRegistry,
+  resetGlobalMapperTypeRegistry,
+  type MapperTypePlugin
+} from './plugins';
 
 // Re-export for convenience
 export {
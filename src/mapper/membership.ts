@@ -0,0 +1,258 @@
+/**
+ * MembershipMapper Implementation
+ * ===============================
+ *
+ * Transforms continuous numerical values using smooth, parameterized
+ * membership functions for T, I and F instead of linear interpolation.
+ */
+
+import { NeutrosophicJudgment } from '../judgment';
+import {
+  Mapper,
+  MapperType,
+  MembershipParams,
+  MembershipFunction,
+  InputError,
+  ValidationError,
+  createTimestamp,
+  validateJudgmentValues,
+  normalizeJudgmentValues
+} from './types';
+import { BatchOptions, BatchResult, ColumnarResult, applyMapperBatch, applyMapperColumnar } from './batch';
+
+/**
+ * Numeric parameters required by each membership function shape
+ */
+const MEMBERSHIP_SHAPES: Record<MembershipFunction['shape'], string[]> = {
+  logistic: ['midpoint', 'steepness'],
+  gaussian: ['mean', 'std_dev'],
+  trapezoidal: ['a', 'b', 'c', 'd'],
+  triangular: ['a', 'b', 'c']
+};
+
+const MEMBERSHIP_COMPONENTS = ['truth_function', 'indeterminacy_function', 'falsity_function'] as const;
+
+/**
+ * Validate a membership function
+ *
+ * @param fn - The membership function
+ * @param path - The parameter name for error reporting
+ * @throws ValidationError if the shape is unknown or its parameters are invalid
+ */
+export function validateMembershipFunction(fn: any, path: string): void {
+  if (!fn || typeof fn !== 'object') {
+    throw new ValidationError(`${path}: Membership function must be an object`);
+  }
+
+  const required = MEMBERSHIP_SHAPES[fn.shape as MembershipFunction['shape']];
+  if (!required) {
+    throw new ValidationError(
+      `${path}: Unknown membership shape '${fn.shape}': expected one of ${Object.keys(MEMBERSHIP_SHAPES).join(', ')}`
+    );
+  }
+
+  for (const key of Object.keys(fn)) {
+    if (key !== 'shape' && !required.includes(key)) {
+      throw new ValidationError(`${path}: Parameter '${key}' does not apply to ${fn.shape} membership`);
+    }
+  }
+
+  for (const key of required) {
+    if (typeof fn[key] !== 'number' || !Number.isFinite(fn[key])) {
+      throw new ValidationError(`${path}: ${fn.shape} membership requires a finite number '${key}'`);
+    }
+  }
+
+  switch (fn.shape) {
+    case 'logistic':
+      if (fn.steepness === 0) {
+        throw new ValidationError(`${path}: steepness must not be 0`);
+      }
+      break;
+    case 'gaussian':
+      if (fn.std_dev <= 0) {
+        throw new ValidationError(`${path}: std_dev must be positive`);
+      }
+      break;
+    case 'trapezoidal':
+      if (!(fn.a <= fn.b && fn.b <= fn.c && fn.c <= fn.d && fn.a < fn.d)) {
+        throw new ValidationError(`${path}: trapezoidal membership requires a <= b <= c <= d and a < d`);
+      }
+      break;
+    case 'triangular':
+      if (!(fn.a <= fn.b && fn.b <= fn.c && fn.a < fn.c)) {
+        throw new ValidationError(`${path}: triangular membership requires a <= b <= c and a < c`);
+      }
+      break;
+  }
+}
+
+/**
+ * Evaluate a membership function
+ *
+ * @param fn - The membership function
+ * @param x - The input value
+ * @returns The membership degree in [0, 1]
+ */
+function evaluateMembership(fn: MembershipFunction, x: number): number {
+  switch (fn.shape) {
+    case 'logistic':
+      return 1 / (1 + Math.exp(-fn.steepness * (x - fn.midpoint)));
+    case 'gaussian':
+      return Math.exp(-((x - fn.mean) ** 2) / (2 * fn.std_dev ** 2));
+    case 'trapezoidal':
+      if (x < fn.a || x > fn.d) return 0;
+      if (x >= fn.b && x <= fn.c) return 1;
+      return x < fn.b ? (x - fn.a) / (fn.b - fn.a) : (fn.d - x) / (fn.d - fn.c);
+    case 'triangular':
+      if (x < fn.a || x > fn.c) return 0;
+      if (x === fn.b) return 1;
+      return x < fn.b ? (x - fn.a) / (fn.b - fn.a) : (fn.c - x) / (fn.c - fn.b);
+  }
+}
+
+/**
+ * MembershipMapper for transforming continuous numerical values
+ *
+ * Each of T, I and F is given by its own membership function, so judgments
+ * change smoothly around thresholds. When the three memberships sum to more
+ * than 1, they are scaled down proportionally to satisfy the conservation
+ * constraint. The membership functions are recorded in the provenance entry.
+ *
+ * Example:
+ * ```typescript
+ * const mapper = new MembershipMapper({
+ *   id: 'defi-health-factor',
+ *   version: '1.0.0',
+ *   truth_function: { shape: 'logistic', midpoint: 1.5, steepness: 8 },
+ *   indeterminacy_function: { shape: 'gaussian', mean: 1.5, std_dev: 0.2 },
+ *   falsity_function: { shape: 'logistic', midpoint: 1.5, steepness: -8 }
+ * });
+ *
+ * const judgment = mapper.apply(1.5);
+ * // Result: T=0.25, I=0.5, F=0.25
+ * ```
+ */
+export class MembershipMapper implements Mapper {
+  public readonly mapper_type = MapperType.MEMBERSHIP;
+  public readonly parameters: MembershipParams;
+
+  constructor(params: MembershipParams) {
+    this.parameters = params;
+    this.validate();
+  }
+
+  /**
+   * Validate the mapper configuration
+   */
+  validate(): boolean {
+    const components = MEMBERSHIP_COMPONENTS.filter(component => this.parameters[component] !== undefined);
+
+    if (components.length === 0) {
+      throw new ValidationError(
+        'MembershipMapper requires at least one of truth_function, indeterminacy_function and falsity_function'
+      );
+    }
+
+    for (const component of components) {
+      validateMembershipFunction(this.parameters[component], component);
+    }
+
+    return true;
+  }
+
+  /**
+   * Apply the membership functions to an input value
+   *
+   * @param input_value - The numerical value to transform
+   * @returns A NeutrosophicJudgment representing the transformed value
+   * @throws InputError if the input is not a finite number
+   */
+  apply(input_value: number): NeutrosophicJudgment {
+    const { T, I, F } = this.evaluate(input_value);
+
+    // Create provenance entry
+    const provenance_entry = this.createProvenanceEntry(input_value);
+
+    return new NeutrosophicJudgment(T, I, F, [provenance_entry as any]);
+  }
+
+  /**
+   * Calculate T, I, F for an input value without building a judgment
+   *
+   * @param input_value - The numerical value to transform
+   * @returns Object with T, I, F values
+   * @throws InputError if the input is not a finite number
+   */
+  evaluate(input_value: number): { T: number; I: number; F: number } {
+    if (typeof input_value !== 'number' || !Number.isFinite(input_value)) {
+      throw new InputError(`Input for MembershipMapper must be a finite number, got ${input_value}`);
+    }
+
+    const { truth_function, indeterminacy_function, falsity_function } = this.parameters;
+    const { T, I, F } = normalizeJudgmentValues(
+      truth_function ? evaluateMembership(truth_function, input_value) : 0,
+      indeterminacy_function ? evaluateMembership(indeterminacy_function, input_value) : 0,
+      falsity_function ? evaluateMembership(falsity_function, input_value) : 0
+    );
+
+    validateJudgmentValues(T, I, F);
+
+    return { T, I, F };
+  }
+
+  /**
+   * Apply the mapping to each of a list of values
+   *
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The judgments, their input positions and the values that could not be mapped
+   */
+  applyBatch(values: ArrayLike<number>, options: BatchOptions = {}): BatchResult {
+    return applyMapperBatch(this, values, options);
+  }
+
+  /**
+   * Apply the mapping to a column of values, returning T, I and F as typed arrays
+   *
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The T, I and F columns with a provenance entry shared by all rows
+   */
+  applyColumnar(values: ArrayLike<number>, options: BatchOptions = {}): ColumnarResult {
+    return applyMapperColumnar(this, values, options);
+  }
+
+  /**
+   * Create provenance entry for mapper application
+   *
+   * @param input_value - The input value that was transformed
+   * @param timestamp - Optional timestamp (defaults to current time)
+   * @returns A provenance entry object, including the membership functions
+   */
+  createProvenanceEntry(input_value: any, timestamp?: string): Record<string, any> {
+    const ts = timestamp || createTimestamp();
+    const membership_functions: Record<string, MembershipFunction> = {};
+    for (const component of MEMBERSHIP_COMPONENTS) {
+      const fn = this.parameters[component];
+      if (fn) {
+        membership_functions[component] = { ...fn };
+      }
+    }
+
+    return {
+      source_id: this.parameters.id,
+      timestamp: ts,
+      description: `Mapper transformation using ${this.parameters.id}`,
+      metadata: {
+        mapper_version: this.parameters.version,
+        mapper_type: this.mapper_type,
+        membership_functions,
+        original_input: {
+          value: String(input_value),
+          type: this.mapper_type
+        }
+      }
+    };
+  }
+}
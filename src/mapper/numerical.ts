@@ -16,6 +16,7 @@ import {
   createTimestamp,
   validateJudgmentValues
 } from './types';
+import { BatchOptions, BatchResult, ColumnarResult, applyMapperBatch, applyMapperColumnar } from './batch';
 
 /**
  * NumericalMapper for transforming continuous numerical values
@@ -68,6 +69,22 @@ export class NumericalMapper implements Mapper {
    * @throws InputError if the input is invalid or out of range
    */
   apply(input_value: number): NeutrosophicJudgment {
+    const { T, I, F } = this.evaluate(input_value);
+
+    // Create provenance entry
+    const provenance_entry = this.createProvenanceEntry(input_value);
+
+    return new NeutrosophicJudgment(T, I, F, [provenance_entry as any]);
+  }
+
+  /**
+   * Calculate T, I, F for an input value without building a judgment
+   * 
+   * @param input_value - The numerical value to transform
+   * @returns Object with T, I, F values
+   * @throws InputError if the input is invalid or out of range
+   */
+  evaluate(input_value: number): { T: number; I: number; F: number } {
     if (typeof input_value !== 'number') {
       throw new InputError(`Input for NumericalMapper must be a number, got ${typeof input_value}`);
     }
@@ -89,12 +106,29 @@ export class NumericalMapper implements Mapper {
     }
 
     // Calculate T, I, F values using geometric interpolation
-    const { T, I, F } = this.calculateInterpolation(clamped_value);
+    return this.calculateInterpolation(clamped_value);
+  }
 
-    // Create provenance entry
-    const provenance_entry = this.createProvenanceEntry(input_value);
+  /**
+   * Apply the mapping to each of a list of values
+   * 
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The judgments, their input positions and the values that could not be mapped
+   */
+  applyBatch(values: ArrayLike<number>, options: BatchOptions = {}): BatchResult {
+    return applyMapperBatch(this, values, options);
+  }
 
-    return new NeutrosophicJudgment(T, I, F, [provenance_entry as any]);
+  /**
+   * Apply the mapping to a column of values, returning T, I and F as typed arrays
+   * 
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The T, I and F columns with a provenance entry shared by all rows
+   */
+  applyColumnar(values: ArrayLike<number>, options: BatchOptions = {}): ColumnarResult {
+    return applyMapperColumnar(this, values, options);
   }
 
   /**
@@ -0,0 +1,254 @@
+/**
+ * PiecewiseLinearMapper Implementation
+ * ====================================
+ *
+ * Transforms continuous numerical values by linear interpolation between an
+ * ordered list of knots, each pairing an input value with a judgment.
+ */
+
+import { NeutrosophicJudgment } from '../judgment';
+import {
+  Mapper,
+  MapperType,
+  PiecewiseLinearParams,
+  PiecewiseKnot,
+  InputError,
+  ValidationError,
+  createTimestamp,
+  validateJudgmentValues,
+  normalizeJudgmentValues
+} from './types';
+import { BatchOptions, BatchResult, ColumnarResult, applyMapperBatch, applyMapperColumnar } from './batch';
+
+const EXTRAPOLATION_POLICIES = ['clamp', 'linear', 'error'];
+
+/**
+ * PiecewiseLinearMapper for transforming continuous numerical values
+ *
+ * Between two adjacent knots, T, I and F are interpolated linearly. Two knots
+ * with the same x define a step: inputs equal to x take the judgment of the
+ * second knot. Inputs outside the knot range are handled according to the
+ * extrapolation policy.
+ *
+ * Example:
+ * ```typescript
+ * // False below 1.0, uncertain up to 1.2, true from 1.2 to 5, uncertain again from 10
+ * const mapper = new PiecewiseLinearMapper({
+ *   id: 'defi-health-factor',
+ *   version: '1.0.0',
+ *   knots: [
+ *     { x: 1.0, T: 0.0, I: 0.0, F: 1.0 },
+ *     { x: 1.0, T: 0.0, I: 1.0, F: 0.0 },
+ *     { x: 1.2, T: 0.0, I: 1.0, F: 0.0 },
+ *     { x: 1.2, T: 1.0, I: 0.0, F: 0.0 },
+ *     { x: 5.0, T: 1.0, I: 0.0, F: 0.0 },
+ *     { x: 10.0, T: 0.0, I: 1.0, F: 0.0 }
+ *   ]
+ * });
+ *
+ * const judgment = mapper.apply(7.5);
+ * // Result: T=0.5, I=0.5, F=0.0
+ * ```
+ */
+export class PiecewiseLinearMapper implements Mapper {
+  public readonly mapper_type = MapperType.PIECEWISE_LINEAR;
+  public readonly parameters: PiecewiseLinearParams;
+
+  constructor(params: PiecewiseLinearParams) {
+    this.parameters = {
+      ...params,
+      extrapolation: params.extrapolation ?? 'clamp'
+    };
+
+    this.validate();
+  }
+
+  /**
+   * Validate the mapper configuration
+   */
+  validate(): boolean {
+    const { knots, extrapolation } = this.parameters;
+
+    if (!Array.isArray(knots) || knots.length < 2) {
+      throw new ValidationError('PiecewiseLinearMapper requires at least two knots');
+    }
+
+    knots.forEach((knot, index) => {
+      if (typeof knot.x !== 'number' || !Number.isFinite(knot.x)) {
+        throw new ValidationError(`Knot ${index} of PiecewiseLinearMapper must have a finite x, got ${knot.x}`);
+      }
+
+      try {
+        validateJudgmentValues(knot.T, knot.I, knot.F);
+      } catch (error) {
+        throw new ValidationError(
+          `Invalid judgment at knot ${index} in PiecewiseLinearMapper: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      const previous = knots[index - 1];
+      if (previous && knot.x < previous.x) {
+        throw new ValidationError(
+          `Knots of PiecewiseLinearMapper must be ordered by x: knot ${index} (x=${knot.x}) follows x=${previous.x}`
+        );
+      }
+      if (previous && knot.x === previous.x && knots[index - 2]?.x === knot.x) {
+        throw new ValidationError(`At most two knots of PiecewiseLinearMapper may share x=${knot.x}`);
+      }
+    });
+
+    if (extrapolation !== undefined && !EXTRAPOLATION_POLICIES.includes(extrapolation)) {
+      throw new ValidationError(
+        `Invalid extrapolation policy '${extrapolation}': expected one of ${EXTRAPOLATION_POLICIES.join(', ')}`
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Apply the piecewise-linear mapping to an input value
+   *
+   * @param input_value - The numerical value to transform
+   * @returns A NeutrosophicJudgment representing the transformed value
+   * @throws InputError if the input is not a finite number, or out of range with the `error` policy
+   */
+  apply(input_value: number): NeutrosophicJudgment {
+    const { T, I, F } = this.evaluate(input_value);
+
+    // Create provenance entry
+    const provenance_entry = this.createProvenanceEntry(input_value);
+
+    return new NeutrosophicJudgment(T, I, F, [provenance_entry as any]);
+  }
+
+  /**
+   * Calculate T, I, F for an input value without building a judgment
+   *
+   * @param input_value - The numerical value to transform
+   * @returns Object with T, I, F values
+   * @throws InputError if the input is not a finite number, or out of range with the `error` policy
+   */
+  evaluate(input_value: number): { T: number; I: number; F: number } {
+    if (typeof input_value !== 'number' || !Number.isFinite(input_value)) {
+      throw new InputError(`Input for PiecewiseLinearMapper must be a finite number, got ${input_value}`);
+    }
+
+    return this.calculateInterpolation(input_value);
+  }
+
+  /**
+   * Apply the mapping to each of a list of values
+   *
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The judgments, their input positions and the values that could not be mapped
+   */
+  applyBatch(values: ArrayLike<number>, options: BatchOptions = {}): BatchResult {
+    return applyMapperBatch(this, values, options);
+  }
+
+  /**
+   * Apply the mapping to a column of values, returning T, I and F as typed arrays
+   *
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The T, I and F columns with a provenance entry shared by all rows
+   */
+  applyColumnar(values: ArrayLike<number>, options: BatchOptions = {}): ColumnarResult {
+    return applyMapperColumnar(this, values, options);
+  }
+
+  /**
+   * Calculate T, I, F values for an input value
+   *
+   * @param input_value - The input value
+   * @returns Object with T, I, F values
+   * @throws InputError if the input is out of range with the `error` policy
+   */
+  private calculateInterpolation(input_value: number): { T: number; I: number; F: number } {
+    const { knots, extrapolation } = this.parameters;
+    const first = knots[0]!;
+    const last = knots[knots.length - 1]!;
+
+    if (input_value < first.x || input_value > last.x) {
+      if (extrapolation === 'error') {
+        throw new InputError(
+          `Input value ${input_value} is out of the defined mapper range [${first.x}, ${last.x}] and extrapolation is 'error'`
+        );
+      }
+
+      const [start, end] = input_value < first.x
+        ? [first, knots[1]!]
+        : [knots[knots.length - 2]!, last];
+      if (extrapolation === 'clamp' || start.x === end.x) {
+        const knot = input_value < first.x ? first : last;
+        return { T: knot.T, I: knot.I, F: knot.F };
+      }
+
+      return this.interpolate(start, end, input_value);
+    }
+
+    // Last knot at or before the input; later knots win at steps
+    let index = 0;
+    while (index < knots.length - 1 && knots[index + 1]!.x <= input_value) {
+      index++;
+    }
+
+    const knot = knots[index]!;
+    if (index === knots.length - 1 || knot.x === input_value) {
+      return { T: knot.T, I: knot.I, F: knot.F };
+    }
+
+    return this.interpolate(knot, knots[index + 1]!, input_value);
+  }
+
+  /**
+   * Interpolate (or extrapolate) linearly along the line through two knots
+   *
+   * Extrapolated values are brought back into range with normalizeJudgmentValues.
+   *
+   * @param start - The first knot
+   * @param end - The second knot, with a greater x
+   * @param input_value - The input value
+   * @returns Object with T, I, F values
+   */
+  private interpolate(start: PiecewiseKnot, end: PiecewiseKnot, input_value: number): { T: number; I: number; F: number } {
+    const ratio = (input_value - start.x) / (end.x - start.x);
+
+    const { T, I, F } = normalizeJudgmentValues(
+      start.T + (end.T - start.T) * ratio,
+      start.I + (end.I - start.I) * ratio,
+      start.F + (end.F - start.F) * ratio
+    );
+
+    validateJudgmentValues(T, I, F);
+
+    return { T, I, F };
+  }
+
+  /**
+   * Create provenance entry for mapper application
+   *
+   * @param input_value - The input value that was transformed
+   * @param timestamp - Optional timestamp (defaults to current time)
+   * @returns A provenance entry object
+   */
+  createProvenanceEntry(input_value: any, timestamp?: string): Record<string, any> {
+    const ts = timestamp || createTimestamp();
+
+    return {
+      source_id: this.parameters.id,
+      timestamp: ts,
+      description: `Mapper transformation using ${this.parameters.id}`,
+      metadata: {
+        mapper_version: this.parameters.version,
+        mapper_type: this.mapper_type,
+        original_input: {
+          value: String(input_value),
+          type: this.mapper_type
+        }
+      }
+    };
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Mapper Type Plugins
+ * ===================
+ *
+ * Registry of custom mapper types. A plugin supplies everything the SDK knows
+ * about a built-in mapper type: the JSON Schema of its parameters, a constructor,
+ * an optional validation hook for constraints the schema cannot express, and an
+ * optional detector for configurations that do not name their type. Registered
+ * types are then handled like the built-in ones by MapperValidator,
+ * MapperRegistry.import/export and MapperRegistry.getByType.
+ */
+
+import { Mapper, MapperType, ValidationError } from './types';
+
+// Type names are lowercase identifiers such as "threshold" or "acme-geo-fence"
+const MAPPER_TYPE_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+/**
+ * Definition of a custom mapper type
+ */
+export interface MapperTypePlugin {
+  /** Type name, equal to the `mapper_type` of the mappers it creates */
+  type: string;
+  /** JSON Schema for the mapper parameters; the `type` field is checked by the validator */
+  schema: Record<string, any>;
+  /**
+   * Construct a mapper
+   * @param parameters - Parameters that passed schema and hook validation
+   * @returns The mapper
+   */
+  create(parameters: any): Mapper;
+  /**
+   * Validate constraints beyond the JSON Schema
+   * @param parameters - Parameters that passed schema validation
+   * @throws ValidationError if the parameters are invalid
+   */
+  validate?(parameters: any): void;
+  /**
+   * Recognize configurations of this type that do not declare their type
+   * @param parameters - The mapper parameters
+   * @returns true if the parameters belong to this type
+   */
+  detect?(parameters: any): boolean;
+}
+
+/**
+ * Registry for custom mapper types
+ *
+ * Example:
+ * ```typescript
+ * getGlobalMapperTypeRegistry().register({
+ *   type: 'threshold',
+ *   schema: {
+ *     type: 'object',
+ *     required: ['id', 'version', 'threshold'],
+ *     properties: {
+ *       id: { type: 'string', minLength: 1 },
+ *       version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
+ *       threshold: { type: 'number' }
+ *     },
+ *     additionalProperties: false
+ *   },
+ *   create: parameters => new ThresholdMapper(parameters),
+ *   detect: parameters => 'threshold' in parameters
+ * });
+ * ```
+ */
+export class MapperTypeRegistry {
+  private plugins: Map<string, MapperTypePlugin> = new Map();
+
+  /**
+   * Register a mapper type
+   *
+   * @param plugin - The mapper type plugin
+   * @throws ValidationError if the type name is invalid, built in or already registered
+   */
+  register(plugin: MapperTypePlugin): void {
+    if (!MAPPER_TYPE_PATTERN.test(plugin.type)) {
+      throw new ValidationError(
+        `Invalid mapper type '${plugin.type}': must be a lowercase identifier`
+      );
+    }
+
+    if ((Object.values(MapperType) as string[]).includes(plugin.type)) {
+      throw new ValidationError(`Mapper type '${plugin.type}' is built in`);
+    }
+
+    if (this.plugins.has(plugin.type)) {
+      throw new ValidationError(`Mapper type '${plugin.type}' is already registered`);
+    }
+
+    if (!plugin.schema || typeof plugin.schema !== 'object' || typeof plugin.create !== 'function') {
+      throw new ValidationError(`Mapper type '${plugin.type}' must provide a schema and a create function`);
+    }
+
+    this.plugins.set(plugin.type, plugin);
+  }
+
+  /**
+   * Get a mapper type plugin
+   *
+   * @param type - The type name
+   * @returns The plugin or undefined if not found
+   */
+  get(type: string): MapperTypePlugin | undefined {
+    return this.plugins.get(type);
+  }
+
+  /**
+   * Check if a mapper type is registered
+   *
+   * @param type - The type name
+   * @returns true if registered, false otherwise
+   */
+  has(type: string): boolean {
+    return this.plugins.has(type);
+  }
+
+  /**
+   * List all registered type names, in registration order
+   *
+   * @returns Array of type names
+   */
+  list(): string[] {
+    return Array.from(this.plugins.keys());
+  }
+
+  /**
+   * Remove a mapper type
+   *
+   * @param type - The type name
+   * @returns true if removed, false if not found
+   */
+  unregister(type: string): boolean {
+    return this.plugins.delete(type);
+  }
+
+  /**
+   * Get the number of registered mapper types
+   *
+   * @returns Number of registered types
+   */
+  count(): number {
+    return this.plugins.size;
+  }
+}
+
+// Singleton instance for global access
+let globalMapperTypeRegistry: MapperTypeRegistry | null = null;
+
+/**
+ * Get the global mapper type registry instance
+ *
+ * @returns The global MapperTypeRegistry instance
+ */
+export function getGlobalMapperTypeRegistry(): MapperTypeRegistry {
+  if (!globalMapperTypeRegistry) {
+    globalMapperTypeRegistry = new MapperTypeRegistry();
+  }
+  return globalMapperTypeRegistry;
+}
+
+/**
+ * Reset the global mapper type registry
+ */
+export function resetGlobalMapperTypeRegistry(): void {
+  globalMapperTypeRegistry = null;
+}
@@ -0,0 +1,340 @@
+/**
+ * RecordMapper Implementation
+ * ===========================
+ *
+ * Transforms structured records into a single Neutrosophic Judgment by applying
+ * registered mappers to selected fields and fusing their judgments.
+ */
+
+import { NeutrosophicJudgment } from '../judgment';
+import { FusionOptions, fuse } from '../fusion';
+import { getGlobalFusionRegistry } from '../fusion-registry';
+import {
+  Mapper,
+  MapperType,
+  MapperRegistry as IMapperRegistry,
+  RecordParams,
+  RecordField,
+  InputError,
+  ValidationError,
+  createTimestamp
+} from './types';
+import { BatchOptions, BatchResult, ColumnarResult, applyMapperBatch, applyMapperColumnar } from './batch';
+import { resolveGlobalRegistry } from './global-registry';
+import { canonicalize } from '../canonical';
+
+const DEFAULT_RECORD_OPERATOR = 'otp-cawa-v1.1';
+
+/** IDs of the record mappers being applied, outermost first */
+const applying: string[] = [];
+
+/**
+ * Options for RecordMapper
+ */
+export interface RecordMapperOptions extends FusionOptions {
+  /** Registry in which the field mappers are looked up (default: the global mapper registry) */
+  mappers?: IMapperRegistry;
+}
+
+/**
+ * Validate the fields and operator of a RecordMapper configuration
+ *
+ * @param params - The mapper configuration
+ * @throws ValidationError if there are no fields, a field is malformed or refers to the record mapper itself,
+ *   a path appears twice, the operator is not a non-empty string, or fields have weights the operator does not accept
+ */
+export function validateRecordFields(params: RecordParams): void {
+  const { fields, operator } = params;
+
+  if (!Array.isArray(fields) || fields.length === 0) {
+    throw new ValidationError('RecordMapper requires at least one field');
+  }
+
+  const paths = new Set<string>();
+  fields.forEach((field, index) => {
+    if (!field || typeof field !== 'object') {
+      throw new ValidationError(`fields[${index}] must be an object`);
+    }
+    if (typeof field.path !== 'string' || !field.path) {
+      throw new ValidationError(`fields[${index}].path must be a non-empty string`);
+    }
+    if (typeof field.mapper_id !== 'string' || !field.mapper_id) {
+      throw new ValidationError(`fields[${index}].mapper_id must be a non-empty string`);
+    }
+    if (field.mapper_id === params.id) {
+      throw new ValidationError(`fields[${index}] refers to the record mapper '${params.id}' itself`);
+    }
+    if (field.weight !== undefined &&
+        (typeof field.weight !== 'number' || !Number.isFinite(field.weight) || field.weight < 0)) {
+      throw new ValidationError(`fields[${index}].weight must be a non-negative number`);
+    }
+    if (field.optional !== undefined && typeof field.optional !== 'boolean') {
+      throw new ValidationError(`fields[${index}].optional must be a boolean`);
+    }
+    if (paths.has(field.path)) {
+      throw new ValidationError(`Field path '${field.path}' appears more than once`);
+    }
+    paths.add(field.path);
+  });
+
+  if (operator !== undefined && (typeof operator !== 'string' || !operator)) {
+    throw new ValidationError('operator must be a non-empty operator ID');
+  }
+  if (operator !== undefined && fields.some(field => field.weight !== undefined) &&
+      getGlobalFusionRegistry().get(operator)?.weighted === false) {
+    throw new ValidationError(`Field weights cannot be used with '${operator}', which does not accept weights`);
+  }
+}
+
+/**
+ * Resolve a dot-separated path in a record
+ *
+ * @param record - The record
+ * @param path - The path; numeric segments index arrays
+ * @returns The value, or undefined if the path does not resolve
+ */
+function resolvePath(record: any, path: string): any {
+  let value = record;
+  for (const segment of path.split('.')) {
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, segment)) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * RecordMapper for transforming structured records
+ *
+ * Each field declares a path into the record and the ID of a registered mapper.
+ * Applying the record mapper applies every field's mapper to the value at its
+ * path and fuses the field judgments with the configured operator, so the
+ * result carries a Conformance Seal and a Judgment ID. If any field has a
+ * weight, fields without one weigh 1.
+ *
+ * Each field judgment is followed in the provenance chain by an entry that
+ * records its path, mapper, original input and judgment. A field is missing
+ * when its path does not resolve; `null` values are passed to the mapper.
+ * Field mappers are looked up when the record mapper is applied.
+ *
+ * Example:
+ * ```typescript
+ * const registry = new MapperRegistry();
+ * registry.register(healthFactorMapper);  // 'defi-health-factor'
+ * registry.register(kycMapper);           // 'kyc-status'
+ *
+ * const mapper = new RecordMapper({
+ *   id: 'defi-position',
+ *   version: '1.0.0',
+ *   fields: [
+ *     { path: 'health_factor', mapper_id: 'defi-health-factor', weight: 0.6 },
+ *     { path: 'owner.kyc_status', mapper_id: 'kyc-status', weight: 0.4 }
+ *   ]
+ * }, { mappers: registry });
+ *
+ * const judgment = mapper.apply({ health_factor: 1.8, owner: { kyc_status: 'VERIFIED' } });
+ * ```
+ */
+export class RecordMapper implements Mapper {
+  public readonly mapper_type = MapperType.RECORD;
+  public readonly parameters: RecordParams;
+  private readonly options: RecordMapperOptions;
+
+  /**
+   * @param params - The mapper parameters
+   * @param options - Registry of field mappers and fusion options such as a clock
+   */
+  constructor(params: RecordParams, options: RecordMapperOptions = {}) {
+    this.parameters = params;
+    this.options = options;
+    this.validate();
+  }
+
+  /**
+   * Validate the mapper configuration
+   */
+  validate(): boolean {
+    validateRecordFields(this.parameters);
+    return true;
+  }
+
+  /**
+   * Map the fields of a record and fuse their judgments
+   *
+   * @param input_value - The record
+   * @returns The fused judgment
+   * @throws InputError if the input is not an object, a required field is missing or cannot be mapped,
+   *   or no field is present
+   * @throws ValidationError if a field mapper is not registered, or record mappers refer to each other in a cycle
+   */
+  apply(input_value: Record<string, any>): NeutrosophicJudgment {
+    if (input_value === null || typeof input_value !== 'object' || Array.isArray(input_value)) {
+      throw new InputError(
+        `Input for RecordMapper must be an object, got ${Array.isArray(input_value) ? 'array' : input_value === null ? 'null' : typeof input_value}`
+      );
+    }
+
+    const { id } = this.parameters;
+    if (applying.includes(id)) {
+      throw new ValidationError(`Record mappers refer to each other in a cycle: ${[...applying, id].join(' -> ')}`);
+    }
+
+    applying.push(id);
+    try {
+      return this.applyFields(input_value);
+    } finally {
+      applying.pop();
+    }
+  }
+
+  /**
+   * Map the fields of a record and fuse their judgments
+   *
+   * @param input_value - The record
+   * @returns The fused judgment
+   */
+  private applyFields(input_value: Record<string, any>): NeutrosophicJudgment {
+    const { fields, operator } = this.parameters;
+    const judgments: NeutrosophicJudgment[] = [];
+    const weights: number[] = [];
+
+    for (const field of fields) {
+      const value = resolvePath(input_value, field.path);
+      if (value === undefined) {
+        if (field.optional) {
+          continue;
+        }
+        throw new InputError(`Field '${field.path}' is missing from the record`);
+      }
+
+      judgments.push(this.applyField(field, value));
+      weights.push(field.weight ?? 1.0);
+    }
+
+    if (judgments.length === 0) {
+      throw new InputError('No field of the record is present');
+    }
+
+    const { mappers: _mappers, ...fusionOptions } = this.options;
+    return fuse(
+      operator ?? DEFAULT_RECORD_OPERATOR,
+      judgments,
+      fields.some(field => field.weight !== undefined) ? weights : undefined,
+      fusionOptions
+    );
+  }
+
+  /**
+   * Apply the mapping to each of a list of values
+   *
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The judgments, their input positions and the values that could not be mapped
+   */
+  applyBatch(values: ArrayLike<Record<string, any>>, options: BatchOptions = {}): BatchResult {
+    return applyMapperBatch(this, values, options);
+  }
+
+  /**
+   * Apply the mapping to a column of values, returning T, I and F as typed arrays
+   *
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The T, I and F columns with a provenance entry shared by all rows
+   */
+  applyColumnar(values: ArrayLike<Record<string, any>>, options: BatchOptions = {}): ColumnarResult {
+    return applyMapperColumnar(this, values, options);
+  }
+
+  /**
+   * Get the mapper of a field
+   *
+   * @param field - The field
+   * @returns The registered mapper
+   * @throws ValidationError if no mapper with the field's mapper ID is registered
+   */
+  getFieldMapper(field: RecordField): Mapper {
+    const mapper = (this.options.mappers ?? resolveGlobalRegistry()).get(field.mapper_id);
+    if (!mapper) {
+      throw new ValidationError(`Mapper '${field.mapper_id}' for field '${field.path}' is not registered`);
+    }
+    return mapper;
+  }
+
+  /**
+   * Create provenance entry for mapper application
+   *
+   * @param input_value - The input value that was transformed
+   * @param timestamp - Optional timestamp (defaults to current time)
+   * @returns A provenance entry object
+   */
+  createProvenanceEntry(input_value: any, timestamp?: string): Record<string, any> {
+    const ts = timestamp || createTimestamp(this.options.clock);
+
+    return {
+      source_id: this.parameters.id,
+      timestamp: ts,
+      description: `Mapper transformation using ${this.parameters.id}`,
+      metadata: {
+        mapper_version: this.parameters.version,
+        mapper_type: this.mapper_type,
+        original_input: {
+          value: jsonSafeCopy(input_value),
+          type: this.mapper_type
+        }
+      }
+    };
+  }
+
+  /**
+   * Apply the mapper of a field and record the field in the provenance chain
+   *
+   * @param field - The field
+   * @param value - The value at the field's path
+   * @returns The field judgment, whose chain ends with the field entry
+   * @throws InputError if the field mapper rejects the value
+   */
+  private applyField(field: RecordField, value: any): NeutrosophicJudgment {
+    const mapper = this.getFieldMapper(field);
+
+    let judgment: NeutrosophicJudgment;
+    try {
+      judgment = mapper.apply(value);
+    } catch (error) {
+      if (error instanceof InputError) {
+        throw new InputError(`Field '${field.path}': ${error.message}`);
+      }
+      throw error;
+    }
+
+    const provenance_entry = this.createProvenanceEntry(value);
+    provenance_entry['description'] = `Field '${field.path}' of ${this.parameters.id} mapped with ${field.mapper_id}`;
+    provenance_entry['metadata'].record_field = {
+      path: field.path,
+      mapper_id: field.mapper_id,
+      mapper_version: mapper.parameters.version,
+      judgment: { T: judgment.T, I: judgment.I, F: judgment.F }
+    };
+
+    return new NeutrosophicJudgment(
+      judgment.T,
+      judgment.I,
+      judgment.F,
+      [...judgment.provenance_chain, provenance_entry as any]
+    );
+  }
+}
+
+/**
+ * Copies a field value as JSON, so objects and arrays keep their structure in the
+ * provenance; values JSON cannot represent (undefined, NaN, BigInt) are recorded as strings
+ * @private
+ */
+function jsonSafeCopy(value: any): any {
+  try {
+    return JSON.parse(canonicalize(value));
+  } catch {
+    return String(value);
+  }
+}
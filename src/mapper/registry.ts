@@ -6,7 +6,137 @@
  * Provides thread-safe operations for mapper registration and lookup.
  */
 
-import { Mapper, MapperRegistry as IMapperRegistry, ValidationError } from './types';
+import { Mapper, MapperRegistry as IMapperRegistry, MapperType, ValidationError, createTimestamp } from './types';
+import { NumericalMapper } from './numerical';
+import { CategoricalMapper } from './categorical';
+import { BooleanMapper } from './boolean';
+import { PiecewiseLinearMapper } from './piecewise';
+import { MembershipMapper } from './membership';
+import { TemporalMapper } from './temporal';
+import { RecordMapper } from './record';
+import { MapperValidator } from './validator';
+import { MapperTypeRegistry, getGlobalMapperTypeRegistry } from './plugins';
+import { setGlobalRegistryProvider } from './global-registry';
+
+/**
+ * Import mode
+ * 
+ * - `merge`: imported mappers are added to the existing ones
+ * - `replace`: the registry is cleared before the imported mappers are added
+ */
+export type MapperImportMode = 'merge' | 'replace';
+
+/**
+ * Options for MapperRegistry.import
+ */
+export interface MapperImportOptions {
+  /** Import mode (default: merge) */
+  mode?: MapperImportMode;
+  /** In merge mode, overwrite mappers whose ID is already registered (default: false) */
+  overwrite?: boolean;
+  /** Validate and reconstruct without modifying the registry (default: false) */
+  dryRun?: boolean;
+  /** Registry of custom mapper types (default: the global mapper type registry) */
+  mapperTypes?: MapperTypeRegistry;
+}
+
+/**
+ * Error for a single entry of an import
+ */
+export interface MapperImportError {
+  /** Position of the entry in the imported configurations */
+  index: number;
+  /** Mapper ID, if the entry has one */
+  id?: string;
+  /** What went wrong */
+  message: string;
+}
+
+/**
+ * Result of MapperRegistry.import
+ */
+export interface MapperImportResult {
+  /** IDs of the mappers that were (or, in a dry run, would be) imported */
+  imported: string[];
+  /** Entries that could not be imported */
+  errors: MapperImportError[];
+  /** Whether this was a dry run */
+  dryRun: boolean;
+}
+
+/**
+ * Constructors for the built-in mapper types
+ */
+const BUILTIN_MAPPER_FACTORIES: Record<string, (parameters: any) => Mapper> = {
+  [MapperType.NUMERICAL]: parameters => new NumericalMapper(parameters),
+  [MapperType.CATEGORICAL]: parameters => new CategoricalMapper(parameters),
+  [MapperType.BOOLEAN]: parameters => new BooleanMapper(parameters),
+  [MapperType.PIECEWISE_LINEAR]: parameters => new PiecewiseLinearMapper(parameters),
+  [MapperType.MEMBERSHIP]: parameters => new MembershipMapper(parameters),
+  [MapperType.TEMPORAL]: parameters => new TemporalMapper(parameters),
+  [MapperType.RECORD]: parameters => new RecordMapper(parameters)
+};
+
+/**
+ * Reconstructs a mapper from a configuration
+ * 
+ * Accepts plain mapper parameters as well as entries produced by
+ * MapperRegistry.export(), where the parameters are nested under `parameters`
+ * and the mapper type is given by `type`. Without an explicit type, the type is
+ * determined from the fields present. The parameters are validated with
+ * MapperValidator against the schema of that type before construction.
+ * 
+ * @param config - The mapper configuration
+ * @param mapperTypes - Registry of custom mapper types (default: the global mapper type registry)
+ * @returns The reconstructed mapper
+ * @throws ValidationError if the configuration is invalid or its type is unknown
+ * 
+ * @example
+ * ```typescript
+ * const mapper = createMapperFromConfig({
+ *   id: 'defi-health-factor',
+ *   version: '1.0.0',
+ *   falsity_point: 1.0,
+ *   indeterminacy_point: 1.5,
+ *   truth_point: 3.0
+ * });
+ * ```
+ */
+export function createMapperFromConfig(
+  config: any,
+  mapperTypes: MapperTypeRegistry = getGlobalMapperTypeRegistry()
+): Mapper {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new ValidationError('Mapper configuration must be an object');
+  }
+  
+  const exported = config.parameters && typeof config.parameters === 'object';
+  const parameters = exported ? config.parameters : config;
+  const validator = new MapperValidator(mapperTypes);
+  const type: string | null = exported && typeof config.type === 'string'
+    ? config.type
+    : validator.detectType(parameters);
+  
+  if (!type) {
+    throw new ValidationError(
+      "Cannot determine mapper type from configuration; declare it with a 'type' field"
+    );
+  }
+  
+  const create = BUILTIN_MAPPER_FACTORIES[type] ?? mapperTypes.get(type)?.create;
+  if (!create) {
+    throw new ValidationError(`Unknown mapper type: ${type}`);
+  }
+  
+  validator.validate(parameters, type);
+  
+  const mapper = create(parameters);
+  if (mapper.mapper_type !== type) {
+    throw new ValidationError(`Mapper type '${type}' created a mapper of type '${mapper.mapper_type}'`);
+  }
+  mapper.validate();
+  return mapper;
+}
 
 /**
  * Thread-safe registry for managing mappers
@@ -216,23 +346,73 @@ export class MapperRegistry implements IMapperRegistry {
   /**
    * Import mappers from a serializable format
    * 
-   * @param configs - Array of mapper configurations
-   * @param replace - Whether to replace existing mappers (default: false)
-   * @throws ValidationError if configurations are invalid
+   * Accepts the output of export() or createSnapshot(), as well as arrays of
+   * plain mapper parameters. Every entry is validated and reconstructed; entries
+   * that fail are reported individually and do not prevent the others from
+   * being imported.
+   * 
+   * @param configs - Array of mapper configurations or a registry snapshot
+   * @param options - Import options; `true`/`false` is shorthand for `{ overwrite }`
+   * @returns The imported IDs and the per-entry errors
+   * @throws ValidationError if the input is neither an array nor a snapshot
+   * 
+   * @example
+   * ```typescript
+   * const result = registry.import(otherRegistry.createSnapshot(), { mode: 'replace' });
+   * result.errors.forEach(error => console.log(`${error.id}: ${error.message}`));
+   * ```
    */
-  import(configs: any[], replace: boolean = false): void {
-    for (const config of configs) {
-      const id = config.id;
+  import(configs: any[] | { mappers: any[] }, options: MapperImportOptions | boolean = {}): MapperImportResult {
+    const { mode = 'merge', overwrite = false, dryRun = false, mapperTypes } =
+      typeof options === 'boolean' ? { overwrite: options } : options;
+    
+    const entries = Array.isArray(configs) ? configs : configs?.mappers;
+    if (!Array.isArray(entries)) {
+      throw new ValidationError('Import expects an array of mapper configurations or a registry snapshot');
+    }
+    
+    const mappers: Mapper[] = [];
+    const errors: MapperImportError[] = [];
+    const seen = new Set<string>();
+    
+    entries.forEach((config, index) => {
+      const parameters = config?.parameters ?? config;
+      const id = typeof parameters?.id === 'string' ? parameters.id : undefined;
+      const fail = (message: string): void => {
+        errors.push(id === undefined ? { index, message } : { index, id, message });
+      };
       
-      if (!replace && this.mappers.has(id)) {
-        throw new ValidationError(`Mapper with ID '${id}' already exists. Use replace=true to overwrite.`);
+      try {
+        const mapper = createMapperFromConfig(config, mapperTypes);
+        const mapperId = mapper.parameters.id;
+        
+        if (seen.has(mapperId)) {
+          fail(`Mapper with ID '${mapperId}' appears more than once in the import`);
+        } else if (mode === 'merge' && !overwrite && this.mappers.has(mapperId)) {
+          fail(`Mapper with ID '${mapperId}' already exists. Use overwrite to replace it.`);
+        } else {
+          seen.add(mapperId);
+          mappers.push(mapper);
+        }
+      } catch (error) {
+        fail(error instanceof Error ? error.message : String(error));
+      }
+    });
+    
+    if (!dryRun) {
+      if (mode === 'replace') {
+        this.mappers.clear();
+      }
+      for (const mapper of mappers) {
+        this.mappers.set(mapper.parameters.id, mapper);
       }
-      
-      // Note: This is a simplified import. In a real implementation,
-      // you would need to reconstruct the appropriate mapper class
-      // based on the type and parameters.
-      throw new ValidationError('Import functionality requires mapper reconstruction logic');
     }
+    
+    return {
+      imported: mappers.map(mapper => mapper.parameters.id),
+      errors,
+      dryRun
+    };
   }
 
   /**
@@ -242,7 +422,7 @@ export class MapperRegistry implements IMapperRegistry {
    */
   createSnapshot(): any {
     return {
-      timestamp: new Date().toISOString(),
+      timestamp: createTimestamp(),
       count: this.mappers.size,
       mappers: this.export()
     };
@@ -292,3 +472,6 @@ export function resetGlobalRegistry(): void {
 }
 
 
+
+// Mappers that look up other mappers resolve the global registry through this provider
+setGlobalRegistryProvider(getGlobalRegistry);
@@ -0,0 +1,348 @@
+/**
+ * TemporalMapper Implementation
+ * =============================
+ *
+ * Transforms timestamps ("last seen", "expires at") and durations into
+ * Neutrosophic Judgments according to their age relative to a reference time.
+ */
+
+import { NeutrosophicJudgment } from '../judgment';
+import { Clock, ClockOptions, getClock } from '../clock';
+import {
+  Mapper,
+  MapperType,
+  TemporalParams,
+  TemporalDuration,
+  InputError,
+  ValidationError,
+  createTimestamp,
+  validateJudgmentValues
+} from './types';
+import { BatchOptions, BatchResult, ColumnarResult, applyMapperBatch, applyMapperColumnar } from './batch';
+
+// ISO 8601 duration with weeks, days, hours, minutes and seconds
+const DURATION_PATTERN =
+  /^([+-])?P(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+// Milliseconds per week, day, hour, minute and second, in pattern order
+const DURATION_UNITS = [604800000, 86400000, 3600000, 60000, 1000];
+
+// ISO 8601 date, optionally with a time that must then carry a time zone
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2}))?$/;
+
+const EPOCH_UNITS = ['milliseconds', 'seconds'];
+
+/**
+ * Judgment for intermediate ages when no intermediate_map is configured
+ */
+const PURE_INDETERMINACY = Object.freeze({ T: 0.0, I: 1.0, F: 0.0 });
+
+/**
+ * Parse a duration
+ *
+ * Years and months are not accepted because their length varies; use weeks
+ * or days instead.
+ *
+ * @param duration - Milliseconds, or an ISO 8601 duration such as 'PT1H' or '-P7D'
+ * @returns The duration in milliseconds
+ * @throws InputError if the duration is neither a finite number nor a supported ISO 8601 duration
+ */
+export function parseDuration(duration: TemporalDuration): number {
+  if (typeof duration === 'number') {
+    if (!Number.isFinite(duration)) {
+      throw new InputError(`Duration must be a finite number of milliseconds, got ${duration}`);
+    }
+    return duration;
+  }
+
+  const text = typeof duration === 'string' ? duration.trim() : '';
+  const match = DURATION_PATTERN.exec(text);
+  if (!match || !/\d/.test(text) || text.endsWith('T')) {
+    throw new InputError(
+      `Invalid ISO 8601 duration '${String(duration)}': expected weeks, days, hours, minutes or seconds, e.g. 'PT1H' or 'P7D'`
+    );
+  }
+
+  const milliseconds = DURATION_UNITS.reduce(
+    (total, unit, index) => total + Number(match[index + 2] ?? 0) * unit,
+    0
+  );
+  return match[1] === '-' ? -milliseconds : milliseconds;
+}
+
+/**
+ * Validate the freshness breakpoints and epoch unit of a TemporalMapper configuration
+ *
+ * @param params - The mapper configuration
+ * @throws ValidationError if a breakpoint is not a valid duration, fresh_within exceeds stale_after or the epoch unit is unknown
+ */
+export function validateTemporalBreakpoints(params: TemporalParams): void {
+  const breakpoints: Record<string, number> = {};
+
+  for (const name of ['fresh_within', 'stale_after'] as const) {
+    try {
+      breakpoints[name] = parseDuration(params[name]);
+    } catch (error) {
+      throw new ValidationError(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (breakpoints['fresh_within']! > breakpoints['stale_after']!) {
+    throw new ValidationError(
+      `fresh_within (${params.fresh_within}) must not be greater than stale_after (${params.stale_after})`
+    );
+  }
+
+  if (params.epoch_unit !== undefined && !EPOCH_UNITS.includes(params.epoch_unit)) {
+    throw new ValidationError(
+      `Invalid epoch_unit '${params.epoch_unit}': expected one of ${EPOCH_UNITS.join(', ')}`
+    );
+  }
+}
+
+/**
+ * TemporalMapper for transforming timestamps and durations by their age
+ *
+ * The age of an input is the reference time minus the input time; inputs that
+ * are ISO 8601 durations are taken as the age itself. Ages below fresh_within
+ * map to fresh_map, ages above stale_after map to stale_map, and ages in
+ * between map to intermediate_map.
+ *
+ * Inputs may be Dates, ISO 8601 dates or date-times with a time zone, epoch
+ * timestamps (numbers, in epoch_unit) or ISO 8601 durations. The reference
+ * time is read from the clock given to the constructor, or from the current
+ * context clock, so results are reproducible with a FixedClock. The reference
+ * time, age and band are recorded in the provenance entry.
+ *
+ * Example:
+ * ```typescript
+ * const mapper = new TemporalMapper({
+ *   id: 'node-last-seen',
+ *   version: '1.0.0',
+ *   fresh_within: 'PT1H',
+ *   stale_after: 'PT24H',
+ *   fresh_map: { T: 0.9, I: 0.1, F: 0.0 },
+ *   stale_map: { T: 0.0, I: 0.2, F: 0.8 }
+ * }, { clock: new FixedClock('2025-01-02T00:00:00Z') });
+ *
+ * const judgment = mapper.apply('2025-01-01T12:00:00Z');
+ * // Result: T=0.0, I=1.0, F=0.0 (12 hours old)
+ * ```
+ *
+ * For expiry dates, use negative breakpoints: with `fresh_within: '-P7D'` and
+ * `stale_after: 'PT0S'`, certificates valid for more than a week are fresh
+ * and expired ones are stale.
+ */
+export class TemporalMapper implements Mapper {
+  public readonly mapper_type = MapperType.TEMPORAL;
+  public readonly parameters: TemporalParams;
+  private readonly clock: Clock | undefined;
+
+  /**
+   * @param params - The mapper parameters
+   * @param options - Optional reference clock (default: the current context clock)
+   */
+  constructor(params: TemporalParams, options: ClockOptions = {}) {
+    this.parameters = params;
+    this.clock = options.clock;
+    this.validate();
+  }
+
+  /**
+   * Validate the mapper configuration
+   */
+  validate(): boolean {
+    const { fresh_map, stale_map, intermediate_map } = this.parameters;
+    const maps = { fresh_map, stale_map, ...(intermediate_map ? { intermediate_map } : {}) };
+
+    for (const [name, judgment] of Object.entries(maps)) {
+      try {
+        validateJudgmentValues(judgment.T, judgment.I, judgment.F);
+      } catch (error) {
+        throw new ValidationError(`Invalid ${name} in TemporalMapper: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    validateTemporalBreakpoints(this.parameters);
+
+    return true;
+  }
+
+  /**
+   * Apply the freshness breakpoints to a timestamp or duration
+   *
+   * @param input_value - A Date, ISO 8601 date-time, epoch timestamp or ISO 8601 duration
+   * @returns A NeutrosophicJudgment for the age of the input
+   * @throws InputError if the input is not a valid timestamp or duration
+   */
+  apply(input_value: Date | string | number): NeutrosophicJudgment {
+    const reference_time = this.getReferenceTime();
+    const age = this.getAge(input_value, reference_time);
+    const band = this.getBand(age);
+    const judgment_data = this.getBandJudgment(band);
+
+    // Create provenance entry, timestamped at the reference time
+    const provenance_entry = this.createProvenanceEntry(input_value, reference_time.toISOString());
+    provenance_entry['metadata'].temporal = {
+      reference_time: reference_time.toISOString(),
+      age_ms: age,
+      band
+    };
+
+    return new NeutrosophicJudgment(
+      judgment_data.T,
+      judgment_data.I,
+      judgment_data.F,
+      [provenance_entry as any]
+    );
+  }
+
+  /**
+   * Calculate T, I, F for a timestamp or duration without building a judgment
+   *
+   * @param input_value - A Date, ISO 8601 date-time, epoch timestamp or ISO 8601 duration
+   * @returns Object with T, I, F values
+   * @throws InputError if the input is not a valid timestamp or duration
+   */
+  evaluate(input_value: Date | string | number): { T: number; I: number; F: number } {
+    const { T, I, F } = this.getBandJudgment(this.getBand(this.getAge(input_value)));
+    return { T, I, F };
+  }
+
+  /**
+   * Apply the mapping to each of a list of values
+   *
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The judgments, their input positions and the values that could not be mapped
+   */
+  applyBatch(values: ArrayLike<Date | string | number>, options: BatchOptions = {}): BatchResult {
+    return applyMapperBatch(this, values, options);
+  }
+
+  /**
+   * Apply the mapping to a column of values, returning T, I and F as typed arrays
+   *
+   * @param values - The input values
+   * @param options - Error policy, default judgment and clock
+   * @returns The T, I and F columns with a provenance entry shared by all rows
+   */
+  applyColumnar(values: ArrayLike<Date | string | number>, options: BatchOptions = {}): ColumnarResult {
+    return applyMapperColumnar(this, values, options);
+  }
+
+  /**
+   * Get the reference time from the mapper's clock
+   *
+   * @returns The current time of the clock given to the constructor, or of the context clock
+   */
+  getReferenceTime(): Date {
+    return (this.clock ?? getClock()).now();
+  }
+
+  /**
+   * Calculate the age of a timestamp or duration
+   *
+   * @param input_value - A Date, ISO 8601 date-time, epoch timestamp or ISO 8601 duration
+   * @param reference_time - The reference time (default: the mapper's clock)
+   * @returns The age in milliseconds; negative for times after the reference time
+   * @throws InputError if the input is not a valid timestamp or duration
+   */
+  getAge(input_value: Date | string | number, reference_time: Date = this.getReferenceTime()): number {
+    if (typeof input_value === 'string' && /^[+-]?P/.test(input_value.trim())) {
+      return parseDuration(input_value);
+    }
+
+    return reference_time.getTime() - this.toEpochMillis(input_value);
+  }
+
+  /**
+   * Get the judgment for intermediate ages
+   *
+   * @returns The intermediate_map, or pure indeterminacy when none is configured
+   */
+  getIntermediateJudgment(): { T: number; I: number; F: number } {
+    return { ...(this.parameters.intermediate_map ?? PURE_INDETERMINACY) };
+  }
+
+  /**
+   * Create provenance entry for mapper application
+   *
+   * @param input_value - The input value that was transformed
+   * @param timestamp - Optional timestamp (defaults to the current time of the mapper's clock)
+   * @returns A provenance entry object
+   */
+  createProvenanceEntry(input_value: any, timestamp?: string): Record<string, any> {
+    const ts = timestamp || createTimestamp(this.clock);
+
+    return {
+      source_id: this.parameters.id,
+      timestamp: ts,
+      description: `Mapper transformation using ${this.parameters.id}`,
+      metadata: {
+        mapper_version: this.parameters.version,
+        mapper_type: this.mapper_type,
+        original_input: {
+          value: input_value instanceof Date && Number.isFinite(input_value.getTime())
+            ? input_value.toISOString()
+            : String(input_value),
+          type: this.mapper_type
+        }
+      }
+    };
+  }
+
+  /**
+   * Get the freshness band of an age
+   *
+   * @param age - The age in milliseconds
+   * @returns 'fresh' below fresh_within, 'stale' above stale_after, 'intermediate' otherwise
+   */
+  private getBand(age: number): 'fresh' | 'intermediate' | 'stale' {
+    if (age < parseDuration(this.parameters.fresh_within)) {
+      return 'fresh';
+    }
+    return age > parseDuration(this.parameters.stale_after) ? 'stale' : 'intermediate';
+  }
+
+  /**
+   * Get the judgment for a freshness band
+   *
+   * @param band - The freshness band
+   * @returns The fresh_map, stale_map or intermediate judgment
+   */
+  private getBandJudgment(band: 'fresh' | 'intermediate' | 'stale'): { T: number; I: number; F: number } {
+    if (band === 'fresh') {
+      return this.parameters.fresh_map;
+    }
+    return band === 'stale' ? this.parameters.stale_map : this.getIntermediateJudgment();
+  }
+
+  /**
+   * Convert a timestamp to epoch milliseconds
+   *
+   * @param input_value - A Date, ISO 8601 date-time or epoch timestamp
+   * @returns The time in epoch milliseconds
+   * @throws InputError if the input is not a valid timestamp
+   */
+  private toEpochMillis(input_value: Date | string | number): number {
+    let millis = NaN;
+
+    if (input_value instanceof Date) {
+      millis = input_value.getTime();
+    } else if (typeof input_value === 'number') {
+      millis = this.parameters.epoch_unit === 'seconds' ? input_value * 1000 : input_value;
+    } else if (typeof input_value === 'string' && DATE_TIME_PATTERN.test(input_value.trim())) {
+      millis = Date.parse(input_value.trim());
+    }
+
+    if (!Number.isFinite(millis)) {
+      throw new InputError(
+        'Input for TemporalMapper must be a Date, an ISO 8601 date-time with time zone, ' +
+        `an epoch timestamp or an ISO 8601 duration, got ${typeof input_value === 'string' ? `'${input_value}'` : String(input_value)}`
+      );
+    }
+
+    return millis;
+  }
+}
@@ -7,6 +7,8 @@
  */
 
 import { NeutrosophicJudgment } from '../judgment';
+import { Clock, currentTimestamp } from '../clock';
+import type { BatchOptions, BatchResult, ColumnarResult } from './batch';
 
 /**
  * Enum for mapper types
@@ -14,7 +16,11 @@ import { NeutrosophicJudgment } from '../judgment';
 export enum MapperType {
   NUMERICAL = 'numerical',
   CATEGORICAL = 'categorical',
-  BOOLEAN = 'boolean'
+  BOOLEAN = 'boolean',
+  PIECEWISE_LINEAR = 'piecewise_linear',
+  MEMBERSHIP = 'membership',
+  TEMPORAL = 'temporal',
+  RECORD = 'record'
 }
 
 /**
@@ -25,6 +31,8 @@ export interface BaseMapperParams {
   id: string;
   /** Version of the mapper */
   version: string;
+  /** Mapper type; inferred from the other fields when absent */
+  type?: MapperType | string;
   /** Description of the mapper's purpose */
   description?: string;
   /** Additional metadata */
@@ -45,6 +53,52 @@ export interface NumericalParams extends BaseMapperParams {
   clamp_to_range?: boolean;
 }
 
+/**
+ * Input normalization and fuzzy matching for CategoricalMapper
+ */
+export interface CategoricalMatchingOptions {
+  /** Ignore case when comparing inputs with categories, aliases and patterns (default: false) */
+  case_insensitive?: boolean;
+  /** Trim inputs and collapse runs of whitespace to a single space (default: false) */
+  normalize_whitespace?: boolean;
+  /** Unicode normalization form applied to inputs and categories */
+  unicode_normalization?: 'NFC' | 'NFD' | 'NFKC' | 'NFKD';
+  /** Largest edit distance accepted for approximate matches (default: 0, disabled) */
+  max_edit_distance?: number;
+  /** Share of T and F moved to I per edit of an approximate match (default: 0.2) */
+  edit_distance_penalty?: number;
+}
+
+/**
+ * Pattern rule of a CategoricalMapper; exactly one of regex and glob is given
+ */
+export interface CategoricalPattern {
+  /** Category assigned to matching inputs */
+  category: string;
+  /** Regular expression, matched anywhere in the input unless anchored */
+  regex?: string;
+  /** Glob pattern matched against the whole input: `*` matches any run of characters, `?` one character */
+  glob?: string;
+}
+
+/**
+ * Multi-label mode of CategoricalMapper
+ */
+export interface CategoricalMultiLabelOptions {
+  /** Versioned ID of the fusion operator combining the per-label judgments (default: otp-cawa-v1.1) */
+  operator?: string;
+  /** Fusion weight per category (default: 1); only for weighted operators */
+  weights?: Record<string, number>;
+  /**
+   * Handling of labels that match no category
+   *
+   * - `ignore`: skip the label (default)
+   * - `default`: map the label to default_judgment
+   * - `error`: throw an InputError
+   */
+  unrecognized?: 'ignore' | 'default' | 'error';
+}
+
 /**
  * Parameters for CategoricalMapper
  */
@@ -53,6 +107,14 @@ export interface CategoricalParams extends BaseMapperParams {
   mappings: Record<string, { T: number; I: number; F: number }>;
   /** Default judgment for unknown categories */
   default_judgment?: { T: number; I: number; F: number };
+  /** Alternative spellings per category */
+  aliases?: Record<string, string[]>;
+  /** Pattern rules, tried in order after exact and alias matches */
+  patterns?: CategoricalPattern[];
+  /** Input normalization and fuzzy matching (default: exact matching only) */
+  matching?: CategoricalMatchingOptions;
+  /** Accept arrays of labels and fuse their judgments (default: single labels only) */
+  multi_label?: CategoricalMultiLabelOptions;
 }
 
 /**
@@ -63,21 +125,190 @@ export interface BooleanParams extends BaseMapperParams {
   true_map: { T: number; I: number; F: number };
   /** Mapping for false values */
   false_map: { T: number; I: number; F: number };
+  /** Mapping for unknown values (default: pure indeterminacy, I = 1) */
+  unknown_map?: { T: number; I: number; F: number };
+  /** Strings meaning true (default: 'true', 'yes', '1', 'on', 'enabled') */
+  true_values?: string[];
+  /** Strings meaning false (default: 'false', 'no', '0', 'off', 'disabled') */
+  false_values?: string[];
+  /** Strings meaning unknown (default: '', 'unknown', 'n/a', 'null') */
+  unknown_values?: string[];
+}
+
+/**
+ * Knot of a PiecewiseLinearMapper: the judgment at input value x
+ */
+export interface PiecewiseKnot {
+  /** Input value */
+  x: number;
+  /** Truth value at x */
+  T: number;
+  /** Indeterminacy value at x */
+  I: number;
+  /** Falsity value at x */
+  F: number;
+}
+
+/**
+ * Handling of inputs outside the knot range
+ *
+ * - `clamp`: use the judgment of the nearest end knot
+ * - `linear`: continue the outermost segment, clipped to valid judgment values
+ * - `error`: throw an InputError
+ */
+export type ExtrapolationPolicy = 'clamp' | 'linear' | 'error';
+
+/**
+ * Parameters for PiecewiseLinearMapper
+ */
+export interface PiecewiseLinearParams extends BaseMapperParams {
+  /** Knots ordered by x; two knots with the same x define a step */
+  knots: PiecewiseKnot[];
+  /** Handling of inputs outside the knot range (default: clamp) */
+  extrapolation?: ExtrapolationPolicy;
+}
+
+/**
+ * Logistic membership: 1 / (1 + e^(-steepness * (x - midpoint)))
+ *
+ * A positive steepness rises with x, a negative one falls.
+ */
+export interface LogisticMembership {
+  shape: 'logistic';
+  /** Input value with membership 0.5 */
+  midpoint: number;
+  /** Slope at the midpoint, divided by 4; must not be 0 */
+  steepness: number;
+}
+
+/**
+ * Gaussian membership: e^(-(x - mean)^2 / (2 * std_dev^2))
+ */
+export interface GaussianMembership {
+  shape: 'gaussian';
+  /** Input value with membership 1 */
+  mean: number;
+  /** Width of the bell; must be positive */
+  std_dev: number;
+}
+
+/**
+ * Trapezoidal membership: 0 outside [a, d], 1 on [b, c], linear in between
+ */
+export interface TrapezoidalMembership {
+  shape: 'trapezoidal';
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+}
+
+/**
+ * Triangular membership: 0 outside [a, c], 1 at b, linear in between
+ */
+export interface TriangularMembership {
+  shape: 'triangular';
+  a: number;
+  b: number;
+  c: number;
+}
+
+/**
+ * Membership function of a MembershipMapper component
+ */
+export type MembershipFunction =
+  | LogisticMembership
+  | GaussianMembership
+  | TrapezoidalMembership
+  | TriangularMembership;
+
+/**
+ * Parameters for MembershipMapper
+ *
+ * At least one membership function is required; a missing one contributes 0.
+ */
+export interface MembershipParams extends BaseMapperParams {
+  /** Membership function for T */
+  truth_function?: MembershipFunction;
+  /** Membership function for I */
+  indeterminacy_function?: MembershipFunction;
+  /** Membership function for F */
+  falsity_function?: MembershipFunction;
+}
+
+/**
+ * Duration in milliseconds, or an ISO 8601 duration such as 'PT1H' or 'P1DT12H'
+ *
+ * Durations may be negative (e.g. '-P7D'), meaning a time before the reference.
+ */
+export type TemporalDuration = number | string;
+
+/**
+ * Parameters for TemporalMapper
+ *
+ * The age of an input is the reference time minus the input time, so future
+ * times (such as an expiry date that has not passed) have a negative age.
+ * Ages below fresh_within are fresh, ages above stale_after are stale.
+ */
+export interface TemporalParams extends BaseMapperParams {
+  /** Age below which inputs are fresh */
+  fresh_within: TemporalDuration;
+  /** Age above which inputs are stale */
+  stale_after: TemporalDuration;
+  /** Mapping for fresh inputs */
+  fresh_map: { T: number; I: number; F: number };
+  /** Mapping for stale inputs */
+  stale_map: { T: number; I: number; F: number };
+  /** Mapping for ages from fresh_within to stale_after (default: pure indeterminacy, I = 1) */
+  intermediate_map?: { T: number; I: number; F: number };
+  /** Unit of epoch timestamps given as numbers (default: 'milliseconds') */
+  epoch_unit?: 'milliseconds' | 'seconds';
+}
+
+/**
+ * Field of a RecordMapper: a path into the record and the mapper applied to its value
+ */
+export interface RecordField {
+  /** Dot-separated path into the record, e.g. 'position.health_factor' or 'owners.0.kyc_status' */
+  path: string;
+  /** ID of the registered mapper applied to the value */
+  mapper_id: string;
+  /** Fusion weight (default: 1); only for weighted operators */
+  weight?: number;
+  /** Skip the field when the path does not resolve, instead of throwing (default: false) */
+  optional?: boolean;
+}
+
+/**
+ * Parameters for RecordMapper
+ */
+export interface RecordParams extends BaseMapperParams {
+  /** Fields mapped and fused into the judgment of a record */
+  fields: RecordField[];
+  /** Versioned ID of the fusion operator combining the field judgments (default: otp-cawa-v1.1) */
+  operator?: string;
 }
 
 /**
  * Union type for all parameter types
  */
-export type MapperParams = NumericalParams | CategoricalParams | BooleanParams;
+export type MapperParams =
+  | NumericalParams
+  | CategoricalParams
+  | BooleanParams
+  | PiecewiseLinearParams
+  | MembershipParams
+  | TemporalParams
+  | RecordParams;
 
 /**
  * Base interface for all mappers
  */
 export interface Mapper {
-  /** Mapper type */
-  readonly mapper_type: MapperType;
+  /** Mapper type (a built-in MapperType or a registered custom type) */
+  readonly mapper_type: MapperType | string;
   /** Mapper parameters */
-  readonly parameters: MapperParams;
+  readonly parameters: MapperParams | BaseMapperParams;
   
   /**
    * Apply the mapper to transform input data
@@ -86,6 +317,31 @@ export interface Mapper {
    */
   apply(input: any): NeutrosophicJudgment;
   
+  /**
+   * Calculate T, I, F for an input without building a judgment or provenance entry
+   * @param input - The input data to transform
+   * @returns The T, I, F values of the judgment apply() would return
+   */
+  evaluate?(input: any): { T: number; I: number; F: number };
+  
+  /**
+   * Apply the mapper to many values, all timestamped with one clock reading.
+   * Every built-in mapper implements it; `applyMapperBatch` batches any mapper.
+   * @param values - The input values
+   * @param options - Error policy and clock
+   * @returns The judgments of the mapped values and the errors of the others
+   */
+  applyBatch?(values: ArrayLike<any>, options?: BatchOptions): BatchResult;
+  
+  /**
+   * Apply the mapper to many values, returning T, I and F columns.
+   * Every built-in mapper implements it; `applyMapperColumnar` applies to any mapper.
+   * @param values - The input values
+   * @param options - Error policy and clock
+   * @returns The T, I and F columns with a provenance entry shared by all rows
+   */
+  applyColumnar?(values: ArrayLike<any>, options?: BatchOptions): ColumnarResult;
+  
   /**
    * Validate the mapper configuration
    * @returns true if valid, throws error if invalid
@@ -183,15 +439,16 @@ export interface MapperValidator {
    * @param mapperType - The mapper type
    * @returns The JSON Schema object
    */
-  getSchema(mapperType: MapperType): any;
+  getSchema(mapperType: MapperType | string): any;
 }
 
 /**
  * Utility function to create a timestamp
+ * @param clock - Optional clock (default: the current context clock)
  * @returns ISO 8601 timestamp string
  */
-export function createTimestamp(): string {
-  return new Date().toISOString();
+export function createTimestamp(clock?: Clock): string {
+  return currentTimestamp(clock);
 }
 
 /**
@@ -220,6 +477,38 @@ export function validateJudgmentValues(t: number, i: number, f: number): void {
   }
 }
 
+/**
+ * Utility function to bring raw values into a valid judgment
+ * 
+ * Values are clipped to [0, 1] and scaled down proportionally if their sum
+ * exceeds 1, so the result always satisfies the conservation constraint.
+ * 
+ * @param t - Raw truth value
+ * @param i - Raw indeterminacy value
+ * @param f - Raw falsity value
+ * @returns Judgment object with T + I + F <= 1
+ */
+export function normalizeJudgmentValues(t: number, i: number, f: number): { T: number; I: number; F: number } {
+  const clip = (value: number) => Math.max(0, Math.min(1, value));
+  
+  let T = clip(t);
+  let I = clip(i);
+  let F = clip(f);
+  
+  const sum = T + I + F;
+  if (sum > 1) {
+    T /= sum;
+    I /= sum;
+    F /= sum;
+  }
+  
+  // Absorb rounding so that T + I + F never exceeds 1
+  I = Math.min(I, 1 - T);
+  F = Math.max(0, Math.min(F, 1 - T - I));
+  
+  return { T, I, F };
+}
+
 /**
  * Utility function to create a judgment object
  * @param t - Truth value
@@ -234,12 +523,47 @@ export function createJudgment(t: number, i: number, f: number): { T: number; I:
 }
 
 /**
- * Utility function to normalize boolean input
+ * Strings recognized as true by default
+ */
+export const DEFAULT_TRUE_VALUES: readonly string[] = Object.freeze(['true', 'yes', '1', 'on', 'enabled']);
+
+/**
+ * Strings recognized as false by default
+ */
+export const DEFAULT_FALSE_VALUES: readonly string[] = Object.freeze(['false', 'no', '0', 'off', 'disabled']);
+
+/**
+ * Strings recognized as unknown by default
+ */
+export const DEFAULT_UNKNOWN_VALUES: readonly string[] = Object.freeze(['', 'unknown', 'n/a', 'null']);
+
+/**
+ * Strings recognized by boolean normalization, compared case-insensitively after trimming
+ */
+export interface BooleanVocabulary {
+  /** Strings meaning true (default: DEFAULT_TRUE_VALUES) */
+  true_values?: readonly string[];
+  /** Strings meaning false (default: DEFAULT_FALSE_VALUES) */
+  false_values?: readonly string[];
+  /** Strings meaning unknown (default: DEFAULT_UNKNOWN_VALUES) */
+  unknown_values?: readonly string[];
+}
+
+/**
+ * Utility function to normalize boolean input that may be unknown
+ * 
+ * `null`, `undefined`, `NaN` and the unknown strings of the vocabulary are unknown.
+ * 
  * @param input - Input value to normalize
- * @returns Normalized boolean
+ * @param vocabulary - Recognized strings (default: the default vocabulary)
+ * @returns Normalized boolean, or null if the input is unknown
  * @throws InputError if input cannot be normalized
  */
-export function normalizeBooleanInput(input: any): boolean {
+export function normalizeTriStateInput(input: any, vocabulary: BooleanVocabulary = {}): boolean | null {
+  if (input === null || input === undefined) {
+    return null;
+  }
+  
   if (typeof input === 'boolean') {
     return input;
   }
@@ -247,15 +571,33 @@ export function normalizeBooleanInput(input: any): boolean {
   if (typeof input === 'number') {
     if (input === 1) return true;
     if (input === 0) return false;
+    if (Number.isNaN(input)) return null;
     throw new InputError(`Numeric input must be 0 or 1, got ${input}`);
   }
   
   if (typeof input === 'string') {
-    const lower = input.toLowerCase();
-    if (['true', 'yes', '1', 'on', 'enabled'].includes(lower)) return true;
-    if (['false', 'no', '0', 'off', 'disabled'].includes(lower)) return false;
+    const token = input.trim().toLowerCase();
+    const matches = (values: readonly string[]) => values.some(value => value.trim().toLowerCase() === token);
+    if (matches(vocabulary.true_values ?? DEFAULT_TRUE_VALUES)) return true;
+    if (matches(vocabulary.false_values ?? DEFAULT_FALSE_VALUES)) return false;
+    if (matches(vocabulary.unknown_values ?? DEFAULT_UNKNOWN_VALUES)) return null;
     throw new InputError(`String input must be a valid boolean representation, got '${input}'`);
   }
   
   throw new InputError(`Input must be boolean, number (0/1), or string, got ${typeof input}`);
 }
+
+/**
+ * Utility function to normalize boolean input
+ * @param input - Input value to normalize
+ * @param vocabulary - Recognized strings (default: the default vocabulary)
+ * @returns Normalized boolean
+ * @throws InputError if input cannot be normalized or is unknown
+ */
+export function normalizeBooleanInput(input: any, vocabulary: BooleanVocabulary = {}): boolean {
+  const normalized = normalizeTriStateInput(input, vocabulary);
+  if (normalized === null) {
+    throw new InputError(`Input is unknown and cannot be normalized to a boolean, got '${String(input)}'`);
+  }
+  return normalized;
+}
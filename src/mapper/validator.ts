@@ -7,15 +7,56 @@
  */
 
 import { MapperValidator as IMapperValidator, MapperType, ValidationError } from './types';
+import { MapperTypeRegistry, getGlobalMapperTypeRegistry } from './plugins';
+import { validateBooleanVocabulary } from './boolean';
+import { validateCategoricalRules } from './categorical';
+import { validateMembershipFunction } from './membership';
+import { validateTemporalBreakpoints } from './temporal';
+import { validateRecordFields } from './record';
+
+/**
+ * JSON Schema for a membership function; parameters per shape are checked separately
+ */
+const MEMBERSHIP_FUNCTION_SCHEMA = {
+  type: 'object',
+  required: ['shape'],
+  properties: {
+    shape: { type: 'string', enum: ['logistic', 'gaussian', 'trapezoidal', 'triangular'] },
+    midpoint: { type: 'number' },
+    steepness: { type: 'number' },
+    mean: { type: 'number' },
+    std_dev: { type: 'number' },
+    a: { type: 'number' },
+    b: { type: 'number' },
+    c: { type: 'number' },
+    d: { type: 'number' }
+  },
+  additionalProperties: false
+};
+
+/**
+ * JSON Schema for a judgment mapping
+ */
+const JUDGMENT_SCHEMA = {
+  type: 'object',
+  required: ['T', 'I', 'F'],
+  properties: {
+    T: { type: 'number', minimum: 0, maximum: 1 },
+    I: { type: 'number', minimum: 0, maximum: 1 },
+    F: { type: 'number', minimum: 0, maximum: 1 }
+  },
+  additionalProperties: false
+};
 
 /**
  * JSON Schema definitions for each mapper type
  */
-const MAPPER_SCHEMAS = {
+const MAPPER_SCHEMAS: Record<string, any> = {
   [MapperType.NUMERICAL]: {
     type: 'object',
     required: ['id', 'version', 'falsity_point', 'indeterminacy_point', 'truth_point'],
     properties: {
+      type: { type: 'string', enum: [MapperType.NUMERICAL] },
       id: { type: 'string', minLength: 1 },
       version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
       description: { type: 'string' },
@@ -32,6 +73,7 @@ const MAPPER_SCHEMAS = {
     type: 'object',
     required: ['id', 'version', 'mappings'],
     properties: {
+      type: { type: 'string', enum: [MapperType.CATEGORICAL] },
       id: { type: 'string', minLength: 1 },
       version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
       description: { type: 'string' },
@@ -60,6 +102,40 @@ const MAPPER_SCHEMAS = {
         },
         additionalProperties: false
       },
+      aliases: { type: 'object' },
+      patterns: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['category'],
+          properties: {
+            category: { type: 'string' },
+            regex: { type: 'string' },
+            glob: { type: 'string' }
+          },
+          additionalProperties: false
+        }
+      },
+      matching: {
+        type: 'object',
+        properties: {
+          case_insensitive: { type: 'boolean' },
+          normalize_whitespace: { type: 'boolean' },
+          unicode_normalization: { type: 'string', enum: ['NFC', 'NFD', 'NFKC', 'NFKD'] },
+          max_edit_distance: { type: 'number', minimum: 0 },
+          edit_distance_penalty: { type: 'number', minimum: 0, maximum: 1 }
+        },
+        additionalProperties: false
+      },
+      multi_label: {
+        type: 'object',
+        properties: {
+          operator: { type: 'string', minLength: 1 },
+          weights: { type: 'object' },
+          unrecognized: { type: 'string', enum: ['ignore', 'default', 'error'] }
+        },
+        additionalProperties: false
+      },
       metadata: { type: 'object' }
     },
     additionalProperties: false
@@ -69,6 +145,7 @@ const MAPPER_SCHEMAS = {
     type: 'object',
     required: ['id', 'version', 'true_map', 'false_map'],
     properties: {
+      type: { type: 'string', enum: [MapperType.BOOLEAN] },
       id: { type: 'string', minLength: 1 },
       version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
       description: { type: 'string' },
@@ -92,12 +169,121 @@ const MAPPER_SCHEMAS = {
         },
         additionalProperties: false
       },
+      unknown_map: {
+        type: 'object',
+        required: ['T', 'I', 'F'],
+        properties: {
+          T: { type: 'number', minimum: 0, maximum: 1 },
+          I: { type: 'number', minimum: 0, maximum: 1 },
+          F: { type: 'number', minimum: 0, maximum: 1 }
+        },
+        additionalProperties: false
+      },
+      true_values: { type: 'array', items: { type: 'string' } },
+      false_values: { type: 'array', items: { type: 'string' } },
+      unknown_values: { type: 'array', items: { type: 'string' } },
+      metadata: { type: 'object' }
+    },
+    additionalProperties: false
+  },
+  
+  [MapperType.PIECEWISE_LINEAR]: {
+    type: 'object',
+    required: ['id', 'version', 'knots'],
+    properties: {
+      type: { type: 'string', enum: [MapperType.PIECEWISE_LINEAR] },
+      id: { type: 'string', minLength: 1 },
+      version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
+      description: { type: 'string' },
+      knots: {
+        type: 'array',
+        minItems: 2,
+        items: {
+          type: 'object',
+          required: ['x', 'T', 'I', 'F'],
+          properties: {
+            x: { type: 'number' },
+            T: { type: 'number', minimum: 0, maximum: 1 },
+            I: { type: 'number', minimum: 0, maximum: 1 },
+            F: { type: 'number', minimum: 0, maximum: 1 }
+          },
+          additionalProperties: false
+        }
+      },
+      extrapolation: { type: 'string', enum: ['clamp', 'linear', 'error'] },
+      metadata: { type: 'object' }
+    },
+    additionalProperties: false
+  },
+  
+  [MapperType.MEMBERSHIP]: {
+    type: 'object',
+    required: ['id', 'version'],
+    properties: {
+      type: { type: 'string', enum: [MapperType.MEMBERSHIP] },
+      id: { type: 'string', minLength: 1 },
+      version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
+      description: { type: 'string' },
+      truth_function: MEMBERSHIP_FUNCTION_SCHEMA,
+      indeterminacy_function: MEMBERSHIP_FUNCTION_SCHEMA,
+      falsity_function: MEMBERSHIP_FUNCTION_SCHEMA,
+      metadata: { type: 'object' }
+    },
+    additionalProperties: false
+  },
+  
+  [MapperType.TEMPORAL]: {
+    type: 'object',
+    required: ['id', 'version', 'fresh_within', 'stale_after', 'fresh_map', 'stale_map'],
+    properties: {
+      type: { type: 'string', enum: [MapperType.TEMPORAL] },
+      id: { type: 'string', minLength: 1 },
+      version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
+      description: { type: 'string' },
+      fresh_within: { type: ['number', 'string'] },
+      stale_after: { type: ['number', 'string'] },
+      fresh_map: JUDGMENT_SCHEMA,
+      stale_map: JUDGMENT_SCHEMA,
+      intermediate_map: JUDGMENT_SCHEMA,
+      epoch_unit: { type: 'string', enum: ['milliseconds', 'seconds'] },
+      metadata: { type: 'object' }
+    },
+    additionalProperties: false
+  },
+  
+  [MapperType.RECORD]: {
+    type: 'object',
+    required: ['id', 'version', 'fields'],
+    properties: {
+      type: { type: 'string', enum: [MapperType.RECORD] },
+      id: { type: 'string', minLength: 1 },
+      version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
+      description: { type: 'string' },
+      fields: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['path', 'mapper_id'],
+          properties: {
+            path: { type: 'string', minLength: 1 },
+            mapper_id: { type: 'string', minLength: 1 },
+            weight: { type: 'number', minimum: 0 },
+            optional: { type: 'boolean' }
+          },
+          additionalProperties: false
+        }
+      },
+      operator: { type: 'string', minLength: 1 },
       metadata: { type: 'object' }
     },
     additionalProperties: false
   }
 };
 
+// Fields shared by all mapper types
+const BASE_FIELDS = ['id', 'version', 'description', 'metadata', 'type'];
+
 /**
  * Simple JSON Schema validator implementation
  * 
@@ -128,6 +314,11 @@ class SimpleSchemaValidator {
   }
   
   private validateObject(obj: any, schema: any, path: string, errors: string[]): void {
+    if (Array.isArray(schema.type)) {
+      this.validateUnionType(obj, schema, path, errors);
+      return;
+    }
+    
     if (schema.type === 'object') {
       this.validateObjectType(obj, schema, path, errors);
     } else if (schema.type === 'string') {
@@ -136,6 +327,8 @@ class SimpleSchemaValidator {
       this.validateNumberType(obj, schema, path, errors);
     } else if (schema.type === 'boolean') {
       this.validateBooleanType(obj, schema, path, errors);
+    } else if (schema.type === 'array') {
+      this.validateArrayType(obj, schema, path, errors);
     }
     
     // Validate additional constraints
@@ -213,8 +406,40 @@ class SimpleSchemaValidator {
     }
   }
   
-  private validateConstraints(_obj: any, _schema: any, _path: string, _errors: string[]): void {
-    // Add any additional constraint validations here
+  private validateArrayType(obj: any, schema: any, path: string, errors: string[]): void {
+    if (!Array.isArray(obj)) {
+      errors.push(`${path}: Expected array, got ${typeof obj}`);
+      return;
+    }
+    
+    if (schema.minItems !== undefined && obj.length < schema.minItems) {
+      errors.push(`${path}: Array too short (minimum ${schema.minItems} items)`);
+    }
+    
+    if (schema.items) {
+      obj.forEach((item, index) => this.validateObject(item, schema.items, `${path}[${index}]`, errors));
+    }
+  }
+  
+  private validateUnionType(obj: any, schema: any, path: string, errors: string[]): void {
+    const type = schema.type.find((candidate: string) =>
+      candidate === 'array' ? Array.isArray(obj)
+        : candidate === 'object' ? typeof obj === 'object' && obj !== null && !Array.isArray(obj)
+        : typeof obj === candidate
+    );
+    
+    if (!type) {
+      errors.push(`${path}: Expected ${schema.type.join(' or ')}, got ${typeof obj}`);
+      return;
+    }
+    
+    this.validateObject(obj, { ...schema, type }, path, errors);
+  }
+  
+  private validateConstraints(obj: any, schema: any, path: string, errors: string[]): void {
+    if (Array.isArray(schema.enum) && !schema.enum.includes(obj)) {
+      errors.push(`${path}: Value ${JSON.stringify(obj)} is not one of ${schema.enum.join(', ')}`);
+    }
   }
 }
 
@@ -240,43 +465,59 @@ class SimpleSchemaValidator {
  */
 export class MapperValidator implements IMapperValidator {
   private schemaValidator: SimpleSchemaValidator;
+  private mapperTypes: MapperTypeRegistry | undefined;
   
-  constructor() {
+  /**
+   * @param mapperTypes - Registry of custom mapper types (default: the global mapper type registry)
+   */
+  constructor(mapperTypes?: MapperTypeRegistry) {
     this.schemaValidator = new SimpleSchemaValidator();
+    this.mapperTypes = mapperTypes;
   }
   
   /**
    * Validate a mapper configuration against JSON Schema
    * 
    * @param config - The mapper configuration
+   * @param mapperType - The mapper type (default: determined from the configuration)
    * @returns true if valid, throws error if invalid
    * @throws ValidationError if the configuration is invalid
    */
-  validate(config: any): boolean {
+  validate(config: any, mapperType: MapperType | string | null = this.detectType(config)): boolean {
     if (!config || typeof config !== 'object') {
       throw new ValidationError('Mapper configuration must be an object');
     }
     
-    // Determine mapper type from configuration
-    let mapperType: MapperType | null = null;
+    if (!mapperType) {
+      throw new ValidationError(
+        "Cannot determine mapper type from configuration; declare it with a 'type' field"
+      );
+    }
     
-    if ('falsity_point' in config && 'indeterminacy_point' in config && 'truth_point' in config) {
-      mapperType = MapperType.NUMERICAL;
-    } else if ('mappings' in config) {
-      mapperType = MapperType.CATEGORICAL;
-    } else if ('true_map' in config && 'false_map' in config) {
-      mapperType = MapperType.BOOLEAN;
+    if (typeof config.type === 'string' && config.type !== mapperType) {
+      throw new ValidationError(
+        `Mapper configuration declares type '${config.type}' but is validated as '${mapperType}'`
+      );
     }
     
-    if (!mapperType) {
-      throw new ValidationError('Cannot determine mapper type from configuration');
+    if (!this.getKnownTypes().includes(mapperType)) {
+      throw new ValidationError(
+        `Unknown mapper type '${mapperType}': expected one of ${this.getKnownTypes().join(', ')}`
+      );
     }
     
     // Get the appropriate schema
     const schema = this.getSchema(mapperType);
     
-    // Validate against schema
-    const result = this.schemaValidator.validate(config, schema);
+    // Fields of other mapper types and missing fields get errors naming the type
+    this.validateTypeFields(config, mapperType, schema);
+    
+    // The type field is checked above; custom schemas need not declare it
+    const { type: _type, ...rest } = config;
+    const result = this.schemaValidator.validate(
+      schema.properties && 'type' in schema.properties ? config : rest,
+      schema
+    );
     
     if (!result.valid) {
       throw new ValidationError(`Schema validation failed: ${result.errors.join(', ')}`);
@@ -288,20 +529,104 @@ export class MapperValidator implements IMapperValidator {
     return true;
   }
   
+  /**
+   * Determine the mapper type of a configuration
+   * 
+   * An explicit `type` field takes precedence. Otherwise the type is inferred
+   * from the fields present: built-in types are checked first, then custom
+   * types in registration order.
+   * 
+   * @param config - The mapper configuration
+   * @returns The mapper type, or null if it cannot be determined
+   */
+  detectType(config: any): MapperType | string | null {
+    if (!config || typeof config !== 'object') {
+      return null;
+    }
+    
+    if (typeof config.type === 'string') {
+      return config.type;
+    }
+    
+    if ('falsity_point' in config && 'indeterminacy_point' in config && 'truth_point' in config) {
+      return MapperType.NUMERICAL;
+    } else if ('mappings' in config) {
+      return MapperType.CATEGORICAL;
+    } else if ('true_map' in config && 'false_map' in config) {
+      return MapperType.BOOLEAN;
+    } else if ('knots' in config) {
+      return MapperType.PIECEWISE_LINEAR;
+    } else if ('truth_function' in config || 'indeterminacy_function' in config || 'falsity_function' in config) {
+      return MapperType.MEMBERSHIP;
+    } else if ('fresh_within' in config && 'stale_after' in config) {
+      return MapperType.TEMPORAL;
+    } else if ('fields' in config) {
+      return MapperType.RECORD;
+    }
+    
+    for (const type of this.getMapperTypes().list()) {
+      if (this.getMapperTypes().get(type)!.detect?.(config)) {
+        return type;
+      }
+    }
+    
+    return null;
+  }
+  
   /**
    * Get the JSON Schema for a mapper type
    * 
    * @param mapperType - The mapper type
    * @returns The JSON Schema object
    */
-  getSchema(mapperType: MapperType): any {
-    const schema = MAPPER_SCHEMAS[mapperType];
+  getSchema(mapperType: MapperType | string): any {
+    const schema = MAPPER_SCHEMAS[mapperType] ?? this.getMapperTypes().get(mapperType)?.schema;
     if (!schema) {
       throw new ValidationError(`No schema defined for mapper type: ${mapperType}`);
     }
     return schema;
   }
   
+  /**
+   * Check that the fields of a configuration agree with its mapper type
+   * 
+   * @param config - The mapper configuration
+   * @param mapperType - The mapper type
+   * @param schema - The JSON Schema of the mapper type
+   * @throws ValidationError if a field belongs to another mapper type or a required field is missing
+   */
+  private validateTypeFields(config: any, mapperType: MapperType | string, schema: any): void {
+    const ownFields = Object.keys(schema.properties ?? {});
+    
+    for (const otherType of this.getKnownTypes()) {
+      if (otherType === mapperType) {
+        continue;
+      }
+      const foreignField = Object.keys(this.getSchema(otherType).properties ?? {})
+        .find(field => !BASE_FIELDS.includes(field) && !ownFields.includes(field) && field in config);
+      if (foreignField) {
+        throw new ValidationError(
+          `Field '${foreignField}' belongs to ${otherType} mappers, not to mapper type '${mapperType}'`
+        );
+      }
+    }
+    
+    const missingField = (schema.required ?? [])
+      .find((field: string) => !BASE_FIELDS.includes(field) && !(field in config));
+    if (missingField) {
+      throw new ValidationError(`Mapper type '${mapperType}' requires field '${missingField}'`);
+    }
+  }
+  
+  /**
+   * Get all built-in and custom mapper types
+   * 
+   * @returns Array of mapper type names
+   */
+  private getKnownTypes(): string[] {
+    return [...Object.values(MapperType), ...this.getMapperTypes().list()];
+  }
+  
   /**
    * Perform custom validations beyond JSON Schema
    * 
@@ -309,7 +634,7 @@ export class MapperValidator implements IMapperValidator {
    * @param mapperType - The mapper type
    * @throws ValidationError if custom validation fails
    */
-  private performCustomValidations(config: any, mapperType: MapperType): void {
+  private performCustomValidations(config: any, mapperType: MapperType | string): void {
     switch (mapperType) {
       case MapperType.NUMERICAL:
         this.validateNumericalMapper(config);
@@ -320,9 +645,32 @@ export class MapperValidator implements IMapperValidator {
       case MapperType.BOOLEAN:
         this.validateBooleanMapper(config);
         break;
+      case MapperType.PIECEWISE_LINEAR:
+        this.validatePiecewiseLinearMapper(config);
+        break;
+      case MapperType.MEMBERSHIP:
+        this.validateMembershipMapper(config);
+        break;
+      case MapperType.TEMPORAL:
+        this.validateTemporalMapper(config);
+        break;
+      case MapperType.RECORD:
+        validateRecordFields(config);
+        break;
+      default:
+        this.getMapperTypes().get(mapperType)?.validate?.(config);
     }
   }
   
+  /**
+   * Get the registry of custom mapper types
+   * 
+   * @returns The registry given to the constructor, or the global one
+   */
+  private getMapperTypes(): MapperTypeRegistry {
+    return this.mapperTypes ?? getGlobalMapperTypeRegistry();
+  }
+  
   /**
    * Validate NumericalMapper specific constraints
    * 
@@ -361,6 +709,9 @@ export class MapperValidator implements IMapperValidator {
     if (default_judgment) {
       this.validateJudgmentValues(default_judgment, 'default_judgment');
     }
+    
+    // Aliases, patterns, matching and multi-label options
+    validateCategoricalRules(config);
   }
   
   /**
@@ -370,11 +721,80 @@ export class MapperValidator implements IMapperValidator {
    * @throws ValidationError if validation fails
    */
   private validateBooleanMapper(config: any): void {
-    const { true_map, false_map } = config;
+    const { true_map, false_map, unknown_map } = config;
     
     // Validate judgment values
     this.validateJudgmentValues(true_map, 'true_map');
     this.validateJudgmentValues(false_map, 'false_map');
+    if (unknown_map) {
+      this.validateJudgmentValues(unknown_map, 'unknown_map');
+    }
+    
+    // True, false and unknown strings must not overlap
+    validateBooleanVocabulary(config);
+  }
+  
+  /**
+   * Validate PiecewiseLinearMapper specific constraints
+   * 
+   * @param config - The mapper configuration
+   * @throws ValidationError if validation fails
+   */
+  private validatePiecewiseLinearMapper(config: any): void {
+    const { knots } = config;
+    
+    knots.forEach((knot: any, index: number) => {
+      this.validateJudgmentValues(knot, `knots[${index}]`);
+      
+      // Knots are ordered by x, and at most two may share an x (a step)
+      if (index > 0 && knot.x < knots[index - 1].x) {
+        throw new ValidationError(`knots[${index}]: x must not be less than the x of the preceding knot`);
+      }
+      if (index > 1 && knot.x === knots[index - 1].x && knot.x === knots[index - 2].x) {
+        throw new ValidationError(`knots[${index}]: at most two knots may share x = ${knot.x}`);
+      }
+    });
+  }
+  
+  /**
+   * Validate MembershipMapper specific constraints
+   * 
+   * @param config - The mapper configuration
+   * @throws ValidationError if validation fails
+   */
+  private validateMembershipMapper(config: any): void {
+    const components = ['truth_function', 'indeterminacy_function', 'falsity_function']
+      .filter(component => component in config);
+    
+    if (components.length === 0) {
+      throw new ValidationError(
+        'At least one of truth_function, indeterminacy_function and falsity_function is required'
+      );
+    }
+    
+    for (const component of components) {
+      validateMembershipFunction(config[component], component);
+    }
+  }
+  
+  /**
+   * Validate TemporalMapper specific constraints
+   * 
+   * @param config - The mapper configuration
+   * @throws ValidationError if validation fails
+   */
+  private validateTemporalMapper(config: any): void {
+    const { fresh_map, stale_map, intermediate_map } = config;
+    
+    // Validate judgment values
+    this.validateJudgmentValues(fresh_map, 'fresh_map');
+    this.validateJudgmentValues(stale_map, 'stale_map');
+    if (intermediate_map) {
+      this.validateJudgmentValues(intermediate_map, 'intermediate_map');
+    }
+    
+    // Breakpoints must be valid durations, with fresh_within <= stale_after
+    validateTemporalBreakpoints(config);
   }
   
   /**
@@ -428,19 +848,19 @@ export class MapperValidator implements IMapperValidator {
   /**
    * Get all available mapper types
    * 
-   * @returns Array of mapper type strings
+   * @returns Array of mapper type strings, built-in types first, then registered plugin types
    */
   getAvailableTypes(): string[] {
-    return Object.values(MapperType);
+    return this.getKnownTypes();
   }
   
   /**
    * Check if a mapper type is supported
    * 
    * @param mapperType - The mapper type to check
-   * @returns true if the type is supported
+   * @returns true if the type is built in or registered as a plugin
    */
   isTypeSupported(mapperType: string): boolean {
-    return Object.values(MapperType).includes(mapperType as MapperType);
+    return this.getKnownTypes().includes(mapperType);
   }
 }
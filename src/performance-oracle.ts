@@ -0,0 +1,402 @@
+/**
+ * Performance Oracle
+ *
+ * Closes the Circle of Trust: decisions carry a Judgment ID, outcome judgments
+ * link back to it, and the oracle pairs them to measure how well the decisions'
+ * truth degree T predicted what happened. It reports how accurate and how well
+ * calibrated the predictions were (Brier score, log loss, expected calibration
+ * error with reliability-diagram bins) and how well T separates successes from
+ * failures (ROC curve and AUC).
+ *
+ * The outcome's T is the observed result, so partial outcomes count as fractional
+ * results in the Brier score, log loss and calibration. The success rate, ROC
+ * curve and AUC need a yes-or-no result and only count SUCCESS and FAILURE outcomes.
+ *
+ * Every metric is also broken down by the source_ids, mapper IDs and fusion
+ * operators found in the decisions' provenance chains, so weak sources and
+ * badly calibrated mappers can be told apart.
+ */
+
+import { NeutrosophicJudgment, ProvenanceEntry } from './judgment';
+import { OutcomeJudgment, OutcomeType, generateJudgmentId } from './judgment-id';
+
+const DEFAULT_BINS = 10;
+const LOG_LOSS_EPSILON = 1e-15;
+
+/**
+ * A decision paired with its outcome
+ */
+export interface PerformanceSample {
+  /** Predicted probability of success: the decision's T */
+  prediction: number;
+  /** Observed outcome in [0, 1]: the outcome's T */
+  outcome: number;
+  /** Whether the outcome was a success; undefined for partial outcomes */
+  success?: boolean;
+}
+
+/**
+ * Bin of a reliability diagram
+ */
+export interface CalibrationBin {
+  /** Lower bound of the predictions in the bin (inclusive) */
+  lower: number;
+  /** Upper bound of the predictions in the bin (exclusive, except for the last bin) */
+  upper: number;
+  /** Number of predictions in the bin */
+  count: number;
+  /** Mean prediction in the bin, or null if it is empty */
+  mean_prediction: number | null;
+  /** Mean observed outcome in the bin, or null if it is empty */
+  mean_outcome: number | null;
+}
+
+/**
+ * Point of a ROC curve
+ */
+export interface RocPoint {
+  /** Predictions of at least this T count as predicted successes (Number.MAX_VALUE: none do) */
+  threshold: number;
+  /** Share of successes predicted as successes */
+  true_positive_rate: number;
+  /** Share of failures predicted as successes */
+  false_positive_rate: number;
+}
+
+/**
+ * Metrics of a set of decisions with outcomes
+ */
+export interface PerformanceMetrics {
+  /** Number of decisions with an outcome */
+  count: number;
+  /** Share of successes among the success and failure outcomes, or null if all were partial */
+  success_rate: number | null;
+  /** Mean squared difference between prediction and outcome (0 is perfect) */
+  brier_score: number;
+  /** Mean negative log-likelihood of the outcomes (0 is perfect) */
+  log_loss: number;
+  /** Weighted mean gap between mean prediction and mean outcome over the bins */
+  expected_calibration_error: number;
+  /** Reliability diagram */
+  calibration: CalibrationBin[];
+  /** ROC curve, from the strictest threshold to the loosest */
+  roc: RocPoint[];
+  /** Area under the ROC curve, or null without both successes and failures */
+  auc: number | null;
+}
+
+/**
+ * Performance of all decisions, and broken down by where they came from
+ */
+export interface PerformanceReport {
+  /** Metrics over every decision with an outcome */
+  overall: PerformanceMetrics;
+  /** Metrics by source_id in the decisions' provenance chains */
+  by_source: Record<string, PerformanceMetrics>;
+  /** Metrics by ID of the mappers in the decisions' provenance chains */
+  by_mapper: Record<string, PerformanceMetrics>;
+  /** Metrics by ID of the fusion operators in the decisions' provenance chains */
+  by_operator: Record<string, PerformanceMetrics>;
+  /** Number of decisions still waiting for an outcome */
+  pending: number;
+  /** Number of outcomes linked to no known decision */
+  unmatched_outcomes: number;
+}
+
+/**
+ * Options for the Performance Oracle
+ */
+export interface PerformanceOracleOptions {
+  /** Number of equal-width reliability-diagram bins over [0, 1] (default: 10) */
+  bins?: number;
+}
+
+/**
+ * Measures decisions against their real-world outcomes
+ *
+ * Decisions are identified by their Judgment ID (the one added by fusion or
+ * `ensureJudgmentId`, or else the ID generated from the judgment), and outcomes
+ * are paired with the decision they link to. If a decision has several
+ * outcomes, the last one added counts.
+ *
+ * @example
+ * ```typescript
+ * const oracle = new PerformanceOracle({ bins: 5 });
+ * oracle.addDecision(fused);
+ * oracle.addOutcome(createOutcomeJudgment(decisionId, 1.0, 0.0, 0.0, OutcomeType.SUCCESS, 'trading-oracle'));
+ *
+ * const report = oracle.report();
+ * console.log(report.overall.brier_score, report.by_source['chainlink-eth-usd']?.auc);
+ * ```
+ */
+export class PerformanceOracle {
+  private readonly bins: number;
+  private readonly decisions: Map<string, NeutrosophicJudgment> = new Map();
+  private readonly outcomes: Map<string, OutcomeJudgment> = new Map();
+
+  /**
+   * @param options - Oracle options
+   * @throws {Error} If the number of bins is not a positive integer
+   */
+  constructor(options: PerformanceOracleOptions = {}) {
+    this.bins = options.bins ?? DEFAULT_BINS;
+    if (!Number.isInteger(this.bins) || this.bins < 1) {
+      throw new Error(`bins must be a positive integer, got ${this.bins}`);
+    }
+  }
+
+  /**
+   * Add a decision
+   *
+   * @param judgment - The judgment the decision was based on
+   * @returns The Judgment ID outcomes should link to
+   */
+  addDecision(judgment: NeutrosophicJudgment): string {
+    const judgmentId = decisionIdOf(judgment);
+    this.decisions.set(judgmentId, judgment);
+    return judgmentId;
+  }
+
+  /**
+   * Add the outcome of a decision
+   *
+   * @param outcome - The outcome, linked to its decision by `links_to_judgment_id`
+   * @returns This oracle, for chaining
+   */
+  addOutcome(outcome: OutcomeJudgment): this {
+    this.outcomes.set(outcome.links_to_judgment_id, outcome);
+    return this;
+  }
+
+  /**
+   * Measure the decisions that have an outcome
+   *
+   * @returns The overall metrics and their breakdowns
+   * @throws {Error} If no decision has an outcome yet
+   */
+  report(): PerformanceReport {
+    const samples: PerformanceSample[] = [];
+    const bySource: Map<string, PerformanceSample[]> = new Map();
+    const byMapper: Map<string, PerformanceSample[]> = new Map();
+    const byOperator: Map<string, PerformanceSample[]> = new Map();
+
+    this.decisions.forEach((judgment, judgmentId) => {
+      const outcome = this.outcomes.get(judgmentId);
+      if (!outcome) {
+        return;
+      }
+
+      const sample: PerformanceSample = { prediction: judgment.T, outcome: outcome.T };
+      if (outcome.outcome_type !== OutcomeType.PARTIAL) {
+        sample.success = outcome.outcome_type === OutcomeType.SUCCESS;
+      }
+      samples.push(sample);
+
+      const origins = originsOf(judgment.provenance_chain);
+      origins.sources.forEach(sourceId => group(bySource, sourceId, sample));
+      origins.mappers.forEach(mapperId => group(byMapper, mapperId, sample));
+      origins.operators.forEach(operatorId => group(byOperator, operatorId, sample));
+    });
+
+    if (samples.length === 0) {
+      throw new Error('No decision has an outcome to measure');
+    }
+
+    let unmatched = 0;
+    this.outcomes.forEach((_, judgmentId) => {
+      if (!this.decisions.has(judgmentId)) {
+        unmatched++;
+      }
+    });
+
+    const breakdown = (groups: Map<string, PerformanceSample[]>): Record<string, PerformanceMetrics> =>
+      Object.fromEntries(Array.from(groups, ([key, grouped]) => [key, computePerformanceMetrics(grouped, this.bins)]));
+
+    return {
+      overall: computePerformanceMetrics(samples, this.bins),
+      by_source: breakdown(bySource),
+      by_mapper: breakdown(byMapper),
+      by_operator: breakdown(byOperator),
+      pending: this.decisions.size - samples.length,
+      unmatched_outcomes: unmatched
+    };
+  }
+}
+
+/**
+ * Compute the performance metrics of paired predictions and outcomes
+ *
+ * @param samples - The predictions and their outcomes
+ * @param bins - Number of equal-width reliability-diagram bins over [0, 1] (default: 10)
+ * @returns The metrics
+ * @throws {Error} If there are no samples, or a prediction or outcome lies outside [0, 1]
+ */
+export function computePerformanceMetrics(
+  samples: readonly PerformanceSample[],
+  bins: number = DEFAULT_BINS
+): PerformanceMetrics {
+  if (samples.length === 0) {
+    throw new Error('Performance metrics need at least one sample');
+  }
+  if (!Number.isInteger(bins) || bins < 1) {
+    throw new Error(`bins must be a positive integer, got ${bins}`);
+  }
+  samples.forEach((sample, index) => {
+    if (!(sample.prediction >= 0 && sample.prediction <= 1) || !(sample.outcome >= 0 && sample.outcome <= 1)) {
+      throw new Error(`Sample ${index} must have a prediction and outcome between 0 and 1`);
+    }
+  });
+
+  const count = samples.length;
+  const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const brierScore = mean(samples.map(({ prediction, outcome }) => (prediction - outcome) ** 2));
+  const logLoss = mean(samples.map(({ prediction, outcome }) => {
+    const p = Math.min(Math.max(prediction, LOG_LOSS_EPSILON), 1 - LOG_LOSS_EPSILON);
+    return -(outcome * Math.log(p) + (1 - outcome) * Math.log(1 - p));
+  }));
+
+  const calibration = calibrationBins(samples, bins);
+  const calibrationError = calibration.reduce(
+    (sum, bin) => bin.mean_outcome !== null && bin.mean_prediction !== null
+      ? sum + (bin.count / count) * Math.abs(bin.mean_outcome - bin.mean_prediction)
+      : sum,
+    0
+  );
+
+  const labeled = samples.filter(sample => sample.success !== undefined);
+  const roc = rocCurve(labeled);
+
+  return {
+    count,
+    success_rate: labeled.length > 0 ? labeled.filter(sample => sample.success).length / labeled.length : null,
+    brier_score: brierScore,
+    log_loss: logLoss,
+    expected_calibration_error: calibrationError,
+    calibration,
+    roc,
+    auc: roc.length > 0 ? areaUnderCurve(roc) : null
+  };
+}
+
+/**
+ * Gets the ID outcomes of a decision link to
+ * @private
+ */
+function decisionIdOf(judgment: NeutrosophicJudgment): string {
+  const lastEntry = judgment.provenance_chain[judgment.provenance_chain.length - 1];
+  return (lastEntry as any)?.judgment_id ?? generateJudgmentId(judgment);
+}
+
+/**
+ * Collects the distinct sources, mappers and fusion operators in a provenance chain
+ *
+ * Fusion entries carry a Conformance Seal and mapper entries a mapper_type;
+ * Judgment ID entries are bookkeeping and count as neither.
+ * @private
+ */
+function originsOf(chain: readonly ProvenanceEntry[]): { sources: Set<string>; mappers: Set<string>; operators: Set<string> } {
+  const sources: Set<string> = new Set();
+  const mappers: Set<string> = new Set();
+  const operators: Set<string> = new Set();
+
+  for (const entry of chain) {
+    if ((entry as any).conformance_seal) {
+      operators.add(entry.source_id);
+    } else if (!(entry as any).judgment_id) {
+      sources.add(entry.source_id);
+      if (entry.metadata?.['mapper_type']) {
+        mappers.add(entry.source_id);
+      }
+    }
+  }
+
+  return { sources, mappers, operators };
+}
+
+/**
+ * Adds a sample to its group
+ * @private
+ */
+function group(groups: Map<string, PerformanceSample[]>, key: string, sample: PerformanceSample): void {
+  const grouped = groups.get(key);
+  if (grouped) {
+    grouped.push(sample);
+  } else {
+    groups.set(key, [sample]);
+  }
+}
+
+/**
+ * Sorts samples into equal-width bins by prediction
+ * @private
+ */
+function calibrationBins(samples: readonly PerformanceSample[], bins: number): CalibrationBin[] {
+  const totals = Array.from({ length: bins }, () => ({ count: 0, predictions: 0, outcomes: 0 }));
+  for (const sample of samples) {
+    const total = totals[Math.min(Math.floor(sample.prediction * bins), bins - 1)]!;
+    total.count++;
+    total.predictions += sample.prediction;
+    total.outcomes += sample.outcome;
+  }
+
+  return totals.map((total, index) => ({
+    lower: index / bins,
+    upper: (index + 1) / bins,
+    count: total.count,
+    mean_prediction: total.count > 0 ? total.predictions / total.count : null,
+    mean_outcome: total.count > 0 ? total.outcomes / total.count : null
+  }));
+}
+
+/**
+ * Computes the ROC curve of samples with a success or failure outcome, one point
+ * per distinct prediction, or an empty curve unless there are both
+ * @private
+ */
+function rocCurve(samples: readonly PerformanceSample[]): RocPoint[] {
+  const positives = samples.filter(sample => sample.success).length;
+  const negatives = samples.length - positives;
+  if (positives === 0 || negatives === 0) {
+    return [];
+  }
+
+  const sorted = [...samples].sort((a, b) => b.prediction - a.prediction);
+  // Number.MAX_VALUE rather than Infinity, which JSON would turn into null
+  const points: RocPoint[] = [{ threshold: Number.MAX_VALUE, true_positive_rate: 0, false_positive_rate: 0 }];
+  let truePositives = 0;
+  let falsePositives = 0;
+
+  sorted.forEach((sample, index) => {
+    if (sample.success) {
+      truePositives++;
+    } else {
+      falsePositives++;
+    }
+    // Tied predictions share a threshold, so emit one point after the last of them
+    if (sorted[index + 1]?.prediction !== sample.prediction) {
+      points.push({
+        threshold: sample.prediction,
+        true_positive_rate: truePositives / positives,
+        false_positive_rate: falsePositives / negatives
+      });
+    }
+  });
+
+  return points;
+}
+
+/**
+ * Integrates a ROC curve with the trapezoidal rule
+ * @private
+ */
+function areaUnderCurve(roc: readonly RocPoint[]): number {
+  let area = 0;
+  for (let i = 1; i < roc.length; i++) {
+    const previous = roc[i - 1]!;
+    const point = roc[i]!;
+    area += (point.false_positive_rate - previous.false_positive_rate) *
+      (point.true_positive_rate + previous.true_positive_rate) / 2;
+  }
+  return area;
+}
@@ -0,0 +1,217 @@
+/**
+ * Hash-Linked Provenance Chains
+ *
+ * A plain provenance chain is just an array: entries can be dropped or reordered
+ * without detection. In hash-chain mode every entry carries the digest of its
+ * predecessor, so any such edit breaks a link:
+ *
+ * - `previous_digest`: digest of the preceding entry of the same lineage, or
+ *   `null` for the first entry of a lineage (e.g. a mapper entry)
+ * - `parent_digests`: carried by fusion entries instead of `previous_digest`;
+ *   the digests of the last entry of every input chain
+ *
+ * The flat chain produced by fusion (input chains followed by the fusion entry)
+ * therefore encodes a DAG: each fusion entry points at the heads of all the
+ * chains it merged. Digests cover the whole entry except a fusion `signature`,
+ * which is attached independently and verified with verifySignedFusion.
+ */
+
+import { createHash } from 'crypto';
+import { NeutrosophicJudgment, ProvenanceEntry } from './judgment';
+import { canonicalize } from './canonical';
+
+/**
+ * A provenance entry with hash-chain links
+ */
+export type LinkedProvenanceEntry = ProvenanceEntry & {
+  /** Digest of the preceding entry, or null for the first entry of a lineage */
+  previous_digest?: string | null;
+  /** Digests of the heads of the merged input chains (fusion entries only) */
+  parent_digests?: string[];
+};
+
+/**
+ * Result of verifying a hash-linked provenance chain
+ */
+export interface ChainVerificationResult {
+  /** True when every entry is linked and no link is broken */
+  valid: boolean;
+  /** Index of the first entry whose link is broken */
+  broken_at?: number;
+  /** Human-readable explanation for an invalid result */
+  reason?: string;
+}
+
+/**
+ * Computes the digest of a provenance entry
+ *
+ * @param entry - The provenance entry
+ * @returns SHA-256 of the entry's canonical JSON (excluding any fusion signature), as hex
+ */
+export function digestProvenanceEntry(entry: ProvenanceEntry): string {
+  const { signature: _signature, ...linked } = entry as ProvenanceEntry & { signature?: unknown };
+  return createHash('sha256').update(canonicalize(linked), 'utf8').digest('hex');
+}
+
+/**
+ * Checks whether an entry carries hash-chain links
+ *
+ * @param entry - The provenance entry
+ * @returns true if the entry has `previous_digest` or `parent_digests`
+ */
+export function isLinkedEntry(entry: ProvenanceEntry): boolean {
+  const linked = entry as LinkedProvenanceEntry;
+  return linked.previous_digest !== undefined || Array.isArray(linked.parent_digests);
+}
+
+/**
+ * Checks whether every entry of a chain carries hash-chain links
+ *
+ * @param chain - The provenance chain
+ * @returns true if the chain is non-empty and fully linked
+ */
+export function isLinkedChain(chain: readonly ProvenanceEntry[]): boolean {
+  return chain.length > 0 && chain.every(isLinkedEntry);
+}
+
+/**
+ * Appends an entry to a chain, linking it to the current head if the chain is linked
+ *
+ * @param chain - The provenance chain
+ * @param entry - The entry to append
+ * @returns A new chain with the entry appended
+ */
+export function appendProvenanceEntry(
+  chain: readonly ProvenanceEntry[],
+  entry: ProvenanceEntry
+): ProvenanceEntry[] {
+  if (!isLinkedChain(chain)) {
+    return [...chain, entry];
+  }
+  const linked: LinkedProvenanceEntry = { ...entry, previous_digest: digestProvenanceEntry(chain[chain.length - 1]!) };
+  return [...chain, linked];
+}
+
+/**
+ * Converts a flat provenance chain into a linear hash-linked chain
+ *
+ * Already linked chains are returned unchanged.
+ *
+ * @param chain - The provenance chain
+ * @returns The linked chain
+ * @throws Error if the chain is only partially linked
+ */
+export function linkProvenanceChain(chain: readonly ProvenanceEntry[]): ProvenanceEntry[] {
+  if (isLinkedChain(chain)) {
+    return [...chain];
+  }
+  if (chain.some(isLinkedEntry)) {
+    throw new Error('Cannot link a partially linked provenance chain');
+  }
+
+  const linked: LinkedProvenanceEntry[] = [];
+  for (const entry of chain) {
+    const previous = linked[linked.length - 1];
+    linked.push({ ...entry, previous_digest: previous ? digestProvenanceEntry(previous) : null });
+  }
+  return linked;
+}
+
+/**
+ * Returns a judgment whose provenance chain is hash-linked
+ *
+ * Links are not part of the Judgment ID or Conformance Seal, so linking keeps both valid.
+ *
+ * @param judgment - The judgment to link
+ * @returns The same judgment if already linked, otherwise a linked copy
+ */
+export function linkJudgment(judgment: NeutrosophicJudgment): NeutrosophicJudgment {
+  if (isLinkedChain(judgment.provenance_chain)) {
+    return judgment;
+  }
+  return new NeutrosophicJudgment(
+    judgment.T,
+    judgment.I,
+    judgment.F,
+    linkProvenanceChain(judgment.provenance_chain)
+  );
+}
+
+/**
+ * Verifies the hash links of a judgment's provenance chain
+ *
+ * Walks the chain keeping track of the lineage heads that are still open. Each
+ * entry must start a new lineage or extend an open head; fusion entries consume
+ * one open head per parent. At the end exactly one head may remain.
+ *
+ * @param judgment - The judgment (or a raw provenance chain) to verify
+ * @returns A ChainVerificationResult pinpointing the first broken link
+ *
+ * @example
+ * ```typescript
+ * const result = verifyProvenanceChain(fusedJudgment);
+ * if (!result.valid) {
+ *   console.log(`Broken link at entry ${result.broken_at}: ${result.reason}`);
+ * }
+ * ```
+ */
+export function verifyProvenanceChain(
+  judgment: NeutrosophicJudgment | readonly ProvenanceEntry[]
+): ChainVerificationResult {
+  const chain = Array.isArray(judgment)
+    ? judgment as readonly ProvenanceEntry[]
+    : (judgment as NeutrosophicJudgment).provenance_chain;
+
+  if (chain.length === 0) {
+    return { valid: false, reason: 'Provenance chain is empty' };
+  }
+
+  // Open lineage heads: digest -> indexes of entries with that digest
+  const heads: Map<string, number[]> = new Map();
+  const consume = (digest: string): boolean => {
+    const indexes = heads.get(digest);
+    if (!indexes) {
+      return false;
+    }
+    indexes.pop();
+    if (indexes.length === 0) {
+      heads.delete(digest);
+    }
+    return true;
+  };
+
+  for (let index = 0; index < chain.length; index++) {
+    const entry = chain[index] as LinkedProvenanceEntry;
+
+    if (Array.isArray(entry.parent_digests)) {
+      if (entry.parent_digests.length === 0) {
+        return { valid: false, broken_at: index, reason: `Entry ${index} has no parent digests` };
+      }
+      for (const parent of entry.parent_digests) {
+        if (!consume(parent)) {
+          return { valid: false, broken_at: index, reason: `Entry ${index} references an unknown parent ${parent}` };
+        }
+      }
+    } else if (typeof entry.previous_digest === 'string') {
+      if (!consume(entry.previous_digest)) {
+        return { valid: false, broken_at: index, reason: `Entry ${index} does not link to a preceding entry` };
+      }
+    } else if (entry.previous_digest !== null) {
+      return { valid: false, broken_at: index, reason: `Entry ${index} is not hash-linked` };
+    }
+
+    const digest = digestProvenanceEntry(entry);
+    heads.set(digest, [...(heads.get(digest) ?? []), index]);
+  }
+
+  if (heads.size > 1 || (heads.values().next().value as number[]).length > 1) {
+    const dangling = Math.min(...Array.from(heads.values()).flat());
+    return {
+      valid: false,
+      broken_at: dangling,
+      reason: `Entry ${dangling} is not connected to the head of the chain`
+    };
+  }
+
+  return { valid: true };
+}
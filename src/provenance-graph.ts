@@ -0,0 +1,418 @@
+/**
+ * Provenance Graph
+ *
+ * A fused judgment carries its provenance as a flat chain: the input chains
+ * concatenated in order, followed by the fusion entry. That flat chain is what
+ * seals and Judgment IDs cover, but fusing fused judgments repeats shared inputs
+ * and hides who was fused with whom. The graph is the non-duplicating form:
+ *
+ * - Nodes are keyed by Judgment ID; an input shared by several fusions is a single node
+ * - Edges run from a fused node to its inputs, in fusion order, with their weights
+ * - Every node keeps its own entries (a leaf's chain, or a fusion entry and the
+ *   entries appended after it), so the flat chain can be rebuilt exactly
+ *
+ * `fuseGraphs` fuses graphs directly: the new node is added on top of the input
+ * graphs, whose nodes are shared as they are. For judgments that only carry the
+ * flat chain, `fromJudgment` recovers the graph from the descriptor of every
+ * input (Judgment ID and chain length) and the weights recorded by fusion, and
+ * `toProvenanceChain` converts back, losslessly.
+ */
+
+import { NeutrosophicJudgment, ProvenanceEntry } from './judgment';
+import { generateJudgmentId } from './judgment-id';
+import { canonicalize } from './canonical';
+
+/**
+ * Edge from a fused node to one of its inputs
+ */
+export interface ProvenanceEdge {
+  /** Judgment ID of the input node */
+  judgment_id: string;
+  /** Weight of the input in the fusion */
+  weight: number;
+}
+
+/**
+ * Node of a provenance graph
+ */
+export interface ProvenanceNode {
+  /** Judgment ID of the judgment this node represents */
+  judgment_id: string;
+  /** Truth degree of the judgment */
+  T: number;
+  /** Indeterminacy degree of the judgment */
+  I: number;
+  /** Falsity degree of the judgment */
+  F: number;
+  /** ID of the fusion operator that produced this node (fused nodes only) */
+  operator_id?: string;
+  /** Provenance entries contributed by this node itself */
+  entries: readonly ProvenanceEntry[];
+  /** Edges to the inputs of a fused node (empty for leaves) */
+  inputs: readonly ProvenanceEdge[];
+}
+
+/**
+ * Directed acyclic graph of the judgments behind a (fused) judgment
+ *
+ * @example
+ * ```typescript
+ * const graph = ProvenanceGraph.fromJudgment(fused);
+ * console.log(graph.depth(), graph.leaves().map(node => node.judgment_id));
+ * const path = graph.pathTo('sensor-42');
+ * const chain = graph.toProvenanceChain(); // identical to fused.provenance_chain
+ * ```
+ */
+export class ProvenanceGraph {
+  /** Judgment ID of the root node */
+  public readonly root: string;
+  private readonly nodes: Map<string, ProvenanceNode>;
+
+  private constructor(root: string, nodes: Map<string, ProvenanceNode>) {
+    this.root = root;
+    this.nodes = nodes;
+  }
+
+  /**
+   * Builds the provenance graph of a judgment
+   *
+   * @param judgment - The judgment, usually the output of a fusion operator
+   * @returns The provenance graph rooted at the judgment
+   * @throws Error if the chain does not match the input descriptors of a fusion entry
+   */
+  static fromJudgment(judgment: NeutrosophicJudgment): ProvenanceGraph {
+    const nodes: Map<string, ProvenanceNode> = new Map();
+    const root = addNode(nodes, generateJudgmentId(judgment), judgment, judgment.provenance_chain);
+    return new ProvenanceGraph(root, nodes);
+  }
+
+  /**
+   * Builds the graph of a fused judgment on top of the graphs of its inputs
+   *
+   * The input graphs are shared as they are, not re-read from the flat chain;
+   * only the fusion entry and the entries after it form the new root node.
+   *
+   * @param fused - The output of a fusion operator
+   * @param inputs - The graphs of the fusion inputs, in fusion order
+   * @returns The provenance graph rooted at the fused judgment
+   * @throws Error if the judgment has no fusion entry describing its inputs, the
+   *   input graphs are not those inputs, or they disagree on a shared node
+   */
+  static fromFusion(fused: NeutrosophicJudgment, inputs: readonly ProvenanceGraph[]): ProvenanceGraph {
+    const chain = fused.provenance_chain;
+    const fusionIndex = findSplittableFusionEntry(chain);
+    if (fusionIndex < 0) {
+      throw new Error('Judgment has no fusion entry that describes its inputs');
+    }
+
+    const fusionEntry = chain[fusionIndex]!;
+    const descriptors: Array<Record<string, any>> = fusionEntry.metadata?.['inputs'];
+    const weights: unknown = fusionEntry.metadata?.['weights'];
+    if (descriptors.length !== inputs.length ||
+        descriptors.some((descriptor, index) => descriptor['judgment_id'] !== inputs[index]!.root)) {
+      throw new Error(`Input graphs do not match the inputs of '${fusionEntry.source_id}'`);
+    }
+
+    const root = generateJudgmentId(fused);
+    const nodes: Map<string, ProvenanceNode> = new Map();
+    nodes.set(root, {
+      judgment_id: root,
+      T: fused.T,
+      I: fused.I,
+      F: fused.F,
+      operator_id: fusionEntry.source_id,
+      entries: chain.slice(fusionIndex),
+      inputs: inputs.map((input, index) => ({ judgment_id: input.root, weight: edgeWeight(weights, index) }))
+    });
+
+    for (const input of inputs) {
+      input.nodes.forEach((node, judgmentId) => {
+        const existing = nodes.get(judgmentId);
+        if (!existing) {
+          nodes.set(judgmentId, node);
+        } else if (existing !== node && canonicalize(existing) !== canonicalize(node)) {
+          throw new Error(`Conflicting provenance for Judgment ID ${judgmentId}`);
+        }
+      });
+    }
+
+    return new ProvenanceGraph(root, nodes);
+  }
+
+  /**
+   * Builds a provenance graph from a flat provenance chain
+   *
+   * @param chain - The flat provenance chain
+   * @param values - The T, I and F values of the judgment carrying the chain
+   * @returns The provenance graph
+   * @throws Error if the values or chain are invalid
+   */
+  static fromProvenanceChain(
+    chain: readonly ProvenanceEntry[],
+    values: { T: number; I: number; F: number }
+  ): ProvenanceGraph {
+    return ProvenanceGraph.fromJudgment(new NeutrosophicJudgment(values.T, values.I, values.F, [...chain]));
+  }
+
+  /**
+   * Get a node by Judgment ID
+   * @param judgmentId - The Judgment ID
+   * @returns The node or undefined if not found
+   */
+  getNode(judgmentId: string): ProvenanceNode | undefined {
+    return this.nodes.get(judgmentId);
+  }
+
+  /**
+   * Get all nodes, root first
+   * @returns Array of nodes
+   */
+  getNodes(): ProvenanceNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  /**
+   * Get the number of distinct nodes
+   * @returns Number of nodes
+   */
+  count(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * Get all transitive inputs of a node, each once, nearest first
+   *
+   * @param judgmentId - The node to start from (default: the root)
+   * @returns The ancestor nodes in breadth-first order
+   * @throws Error if the node does not exist
+   */
+  ancestors(judgmentId: string = this.root): ProvenanceNode[] {
+    const start = this.resolve(judgmentId);
+    const seen = new Set<string>([start.judgment_id]);
+    const result: ProvenanceNode[] = [];
+    const queue: ProvenanceNode[] = [start];
+
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      for (const edge of node.inputs) {
+        if (!seen.has(edge.judgment_id)) {
+          seen.add(edge.judgment_id);
+          const input = this.resolve(edge.judgment_id);
+          result.push(input);
+          queue.push(input);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the leaf nodes (judgments that were not produced by fusion) below a node
+   *
+   * @param judgmentId - The node to start from (default: the root)
+   * @returns The leaf nodes, each once, in breadth-first order
+   * @throws Error if the node does not exist
+   */
+  leaves(judgmentId: string = this.root): ProvenanceNode[] {
+    const start = this.resolve(judgmentId);
+    if (start.inputs.length === 0) {
+      return [start];
+    }
+    return this.ancestors(judgmentId).filter(node => node.inputs.length === 0);
+  }
+
+  /**
+   * Get the number of fusion levels below a node
+   *
+   * @param judgmentId - The node to start from (default: the root)
+   * @returns 0 for a leaf, otherwise 1 + the largest depth of its inputs
+   * @throws Error if the node does not exist
+   */
+  depth(judgmentId: string = this.root): number {
+    const depths: Map<string, number> = new Map();
+    const visit = (node: ProvenanceNode): number => {
+      const known = depths.get(node.judgment_id);
+      if (known !== undefined) {
+        return known;
+      }
+      const depth = node.inputs.length === 0
+        ? 0
+        : 1 + Math.max(...node.inputs.map(edge => visit(this.resolve(edge.judgment_id))));
+      depths.set(node.judgment_id, depth);
+      return depth;
+    };
+    return visit(this.resolve(judgmentId));
+  }
+
+  /**
+   * Find the path from a node down to the first node with an entry from a source
+   *
+   * Inputs are searched depth-first in fusion order.
+   *
+   * @param sourceId - The source_id to look for
+   * @param judgmentId - The node to start from (default: the root)
+   * @returns The nodes from the start node to the matching node, or undefined if not found
+   * @throws Error if the node does not exist
+   */
+  pathTo(sourceId: string, judgmentId: string = this.root): ProvenanceNode[] | undefined {
+    const visit = (node: ProvenanceNode): ProvenanceNode[] | undefined => {
+      for (const edge of node.inputs) {
+        const path = visit(this.resolve(edge.judgment_id));
+        if (path) {
+          return [node, ...path];
+        }
+      }
+      return node.entries.some(entry => entry.source_id === sourceId) ? [node] : undefined;
+    };
+    return visit(this.resolve(judgmentId));
+  }
+
+  /**
+   * Converts the graph back to the flat provenance chain
+   *
+   * @param judgmentId - The node to flatten (default: the root)
+   * @returns The flat chain, identical to the chain the graph was built from
+   * @throws Error if the node does not exist
+   */
+  toProvenanceChain(judgmentId: string = this.root): ProvenanceEntry[] {
+    const node = this.resolve(judgmentId);
+    const chain: ProvenanceEntry[] = [];
+    for (const edge of node.inputs) {
+      chain.push(...this.toProvenanceChain(edge.judgment_id));
+    }
+    chain.push(...node.entries);
+    return chain;
+  }
+
+  /**
+   * Converts a node back to a judgment with a flat provenance chain
+   *
+   * @param judgmentId - The node to convert (default: the root)
+   * @returns The judgment represented by the node
+   * @throws Error if the node does not exist
+   */
+  toJudgment(judgmentId: string = this.root): NeutrosophicJudgment {
+    const node = this.resolve(judgmentId);
+    return new NeutrosophicJudgment(node.T, node.I, node.F, this.toProvenanceChain(judgmentId));
+  }
+
+  /**
+   * Get a node or fail
+   * @private
+   */
+  private resolve(judgmentId: string): ProvenanceNode {
+    const node = this.nodes.get(judgmentId);
+    if (!node) {
+      throw new Error(`Unknown provenance node: ${judgmentId}`);
+    }
+    return node;
+  }
+}
+
+/**
+ * Adds a judgment and, recursively, its inputs to the node map
+ * @private
+ */
+function addNode(
+  nodes: Map<string, ProvenanceNode>,
+  judgmentId: string,
+  values: { T: number; I: number; F: number },
+  chain: readonly ProvenanceEntry[]
+): string {
+  const existing = nodes.get(judgmentId);
+  if (existing) {
+    if (canonicalize(existingChain(nodes, existing)) !== canonicalize(chain)) {
+      throw new Error(`Conflicting provenance for Judgment ID ${judgmentId}`);
+    }
+    return judgmentId;
+  }
+
+  const fusionIndex = findSplittableFusionEntry(chain);
+  if (fusionIndex < 0) {
+    nodes.set(judgmentId, { judgment_id: judgmentId, T: values.T, I: values.I, F: values.F, entries: [...chain], inputs: [] });
+    return judgmentId;
+  }
+
+  const fusionEntry = chain[fusionIndex]!;
+  const descriptors: Array<Record<string, any>> = fusionEntry.metadata?.['inputs'];
+  const weights: unknown = fusionEntry.metadata?.['weights'];
+
+  const total = descriptors.reduce((sum, descriptor) => sum + descriptor['provenance_length'], 0);
+  if (total !== fusionIndex) {
+    throw new Error(
+      `Cannot split provenance chain: inputs of '${fusionEntry.source_id}' span ${total} entries, expected ${fusionIndex}`
+    );
+  }
+
+  // Reserve the node before visiting inputs so that insertion order is root first
+  const node: ProvenanceNode = {
+    judgment_id: judgmentId,
+    T: values.T,
+    I: values.I,
+    F: values.F,
+    operator_id: fusionEntry.source_id,
+    entries: chain.slice(fusionIndex),
+    inputs: []
+  };
+  nodes.set(judgmentId, node);
+
+  const inputs: ProvenanceEdge[] = [];
+  let offset = 0;
+  descriptors.forEach((descriptor, index) => {
+    const length: number = descriptor['provenance_length'];
+    const inputId = addNode(
+      nodes,
+      descriptor['judgment_id'],
+      { T: descriptor['T'], I: descriptor['I'], F: descriptor['F'] },
+      chain.slice(offset, offset + length)
+    );
+    inputs.push({ judgment_id: inputId, weight: edgeWeight(weights, index) });
+    offset += length;
+  });
+  node.inputs = inputs;
+
+  return judgmentId;
+}
+
+/**
+ * Reads the recorded weight of an input; fusions without weights count as equal weights
+ * @private
+ */
+function edgeWeight(weights: unknown, index: number): number {
+  return Array.isArray(weights) && typeof weights[index] === 'number' ? weights[index] as number : 1.0;
+}
+
+/**
+ * Flattens a node already in the map
+ * @private
+ */
+function existingChain(nodes: Map<string, ProvenanceNode>, node: ProvenanceNode): ProvenanceEntry[] {
+  const chain: ProvenanceEntry[] = [];
+  for (const edge of node.inputs) {
+    chain.push(...existingChain(nodes, nodes.get(edge.judgment_id)!));
+  }
+  chain.push(...node.entries);
+  return chain;
+}
+
+/**
+ * Finds the last fusion entry that describes its inputs; -1 if there is none
+ * (the chain of a leaf, or of a fusion that predates input descriptors)
+ * @private
+ */
+function findSplittableFusionEntry(chain: readonly ProvenanceEntry[]): number {
+  for (let index = chain.length - 1; index >= 0; index--) {
+    const entry = chain[index] as ProvenanceEntry & { conformance_seal?: string };
+    if (entry.conformance_seal) {
+      const inputs: unknown = entry.metadata?.['inputs'];
+      const splittable = Array.isArray(inputs) && inputs.every(descriptor =>
+        typeof descriptor?.judgment_id === 'string' &&
+        Number.isInteger(descriptor?.provenance_length) &&
+        descriptor.provenance_length > 0
+      );
+      return splittable ? index : -1;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,309 @@
+/**
+ * Source Reliability Profiles
+ *
+ * A reliability profile assigns each provenance `source_id` a reliability in
+ * [0, 1] that fusion uses as its weight, so callers no longer pass weights by
+ * hand. Each source starts from a static prior (or the profile default), and
+ * the profile can learn from observed outcomes: the prior counts as
+ * `prior_strength` pseudo-observations, and the reliability is the share of
+ * observations the source got right (the mean of a Beta distribution).
+ *
+ * Profiles are immutable. Learning returns a new profile with the next
+ * revision, and every profile has a digest of its content, so the fusion
+ * entry can record exactly which profile produced its weights.
+ */
+
+import { createHash } from 'crypto';
+import { NeutrosophicJudgment } from './judgment';
+import { canonicalize } from './canonical';
+
+const DEFAULT_RELIABILITY = 0.5;
+const DEFAULT_PRIOR_STRENGTH = 10;
+
+/**
+ * Outcomes observed for a source
+ */
+export interface SourceObservations {
+  /** How often the source was right (may be fractional) */
+  successes: number;
+  /** How often the source was wrong (may be fractional) */
+  failures: number;
+}
+
+/**
+ * Configuration and serialized form of a reliability profile
+ */
+export interface ReliabilityProfileConfig {
+  /** Profile identifier */
+  id: string;
+  /** Profile version */
+  version: string;
+  /** Static prior reliability of each source, in [0, 1] */
+  priors?: Record<string, number>;
+  /** Prior of sources without one (default: 0.5) */
+  default_reliability?: number;
+  /** Number of pseudo-observations a prior counts for (default: 10) */
+  prior_strength?: number;
+  /** Outcomes learned so far, by source */
+  observations?: Record<string, SourceObservations>;
+  /** Number of times the profile has learned (default: 0) */
+  revision?: number;
+}
+
+/**
+ * Observed outcome of a judgment from a source
+ */
+export interface ReliabilityObservation {
+  /** The source */
+  source_id: string;
+  /** 1 if the source was right, 0 if it was wrong, or anything in between */
+  outcome: number;
+}
+
+/**
+ * Reliability weighting as recorded in the `reliability` metadata of a fusion entry
+ */
+export interface ReliabilityRecord {
+  /** Profile identifier */
+  profile_id: string;
+  /** Profile version */
+  version: string;
+  /** Profile revision */
+  revision: number;
+  /** Digest of the profile content */
+  digest: string;
+  /** Source of each input (the source_id of its first provenance entry) */
+  sources: string[];
+  /** Reliability of each input */
+  reliabilities: number[];
+  /** Weights before reliability weighting */
+  base_weights: number[];
+  /** Overrides that replaced a profile reliability, by source */
+  overrides?: Record<string, number>;
+}
+
+/**
+ * Reliability model of provenance sources
+ *
+ * @example
+ * ```typescript
+ * const profile = new ReliabilityProfile({
+ *   id: 'oracle-sources',
+ *   version: '1.0.0',
+ *   priors: { 'chainlink-eth-usd': 0.95, 'community-feed': 0.6 }
+ * });
+ *
+ * const fused = conflict_aware_weighted_average(judgments, undefined, { reliability: profile });
+ * const learned = profile.learn([{ source_id: 'community-feed', outcome: 1 }]);
+ * ```
+ */
+export class ReliabilityProfile {
+  public readonly id: string;
+  public readonly version: string;
+  public readonly revision: number;
+  public readonly defaultReliability: number;
+  public readonly priorStrength: number;
+  private readonly priors: Map<string, number>;
+  private readonly observations: Map<string, SourceObservations>;
+  private cachedDigest: string | undefined;
+
+  /**
+   * @param config - The profile configuration
+   * @throws {Error} If the configuration is invalid
+   */
+  constructor(config: ReliabilityProfileConfig) {
+    if (!config || typeof config.id !== 'string' || !config.id) {
+      throw new Error('Reliability profile id must be a non-empty string');
+    }
+    if (typeof config.version !== 'string' || !config.version) {
+      throw new Error('Reliability profile version must be a non-empty string');
+    }
+
+    this.id = config.id;
+    this.version = config.version;
+    this.revision = config.revision ?? 0;
+    this.defaultReliability = config.default_reliability ?? DEFAULT_RELIABILITY;
+    this.priorStrength = config.prior_strength ?? DEFAULT_PRIOR_STRENGTH;
+
+    if (!Number.isInteger(this.revision) || this.revision < 0) {
+      throw new Error('Reliability profile revision must be a non-negative integer');
+    }
+    checkReliability(this.defaultReliability, 'default_reliability');
+    if (typeof this.priorStrength !== 'number' || !(this.priorStrength > 0) || !Number.isFinite(this.priorStrength)) {
+      throw new Error('prior_strength must be a positive number');
+    }
+
+    this.priors = new Map(Object.entries(config.priors ?? {}));
+    this.priors.forEach((prior, sourceId) => checkReliability(prior, `Prior of '${sourceId}'`));
+
+    this.observations = new Map(Object.entries(config.observations ?? {}));
+    this.observations.forEach((observed, sourceId) => {
+      if (!observed || !isCount(observed.successes) || !isCount(observed.failures)) {
+        throw new Error(`Observations of '${sourceId}' must have non-negative successes and failures`);
+      }
+    });
+  }
+
+  /**
+   * Get the reliability of a source
+   *
+   * @param sourceId - The provenance source_id
+   * @returns The prior updated with the source's observations, in [0, 1]
+   */
+  reliabilityOf(sourceId: string): number {
+    const prior = this.priors.get(sourceId) ?? this.defaultReliability;
+    const observed = this.observations.get(sourceId);
+    if (!observed) {
+      return prior;
+    }
+    return (prior * this.priorStrength + observed.successes) /
+      (this.priorStrength + observed.successes + observed.failures);
+  }
+
+  /**
+   * Learn from observed outcomes
+   *
+   * @param observations - Outcomes of judgments by their sources
+   * @returns A new profile with the outcomes added and the next revision
+   * @throws {Error} If an observation has no source or an outcome outside [0, 1]
+   */
+  learn(observations: ReliabilityObservation[]): ReliabilityProfile {
+    const config = this.toJSON();
+    const learned: Record<string, SourceObservations> = { ...config.observations };
+
+    for (const observation of observations) {
+      if (!observation || typeof observation.source_id !== 'string' || !observation.source_id) {
+        throw new Error('Observation source_id must be a non-empty string');
+      }
+      checkReliability(observation.outcome, `Outcome for '${observation.source_id}'`);
+
+      const current = learned[observation.source_id] ?? { successes: 0, failures: 0 };
+      learned[observation.source_id] = {
+        successes: current.successes + observation.outcome,
+        failures: current.failures + (1 - observation.outcome)
+      };
+    }
+
+    return new ReliabilityProfile({ ...config, observations: learned, revision: this.revision + 1 });
+  }
+
+  /**
+   * Get the digest of the profile content
+   *
+   * @returns The SHA-256 hash of the canonical JSON of the profile
+   */
+  digest(): string {
+    if (this.cachedDigest === undefined) {
+      this.cachedDigest = createHash('sha256').update(canonicalize(this.toJSON()), 'utf8').digest('hex');
+    }
+    return this.cachedDigest;
+  }
+
+  /**
+   * Serialize the profile
+   *
+   * @returns The configuration, with defaults filled in
+   */
+  toJSON(): Required<ReliabilityProfileConfig> {
+    return {
+      id: this.id,
+      version: this.version,
+      revision: this.revision,
+      default_reliability: this.defaultReliability,
+      prior_strength: this.priorStrength,
+      priors: Object.fromEntries(this.priors),
+      observations: Object.fromEntries(
+        Array.from(this.observations, ([sourceId, observed]) => [sourceId, { ...observed }])
+      )
+    };
+  }
+
+  /**
+   * Restore a profile from its serialized form
+   *
+   * @param config - A configuration, e.g. from `toJSON`
+   * @returns The profile
+   * @throws {Error} If the configuration is invalid
+   */
+  static fromJSON(config: ReliabilityProfileConfig): ReliabilityProfile {
+    return new ReliabilityProfile(config);
+  }
+}
+
+/**
+ * Get the source of a judgment: the source_id of its first provenance entry
+ *
+ * @param judgment - The judgment
+ * @returns The source_id
+ */
+export function sourceOf(judgment: NeutrosophicJudgment): string {
+  return judgment.provenance_chain[0]!.source_id;
+}
+
+/**
+ * Weight fusion inputs by the reliability of their sources
+ *
+ * @param judgments - The inputs
+ * @param baseWeights - The weights before reliability weighting
+ * @param profile - The reliability profile
+ * @param overrides - Reliabilities that replace the profile's for some sources
+ * @returns The record stored in the fusion entry
+ * @throws {Error} If an override is not in [0, 1]
+ */
+export function resolveReliability(
+  judgments: readonly NeutrosophicJudgment[],
+  baseWeights: readonly number[],
+  profile: ReliabilityProfile,
+  overrides: Record<string, number> = {}
+): ReliabilityRecord {
+  Object.entries(overrides).forEach(([sourceId, reliability]) => checkReliability(reliability, `Override for '${sourceId}'`));
+
+  const sources = judgments.map(sourceOf);
+  const applied: Record<string, number> = {};
+  const reliabilities = sources.map(sourceId => {
+    if (Object.prototype.hasOwnProperty.call(overrides, sourceId)) {
+      applied[sourceId] = overrides[sourceId]!;
+      return overrides[sourceId]!;
+    }
+    return profile.reliabilityOf(sourceId);
+  });
+
+  return {
+    profile_id: profile.id,
+    version: profile.version,
+    revision: profile.revision,
+    digest: profile.digest(),
+    sources,
+    reliabilities,
+    base_weights: [...baseWeights],
+    ...(Object.keys(applied).length > 0 ? { overrides: applied } : {})
+  };
+}
+
+/**
+ * Compute the weights of a reliability record
+ *
+ * @param record - The reliability record
+ * @returns Each base weight times the reliability of its input
+ */
+export function reliabilityWeights(record: ReliabilityRecord): number[] {
+  return record.base_weights.map((weight, i) => weight * record.reliabilities[i]!);
+}
+
+/**
+ * Checks that a reliability or outcome lies in [0, 1]
+ * @private
+ */
+function checkReliability(value: number, name: string): void {
+  if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+    throw new Error(`${name} must be a number between 0 and 1, got ${value}`);
+  }
+}
+
+/**
+ * Checks that an observation count is a finite non-negative number
+ * @private
+ */
+function isCount(value: number): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
@@ -0,0 +1,437 @@
+/**
+ * Digital Signatures for Fusion Provenance
+ * ========================================
+ *
+ * A Conformance Seal is an unkeyed SHA-256 hash: anyone can recompute and
+ * re-attach it after editing the inputs, so it proves *what* was fused but not
+ * *who* performed the fusion. This module adds optional Ed25519 and ECDSA P-256
+ * signatures over the fusion provenance entry (including its seal, weights and
+ * embedded input digests), identified by a key ID and verified against a keyring.
+ *
+ * Only Node's built-in `crypto` module is used.
+ */
+
+import {
+  KeyObject,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign as cryptoSign,
+  verify as cryptoVerify
+} from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { NeutrosophicJudgment, ProvenanceEntry } from './judgment';
+import { findFusionEntry } from './conformance';
+import { CanonicalizationId, DEFAULT_CANONICALIZATION, isCanonicalizationId, serializeWith } from './canonical';
+
+// Domain separation prefix so fusion signatures cannot be replayed in other contexts
+const SIGNATURE_DOMAIN = 'otp-fusion-signature-v1';
+
+// Key IDs double as file names in FileKeyRing
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]*$/;
+
+/**
+ * Supported signature algorithms
+ */
+export type SignatureAlgorithm = 'ed25519' | 'ecdsa-p256';
+
+/**
+ * Signature attached to a fusion provenance entry
+ */
+export interface FusionSignature {
+  /** Identifier of the signing key */
+  key_id: string;
+  /** Signature algorithm */
+  algorithm: SignatureAlgorithm;
+  /** Canonicalization used to serialize the signed entry */
+  canonicalization: CanonicalizationId;
+  /** Base64-encoded signature value */
+  value: string;
+}
+
+/**
+ * A private key that can sign fusion entries
+ */
+export interface SigningKey {
+  /** Identifier recorded in the signature */
+  key_id: string;
+  /** Signature algorithm */
+  algorithm: SignatureAlgorithm;
+  /** The private key */
+  private_key: KeyObject;
+}
+
+/**
+ * A public key that can verify fusion signatures
+ */
+export interface VerificationKey {
+  /** Identifier matched against the signature's key_id */
+  key_id: string;
+  /** Signature algorithm */
+  algorithm: SignatureAlgorithm;
+  /** The public key */
+  public_key: KeyObject;
+}
+
+/**
+ * Source of signing and verification keys
+ */
+export interface KeyRing {
+  /**
+   * Get the verification key for a key ID
+   * @param keyId - The key ID
+   * @returns The verification key or undefined if unknown
+   */
+  getVerificationKey(keyId: string): VerificationKey | undefined;
+
+  /**
+   * Get the signing key for a key ID
+   * @param keyId - The key ID
+   * @returns The signing key or undefined if unknown or not available
+   */
+  getSigningKey(keyId: string): SigningKey | undefined;
+}
+
+/**
+ * Result of verifying a signed fusion
+ */
+export interface SignatureVerificationResult {
+  /** True when the signature is present, the key is known and the signature checks out */
+  valid: boolean;
+  /** Key ID recorded in the signature */
+  key_id?: string;
+  /** Algorithm recorded in the signature */
+  algorithm?: SignatureAlgorithm;
+  /** Human-readable explanation for an invalid result */
+  reason?: string;
+}
+
+/**
+ * Error class for signing related errors
+ */
+export class SignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignatureError';
+  }
+}
+
+/**
+ * Generates a new key pair for signing fusion entries
+ *
+ * @param keyId - Identifier for the key
+ * @param algorithm - Signature algorithm (default: ed25519)
+ * @returns The signing key, its verification key, and both keys as PEM strings
+ */
+export function generateSigningKeyPair(
+  keyId: string,
+  algorithm: SignatureAlgorithm = 'ed25519'
+): { signingKey: SigningKey; verificationKey: VerificationKey; privateKeyPem: string; publicKeyPem: string } {
+  validateKeyId(keyId);
+
+  const { privateKey, publicKey } = algorithm === 'ed25519'
+    ? generateKeyPairSync('ed25519')
+    : generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+  return {
+    signingKey: { key_id: keyId, algorithm, private_key: privateKey },
+    verificationKey: { key_id: keyId, algorithm, public_key: publicKey },
+    privateKeyPem: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKeyPem: publicKey.export({ type: 'spki', format: 'pem' }).toString()
+  };
+}
+
+/**
+ * Keyring holding keys in memory
+ *
+ * Example:
+ * ```typescript
+ * const keyring = new InMemoryKeyRing();
+ * keyring.addPublicKey('auditor-2025', publicKeyPem);
+ * const result = verifySignedFusion(fusedJudgment, keyring);
+ * ```
+ */
+export class InMemoryKeyRing implements KeyRing {
+  private verificationKeys: Map<string, VerificationKey> = new Map();
+  private signingKeys: Map<string, SigningKey> = new Map();
+
+  /**
+   * Add a public key
+   *
+   * @param keyId - The key ID
+   * @param key - PEM string or KeyObject; the algorithm is inferred from the key
+   */
+  addPublicKey(keyId: string, key: string | KeyObject): void {
+    validateKeyId(keyId);
+    const publicKey = typeof key === 'string' ? createPublicKey(key) : key;
+    this.verificationKeys.set(keyId, {
+      key_id: keyId,
+      algorithm: inferAlgorithm(publicKey),
+      public_key: publicKey
+    });
+  }
+
+  /**
+   * Add a private key; its public key is added for verification as well
+   *
+   * @param keyId - The key ID
+   * @param key - PEM string or KeyObject; the algorithm is inferred from the key
+   */
+  addPrivateKey(keyId: string, key: string | KeyObject): void {
+    validateKeyId(keyId);
+    const privateKey = typeof key === 'string' ? createPrivateKey(key) : key;
+    const algorithm = inferAlgorithm(privateKey);
+    this.signingKeys.set(keyId, { key_id: keyId, algorithm, private_key: privateKey });
+    this.verificationKeys.set(keyId, {
+      key_id: keyId,
+      algorithm,
+      public_key: createPublicKey(privateKey)
+    });
+  }
+
+  getVerificationKey(keyId: string): VerificationKey | undefined {
+    return this.verificationKeys.get(keyId);
+  }
+
+  getSigningKey(keyId: string): SigningKey | undefined {
+    return this.signingKeys.get(keyId);
+  }
+
+  /**
+   * List all key IDs with a verification key
+   *
+   * @returns Array of key IDs
+   */
+  list(): string[] {
+    return Array.from(this.verificationKeys.keys());
+  }
+}
+
+/**
+ * Keyring backed by PEM files in a directory
+ *
+ * Public keys are read from `<key_id>.pub.pem` and private keys from
+ * `<key_id>.pem`. Keys are loaded on first use and cached.
+ *
+ * Example:
+ * ```typescript
+ * const keyring = new FileKeyRing('/etc/otp/keys');
+ * const signingKey = keyring.generate('fusion-node-1');
+ * const fused = fuse('otp-cawa-v1.1', judgments, weights, { signingKey });
+ * ```
+ */
+export class FileKeyRing implements KeyRing {
+  private cache: InMemoryKeyRing = new InMemoryKeyRing();
+
+  /**
+   * @param directory - Directory holding the key files
+   */
+  constructor(public readonly directory: string) {}
+
+  getVerificationKey(keyId: string): VerificationKey | undefined {
+    if (!this.cache.getVerificationKey(keyId)) {
+      this.load(keyId);
+    }
+    return this.cache.getVerificationKey(keyId);
+  }
+
+  getSigningKey(keyId: string): SigningKey | undefined {
+    if (!this.cache.getSigningKey(keyId)) {
+      this.load(keyId);
+    }
+    return this.cache.getSigningKey(keyId);
+  }
+
+  /**
+   * Generate a key pair and write it to the keyring directory
+   *
+   * @param keyId - The key ID
+   * @param algorithm - Signature algorithm (default: ed25519)
+   * @returns The new signing key
+   * @throws {SignatureError} If a key with this ID already exists
+   */
+  generate(keyId: string, algorithm: SignatureAlgorithm = 'ed25519'): SigningKey {
+    validateKeyId(keyId);
+    const privatePath = join(this.directory, `${keyId}.pem`);
+    const publicPath = join(this.directory, `${keyId}.pub.pem`);
+    if (existsSync(privatePath) || existsSync(publicPath)) {
+      throw new SignatureError(`Key '${keyId}' already exists in ${this.directory}`);
+    }
+
+    const pair = generateSigningKeyPair(keyId, algorithm);
+    mkdirSync(this.directory, { recursive: true });
+    writeFileSync(privatePath, pair.privateKeyPem, { mode: 0o600 });
+    writeFileSync(publicPath, pair.publicKeyPem, { mode: 0o644 });
+
+    this.cache.addPrivateKey(keyId, pair.signingKey.private_key);
+    return pair.signingKey;
+  }
+
+  /**
+   * Load the key files for a key ID into the cache
+   * @private
+   */
+  private load(keyId: string): void {
+    validateKeyId(keyId);
+    const privatePath = join(this.directory, `${keyId}.pem`);
+    const publicPath = join(this.directory, `${keyId}.pub.pem`);
+
+    if (existsSync(privatePath)) {
+      this.cache.addPrivateKey(keyId, readFileSync(privatePath, 'utf8'));
+    } else if (existsSync(publicPath)) {
+      this.cache.addPublicKey(keyId, readFileSync(publicPath, 'utf8'));
+    }
+  }
+}
+
+/**
+ * Signs a fusion provenance entry
+ *
+ * The signature covers the canonical JSON of the entry without its `signature`
+ * field: operator ID, timestamp, Conformance Seal and all metadata.
+ *
+ * @param entry - The fusion provenance entry (as created by createFusionProvenanceEntry)
+ * @param signingKey - The key to sign with
+ * @returns A copy of the entry with a `signature` field
+ * @throws {SignatureError} If the entry carries no Conformance Seal
+ */
+export function signFusionProvenanceEntry<E extends ProvenanceEntry>(
+  entry: E,
+  signingKey: SigningKey
+): E & { signature: FusionSignature } {
+  if (!(entry as any).conformance_seal) {
+    throw new SignatureError('Only sealed fusion provenance entries can be signed');
+  }
+
+  const payload = signaturePayload(entry, DEFAULT_CANONICALIZATION);
+  const value = signingKey.algorithm === 'ed25519'
+    ? cryptoSign(null, payload, signingKey.private_key)
+    : cryptoSign('sha256', payload, { key: signingKey.private_key, dsaEncoding: 'ieee-p1363' });
+
+  return {
+    ...entry,
+    signature: {
+      key_id: signingKey.key_id,
+      algorithm: signingKey.algorithm,
+      canonicalization: DEFAULT_CANONICALIZATION,
+      value: value.toString('base64')
+    }
+  };
+}
+
+/**
+ * Signs the fusion entry of an already fused judgment
+ *
+ * @param fusedJudgment - The fused judgment
+ * @param signingKey - The key to sign with
+ * @returns A new judgment whose fusion entry carries a signature
+ * @throws {ConformanceError} If the judgment has no sealed fusion entry
+ */
+export function signFusedJudgment(
+  fusedJudgment: NeutrosophicJudgment,
+  signingKey: SigningKey
+): NeutrosophicJudgment {
+  const { entry, index } = findFusionEntry(fusedJudgment);
+  const chain = [...fusedJudgment.provenance_chain];
+  chain[index] = signFusionProvenanceEntry(entry, signingKey);
+
+  return new NeutrosophicJudgment(fusedJudgment.T, fusedJudgment.I, fusedJudgment.F, chain);
+}
+
+/**
+ * Verifies the signature on the fusion entry of a fused judgment
+ *
+ * Note that this checks who performed the fusion; combine it with
+ * verifyConformanceSeal to check what was fused.
+ *
+ * @param fusedJudgment - The fused judgment
+ * @param keyring - Keyring used to look up the signer's public key
+ * @returns A SignatureVerificationResult
+ * @throws {ConformanceError} If the judgment has no sealed fusion entry
+ *
+ * @example
+ * ```typescript
+ * const result = verifySignedFusion(fusedJudgment, new FileKeyRing('./keys'));
+ * if (result.valid) {
+ *   console.log(`✅ Fusion signed by ${result.key_id}`);
+ * }
+ * ```
+ */
+export function verifySignedFusion(
+  fusedJudgment: NeutrosophicJudgment,
+  keyring: KeyRing
+): SignatureVerificationResult {
+  const { entry } = findFusionEntry(fusedJudgment);
+  const signature = (entry as any).signature as FusionSignature | undefined;
+
+  if (!signature || typeof signature !== 'object') {
+    return { valid: false, reason: 'Fusion entry is not signed' };
+  }
+
+  const base = { key_id: signature.key_id, algorithm: signature.algorithm };
+
+  if (!isCanonicalizationId(signature.canonicalization)) {
+    return { ...base, valid: false, reason: `Unknown canonicalization: ${signature.canonicalization}` };
+  }
+
+  let key: VerificationKey | undefined;
+  try {
+    key = keyring.getVerificationKey(signature.key_id);
+  } catch (error) {
+    return { ...base, valid: false, reason: `Failed to load key '${signature.key_id}': ${error}` };
+  }
+  if (!key) {
+    return { ...base, valid: false, reason: `Unknown key ID: ${signature.key_id}` };
+  }
+  if (key.algorithm !== signature.algorithm) {
+    return {
+      ...base,
+      valid: false,
+      reason: `Key '${key.key_id}' is ${key.algorithm} but the signature claims ${signature.algorithm}`
+    };
+  }
+
+  const payload = signaturePayload(entry, signature.canonicalization);
+  const value = Buffer.from(signature.value, 'base64');
+  const valid = key.algorithm === 'ed25519'
+    ? cryptoVerify(null, payload, key.public_key, value)
+    : cryptoVerify('sha256', payload, { key: key.public_key, dsaEncoding: 'ieee-p1363' }, value);
+
+  return valid ? { ...base, valid } : { ...base, valid, reason: 'Signature does not match the fusion entry' };
+}
+
+/**
+ * Bytes covered by a fusion signature
+ * @private
+ */
+function signaturePayload(entry: ProvenanceEntry, canonicalization: CanonicalizationId): Buffer {
+  const { signature: _signature, ...unsigned } = entry as ProvenanceEntry & { signature?: unknown };
+  return Buffer.from(`${SIGNATURE_DOMAIN}:${serializeWith(unsigned, canonicalization)}`, 'utf8');
+}
+
+/**
+ * Infers the signature algorithm from a key
+ * @private
+ */
+function inferAlgorithm(key: KeyObject): SignatureAlgorithm {
+  if (key.asymmetricKeyType === 'ed25519') {
+    return 'ed25519';
+  }
+  // asymmetricKeyDetails is unavailable before Node 15.7; signing then fails for other curves
+  const curve = key.asymmetricKeyDetails?.namedCurve;
+  if (key.asymmetricKeyType === 'ec' && (curve === undefined || curve === 'prime256v1')) {
+    return 'ecdsa-p256';
+  }
+  throw new SignatureError(`Unsupported key type: ${key.asymmetricKeyType}`);
+}
+
+/**
+ * Validates a key ID
+ * @private
+ */
+function validateKeyId(keyId: string): void {
+  if (typeof keyId !== 'string' || !KEY_ID_PATTERN.test(keyId)) {
+    throw new SignatureError(`Invalid key ID '${keyId}': use letters, digits, '.', '_' and '-'`);
+  }
+}
@@ -0,0 +1,576 @@
+/**
+ * Streaming Mapper and Fusion Pipeline
+ *
+ * Maps records arriving on a Node `Readable` stream or an async iterable to
+ * judgments, and fuses the judgments of each entity over event-time windows:
+ *
+ * - Tumbling windows of fixed size that do not overlap
+ * - Sliding windows of fixed size that start every `slide`
+ * - Session windows that close once an entity has been quiet for `gap`
+ *
+ * Every closed window is fused with a registered fusion operator, so each
+ * emitted judgment carries a Conformance Seal and a Judgment ID. Windows close
+ * when the watermark (the latest event time seen, minus the allowed lateness)
+ * passes their end; the rest close when the input ends.
+ *
+ * The Transform streams and async generators both apply backpressure: a record
+ * is only read once the previous output has been consumed.
+ */
+
+import { Transform, TransformCallback } from 'stream';
+import { NeutrosophicJudgment } from './judgment';
+import { FusionOptions, fuse } from './fusion';
+import { getGlobalFusionRegistry } from './fusion-registry';
+import { ClockOptions, getClock } from './clock';
+import {
+  Mapper,
+  MapperRegistry as IMapperRegistry,
+  TemporalDuration,
+  InputError,
+  ValidationError
+} from './mapper/types';
+import {
+  BatchError,
+  BatchErrorPolicy,
+  createSubstituteJudgment,
+  handleBatchError,
+  resolveErrorPolicy
+} from './mapper/batch';
+import { parseDuration } from './mapper/temporal';
+import { getGlobalRegistry } from './mapper/registry';
+
+const DEFAULT_WINDOW_OPERATOR = 'otp-cawa-v1.1';
+
+/**
+ * Judgment of an entity at a point in event time
+ */
+export interface StreamJudgment {
+  /** Entity the judgment is about; windows are kept per key */
+  key: string;
+  /** Event time in milliseconds since the epoch */
+  time: number;
+  /** The judgment */
+  judgment: NeutrosophicJudgment;
+}
+
+/**
+ * Options for mapping a stream of records
+ */
+export interface MapStreamOptions extends ClockOptions {
+  /** The mapper, or the ID of a registered mapper */
+  mapper: Mapper | string;
+  /** Registry in which a mapper ID is looked up (default: the global mapper registry) */
+  mappers?: IMapperRegistry;
+  /** Extracts the mapper input from a record (default: the record itself) */
+  value?: (record: any) => any;
+  /** Extracts the entity key from a record (default: the mapper ID) */
+  key?: (record: any) => string | number;
+  /** Extracts the event time from a record as a Date, epoch milliseconds or ISO 8601 string (default: the clock) */
+  time?: (record: any) => Date | number | string;
+  /** Handling of values that cannot be mapped (default: fail-fast) */
+  onError?: BatchErrorPolicy;
+  /** Judgment substituted by the `default` policy (default: pure indeterminacy, I = 1) */
+  defaultJudgment?: { T: number; I: number; F: number };
+  /** Called for each value that could not be mapped under the `skip` and `default` policies */
+  onMapperError?: (error: BatchError) => void;
+}
+
+/**
+ * Event-time window
+ */
+export type WindowSpec =
+  | { type: 'tumbling'; size: TemporalDuration }
+  | { type: 'sliding'; size: TemporalDuration; slide: TemporalDuration }
+  | { type: 'session'; gap: TemporalDuration };
+
+/**
+ * Options for windowed fusion
+ */
+export interface WindowOptions extends FusionOptions {
+  /** The windows; durations are milliseconds or ISO 8601 durations */
+  window: WindowSpec;
+  /** ID of the fusion operator (default: otp-cawa-v1.1) */
+  operator?: string;
+  /** How far behind the latest event time a judgment may arrive (default: 0) */
+  lateness?: TemporalDuration;
+  /** Called for each judgment that arrives after all of its windows have closed */
+  onLate?: (item: StreamJudgment) => void;
+}
+
+/**
+ * Fused judgment of an entity over one window
+ */
+export interface WindowJudgment {
+  /** Entity the judgment is about */
+  key: string;
+  /** Start of the window in epoch milliseconds (inclusive) */
+  start: number;
+  /** End of the window in epoch milliseconds (exclusive) */
+  end: number;
+  /** Number of judgments fused */
+  count: number;
+  /** The fused judgment */
+  judgment: NeutrosophicJudgment;
+}
+
+/**
+ * Open window and the judgments collected so far, in event-time order
+ */
+interface OpenWindow {
+  key: string;
+  start: number;
+  end: number;
+  items: StreamJudgment[];
+}
+
+/**
+ * Maps records one at a time, keeping count of their position in the stream
+ */
+class RecordStreamMapper {
+  private readonly mapper: Mapper;
+  private readonly options: MapStreamOptions;
+  private readonly policy: ReturnType<typeof resolveErrorPolicy>;
+  private index = 0;
+
+  /**
+   * @param options - The mapping options
+   * @throws ValidationError if the mapper is not registered or the error policy is invalid
+   */
+  constructor(options: MapStreamOptions) {
+    const mapper = typeof options.mapper === 'string'
+      ? (options.mappers ?? getGlobalRegistry()).get(options.mapper)
+      : options.mapper;
+    if (!mapper) {
+      throw new ValidationError(`Mapper '${options.mapper}' is not registered`);
+    }
+    this.mapper = mapper;
+    this.options = options;
+    this.policy = resolveErrorPolicy(options);
+  }
+
+  /**
+   * Map a record
+   *
+   * @param record - The record
+   * @returns The judgment, or undefined if the record was skipped
+   * @throws InputError if the key or event time cannot be extracted, or with the fail-fast policy
+   *   if the value cannot be mapped
+   */
+  map(record: any): StreamJudgment | undefined {
+    const index = this.index++;
+    const key = this.extractKey(record);
+    const time = this.extractTime(record);
+    const value = this.options.value ? this.options.value(record) : record;
+
+    let judgment: NeutrosophicJudgment;
+    try {
+      judgment = this.mapper.apply(value);
+    } catch (error) {
+      const errors: BatchError[] = [];
+      const message = handleBatchError(error, index, this.policy.onError, errors);
+      this.options.onMapperError?.(errors[0]!);
+      if (this.policy.onError === 'skip') {
+        return undefined;
+      }
+      judgment = createSubstituteJudgment(
+        this.mapper,
+        value,
+        new Date(time).toISOString(),
+        this.policy.defaultJudgment,
+        message
+      );
+    }
+
+    return { key, time, judgment };
+  }
+
+  private extractKey(record: any): string {
+    if (!this.options.key) {
+      return this.mapper.parameters.id;
+    }
+    const key = this.options.key(record);
+    if (typeof key !== 'string' && !(typeof key === 'number' && Number.isFinite(key))) {
+      throw new InputError(`Record key must be a string or number, got ${key === null ? 'null' : typeof key}`);
+    }
+    return String(key);
+  }
+
+  private extractTime(record: any): number {
+    if (!this.options.time) {
+      return (this.options.clock ?? getClock()).now().getTime();
+    }
+    const time = this.options.time(record);
+    const millis = time instanceof Date ? time.getTime()
+      : typeof time === 'number' ? time
+      : typeof time === 'string' ? Date.parse(time)
+      : NaN;
+    if (!Number.isFinite(millis)) {
+      throw new InputError(`Record time must be a Date, epoch milliseconds or ISO 8601 date-time, got ${String(time)}`);
+    }
+    return millis;
+  }
+}
+
+/**
+ * Fuses the judgments of each entity over event-time windows
+ *
+ * Judgments are pushed in arrival order, which may differ from event-time
+ * order by up to the allowed lateness. Within a window, judgments are fused in
+ * event-time order (ties in arrival order), so the seal does not depend on
+ * arrival order. A judgment whose windows have all closed is late: it is
+ * passed to `onLate` and otherwise dropped. With sliding windows whose slide
+ * exceeds their size, judgments between windows are dropped.
+ *
+ * @example
+ * ```typescript
+ * const windows = new WindowedFusion({ window: { type: 'tumbling', size: 'PT1M' } });
+ * for (const item of items) {
+ *   windows.push(item).forEach(emit);
+ * }
+ * windows.flush().forEach(emit);
+ * ```
+ */
+export class WindowedFusion {
+  private readonly spec: WindowSpec;
+  private readonly size: number;
+  private readonly slide: number;
+  private readonly lateness: number;
+  private readonly operator: string;
+  private readonly onLate: ((item: StreamJudgment) => void) | undefined;
+  private readonly fusionOptions: FusionOptions;
+  /** Tumbling and sliding windows by start and key */
+  private readonly windows = new Map<string, OpenWindow>();
+  /** Session windows by key, ordered by start */
+  private readonly sessions = new Map<string, OpenWindow[]>();
+  private currentWatermark = -Infinity;
+
+  /**
+   * @param options - The windows, fusion operator and fusion options
+   * @throws ValidationError if a duration is not positive (lateness: negative) or the operator is not registered
+   */
+  constructor(options: WindowOptions) {
+    const { window, operator, lateness, onLate, ...fusionOptions } = options;
+    this.spec = window;
+    this.fusionOptions = fusionOptions;
+    this.onLate = onLate;
+    this.operator = operator ?? DEFAULT_WINDOW_OPERATOR;
+
+    switch (window?.type) {
+      case 'tumbling':
+        this.size = this.slide = parseWindowDuration(window.size, 'size');
+        break;
+      case 'sliding':
+        this.size = parseWindowDuration(window.size, 'size');
+        this.slide = parseWindowDuration(window.slide, 'slide');
+        break;
+      case 'session':
+        this.size = this.slide = parseWindowDuration(window.gap, 'gap');
+        break;
+      default:
+        throw new ValidationError(
+          `Invalid window type '${(window as any)?.type}': expected one of tumbling, sliding, session`
+        );
+    }
+
+    this.lateness = lateness === undefined ? 0 : parseWindowDuration(lateness, 'lateness', true);
+
+    try {
+      (fusionOptions.registry ?? getGlobalFusionRegistry()).resolve(this.operator);
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * The latest event time seen minus the allowed lateness; windows ending at or before it are closed
+   */
+  get watermark(): number {
+    return this.currentWatermark;
+  }
+
+  /**
+   * Number of windows that are open
+   */
+  get openWindows(): number {
+    let count = this.windows.size;
+    for (const sessions of this.sessions.values()) {
+      count += sessions.length;
+    }
+    return count;
+  }
+
+  /**
+   * Add a judgment and close the windows its event time moves the watermark past
+   *
+   * @param item - The judgment with its key and event time
+   * @returns The fused judgments of the windows that closed, ordered by end, start and key
+   * @throws InputError if the item is not a judgment with a string key and finite event time
+   */
+  push(item: StreamJudgment): WindowJudgment[] {
+    if (!item || !(item.judgment instanceof NeutrosophicJudgment) ||
+        typeof item.key !== 'string' || typeof item.time !== 'number' || !Number.isFinite(item.time)) {
+      throw new InputError('Windowed fusion input must be a { key, time, judgment } object with a NeutrosophicJudgment');
+    }
+
+    const accepted = this.spec.type === 'session' ? this.addToSession(item) : this.addToWindows(item);
+    if (!accepted) {
+      this.onLate?.(item);
+    }
+
+    if (item.time - this.lateness > this.currentWatermark) {
+      this.currentWatermark = item.time - this.lateness;
+      return this.close(window => window.end <= this.currentWatermark);
+    }
+    return [];
+  }
+
+  /**
+   * Close every open window, as at the end of the input
+   *
+   * @returns The fused judgments of the windows, ordered by end, start and key
+   */
+  flush(): WindowJudgment[] {
+    return this.close(() => true);
+  }
+
+  private addToWindows(item: StreamJudgment): boolean {
+    const first = Math.floor((item.time - this.size) / this.slide) + 1;
+    const last = Math.floor(item.time / this.slide);
+    let accepted = first > last;
+
+    for (let k = first; k <= last; k++) {
+      const start = k * this.slide;
+      const end = start + this.size;
+      if (end <= this.currentWatermark) {
+        continue;
+      }
+      const id = `${start}\u0000${item.key}`;
+      let window = this.windows.get(id);
+      if (!window) {
+        window = { key: item.key, start, end, items: [] };
+        this.windows.set(id, window);
+      }
+      insertByTime(window.items, item);
+      accepted = true;
+    }
+
+    return accepted;
+  }
+
+  private addToSession(item: StreamJudgment): boolean {
+    const sessions = this.sessions.get(item.key) ?? [];
+    let merged: OpenWindow = { key: item.key, start: item.time, end: item.time + this.size, items: [item] };
+    const remaining: OpenWindow[] = [];
+
+    for (const session of sessions) {
+      if (merged.start < session.end && session.start < merged.end) {
+        const items = session.items.slice();
+        merged.items.forEach(each => insertByTime(items, each));
+        merged = {
+          key: item.key,
+          start: Math.min(merged.start, session.start),
+          end: Math.max(merged.end, session.end),
+          items
+        };
+      } else {
+        remaining.push(session);
+      }
+    }
+
+    if (merged.items.length === 1 && merged.end <= this.currentWatermark) {
+      return false;
+    }
+
+    remaining.push(merged);
+    remaining.sort((a, b) => a.start - b.start);
+    this.sessions.set(item.key, remaining);
+    return true;
+  }
+
+  private close(predicate: (window: OpenWindow) => boolean): WindowJudgment[] {
+    const closed: OpenWindow[] = [];
+
+    for (const [id, window] of this.windows) {
+      if (predicate(window)) {
+        closed.push(window);
+        this.windows.delete(id);
+      }
+    }
+    for (const [key, sessions] of this.sessions) {
+      const open = sessions.filter(session => !predicate(session));
+      if (open.length < sessions.length) {
+        closed.push(...sessions.filter(session => predicate(session)));
+        if (open.length > 0) {
+          this.sessions.set(key, open);
+        } else {
+          this.sessions.delete(key);
+        }
+      }
+    }
+
+    closed.sort((a, b) => a.end - b.end || a.start - b.start || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    return closed.map(window => ({
+      key: window.key,
+      start: window.start,
+      end: window.end,
+      count: window.items.length,
+      judgment: fuse(this.operator, window.items.map(each => each.judgment), undefined, this.fusionOptions)
+    }));
+  }
+}
+
+/**
+ * Transform stream that maps records to judgments
+ *
+ * Reads records in object mode and writes `StreamJudgment` objects. With the
+ * fail-fast policy the stream is destroyed with an InputError naming the
+ * position of the record.
+ *
+ * @example
+ * ```typescript
+ * await pipeline(
+ *   events,
+ *   new MapperTransform({ mapper: 'defi-health-factor', value: e => e.health_factor, key: e => e.account }),
+ *   new WindowedFusionTransform({ window: { type: 'tumbling', size: 'PT5M' } }),
+ *   sink
+ * );
+ * ```
+ */
+export class MapperTransform extends Transform {
+  private readonly recordMapper: RecordStreamMapper;
+
+  /**
+   * @param options - The mapping options and the highWaterMark of the stream in objects
+   * @throws ValidationError if the mapper is not registered or the error policy is invalid
+   */
+  constructor(options: MapStreamOptions & { highWaterMark?: number }) {
+    super({ objectMode: true, ...(options.highWaterMark !== undefined ? { highWaterMark: options.highWaterMark } : {}) });
+    this.recordMapper = new RecordStreamMapper(options);
+  }
+
+  override _transform(record: any, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      const item = this.recordMapper.map(record);
+      callback(null, item);
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+}
+
+/**
+ * Transform stream that fuses judgments over event-time windows
+ *
+ * Reads `StreamJudgment` objects and writes a `WindowJudgment` for each window
+ * as it closes. Windows still open when the input ends are emitted on flush.
+ */
+export class WindowedFusionTransform extends Transform {
+  private readonly windows: WindowedFusion;
+
+  /**
+   * @param options - The windowing options and the highWaterMark of the stream in objects
+   * @throws ValidationError if the windows or operator are invalid
+   */
+  constructor(options: WindowOptions & { highWaterMark?: number }) {
+    const { highWaterMark, ...windowOptions } = options;
+    super({ objectMode: true, ...(highWaterMark !== undefined ? { highWaterMark } : {}) });
+    this.windows = new WindowedFusion(windowOptions);
+  }
+
+  override _transform(item: StreamJudgment, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      this.windows.push(item).forEach(window => this.push(window));
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  override _flush(callback: TransformCallback): void {
+    try {
+      this.windows.flush().forEach(window => this.push(window));
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+}
+
+/**
+ * Map the records of an iterable or async iterable, such as a Node `Readable`
+ *
+ * @param source - The records
+ * @param options - The mapping options
+ * @returns The judgments, yielded as they are requested
+ * @throws ValidationError if the mapper is not registered or the error policy is invalid
+ * @throws InputError if a key or event time cannot be extracted, or with the fail-fast policy if a value cannot be mapped
+ */
+export async function* mapJudgments(
+  source: AsyncIterable<any> | Iterable<any>,
+  options: MapStreamOptions
+): AsyncGenerator<StreamJudgment> {
+  const recordMapper = new RecordStreamMapper(options);
+  for await (const record of source) {
+    const item = recordMapper.map(record);
+    if (item) {
+      yield item;
+    }
+  }
+}
+
+/**
+ * Fuse the judgments of an iterable or async iterable over event-time windows
+ *
+ * @param source - The judgments with their keys and event times, e.g. from `mapJudgments`
+ * @param options - The windowing options
+ * @returns The fused judgment of each window, yielded as it closes
+ * @throws ValidationError if the windows or operator are invalid
+ * @throws InputError if an item is not a keyed, timed judgment
+ *
+ * @example
+ * ```typescript
+ * const judgments = mapJudgments(readable, { mapper: 'kyc-status', key: e => e.user, time: e => e.at });
+ * for await (const window of fuseWindows(judgments, { window: { type: 'session', gap: 'PT30M' } })) {
+ *   console.log(window.key, window.judgment.T);
+ * }
+ * ```
+ */
+export async function* fuseWindows(
+  source: AsyncIterable<StreamJudgment> | Iterable<StreamJudgment>,
+  options: WindowOptions
+): AsyncGenerator<WindowJudgment> {
+  const windows = new WindowedFusion(options);
+  for await (const item of source) {
+    yield* windows.push(item);
+  }
+  yield* windows.flush();
+}
+
+/**
+ * Insert a judgment after those with an earlier or equal event time
+ */
+function insertByTime(items: StreamJudgment[], item: StreamJudgment): void {
+  let index = items.length;
+  while (index > 0 && items[index - 1]!.time > item.time) {
+    index--;
+  }
+  items.splice(index, 0, item);
+}
+
+/**
+ * Parse a window duration
+ *
+ * @throws ValidationError if the duration is invalid, or not positive (negative if zero is allowed)
+ */
+function parseWindowDuration(duration: TemporalDuration, name: string, allowZero = false): number {
+  let millis: number;
+  try {
+    millis = parseDuration(duration);
+  } catch (error) {
+    throw new ValidationError(`Window ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (allowZero ? millis < 0 : millis <= 0) {
+    throw new ValidationError(`Window ${name} must be ${allowZero ? 'non-negative' : 'positive'}, got ${millis} ms`);
+  }
+  return millis;
+}
@@ -0,0 +1,152 @@
+/**
+ * Tests for the canonical module - RFC 8785 style canonical JSON
+ */
+
+import {
+  NeutrosophicJudgment,
+  canonicalize,
+  serializeWith,
+  isCanonicalizationId,
+  generateConformanceSeal,
+  generateJudgmentId,
+  ensureJudgmentId,
+  verifyJudgmentId,
+  verifyConformanceSeal,
+  verifyConformanceSealWithInputs,
+  createFusionProvenanceEntry,
+  conflict_aware_weighted_average
+} from '../src/index';
+
+describe('Canonical JSON', () => {
+  describe('canonicalize', () => {
+    it('should sort object keys recursively', () => {
+      expect(canonicalize({ b: 1, a: { d: true, c: null } })).toBe('{"a":{"c":null,"d":true},"b":1}');
+    });
+
+    it('should sort keys by UTF-16 code units', () => {
+      expect(canonicalize({ 'é': 1, z: 2, Z: 3, '10': 4, '9': 5 })).toBe('{"10":4,"9":5,"Z":3,"z":2,"é":1}');
+    });
+
+    it('should normalize numbers', () => {
+      expect(canonicalize([1.0, -0, 0.1 + 0.2, 1e21, 1e-7, 100])).toBe('[1,0,0.30000000000000004,1e+21,1e-7,100]');
+    });
+
+    it('should reject non-finite numbers', () => {
+      expect(() => canonicalize({ value: NaN })).toThrow('Cannot canonicalize non-finite number: NaN');
+      expect(() => canonicalize([Infinity])).toThrow('Cannot canonicalize non-finite number: Infinity');
+    });
+
+    it('should omit undefined properties and null undefined array items', () => {
+      expect(canonicalize({ a: undefined, b: [undefined, 1] })).toBe('{"b":[null,1]}');
+    });
+
+    it('should escape strings like JSON', () => {
+      expect(canonicalize('line\n"quoted"\u0001')).toBe('"line\\n\\"quoted\\"\\u0001"');
+    });
+
+    it('should honor toJSON', () => {
+      expect(canonicalize({ at: new Date('2025-01-01T00:00:00Z') })).toBe('{"at":"2025-01-01T00:00:00.000Z"}');
+    });
+
+    it('should reject circular structures', () => {
+      const circular: any = { a: 1 };
+      circular.self = circular;
+
+      expect(() => canonicalize(circular)).toThrow('Cannot canonicalize circular structure');
+    });
+
+    it('should reject top-level undefined', () => {
+      expect(() => canonicalize(undefined)).toThrow('Cannot canonicalize value of type undefined');
+    });
+  });
+
+  describe('serializeWith', () => {
+    it('should dispatch on the canonicalization ID', () => {
+      const value = { b: 1, a: 2 };
+
+      expect(serializeWith(value, 'otp-jcs-v1')).toBe('{"a":2,"b":1}');
+      expect(serializeWith(value, 'otp-json-legacy')).toBe('{"b":1,"a":2}');
+      expect(() => serializeWith(value, 'otp-unknown' as any)).toThrow('Unknown canonicalization: otp-unknown');
+    });
+
+    it('should recognize canonicalization IDs', () => {
+      expect(isCanonicalizationId('otp-jcs-v1')).toBe(true);
+      expect(isCanonicalizationId('otp-json-legacy')).toBe(true);
+      expect(isCanonicalizationId('jcs')).toBe(false);
+    });
+  });
+
+  describe('Seals and Judgment IDs', () => {
+    const withMetadata = (metadata: Record<string, any>, sourceId = 'sensor1'): NeutrosophicJudgment => {
+      return new NeutrosophicJudgment(0.8, 0.2, 0.0, [
+        { source_id: sourceId, timestamp: '2023-01-01T00:00:00Z', metadata }
+      ]);
+    };
+
+    const ordered = withMetadata({ region: 'eu', score: 1 });
+    const reordered = withMetadata({ score: 1.0, region: 'eu' });
+
+    it('should produce key-order independent Judgment IDs', () => {
+      expect(generateJudgmentId(ordered)).toBe(generateJudgmentId(reordered));
+      expect(generateJudgmentId(ordered, 'otp-json-legacy')).not.toBe(generateJudgmentId(reordered, 'otp-json-legacy'));
+    });
+
+    it('should produce key-order independent seals', () => {
+      const other = withMetadata({}, 'sensor2');
+
+      expect(generateConformanceSeal([ordered, other], [0.5, 0.5], 'otp-cawa-v1.1'))
+        .toBe(generateConformanceSeal([reordered, other], [0.5, 0.5], 'otp-cawa-v1.1'));
+    });
+
+    it('should record the canonicalization in Judgment ID and fusion entries', () => {
+      const fused = conflict_aware_weighted_average([ordered, withMetadata({}, 'sensor2')], [0.5, 0.5]);
+
+      expect(fused.provenance_chain[2]!.metadata?.['canonicalization']).toBe('otp-jcs-v1');
+      expect(fused.provenance_chain[3]!.metadata?.['canonicalization']).toBe('otp-jcs-v1');
+    });
+
+    it('should verify Judgment IDs with the recorded canonicalization', () => {
+      const withId = ensureJudgmentId(ordered);
+
+      expect(verifyJudgmentId(withId)).toBe(true);
+
+      const legacyEntry = {
+        source_id: 'otp-judgment-id-generator',
+        timestamp: '2023-01-01T00:00:00Z',
+        judgment_id: generateJudgmentId(ordered, 'otp-json-legacy')
+      };
+      const legacy = new NeutrosophicJudgment(0.8, 0.2, 0.0, [...ordered.provenance_chain, legacyEntry]);
+      expect(verifyJudgmentId(legacy)).toBe(true);
+
+      const forged = new NeutrosophicJudgment(0.7, 0.2, 0.0, [...withId.provenance_chain]);
+      expect(verifyJudgmentId(forged)).toBe(false);
+    });
+
+    it('should throw when verifying a judgment without an ID', () => {
+      expect(() => verifyJudgmentId(ordered)).toThrow('Judgment does not carry a Judgment ID');
+    });
+
+    it('should keep legacy seals verifiable', () => {
+      const inputs = [ordered, withMetadata({}, 'sensor2')];
+      const weights = [0.6, 0.4];
+      const legacySeal = generateConformanceSeal(inputs, weights, 'otp-cawa-v1.1', 'otp-json-legacy');
+      const legacyFused = new NeutrosophicJudgment(0.8, 0.2, 0.0, [
+        ...inputs[0]!.provenance_chain,
+        ...inputs[1]!.provenance_chain,
+        createFusionProvenanceEntry('otp-cawa-v1.1', '2023-01-01T00:00:00Z', legacySeal, undefined, {
+          weights,
+          inputs: inputs.map(j => ({
+            judgment_id: generateJudgmentId(j, 'otp-json-legacy'),
+            T: j.T,
+            I: j.I,
+            F: j.F,
+            provenance_length: j.provenance_chain.length
+          }))
+        })
+      ]);
+
+      expect(verifyConformanceSealWithInputs(legacyFused, inputs, weights)).toBe(true);
+      expect(verifyConformanceSeal(legacyFused)).toBe(true);
+    });
+  });
+});
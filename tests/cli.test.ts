@@ -0,0 +1,259 @@
+/**
+ * Tests for the otp command-line tool
+ */
+
+import { runCli, CliIO } from '../src/cli';
+import {
+  NeutrosophicJudgment,
+  conflict_aware_weighted_average,
+  generateJudgmentId,
+  ensureJudgmentId,
+  FixedClock
+} from '../src/index';
+
+describe('otp CLI', () => {
+  const createIO = (files: Record<string, unknown>, stdin: string = '') => {
+    const output = { stdout: '', stderr: '' };
+    const io: CliIO = {
+      readFile: path => {
+        if (!(path in files)) {
+          throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+        }
+        const content = files[path];
+        return typeof content === 'string' ? content : JSON.stringify(content);
+      },
+      readStdin: async () => stdin,
+      write: text => { output.stdout += text; },
+      error: text => { output.stderr += text; }
+    };
+    return { io, output };
+  };
+
+  const numericalConfig = {
+    id: 'defi-health-factor',
+    version: '1.0.0',
+    falsity_point: 1.0,
+    indeterminacy_point: 1.5,
+    truth_point: 3.0,
+    clamp_to_range: true
+  };
+
+  const booleanConfig = {
+    id: 'kyc-verified',
+    version: '1.0.0',
+    true_map: { T: 0.9, I: 0.1, F: 0.0 },
+    false_map: { T: 0.0, I: 0.1, F: 0.9 }
+  };
+
+  const judgment1 = new NeutrosophicJudgment(0.8, 0.2, 0.0, [
+    { source_id: 'sensor1', timestamp: '2023-01-01T00:00:00Z' }
+  ]);
+  const judgment2 = new NeutrosophicJudgment(0.6, 0.3, 0.1, [
+    { source_id: 'sensor2', timestamp: '2023-01-01T00:00:00Z' }
+  ]);
+
+  describe('map', () => {
+    it('should map a JSON array from stdin', async () => {
+      const { io, output } = createIO({ 'mapper.json': numericalConfig }, '[1.0, 3.0]');
+
+      expect(await runCli(['map', 'mapper.json'], io)).toBe(0);
+      const judgments = JSON.parse(output.stdout);
+      expect(judgments).toHaveLength(2);
+      expect(judgments[0]).toMatchObject({ T: 0, I: 0, F: 1 });
+      expect(judgments[1]).toMatchObject({ T: 1, I: 0, F: 0 });
+      expect(judgments[1].provenance_chain[0].source_id).toBe('defi-health-factor');
+    });
+
+    it('should map one value per line', async () => {
+      const { io, output } = createIO({ 'mapper.json': booleanConfig }, 'true\nno\n\n');
+
+      expect(await runCli(['map', 'mapper.json'], io)).toBe(0);
+      expect(JSON.parse(output.stdout).map((j: any) => j.T)).toEqual([0.9, 0.0]);
+    });
+
+    it('should map a single value to a single judgment', async () => {
+      const { io, output } = createIO({ 'mapper.json': numericalConfig }, '3.0');
+
+      expect(await runCli(['map', 'mapper.json'], io)).toBe(0);
+      expect(NeutrosophicJudgment.fromJSON(JSON.parse(output.stdout)).T).toBe(1);
+    });
+
+    it('should accept registry export entries', async () => {
+      const exported = { id: 'defi-health-factor', type: 'numerical', parameters: numericalConfig };
+      const { io } = createIO({ 'mapper.json': exported }, '[2.0]');
+
+      expect(await runCli(['map', 'mapper.json'], io)).toBe(0);
+    });
+
+    it('should reject invalid mapper configurations', async () => {
+      const { io, output } = createIO({ 'mapper.json': { ...numericalConfig, truth_point: 1.0 } }, '[1]');
+
+      expect(await runCli(['map', 'mapper.json'], io)).toBe(1);
+      expect(output.stderr).toContain('must be distinct');
+    });
+  });
+
+  describe('fuse', () => {
+    const files = { 'a.json': judgment1, 'b.json': judgment2 };
+
+    it('should match library fusion', async () => {
+      const { io, output } = createIO(files);
+
+      const code = await runCli(
+        ['fuse', '--weights', '0.6,0.4', '--timestamp', '2025-01-01T00:00:00Z', 'a.json', 'b.json'],
+        io
+      );
+      const expected = conflict_aware_weighted_average(
+        [judgment1, judgment2],
+        [0.6, 0.4],
+        { clock: new FixedClock('2025-01-01T00:00:00Z') }
+      );
+
+      expect(code).toBe(0);
+      expect(JSON.parse(output.stdout)).toEqual(JSON.parse(JSON.stringify(expected)));
+    });
+
+    it('should select the operator', async () => {
+      const { io, output } = createIO(files);
+
+      expect(await runCli(['fuse', '--operator=otp-optimistic-v1.1', 'a.json', 'b.json'], io)).toBe(0);
+      expect(JSON.parse(output.stdout).provenance_chain[2].source_id).toBe('otp-optimistic-v1.1');
+    });
+
+    it('should report usage errors', async () => {
+      const cases: Array<[string[], string]> = [
+        [['fuse'], 'fuse requires at least one judgment file'],
+        [['fuse', '--operator', 'acme-unknown-v1', 'a.json'], 'Unknown fusion operator: acme-unknown-v1'],
+        [['fuse', '--weights', '0.6,x', 'a.json', 'b.json'], "Invalid weight: 'x'"],
+        [['fuse', '--bogus', '1', 'a.json'], 'Unknown option: --bogus'],
+        [['fuse', 'a.json', '--weights'], 'Option --weights requires a value']
+      ];
+
+      for (const [argv, message] of cases) {
+        const { io, output } = createIO(files);
+        expect(await runCli(argv, io)).toBe(2);
+        expect(output.stderr).toContain(message);
+      }
+    });
+
+    it('should report unreadable files', async () => {
+      const { io, output } = createIO({ 'a.json': '{not json' });
+
+      expect(await runCli(['fuse', 'a.json'], io)).toBe(1);
+      expect(output.stderr).toContain('Invalid JSON in a.json');
+    });
+  });
+
+  describe('verify', () => {
+    const fused = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4]);
+
+    it('should verify a fused judgment', async () => {
+      const { io, output } = createIO({ 'fused.json': fused });
+
+      expect(await runCli(['verify', 'fused.json'], io)).toBe(0);
+      expect(JSON.parse(output.stdout)).toEqual({
+        valid: true,
+        judgment_id: { valid: true },
+        conformance_seal: { valid: true, status: 'valid' },
+        fusion: { valid: true }
+      });
+    });
+
+    it('should fail for fused values the seal does not cover', async () => {
+      const altered = ensureJudgmentId(
+        new NeutrosophicJudgment(fused.T - 0.1, fused.I, fused.F, fused.provenance_chain.slice(0, -1))
+      );
+      const { io, output } = createIO({ 'fused.json': altered });
+
+      expect(await runCli(['verify', 'fused.json'], io)).toBe(1);
+      const report = JSON.parse(output.stdout);
+      expect(report.valid).toBe(false);
+      expect(report.judgment_id.valid).toBe(true);
+      expect(report.conformance_seal.valid).toBe(true);
+      expect(report.fusion.valid).toBe(false);
+      expect(report.fusion.expected.T).toBeCloseTo(fused.T, 12);
+    });
+
+    it('should fail for tampered judgments', async () => {
+      const tampered = JSON.parse(JSON.stringify(fused));
+      tampered.provenance_chain[0].source_id = 'forged-sensor';
+      const { io, output } = createIO({ 'fused.json': tampered });
+
+      expect(await runCli(['verify', 'fused.json'], io)).toBe(1);
+      const report = JSON.parse(output.stdout);
+      expect(report.valid).toBe(false);
+      expect(report.judgment_id.valid).toBe(false);
+      expect(report.conformance_seal.status).toBe('tampered');
+    });
+
+    it('should read from stdin', async () => {
+      const { io } = createIO({}, JSON.stringify(fused));
+
+      expect(await runCli(['verify', '-'], io)).toBe(0);
+    });
+  });
+
+  describe('id', () => {
+    it('should print the recorded Judgment ID', async () => {
+      const fused = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4]);
+      const { io, output } = createIO({ 'fused.json': fused });
+
+      expect(await runCli(['id', 'fused.json'], io)).toBe(0);
+      expect(output.stdout).toBe(`${(fused.provenance_chain[3] as any).judgment_id}\n`);
+    });
+
+    it('should compute the ID of judgments without one', async () => {
+      const { io, output } = createIO({ 'j.json': judgment1 });
+
+      expect(await runCli(['id', 'j.json'], io)).toBe(0);
+      expect(output.stdout).toBe(`${generateJudgmentId(judgment1)}\n`);
+    });
+  });
+
+  describe('registry', () => {
+    it('should list mappers in a bundle', async () => {
+      const { io, output } = createIO({ 'bundle.json': [numericalConfig, booleanConfig] });
+
+      expect(await runCli(['registry', 'list', 'bundle.json'], io)).toBe(0);
+      expect(output.stdout).toBe('defi-health-factor\tnumerical\t1.0.0\nkyc-verified\tboolean\t1.0.0\n');
+    });
+
+    it('should validate registry snapshots', async () => {
+      const snapshot = {
+        timestamp: '2025-01-01T00:00:00Z',
+        count: 3,
+        mappers: [numericalConfig, { ...booleanConfig, version: 'v1' }, numericalConfig]
+      };
+      const { io, output } = createIO({ 'bundle.json': snapshot });
+
+      expect(await runCli(['registry', 'validate', 'bundle.json'], io)).toBe(1);
+      const lines = output.stdout.trim().split('\n');
+      expect(lines[0]).toBe('ok\tdefi-health-factor');
+      expect(lines[1]).toMatch(/^error\tkyc-verified\tSchema validation failed/);
+      expect(lines[2]).toBe("error\tdefi-health-factor\tMapper with ID 'defi-health-factor' appears more than once in the import");
+    });
+
+    it('should reject unknown actions', async () => {
+      const { io } = createIO({ 'bundle.json': [] });
+
+      expect(await runCli(['registry', 'prune', 'bundle.json'], io)).toBe(2);
+    });
+  });
+
+  describe('usage', () => {
+    it('should print usage', async () => {
+      const { io, output } = createIO({});
+
+      expect(await runCli(['help'], io)).toBe(0);
+      expect(output.stdout).toContain('Usage: otp <command>');
+      expect(await runCli([], io)).toBe(2);
+    });
+
+    it('should reject unknown commands', async () => {
+      const { io, output } = createIO({});
+
+      expect(await runCli(['frobnicate'], io)).toBe(2);
+      expect(output.stderr).toContain('Unknown command: frobnicate');
+    });
+  });
+});
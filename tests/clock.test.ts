@@ -0,0 +1,160 @@
+/**
+ * Tests for the clock module - Deterministic timestamps for reproducible judgments
+ */
+
+import {
+  NeutrosophicJudgment,
+  SystemClock,
+  FixedClock,
+  OffsetClock,
+  getClock,
+  setDefaultClock,
+  resetDefaultClock,
+  withClock,
+  currentTimestamp,
+  conflict_aware_weighted_average,
+  optimistic_fusion,
+  ensureJudgmentId,
+  createOutcomeJudgment,
+  OutcomeType,
+  NumericalMapper,
+  createTimestamp
+} from '../src/index';
+
+describe('Clock', () => {
+  const createJudgment = (T: number, I: number, F: number, sourceId: string): NeutrosophicJudgment => {
+    return new NeutrosophicJudgment(T, I, F, [
+      { source_id: sourceId, timestamp: '2025-01-01T00:00:00.000Z' }
+    ]);
+  };
+
+  const judgments = [createJudgment(0.8, 0.2, 0.0, 'sensor1'), createJudgment(0.6, 0.3, 0.1, 'sensor2')];
+
+  afterEach(() => {
+    resetDefaultClock();
+  });
+
+  describe('Clock implementations', () => {
+    it('should return the system time', () => {
+      const before = Date.now();
+      const now = new SystemClock().now().getTime();
+
+      expect(now).toBeGreaterThanOrEqual(before);
+      expect(now).toBeLessThanOrEqual(Date.now());
+    });
+
+    it('should return a fixed instant and advance on demand', () => {
+      const clock = new FixedClock('2025-01-01T00:00:00Z');
+
+      expect(clock.now().toISOString()).toBe('2025-01-01T00:00:00.000Z');
+      expect(clock.now().toISOString()).toBe('2025-01-01T00:00:00.000Z');
+
+      clock.advance(1500);
+      expect(clock.now().toISOString()).toBe('2025-01-01T00:00:01.500Z');
+    });
+
+    it('should accept Date and epoch inputs', () => {
+      expect(new FixedClock(new Date(0)).now().getTime()).toBe(0);
+      expect(new FixedClock(86400000).now().toISOString()).toBe('1970-01-02T00:00:00.000Z');
+    });
+
+    it('should reject invalid times', () => {
+      expect(() => new FixedClock('not a date')).toThrow('Invalid time for clock: not a date');
+    });
+
+    it('should offset another clock', () => {
+      const clock = new OffsetClock(-60000, new FixedClock('2025-01-01T00:00:00Z'));
+
+      expect(clock.now().toISOString()).toBe('2024-12-31T23:59:00.000Z');
+    });
+  });
+
+  describe('Context clock', () => {
+    const clock = new FixedClock('2025-06-01T12:00:00Z');
+
+    it('should default to the system clock', () => {
+      expect(getClock()).toBeInstanceOf(SystemClock);
+    });
+
+    it('should use the process-wide default clock', () => {
+      setDefaultClock(clock);
+
+      expect(currentTimestamp()).toBe('2025-06-01T12:00:00.000Z');
+      expect(createTimestamp()).toBe('2025-06-01T12:00:00.000Z');
+    });
+
+    it('should scope a clock to a callback', () => {
+      const inside = withClock(clock, () => currentTimestamp());
+
+      expect(inside).toBe('2025-06-01T12:00:00.000Z');
+      expect(getClock()).toBeInstanceOf(SystemClock);
+    });
+
+    it('should keep the scoped clock across asynchronous boundaries', async () => {
+      const inside = await withClock(clock, async () => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        return currentTimestamp();
+      });
+
+      expect(inside).toBe('2025-06-01T12:00:00.000Z');
+    });
+
+    it('should prefer an explicit clock over the context clock', () => {
+      const explicit = new FixedClock('2030-01-01T00:00:00Z');
+
+      expect(withClock(clock, () => currentTimestamp(explicit))).toBe('2030-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('Reproducible judgments', () => {
+    it('should produce identical fused judgments and Judgment IDs', () => {
+      const clock = new FixedClock('2025-01-01T00:00:00Z');
+
+      const first = conflict_aware_weighted_average(judgments, [0.6, 0.4], { clock });
+      const second = conflict_aware_weighted_average(judgments, [0.6, 0.4], { clock });
+
+      expect(JSON.stringify(first.toJSON())).toBe(JSON.stringify(second.toJSON()));
+      expect(first.provenance_chain.every(entry => entry.timestamp.startsWith('2025-01-01'))).toBe(true);
+    });
+
+    it('should use the context clock for fusion', () => {
+      const fused = withClock(new FixedClock('2025-03-01T00:00:00Z'), () => optimistic_fusion(judgments));
+
+      expect(fused.provenance_chain[2]!.timestamp).toBe('2025-03-01T00:00:00.000Z');
+      expect(fused.provenance_chain[3]!.timestamp).toBe('2025-03-01T00:00:00.000Z');
+    });
+
+    it('should use the clock for Judgment ID entries', () => {
+      const clock = new FixedClock('2025-01-01T00:00:00Z');
+
+      const withId = ensureJudgmentId(judgments[0]!, { clock });
+
+      expect(withId.provenance_chain[1]!.timestamp).toBe('2025-01-01T00:00:00.000Z');
+      expect(ensureJudgmentId(judgments[0]!, { clock }).equals(withId)).toBe(true);
+    });
+
+    it('should use the clock for outcome judgments', () => {
+      const clock = new FixedClock('2025-01-01T00:00:00Z');
+
+      const first = createOutcomeJudgment('decision-id', 1.0, 0.0, 0.0, OutcomeType.SUCCESS, 'oracle', [], { clock });
+      const second = createOutcomeJudgment('decision-id', 1.0, 0.0, 0.0, OutcomeType.SUCCESS, 'oracle', [], { clock });
+
+      expect(first.judgment_id).toBe(second.judgment_id);
+      expect(first.provenance_chain[0]!.timestamp).toBe('2025-01-01T00:00:00.000Z');
+    });
+
+    it('should use the context clock for mapper provenance', () => {
+      const mapper = new NumericalMapper({
+        id: 'health-factor',
+        version: '1.0.0',
+        falsity_point: 1.0,
+        indeterminacy_point: 1.5,
+        truth_point: 3.0
+      });
+
+      const judgment = withClock(new FixedClock('2025-01-01T00:00:00Z'), () => mapper.apply(2.0));
+
+      expect(judgment.provenance_chain[0]!.timestamp).toBe('2025-01-01T00:00:00.000Z');
+    });
+  });
+});
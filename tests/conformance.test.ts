@@ -0,0 +1,253 @@
+/**
+ * Tests for the conformance module - Conformance Seal generation and verification
+ */
+
+import {
+  NeutrosophicJudgment,
+  conflict_aware_weighted_average,
+  optimistic_fusion,
+  pessimistic_fusion,
+  generateConformanceSeal,
+  verifyConformanceSeal,
+  verifyConformanceSealWithInputs,
+  verifyConformanceSealDetailed,
+  extractFusionInputs,
+  verifyFusion,
+  createFusionProvenanceEntry,
+  ConformanceError
+} from '../src/index';
+
+describe('Conformance Seals', () => {
+  const createJudgment = (T: number, I: number, F: number, sourceId: string): NeutrosophicJudgment => {
+    return new NeutrosophicJudgment(T, I, F, [
+      { source_id: sourceId, timestamp: '2023-01-01T00:00:00Z' }
+    ]);
+  };
+
+  const judgment1 = createJudgment(0.8, 0.2, 0.0, 'sensor1');
+  const judgment2 = createJudgment(0.6, 0.3, 0.1, 'sensor2');
+
+  const withChain = (judgment: NeutrosophicJudgment, chain: any[]): NeutrosophicJudgment => {
+    return new NeutrosophicJudgment(judgment.T, judgment.I, judgment.F, chain);
+  };
+
+  describe('verifyConformanceSealWithInputs', () => {
+    it('should verify a fused judgment that ends with a Judgment ID entry', () => {
+      const fused = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4]);
+
+      expect(verifyConformanceSealWithInputs(fused, [judgment1, judgment2], [0.6, 0.4])).toBe(true);
+      expect(verifyConformanceSealWithInputs(fused, [judgment1, judgment2], [0.5, 0.5])).toBe(false);
+    });
+
+    it('should throw for judgments without a seal', () => {
+      expect(() => verifyConformanceSealWithInputs(judgment1, [judgment1], [1.0]))
+        .toThrow('Missing conformance seal in fused judgment');
+    });
+  });
+
+  describe('verifyConformanceSeal', () => {
+    it('should verify fused judgments without external inputs', () => {
+      expect(verifyConformanceSeal(conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4]))).toBe(true);
+      expect(verifyConformanceSeal(optimistic_fusion([judgment1, judgment2]))).toBe(true);
+      expect(verifyConformanceSeal(pessimistic_fusion([judgment1, judgment2]))).toBe(true);
+    });
+
+    it('should verify nested fusions', () => {
+      const inner = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4]);
+      const outer = pessimistic_fusion([inner, createJudgment(0.5, 0.5, 0.0, 'sensor3')]);
+
+      expect(verifyConformanceSeal(outer)).toBe(true);
+    });
+
+    it('should survive a JSON round trip', () => {
+      const fused = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4]);
+      const restored = NeutrosophicJudgment.fromJSON(JSON.parse(JSON.stringify(fused.toJSON())));
+
+      expect(verifyConformanceSeal(restored)).toBe(true);
+    });
+
+    it('should throw for legacy seals without embedded inputs', () => {
+      const seal = generateConformanceSeal([judgment1, judgment2], [0.6, 0.4], 'otp-cawa-v1.1');
+      const legacy = new NeutrosophicJudgment(0.74, 0.24, 0.02, [
+        createFusionProvenanceEntry('otp-cawa-v1.1', '2023-01-01T00:00:00Z', seal)
+      ]);
+
+      expect(() => verifyConformanceSeal(legacy)).toThrow(ConformanceError);
+      expect(verifyConformanceSealDetailed(legacy).status).toBe('unverifiable');
+    });
+  });
+
+  describe('verifyConformanceSealDetailed', () => {
+    const fused = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4]);
+    const chain = fused.provenance_chain.map(entry => ({ ...entry }));
+
+    it('should report a valid seal', () => {
+      const result = verifyConformanceSealDetailed(fused);
+
+      expect(result.valid).toBe(true);
+      expect(result.status).toBe('valid');
+      expect(result.operator_id).toBe('otp-cawa-v1.1');
+      expect(result.computed_seal).toBe(result.stored_seal);
+    });
+
+    it('should detect a tampered input entry', () => {
+      const tampered = [...chain];
+      tampered[1] = { ...tampered[1]!, source_id: 'forged-sensor' };
+
+      const result = verifyConformanceSealDetailed(withChain(fused, tampered));
+
+      expect(result.valid).toBe(false);
+      expect(result.status).toBe('tampered');
+      expect(result.affected_inputs).toEqual([1]);
+      expect(verifyConformanceSeal(withChain(fused, tampered))).toBe(false);
+    });
+
+    it('should detect tampered weights', () => {
+      const tampered = [...chain];
+      tampered[2] = {
+        ...tampered[2]!,
+        metadata: { ...tampered[2]!.metadata, weights: [0.9, 0.1] }
+      };
+
+      const result = verifyConformanceSealDetailed(withChain(fused, tampered));
+
+      expect(result.status).toBe('tampered');
+      expect(result.computed_seal).not.toBe(result.stored_seal);
+    });
+
+    it('should detect a truncated chain', () => {
+      const truncated = chain.slice(1);
+
+      const result = verifyConformanceSealDetailed(withChain(fused, truncated));
+
+      expect(result.valid).toBe(false);
+      expect(result.status).toBe('truncated');
+      expect(result.affected_inputs).toEqual([1]);
+    });
+
+    it('should detect inserted entries', () => {
+      const padded = [{ source_id: 'intruder', timestamp: '2023-01-01T00:00:00Z' }, ...chain];
+
+      expect(verifyConformanceSealDetailed(withChain(fused, padded)).status).toBe('tampered');
+    });
+
+    const withInputs = (edit: (inputs: any[]) => void): NeutrosophicJudgment => {
+      const tampered = [...chain];
+      const inputs = [...tampered[2]!.metadata!['inputs']];
+      edit(inputs);
+      tampered[2] = { ...tampered[2]!, metadata: { ...tampered[2]!.metadata, inputs } };
+      return withChain(fused, tampered);
+    };
+
+    it('should report a null input descriptor as tampered', () => {
+      const result = verifyConformanceSealDetailed(withInputs(inputs => { inputs[0] = null; }));
+
+      expect(result.valid).toBe(false);
+      expect(result.status).toBe('tampered');
+      expect(result.affected_inputs).toEqual([0]);
+    });
+
+    it('should report a non-numeric provenance length as tampered', () => {
+      const result = verifyConformanceSealDetailed(withInputs(inputs => {
+        inputs[1] = { ...inputs[1], provenance_length: '1' };
+      }));
+
+      expect(result.status).toBe('tampered');
+      expect(result.affected_inputs).toEqual([1]);
+      expect(result.reason).toBe('Fusion entry records malformed input descriptors');
+    });
+
+    it('should report redacted input entries', () => {
+      const redacted = [...chain];
+      redacted[0] = { source_id: 'redacted', timestamp: '2023-01-01T00:00:00Z', redacted: true } as any;
+
+      const result = verifyConformanceSealDetailed(withChain(fused, redacted));
+
+      expect(result.valid).toBe(false);
+      expect(result.status).toBe('redacted');
+      expect(result.affected_inputs).toEqual([0]);
+    });
+  });
+
+  describe('extractFusionInputs', () => {
+    it('should reconstruct the original inputs and weights', () => {
+      const fused = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4]);
+
+      const { judgments, weights } = extractFusionInputs(fused);
+
+      expect(weights).toEqual([0.6, 0.4]);
+      expect(judgments).toHaveLength(2);
+      expect(judgments[0]!.equals(judgment1)).toBe(true);
+      expect(judgments[1]!.equals(judgment2)).toBe(true);
+    });
+  });
+
+  describe('verifyFusion', () => {
+    const judgment3 = createJudgment(0.5, 0.4, 0.1, 'sensor3');
+
+    it.each([
+      ['otp-cawa-v1.1', () => conflict_aware_weighted_average([judgment1, judgment2, judgment3], [0.5, 0.3, 0.2])],
+      ['otp-optimistic-v1.1', () => optimistic_fusion([judgment1, judgment2, judgment3])],
+      ['otp-pessimistic-v1.1', () => pessimistic_fusion([judgment1, judgment2, judgment3])]
+    ])('should recompute %s and match the fused values', (operatorId, fuse) => {
+      const result = verifyFusion(fuse());
+
+      expect(result.operator_id).toBe(operatorId);
+      expect(result.valid).toBe(true);
+      expect(result.seal_valid).toBe(true);
+      expect(result.values_valid).toBe(true);
+      expect(result.deltas).toEqual({ T: 0, I: 0, F: 0 });
+    });
+
+    it('should catch forged values behind a valid seal', () => {
+      const fused = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4]);
+      const forged = new NeutrosophicJudgment(0.9, 0.1, 0.0, [...fused.provenance_chain]);
+
+      const result = verifyFusion(forged);
+
+      expect(result.seal_valid).toBe(true);
+      expect(result.values_valid).toBe(false);
+      expect(result.valid).toBe(false);
+      expect(result.deltas!.T).toBeCloseTo(0.9 - fused.T, 12);
+      expect(result.reason).toContain('otp-cawa-v1.1');
+    });
+
+    it('should accept differences within the tolerance', () => {
+      const fused = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4]);
+      const nudged = new NeutrosophicJudgment(fused.T - 1e-6, fused.I, fused.F, [...fused.provenance_chain]);
+
+      expect(verifyFusion(nudged).values_valid).toBe(false);
+      expect(verifyFusion(nudged, { tolerance: 1e-5 }).values_valid).toBe(true);
+    });
+
+    it('should verify against explicit inputs', () => {
+      const fused = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4]);
+
+      const result = verifyFusion(fused, { inputs: [judgment1, judgment2], weights: [0.5, 0.5] });
+
+      expect(result.seal_valid).toBe(false);
+      expect(result.seal_status).toBe('tampered');
+      expect(result.valid).toBe(false);
+    });
+
+    it('should report unavailable inputs without recomputing', () => {
+      const fused = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4]);
+      const truncated = new NeutrosophicJudgment(fused.T, fused.I, fused.F, fused.provenance_chain.slice(1));
+
+      const result = verifyFusion(truncated);
+
+      expect(result.seal_status).toBe('truncated');
+      expect(result.values_valid).toBe(false);
+      expect(result.expected).toBeUndefined();
+    });
+
+    it('should throw for unknown operators', () => {
+      const seal = generateConformanceSeal([judgment1], [1.0], 'otp-unknown-v1');
+      const judgment = new NeutrosophicJudgment(0.8, 0.2, 0.0, [
+        createFusionProvenanceEntry('otp-unknown-v1', '2023-01-01T00:00:00Z', seal)
+      ]);
+
+      expect(() => verifyFusion(judgment)).toThrow('Unknown fusion operator: otp-unknown-v1');
+    });
+  });
+});
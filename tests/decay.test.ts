@@ -0,0 +1,270 @@
+/**
+ * Tests for time-decay weighting of fusion
+ */
+
+import {
+  NeutrosophicJudgment,
+  ConflictAwareAccumulator,
+  conflict_aware_weighted_average,
+  optimistic_fusion,
+  pessimistic_fusion,
+  fuse,
+  applyTimeDecay,
+  decayFactor,
+  generateConformanceSeal,
+  extractFusionInputs,
+  verifyConformanceSeal,
+  verifyConformanceSealDetailed,
+  verifyFusion,
+  FixedClock
+} from '../src/index';
+
+describe('Time Decay', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const clock = new FixedClock('2025-01-31T00:00:00Z');
+
+  const createJudgment = (T: number, I: number, F: number, sourceId: string, timestamp: string): NeutrosophicJudgment => {
+    return new NeutrosophicJudgment(T, I, F, [{ source_id: sourceId, timestamp }]);
+  };
+
+  const fresh = createJudgment(0.8, 0.2, 0.0, 'fresh', '2025-01-31T00:00:00Z');
+  const weekOld = createJudgment(0.2, 0.2, 0.6, 'week-old', '2025-01-24T00:00:00Z');
+  const monthOld = createJudgment(0.9, 0.1, 0.0, 'month-old', '2025-01-01T00:00:00Z');
+
+  const fusionEntry = (judgment: NeutrosophicJudgment) =>
+    judgment.provenance_chain[judgment.provenance_chain.length - 2]!;
+
+  describe('decay functions', () => {
+    it('should halve exponential weights every half-life', () => {
+      const fused = conflict_aware_weighted_average([fresh, weekOld], [1.0, 1.0], {
+        clock,
+        decay: { function: 'exponential', halfLife: 'P7D' }
+      });
+      const expected = conflict_aware_weighted_average([fresh, weekOld], [1.0, 0.5], { clock });
+
+      expect(fused.T).toBe(expected.T);
+      expect(fusionEntry(fused).metadata?.['weights']).toEqual([1.0, 0.5]);
+      expect(fusionEntry(fused).metadata?.['decay']).toEqual({
+        function: 'exponential',
+        half_life_ms: 7 * DAY,
+        reference_time: '2025-01-31T00:00:00.000Z',
+        base_weights: [1.0, 1.0]
+      });
+    });
+
+    it('should decay linearly over the window and to zero after it', () => {
+      const fused = conflict_aware_weighted_average([fresh, weekOld, monthOld], [0.5, 1.0, 1.0], {
+        clock,
+        decay: { function: 'linear', window: 14 * DAY }
+      });
+
+      expect(fusionEntry(fused).metadata?.['weights']).toEqual([0.5, 0.5, 0.0]);
+    });
+
+    it('should cut weights off after the step cutoff', () => {
+      const fused = conflict_aware_weighted_average([fresh, weekOld, monthOld], [1.0, 1.0, 1.0], {
+        clock,
+        decay: { function: 'step', cutoff: 'P7D' }
+      });
+
+      expect(fusionEntry(fused).metadata?.['weights']).toEqual([1.0, 1.0, 0.0]);
+    });
+
+    it('should compute factors from a decay record', () => {
+      const record = { reference_time: '2025-01-31T00:00:00Z', base_weights: [] };
+
+      expect(decayFactor({ ...record, function: 'exponential', half_life_ms: 10 }, 20)).toBe(0.25);
+      expect(decayFactor({ ...record, function: 'linear', window_ms: 10 }, 2.5)).toBe(0.75);
+      expect(decayFactor({ ...record, function: 'step', cutoff_ms: 10 }, 10)).toBe(1.0);
+      expect(decayFactor({ ...record, function: 'step', cutoff_ms: 10 }, 11)).toBe(0.0);
+    });
+  });
+
+  describe('ages', () => {
+    it('should measure ages from the most recent provenance timestamp', () => {
+      const updated = new NeutrosophicJudgment(0.2, 0.2, 0.6, [
+        { source_id: 'week-old', timestamp: '2025-01-24T00:00:00Z' },
+        { source_id: 'refresh', timestamp: '2025-01-30T00:00:00Z' },
+        { source_id: 'annotation', timestamp: '2025-01-10T00:00:00Z' }
+      ]);
+
+      const weights = applyTimeDecay([updated], {
+        function: 'linear',
+        window_ms: 10 * DAY,
+        reference_time: '2025-01-31T00:00:00Z',
+        base_weights: [2.0]
+      });
+
+      expect(weights).toEqual([1.8]);
+    });
+
+    it('should give inputs dated after the reference time age zero', () => {
+      const fused = conflict_aware_weighted_average([fresh, weekOld], [1.0, 1.0], {
+        decay: { function: 'step', cutoff: 'P1D', referenceTime: '2025-01-20T00:00:00Z' },
+        clock
+      });
+
+      expect(fusionEntry(fused).metadata?.['weights']).toEqual([1.0, 1.0]);
+      expect(fusionEntry(fused).metadata?.['decay'].reference_time).toBe('2025-01-20T00:00:00.000Z');
+    });
+
+    it('should default the reference time to the fusion timestamp', () => {
+      const fused = conflict_aware_weighted_average([fresh], [1.0], { clock, decay: { function: 'step', cutoff: 1 } });
+
+      expect(fusionEntry(fused).metadata?.['decay'].reference_time).toBe(fusionEntry(fused).timestamp);
+    });
+  });
+
+  describe('unweighted operators', () => {
+    it('should leave results unchanged without decay', () => {
+      const optimistic = optimistic_fusion([fresh, weekOld, monthOld], { clock });
+
+      // max T = 0.9, mean I = 0.5 / 3 and min F = 0, scaled to sum to 1
+      expect(optimistic.T).toBeCloseTo(0.9 / (0.9 + 0.5 / 3), 12);
+      expect(fusionEntry(optimistic).metadata?.['decay']).toBeUndefined();
+    });
+
+    it('should only consider inputs whose weight has not decayed to zero', () => {
+      const decay = { function: 'step' as const, cutoff: 'P7D' };
+
+      expect(optimistic_fusion([fresh, weekOld, monthOld], { clock, decay }).T).toBe(0.8);
+      expect(pessimistic_fusion([fresh, weekOld, monthOld], { clock, decay }).F).toBe(0.6);
+    });
+
+    it('should weight the averaged indeterminacy', () => {
+      const uncertain = createJudgment(0.1, 0.9, 0.0, 'uncertain', '2025-01-24T00:00:00Z');
+      const fused = fuse('otp-optimistic-v1.1', [fresh, uncertain], undefined, {
+        clock,
+        decay: { function: 'exponential', halfLife: 'P7D' }
+      });
+
+      // I = (0.2 * 1 + 0.9 * 0.5) / 1.5, then scaled with T = 0.8 and F = 0
+      const I = 0.65 / 1.5;
+      expect(fused.I).toBeCloseTo(I / (0.8 + I), 12);
+      expect(verifyFusion(fused).valid).toBe(true);
+    });
+
+  });
+
+  describe('expiry', () => {
+    const decay = { function: 'step' as const, cutoff: 'P1D' };
+
+    it('should yield pure indeterminacy when every input has decayed', () => {
+      const optimistic = optimistic_fusion([weekOld, monthOld], { clock, decay });
+      const averaged = conflict_aware_weighted_average([weekOld, monthOld], [0.6, 0.4], { clock, decay });
+
+      for (const fused of [optimistic, averaged]) {
+        expect([fused.T, fused.I, fused.F]).toEqual([0.0, 1.0, 0.0]);
+        expect(fusionEntry(fused).metadata?.['decay'].expired).toBe(true);
+        expect(verifyConformanceSeal(fused)).toBe(true);
+        expect(verifyFusion(fused).valid).toBe(true);
+      }
+    });
+
+    it('should not mark fusions with weight left as expired', () => {
+      const fused = conflict_aware_weighted_average([fresh, monthOld], [1.0, 1.0], { clock, decay });
+
+      expect(fusionEntry(fused).metadata?.['decay'].expired).toBeUndefined();
+    });
+
+    it('should reject an expiry that does not follow from the recorded decay', () => {
+      const fused = conflict_aware_weighted_average([fresh, monthOld], [1.0, 1.0], { clock, decay });
+      const inputs = extractFusionInputs(fused);
+      const chain = fused.provenance_chain.map(entry => ({ ...entry }));
+      const entry = chain[chain.length - 2]!;
+      const forgedDecay = { ...entry.metadata!['decay'], expired: true };
+      entry.metadata = { ...entry.metadata, decay: forgedDecay };
+      (entry as any).conformance_seal = generateConformanceSeal(
+        inputs.judgments,
+        inputs.weights,
+        'otp-cawa-v1.1',
+        entry.metadata['canonicalization'],
+        { decay: forgedDecay }
+      );
+      const forged = new NeutrosophicJudgment(0.0, 1.0, 0.0, chain);
+
+      expect(verifyFusion(forged)).toMatchObject({
+        valid: false,
+        seal_status: 'tampered',
+        reason: 'Recorded expiry does not follow from the recorded time decay'
+      });
+    });
+  });
+
+  describe('Conformance Seal', () => {
+    const decay = { function: 'exponential' as const, halfLife: 'P7D' };
+
+    it('should verify decayed fusions', () => {
+      const fused = conflict_aware_weighted_average([fresh, weekOld, monthOld], [0.5, 0.3, 0.2], { clock, decay });
+
+      expect(verifyConformanceSeal(fused)).toBe(true);
+      expect(verifyFusion(fused).valid).toBe(true);
+    });
+
+    it('should cover the decay parameters', () => {
+      const decayed = conflict_aware_weighted_average([fresh, weekOld], [1.0, 1.0], { clock, decay });
+      const weights = fusionEntry(decayed).metadata?.['weights'];
+      const undecayed = conflict_aware_weighted_average([fresh, weekOld], weights, { clock });
+
+      expect((fusionEntry(decayed) as any).conformance_seal).not.toBe((fusionEntry(undecayed) as any).conformance_seal);
+
+      const chain = decayed.provenance_chain.map(entry => ({ ...entry }));
+      const entry = chain[chain.length - 2]!;
+      entry.metadata = { ...entry.metadata, decay: { ...entry.metadata!['decay'], half_life_ms: 14 * DAY } };
+      const tampered = new NeutrosophicJudgment(decayed.T, decayed.I, decayed.F, chain);
+
+      expect(verifyConformanceSealDetailed(tampered).status).toBe('tampered');
+    });
+
+    it('should reject weights that do not follow from the recorded decay', () => {
+      const decayed = conflict_aware_weighted_average([fresh, weekOld], [1.0, 1.0], { clock, decay });
+      const inputs = extractFusionInputs(decayed);
+      const chain = decayed.provenance_chain.map(entry => ({ ...entry }));
+      const entry = chain[chain.length - 2]!;
+      const forgedDecay = { ...entry.metadata!['decay'], base_weights: [1.0, 3.0] };
+      entry.metadata = { ...entry.metadata, decay: forgedDecay };
+      (entry as any).conformance_seal = generateConformanceSeal(
+        inputs.judgments,
+        inputs.weights,
+        'otp-cawa-v1.1',
+        entry.metadata['canonicalization'],
+        { decay: forgedDecay }
+      );
+      const forged = new NeutrosophicJudgment(decayed.T, decayed.I, decayed.F, chain);
+
+      expect(verifyConformanceSealDetailed(forged)).toMatchObject({
+        valid: false,
+        status: 'tampered',
+        reason: 'Recorded weights do not follow from the recorded time decay'
+      });
+      expect(verifyFusion(forged)).toMatchObject({
+        valid: false,
+        seal_status: 'tampered',
+        reason: 'Recorded weights do not follow from the recorded time decay'
+      });
+      expect(verifyFusion(forged, { inputs: inputs.judgments, weights: inputs.weights }).seal_status).toBe('tampered');
+    });
+  });
+
+  it('should apply decay to accumulated judgments', () => {
+    const accumulator = new ConflictAwareAccumulator().add(fresh, 0.6).add(weekOld, 0.4);
+    const options = { clock, decay: { function: 'linear' as const, window: 'P14D' } };
+
+    expect(accumulator.fuse(options)).toEqual(conflict_aware_weighted_average([fresh, weekOld], [0.6, 0.4], options));
+  });
+
+  it('should reject invalid decay options', () => {
+    const fuseWith = (decay: any) => conflict_aware_weighted_average([fresh], [1.0], { clock, decay });
+
+    expect(() => fuseWith({ function: 'logarithmic' }))
+      .toThrow("Unknown decay function 'logarithmic': expected one of exponential, linear, step");
+    expect(() => fuseWith({ function: 'exponential', halfLife: 0 })).toThrow('Decay half_life_ms must be positive, got 0');
+    expect(() => fuseWith({ function: 'linear', window: 'P1M' })).toThrow("Invalid ISO 8601 duration 'P1M'");
+    expect(() => fuseWith({ function: 'step', cutoff: 1, referenceTime: 'yesterday' }))
+      .toThrow('Invalid decay reference time: yesterday');
+
+    const undated = new NeutrosophicJudgment(0.5, 0.5, 0.0, [{ source_id: 'x', timestamp: 'unknown' }]);
+    expect(() => conflict_aware_weighted_average([fresh, undated], [1.0, 1.0], { clock, decay: { function: 'step', cutoff: 1 } }))
+      .toThrow('Input 1 has no valid provenance timestamp');
+  });
+});
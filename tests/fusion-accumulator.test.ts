@@ -0,0 +1,125 @@
+/**
+ * Tests for the incremental conflict-aware weighted average
+ */
+
+import {
+  NeutrosophicJudgment,
+  ConflictAwareAccumulator,
+  conflict_aware_weighted_average,
+  generateJudgmentId,
+  verifyConformanceSeal,
+  verifyFusion,
+  linkJudgment,
+  verifyProvenanceChain,
+  FixedClock
+} from '../src/index';
+
+describe('ConflictAwareAccumulator', () => {
+  const clock = new FixedClock('2025-01-01T00:00:00Z');
+
+  const createJudgment = (T: number, I: number, F: number, sourceId: string): NeutrosophicJudgment => {
+    return new NeutrosophicJudgment(T, I, F, [
+      { source_id: sourceId, timestamp: '2025-09-20T20:30:00Z' }
+    ]);
+  };
+
+  // Values chosen so floating-point sums depend on their order
+  const judgments = [
+    createJudgment(0.1, 0.7, 0.2, 'sensor1'),
+    createJudgment(0.33, 0.33, 0.33, 'sensor2'),
+    createJudgment(0.7, 0.1, 0.2, 'sensor3'),
+    createJudgment(0.9, 0.05, 0.05, 'sensor4'),
+    createJudgment(0.3, 0.3, 0.3, 'sensor5')
+  ];
+  const weights = [0.3, 0.7, 0.1, 1.9, 0.45];
+
+  const accumulate = (inputs: NeutrosophicJudgment[], inputWeights: number[]): ConflictAwareAccumulator => {
+    const accumulator = new ConflictAwareAccumulator();
+    inputs.forEach((judgment, i) => accumulator.add(judgment, inputWeights[i]));
+    return accumulator;
+  };
+
+  it('should produce the batch operator output after every addition', () => {
+    const accumulator = new ConflictAwareAccumulator();
+
+    judgments.forEach((judgment, i) => {
+      accumulator.add(judgment, weights[i]);
+      const batch = conflict_aware_weighted_average(judgments.slice(0, i + 1), weights.slice(0, i + 1), { clock });
+
+      expect(accumulator.values()).toEqual({ T: batch.T, I: batch.I, F: batch.F });
+      expect(accumulator.fuse({ clock })).toEqual(batch);
+    });
+    expect(accumulator.size).toBe(judgments.length);
+  });
+
+  it('should produce a verifiable sealed judgment', () => {
+    const fused = accumulate(judgments, weights).fuse({ clock });
+
+    expect(verifyConformanceSeal(fused)).toBe(true);
+    expect(verifyFusion(fused).valid).toBe(true);
+  });
+
+  it('should remove judgments by reference or Judgment ID', () => {
+    const accumulator = accumulate(judgments, weights);
+
+    expect(accumulator.remove(judgments[1]!)).toBe(true);
+    expect(accumulator.remove(generateJudgmentId(judgments[3]!))).toBe(true);
+    expect(accumulator.remove(createJudgment(0.5, 0.5, 0.0, 'never-added'))).toBe(false);
+
+    const remaining = [judgments[0]!, judgments[2]!, judgments[4]!];
+    const batch = conflict_aware_weighted_average(remaining, [weights[0]!, weights[2]!, weights[4]!], { clock });
+    expect(accumulator.values()).toEqual({ T: batch.T, I: batch.I, F: batch.F });
+    expect(accumulator.fuse({ clock })).toEqual(batch);
+    expect(accumulator.inputs().map(input => input.judgment)).toEqual(remaining);
+  });
+
+  it('should remove an equal judgment when the reference differs', () => {
+    const accumulator = accumulate([judgments[0]!, judgments[1]!], [1, 1]);
+
+    expect(accumulator.remove(NeutrosophicJudgment.fromJSON(judgments[0]!.toJSON()))).toBe(true);
+    expect(accumulator.inputs()).toEqual([{ judgment: judgments[1], weight: 1 }]);
+  });
+
+  it('should fall back to the unweighted average when every adjusted weight is zero', () => {
+    const inputs = [createJudgment(1.0, 0.0, 0.0, 'a'), createJudgment(0.0, 0.0, 1.0, 'b')];
+    const accumulator = accumulate(inputs, [0, 0]);
+    const batch = conflict_aware_weighted_average(inputs, [0, 0], { clock });
+
+    expect(accumulator.values()).toEqual({ T: 0.5, I: 0.0, F: 0.5 });
+    expect(accumulator.fuse({ clock })).toEqual(batch);
+  });
+
+  it('should round-trip through JSON checkpoints', () => {
+    const accumulator = accumulate(judgments, weights);
+    const restored = ConflictAwareAccumulator.fromJSON(JSON.parse(JSON.stringify(accumulator)));
+
+    expect(restored.values()).toEqual(accumulator.values());
+    expect(restored.fuse({ clock })).toEqual(accumulator.fuse({ clock }));
+
+    restored.add(createJudgment(0.4, 0.4, 0.2, 'sensor6'));
+    expect(restored.size).toBe(judgments.length + 1);
+  });
+
+  it('should pass fusion options to the seal', () => {
+    const linked = judgments.map(linkJudgment);
+    const fused = accumulate(linked, weights).fuse({ clock });
+
+    expect(fused).toEqual(conflict_aware_weighted_average(linked, weights, { clock }));
+    expect(verifyProvenanceChain(fused.provenance_chain).valid).toBe(true);
+  });
+
+  it('should reject invalid input', () => {
+    const accumulator = new ConflictAwareAccumulator();
+
+    expect(() => accumulator.values()).toThrow('Cannot fuse an empty accumulator');
+    expect(() => accumulator.fuse()).toThrow('Cannot fuse an empty accumulator');
+    expect(() => accumulator.add({ T: 1, I: 0, F: 0 } as any)).toThrow('Only NeutrosophicJudgment objects');
+    expect(() => accumulator.add(judgments[0]!, NaN)).toThrow('Weight must be a finite number, got NaN');
+    expect(() => accumulator.add(judgments[0]!, -1)).toThrow('Weight must not be negative, got -1');
+    expect(accumulator.size).toBe(0);
+    expect(() => ConflictAwareAccumulator.fromJSON({ operator_id: 'otp-optimistic-v1.1', inputs: [] }))
+      .toThrow('Snapshot is not a checkpoint of a otp-cawa-v1.1 accumulator');
+    expect(() => ConflictAwareAccumulator.fromJSON({ operator_id: 'otp-cawa-v1.1', inputs: [null as any] }))
+      .toThrow('Snapshot is not a checkpoint of a otp-cawa-v1.1 accumulator');
+  });
+});
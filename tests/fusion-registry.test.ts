@@ -0,0 +1,146 @@
+/**
+ * Tests for the fusion operator registry and the generic fuse entry point
+ */
+
+import {
+  NeutrosophicJudgment,
+  FusionOperatorRegistry,
+  FusionOperator,
+  getGlobalFusionRegistry,
+  resetGlobalFusionRegistry,
+  fuse,
+  conflict_aware_weighted_average,
+  verifyConformanceSeal,
+  verifyFusion
+} from '../src/index';
+
+describe('FusionOperatorRegistry', () => {
+  const createJudgment = (T: number, I: number, F: number, sourceId: string): NeutrosophicJudgment => {
+    return new NeutrosophicJudgment(T, I, F, [
+      { source_id: sourceId, timestamp: '2025-09-20T20:30:00Z' }
+    ]);
+  };
+
+  const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
+  };
+
+  const medianOperator: FusionOperator = {
+    id: 'acme-median-v1.0',
+    name: 'median_fusion',
+    description: 'Component-wise median fusion operation',
+    weighted: false,
+    compute: judgments => ({
+      T: median(judgments.map(j => j.T)),
+      I: median(judgments.map(j => j.I)),
+      F: median(judgments.map(j => j.F))
+    })
+  };
+
+  const judgments = [
+    createJudgment(0.8, 0.2, 0.0, 'source1'),
+    createJudgment(0.6, 0.3, 0.1, 'source2'),
+    createJudgment(0.2, 0.3, 0.5, 'source3')
+  ];
+
+  afterEach(() => {
+    resetGlobalFusionRegistry();
+  });
+
+  describe('Registration', () => {
+    it('should start empty when created directly', () => {
+      expect(new FusionOperatorRegistry().count()).toBe(0);
+    });
+
+    it('should expose the standard operators globally', () => {
+      expect(getGlobalFusionRegistry().list()).toEqual([
+        'otp-cawa-v1.1',
+        'otp-optimistic-v1.1',
+        'otp-pessimistic-v1.1'
+      ]);
+    });
+
+    it('should register and resolve custom operators', () => {
+      const registry = new FusionOperatorRegistry();
+      registry.register(medianOperator);
+
+      expect(registry.has('acme-median-v1.0')).toBe(true);
+      expect(registry.resolve('acme-median-v1.0')).toBe(medianOperator);
+      expect(registry.unregister('acme-median-v1.0')).toBe(true);
+      expect(registry.get('acme-median-v1.0')).toBeUndefined();
+    });
+
+    it('should require versioned operator IDs', () => {
+      const registry = new FusionOperatorRegistry();
+
+      expect(() => registry.register({ ...medianOperator, id: 'acme-median' }))
+        .toThrow("must be lowercase and end with a version suffix");
+    });
+
+    it('should reject duplicate operator IDs', () => {
+      expect(() => getGlobalFusionRegistry().register({ ...medianOperator, id: 'otp-cawa-v1.1' }))
+        .toThrow("Fusion operator with ID 'otp-cawa-v1.1' is already registered");
+    });
+
+    it('should fail to resolve unknown operators', () => {
+      expect(() => getGlobalFusionRegistry().resolve('acme-unknown-v1')).toThrow('Unknown fusion operator: acme-unknown-v1');
+    });
+  });
+
+  describe('fuse', () => {
+    it('should match the dedicated operator functions', () => {
+      const weights = [0.5, 0.3, 0.2];
+      const viaFuse = fuse('otp-cawa-v1.1', judgments, weights);
+      const direct = conflict_aware_weighted_average(judgments, weights);
+
+      expect(viaFuse.T).toBe(direct.T);
+      expect(viaFuse.I).toBe(direct.I);
+      expect(viaFuse.F).toBe(direct.F);
+    });
+
+    it('should give custom operators seals, provenance and Judgment IDs', () => {
+      getGlobalFusionRegistry().register(medianOperator);
+
+      const fused = fuse('acme-median-v1.0', judgments);
+      const fusionEntry = fused.provenance_chain[3]! as any;
+
+      expect(fused.T).toBe(0.6);
+      expect(fused.I).toBe(0.3);
+      expect(fused.F).toBe(0.1);
+      expect(fusionEntry.source_id).toBe('acme-median-v1.0');
+      expect(fusionEntry.metadata.operator).toBe('median_fusion');
+      expect(fusionEntry.metadata.weights).toEqual([1.0, 1.0, 1.0]);
+      expect(fusionEntry.conformance_seal).toMatch(/^[0-9a-f]{64}$/);
+      expect((fused.provenance_chain[4] as any).judgment_id).toMatch(/^[0-9a-f]{64}$/);
+      expect(verifyConformanceSeal(fused)).toBe(true);
+      expect(verifyFusion(fused).valid).toBe(true);
+    });
+
+    it('should resolve operators from a custom registry', () => {
+      const registry = new FusionOperatorRegistry();
+      registry.register(medianOperator);
+
+      const fused = fuse('acme-median-v1.0', judgments, undefined, { registry });
+
+      expect(verifyFusion(fused, { registry }).valid).toBe(true);
+      expect(() => verifyFusion(fused)).toThrow('Unknown fusion operator: acme-median-v1.0');
+    });
+
+    it('should default weighted operators to equal weights', () => {
+      const fused = fuse('otp-cawa-v1.1', judgments);
+
+      expect(fused.provenance_chain[3]!.metadata?.['weights']).toEqual([1.0, 1.0, 1.0]);
+    });
+
+    it('should reject weights for unweighted operators', () => {
+      expect(() => fuse('otp-optimistic-v1.1', judgments, [0.5, 0.3, 0.2]))
+        .toThrow("Fusion operator 'otp-optimistic-v1.1' does not accept weights");
+    });
+
+    it('should reject unknown operators', () => {
+      expect(() => fuse('acme-unknown-v1', judgments)).toThrow('Unknown fusion operator: acme-unknown-v1');
+    });
+  });
+});
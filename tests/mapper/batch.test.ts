@@ -0,0 +1,238 @@
+/**
+ * Tests for batch and columnar mapper application
+ */
+
+import {
+  NumericalMapper,
+  CategoricalMapper,
+  BooleanMapper,
+  PiecewiseLinearMapper,
+  MembershipMapper,
+  TemporalMapper,
+  RecordMapper,
+  MapperRegistry,
+  Mapper,
+  InputError,
+  ValidationError,
+  applyMapperBatch,
+  applyMapperColumnar
+} from '../../src/mapper';
+import { FixedClock } from '../../src/clock';
+
+describe('Batch Mapper Application', () => {
+  const clock = new FixedClock('2025-01-01T00:00:00Z');
+
+  let mapper: NumericalMapper;
+
+  beforeEach(() => {
+    mapper = new NumericalMapper({
+      id: 'defi-health-factor',
+      version: '1.0.0',
+      falsity_point: 1.0,
+      indeterminacy_point: 1.5,
+      truth_point: 3.0,
+      clamp_to_range: false
+    });
+  });
+
+  describe('applyBatch', () => {
+    it('should return the judgments of apply with one shared provenance entry', () => {
+      const values = [1.0, 1.25, 2.25, 3.0];
+      const { judgments, indices, errors } = mapper.applyBatch(values, { clock });
+
+      expect(indices).toEqual([0, 1, 2, 3]);
+      expect(errors).toEqual([]);
+      judgments.forEach((judgment, index) => {
+        const single = mapper.apply(values[index]!);
+        expect(judgment).toMatchObject({ T: single.T, I: single.I, F: single.F });
+        expect(judgment.provenance_chain[0]).toBe(judgments[0]!.provenance_chain[0]);
+      });
+      expect(judgments[0]!.provenance_chain[0]).toEqual({
+        source_id: 'defi-health-factor',
+        timestamp: '2025-01-01T00:00:00.000Z',
+        description: 'Batch transformation using defi-health-factor',
+        metadata: {
+          mapper_version: '1.0.0',
+          mapper_type: 'numerical',
+          batch: { count: 4, on_error: 'fail-fast' }
+        }
+      });
+      expect(Object.isFrozen(judgments[0]!.provenance_chain[0]!.metadata)).toBe(true);
+    });
+
+    it('should fail fast by default, naming the index', () => {
+      expect(() => mapper.applyBatch([2.0, 5.0, 2.5]))
+        .toThrow('Value at index 1: Input value 5 is out of the defined mapper range [1, 3]');
+    });
+
+    it('should skip values that cannot be mapped', () => {
+      const { judgments, indices, errors } = mapper.applyBatch([2.0, 5.0, 'x' as any, 2.5], { onError: 'skip' });
+
+      expect(judgments).toHaveLength(2);
+      expect(indices).toEqual([0, 3]);
+      expect(errors.map(error => error.index)).toEqual([1, 2]);
+      expect(errors[1]!.message).toBe('Input for NumericalMapper must be a number, got string');
+    });
+
+    it('should substitute the default judgment and record the error', () => {
+      const { judgments, indices, errors } = mapper.applyBatch([2.0, 5.0], {
+        onError: 'default',
+        defaultJudgment: { T: 0.0, I: 0.5, F: 0.5 },
+        clock
+      });
+
+      expect(indices).toEqual([0, 1]);
+      expect(errors).toHaveLength(1);
+      expect(judgments[1]).toMatchObject({ T: 0.0, I: 0.5, F: 0.5 });
+      expect(judgments[1]!.provenance_chain[0]!.metadata?.['batch_error']).toBe(errors[0]!.message);
+      expect(judgments[1]!.provenance_chain[0]!.timestamp).toBe('2025-01-01T00:00:00.000Z');
+    });
+
+    it('should substitute pure indeterminacy when no default judgment is given', () => {
+      const { judgments } = mapper.applyBatch([5.0], { onError: 'default' });
+
+      expect(judgments[0]).toMatchObject({ T: 0.0, I: 1.0, F: 0.0 });
+    });
+
+    it('should validate the options and input', () => {
+      expect(() => mapper.applyBatch([2.0], { onError: 'retry' as any }))
+        .toThrow("Invalid onError policy 'retry': expected one of fail-fast, skip, default");
+      expect(() => mapper.applyBatch([2.0], { onError: 'default', defaultJudgment: { T: 0.6, I: 0.6, F: 0.0 } }))
+        .toThrow(ValidationError);
+      expect(() => mapper.applyBatch(2.0 as any)).toThrow(InputError);
+    });
+  });
+
+  describe('applyColumnar', () => {
+    it('should return typed columns equal to apply', () => {
+      const values = new Float64Array([1.0, 1.25, 2.25, 3.0]);
+      const { T, I, F, indices, errors } = mapper.applyColumnar(values);
+
+      expect(T).toBeInstanceOf(Float64Array);
+      expect(indices).toEqual(new Uint32Array([0, 1, 2, 3]));
+      expect(errors).toEqual([]);
+      values.forEach((value, index) => {
+        const single = mapper.apply(value);
+        expect([T[index], I[index], F[index]]).toEqual([single.T, single.I, single.F]);
+      });
+    });
+
+    it('should describe all rows with one provenance entry', () => {
+      const { provenance } = mapper.applyColumnar([2.0, 5.0, 2.5], { onError: 'skip', clock });
+
+      expect(provenance).toEqual({
+        source_id: 'defi-health-factor',
+        timestamp: '2025-01-01T00:00:00.000Z',
+        description: 'Columnar transformation using defi-health-factor',
+        metadata: {
+          mapper_version: '1.0.0',
+          mapper_type: 'numerical',
+          batch: { count: 3, rows: 2, errors: 1, on_error: 'skip' }
+        }
+      });
+    });
+
+    it('should apply the error policies', () => {
+      const skipped = mapper.applyColumnar([2.0, 5.0, 2.5], { onError: 'skip' });
+      expect(skipped.T).toHaveLength(2);
+      expect(skipped.indices).toEqual(new Uint32Array([0, 2]));
+
+      const substituted = mapper.applyColumnar([2.0, 5.0], { onError: 'default', defaultJudgment: { T: 0, I: 0, F: 1 } });
+      expect(Array.from(substituted.F)).toEqual([0, 1]);
+      expect(substituted.errors).toEqual([{ index: 1, message: expect.stringContaining('out of the defined mapper range') }]);
+
+      expect(() => mapper.applyColumnar([2.0, 5.0])).toThrow('Value at index 1');
+    });
+
+    it('should fall back to apply for mappers without evaluate', () => {
+      const threshold: Mapper = {
+        mapper_type: 'threshold',
+        parameters: { id: 'threshold', version: '1.0.0' },
+        apply: (value: number) => mapper.apply(value),
+        validate: () => true,
+        createProvenanceEntry: (value: any) => mapper.createProvenanceEntry(value)
+      };
+
+      expect(Array.from(applyMapperColumnar(threshold, [3.0]).T)).toEqual([1.0]);
+      const [judgment] = applyMapperBatch(threshold, [3.0]).judgments;
+      expect(judgment!.T).toBe(1.0);
+      expect(judgment!.provenance_chain[0]!.metadata?.['original_input']?.['value']).toBe('3');
+    });
+  });
+
+  describe('Every Mapper', () => {
+    const registry = new MapperRegistry();
+    const kyc = new CategoricalMapper({
+      id: 'kyc-status',
+      version: '1.0.0',
+      mappings: { VERIFIED: { T: 0.9, I: 0.1, F: 0.0 } },
+      matching: { case_insensitive: true }
+    });
+    registry.register(kyc);
+
+    const cases: Array<[{ apply(value: any): any; evaluate?(value: any): any; applyBatch(values: any[]): any; applyColumnar(values: any[]): any }, any[]]> = [
+      [kyc, ['VERIFIED', 'verified']],
+      [BooleanMapper.createStandardTrustMapper('flag'), [true, 'no', null]],
+      [new PiecewiseLinearMapper({
+        id: 'piecewise',
+        version: '1.0.0',
+        knots: [{ x: 0, T: 0, I: 0, F: 1 }, { x: 1, T: 1, I: 0, F: 0 }]
+      }), [0, 0.5, 1]],
+      [new MembershipMapper({
+        id: 'membership',
+        version: '1.0.0',
+        truth_function: { shape: 'logistic', midpoint: 0.5, steepness: 10 }
+      }), [0, 0.5, 1]],
+      [new TemporalMapper({
+        id: 'temporal',
+        version: '1.0.0',
+        fresh_within: 'PT1H',
+        stale_after: 'P1D',
+        fresh_map: { T: 1, I: 0, F: 0 },
+        stale_map: { T: 0, I: 0, F: 1 }
+      }, { clock }), ['PT5M', 'PT2H', '2024-01-01']],
+      [new RecordMapper({
+        id: 'record',
+        version: '1.0.0',
+        fields: [{ path: 'kyc', mapper_id: 'kyc-status' }]
+      }, { mappers: registry }), [{ kyc: 'VERIFIED' }]]
+    ];
+
+    it('should agree with apply in batch and columnar mode', () => {
+      for (const [each, values] of cases) {
+        const batch = each.applyBatch(values);
+        const columns = each.applyColumnar(values);
+
+        values.forEach((value, index) => {
+          const single = each.apply(value);
+          expect(batch.judgments[index]).toMatchObject({ T: single.T, I: single.I, F: single.F });
+          expect([columns.T[index], columns.I[index], columns.F[index]]).toEqual([single.T, single.I, single.F]);
+          if (each.evaluate) {
+            expect(each.evaluate(value)).toEqual({ T: single.T, I: single.I, F: single.F });
+          }
+        });
+      }
+    });
+
+    it('should batch mappers looked up in a registry', () => {
+      const registered: Mapper = registry.get('kyc-status')!;
+
+      expect(registered.applyBatch!(['VERIFIED', 'verified']).judgments).toHaveLength(2);
+      expect(Array.from(registered.applyColumnar!(['VERIFIED']).T)).toEqual([0.9]);
+    });
+
+    it('should batch mappers without batch methods through applyMapperBatch', () => {
+      const plugin: Mapper = {
+        mapper_type: 'constant',
+        parameters: { id: 'constant', version: '1.0.0' },
+        apply: value => kyc.apply(value),
+        validate: () => true,
+        createProvenanceEntry: value => kyc.createProvenanceEntry(value)
+      };
+
+      expect(plugin.applyBatch).toBeUndefined();
+      expect(applyMapperBatch(plugin, ['VERIFIED'], { clock }).judgments[0]!.T).toBe(0.9);
+      expect(Array.from(applyMapperColumnar(plugin, ['VERIFIED'], { clock }).T)).toEqual([0.9]);
+    });
+  });
+});
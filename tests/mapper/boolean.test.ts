@@ -5,6 +5,7 @@
 import {
   BooleanMapper,
   MapperType,
+  MapperValidator,
   InputError,
   ValidationError
 } from '../../src/mapper';
@@ -115,19 +116,105 @@ describe('BooleanMapper', () => {
     it('should throw error for invalid string input', () => {
       expect(() => mapper.apply('maybe')).toThrow(InputError);
       expect(() => mapper.apply('invalid')).toThrow(InputError);
-      expect(() => mapper.apply('')).toThrow(InputError);
     });
   });
 
   describe('Input Validation', () => {
     it('should throw error for invalid input types', () => {
-      expect(() => mapper.apply(null as any)).toThrow(InputError);
-      expect(() => mapper.apply(undefined as any)).toThrow(InputError);
       expect(() => mapper.apply({} as any)).toThrow(InputError);
       expect(() => mapper.apply([] as any)).toThrow(InputError);
     });
   });
 
+  describe('Unknown Input', () => {
+    it('should map missing readings to pure indeterminacy by default', () => {
+      for (const input of [null, undefined, NaN, '', '  ', 'unknown', 'N/A', 'null']) {
+        const judgment = mapper.apply(input);
+        expect(judgment.T).toBe(0.0);
+        expect(judgment.I).toBe(1.0);
+        expect(judgment.F).toBe(0.0);
+      }
+    });
+
+    it('should use the configured unknown_map and tokens', () => {
+      const sensor = new BooleanMapper({
+        id: 'door-sensor',
+        version: '1.0.0',
+        true_map: { T: 0.9, I: 0.1, F: 0.0 },
+        false_map: { T: 0.0, I: 0.0, F: 1.0 },
+        unknown_map: { T: 0.1, I: 0.8, F: 0.1 },
+        unknown_values: ['offline', '?']
+      });
+
+      expect(sensor.apply('OFFLINE').I).toBe(0.8);
+      expect(sensor.apply(null).I).toBe(0.8);
+      expect(() => sensor.apply('n/a')).toThrow(InputError);
+      expect(sensor.getUnknownJudgment()).toEqual({ T: 0.1, I: 0.8, F: 0.1 });
+    });
+
+    it('should record unknown inputs in provenance', () => {
+      const provenance = mapper.apply(null).provenance_chain[0]!;
+
+      expect(provenance.metadata?.['original_input']?.['value']).toBe('null');
+      expect(provenance.metadata?.['original_input']?.['normalized']).toBe('unknown');
+    });
+
+    it('should not normalize unknown inputs to booleans', () => {
+      expect(mapper.canNormalize(undefined)).toBe(false);
+      expect(() => mapper.normalize('unknown')).toThrow(InputError);
+    });
+  });
+
+  describe('Vocabulary', () => {
+    const localized = new BooleanMapper({
+      id: 'consent-given',
+      version: '1.0.0',
+      true_map: { T: 1.0, I: 0.0, F: 0.0 },
+      false_map: { T: 0.0, I: 0.0, F: 1.0 },
+      true_values: ['sí', 'ja', 'yes'],
+      false_values: ['no', 'nein'],
+      unknown_values: ['', 'ns/nc']
+    });
+
+    it('should use the configured true and false strings', () => {
+      expect(localized.apply('Sí').T).toBe(1.0);
+      expect(localized.apply('JA').T).toBe(1.0);
+      expect(localized.apply('nein').F).toBe(1.0);
+      expect(localized.apply('NS/NC').I).toBe(1.0);
+      expect(() => localized.apply('true')).toThrow(InputError);
+      expect(localized.apply(true).T).toBe(1.0);
+    });
+
+    it('should report the configured strings', () => {
+      expect(localized.getSupportedStrings()).toEqual({
+        true: ['sí', 'ja', 'yes'],
+        false: ['no', 'nein'],
+        unknown: ['', 'ns/nc']
+      });
+      expect(mapper.getSupportedStrings().true).toEqual(['true', 'yes', '1', 'on', 'enabled']);
+    });
+
+    it('should reject strings that appear in two lists', () => {
+      expect(() => new BooleanMapper({
+        id: 'ambiguous',
+        version: '1.0.0',
+        true_map: { T: 1.0, I: 0.0, F: 0.0 },
+        false_map: { T: 0.0, I: 0.0, F: 1.0 },
+        true_values: ['yes', 'no']
+      })).toThrow("'no' appears in both true_values and false_values");
+    });
+
+    it('should be accepted by the validator schema', () => {
+      const validator = new MapperValidator();
+
+      expect(validator.validate(localized.parameters)).toBe(true);
+      expect(() => validator.validate({ ...localized.parameters, unknown_values: [1] }))
+        .toThrow('unknown_values[0]: Expected string, got number');
+      expect(() => validator.validate({ ...localized.parameters, unknown_map: { T: 0.5, I: 0.6, F: 0.0 } }))
+        .toThrow('unknown_map: Conservation constraint violated');
+    });
+  });
+
   describe('Provenance Chain', () => {
     it('should create provenance entry', () => {
       const judgment = mapper.apply(true);
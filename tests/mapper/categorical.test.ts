@@ -4,10 +4,13 @@
 
 import {
   CategoricalMapper,
+  CategoricalParams,
   MapperType,
+  MapperValidator,
   InputError,
   ValidationError
 } from '../../src/mapper';
+import { verifyConformanceSealDetailed } from '../../src/conformance';
 
 describe('CategoricalMapper', () => {
   let mapper: CategoricalMapper;
@@ -250,4 +253,220 @@ describe('CategoricalMapper', () => {
       expect(unknown.I).toBe(1.0); // Uses default judgment
     });
   });
+
+  describe('Fuzzy Matching', () => {
+    const params: CategoricalParams = {
+      id: 'kyc-status',
+      version: '1.0.0',
+      mappings: {
+        'APPROVED': { T: 1.0, I: 0.0, F: 0.0 },
+        'PENDING': { T: 0.0, I: 1.0, F: 0.0 },
+        'REJECTED': { T: 0.0, I: 0.2, F: 0.8 }
+      },
+      default_judgment: { T: 0.0, I: 1.0, F: 0.0 },
+      aliases: { 'APPROVED': ['ok', 'accepted'], 'REJECTED': ['denied'] },
+      patterns: [
+        { category: 'PENDING', glob: 'pending*' },
+        { category: 'REJECTED', regex: '^rej(ected)?[-_ ]' }
+      ],
+      matching: { case_insensitive: true, normalize_whitespace: true, unicode_normalization: 'NFKC' }
+    };
+
+    const matchOf = (mapper: CategoricalMapper, input: string) =>
+      mapper.apply(input).provenance_chain[0]!.metadata?.['match'];
+
+    it('should keep exact matching by default', () => {
+      expect(mapper.apply('verified').F).toBe(1.0); // default judgment
+      expect(matchOf(mapper, 'VERIFIED')).toEqual({ rule: 'exact', category: 'VERIFIED', matched: 'VERIFIED' });
+      expect(matchOf(mapper, 'verified')).toEqual({ rule: 'default' });
+    });
+
+    it('should fold case, whitespace and Unicode forms', () => {
+      const fuzzy = new CategoricalMapper(params);
+
+      for (const input of ['Approved', ' approved', 'APPROVED\t', 'ＡＰＰＲＯＶＥＤ']) {
+        expect(fuzzy.apply(input).T).toBe(1.0);
+        expect(matchOf(fuzzy, input)).toEqual({ rule: 'normalized', category: 'APPROVED', matched: 'APPROVED' });
+      }
+    });
+
+    it('should match aliases', () => {
+      const fuzzy = new CategoricalMapper(params);
+
+      expect(fuzzy.apply('OK').T).toBe(1.0);
+      expect(matchOf(fuzzy, ' Denied ')).toEqual({ rule: 'alias', category: 'REJECTED', matched: 'denied' });
+    });
+
+    it('should match glob and regex patterns in order', () => {
+      const fuzzy = new CategoricalMapper(params);
+
+      expect(matchOf(fuzzy, 'Pending review')).toEqual({ rule: 'pattern', category: 'PENDING', matched: 'pending*' });
+      expect(matchOf(fuzzy, 'REJ_fraud')).toEqual({ rule: 'pattern', category: 'REJECTED', matched: '^rej(ected)?[-_ ]' });
+      expect(matchOf(fuzzy, 'in review')).toEqual({ rule: 'default' });
+    });
+
+    it('should raise I for approximate matches', () => {
+      const fuzzy = new CategoricalMapper({ ...params, matching: { ...params.matching, max_edit_distance: 2 } });
+
+      const oneEdit = fuzzy.apply('aproved');
+      expect(oneEdit.T).toBeCloseTo(0.8, 10);
+      expect(oneEdit.I).toBeCloseTo(0.2, 10);
+      expect(oneEdit.F).toBe(0.0);
+      expect(matchOf(fuzzy, 'aproved')).toEqual({
+        rule: 'edit_distance', category: 'APPROVED', matched: 'APPROVED', distance: 1
+      });
+
+      const twoEdits = fuzzy.apply('aprovd');
+      expect(twoEdits.T).toBeCloseTo(0.6, 10);
+      expect(twoEdits.I).toBeCloseTo(0.4, 10);
+
+      expect(matchOf(fuzzy, 'aprv')).toEqual({ rule: 'default' });
+    });
+
+    it('should apply the configured edit distance penalty', () => {
+      const fuzzy = new CategoricalMapper({
+        ...params,
+        matching: { case_insensitive: true, max_edit_distance: 1, edit_distance_penalty: 0.5 }
+      });
+
+      const judgment = fuzzy.apply('rejectd');
+      expect(judgment.T).toBe(0.0);
+      expect(judgment.I).toBeCloseTo(0.6, 10);
+      expect(judgment.F).toBeCloseTo(0.4, 10);
+    });
+
+    it('should reject inconsistent rules', () => {
+      const cases: Array<[Partial<CategoricalParams>, string]> = [
+        [{ aliases: { 'UNKNOWN': ['x'] } }, "aliases refer to unknown category 'UNKNOWN'"],
+        [{ aliases: { 'PENDING': ['approved'] } }, "Alias 'approved' of category 'PENDING' is indistinguishable from category 'APPROVED'"],
+        [{ patterns: [{ category: 'PENDING' }] }, 'patterns[0] must have exactly one of regex and glob'],
+        [{ patterns: [{ category: 'PENDING', regex: '(' }] }, 'patterns[0]: Invalid regex'],
+        [{ patterns: [{ category: 'UNKNOWN', glob: '*' }] }, "patterns[0] refers to unknown category 'UNKNOWN'"],
+        [{ matching: { max_edit_distance: 1.5 } }, 'matching.max_edit_distance must be a non-negative integer']
+      ];
+
+      for (const [overrides, message] of cases) {
+        expect(() => new CategoricalMapper({ ...params, ...overrides })).toThrow(message);
+      }
+    });
+
+    it('should be accepted by the validator schema', () => {
+      const validator = new MapperValidator();
+
+      expect(validator.validate(params)).toBe(true);
+      expect(() => validator.validate({ ...params, matching: { fuzzy: true } }))
+        .toThrow("matching: Additional property 'fuzzy' not allowed");
+      expect(() => validator.validate({ ...params, aliases: { 'UNKNOWN': ['x'] } }))
+        .toThrow("aliases refer to unknown category 'UNKNOWN'");
+    });
+  });
+
+  describe('Multi-Label Mode', () => {
+    const params: CategoricalParams = {
+      id: 'compliance-tags',
+      version: '1.0.0',
+      mappings: {
+        'kyc_passed': { T: 0.9, I: 0.1, F: 0.0 },
+        'sanctions_hit': { T: 0.0, I: 0.1, F: 0.9 },
+        'pep': { T: 0.2, I: 0.6, F: 0.2 }
+      },
+      default_judgment: { T: 0.0, I: 0.5, F: 0.0 },
+      multi_label: {}
+    };
+
+    it('should fuse per-label judgments into a sealed judgment', () => {
+      const tagMapper = new CategoricalMapper(params);
+      const fused = tagMapper.apply(['kyc_passed', 'sanctions_hit']);
+
+      expect(fused.T).toBeCloseTo(0.45, 10);
+      expect(fused.I).toBeCloseTo(0.1, 10);
+      expect(fused.F).toBeCloseTo(0.45, 10);
+      expect(verifyConformanceSealDetailed(fused).status).toBe('valid');
+    });
+
+    it('should keep a provenance entry for each label', () => {
+      const fused = new CategoricalMapper(params).apply(['kyc_passed', 'pep']);
+      const [kyc, pep, fusion] = fused.provenance_chain;
+
+      expect(kyc!.metadata?.['match']).toEqual({ rule: 'exact', category: 'kyc_passed', matched: 'kyc_passed' });
+      expect(pep!.metadata?.['original_input'].value).toBe('pep');
+      expect(fusion!.source_id).toBe('otp-cawa-v1.1');
+      expect((fusion as any).conformance_seal).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should use the configured operator and weights', () => {
+      const weighted = new CategoricalMapper({ ...params, multi_label: { weights: { 'sanctions_hit': 3 } } })
+        .apply(['kyc_passed', 'sanctions_hit']);
+      expect(weighted.F).toBeCloseTo(0.675, 10);
+
+      const pessimistic = new CategoricalMapper({ ...params, multi_label: { operator: 'otp-pessimistic-v1.1' } })
+        .apply(['kyc_passed', 'sanctions_hit']);
+      expect(pessimistic.T).toBe(0.0);
+      expect(pessimistic.F).toBeCloseTo(0.9, 10);
+      expect(pessimistic.provenance_chain[2]!.source_id).toBe('otp-pessimistic-v1.1');
+    });
+
+    it('should map labels once and apply the matching rules', () => {
+      const fuzzy = new CategoricalMapper({ ...params, matching: { case_insensitive: true } });
+      const fused = fuzzy.apply(['KYC_PASSED', 'KYC_PASSED']);
+
+      // Label entry, fusion entry and Judgment ID entry
+      expect(fused.provenance_chain).toHaveLength(3);
+      expect(fused.T).toBeCloseTo(0.9, 10);
+    });
+
+    it('should map labels resolving to the same category once', () => {
+      const fuzzy = new CategoricalMapper({
+        ...params,
+        aliases: { 'sanctions_hit': ['ofac'] },
+        matching: { case_insensitive: true }
+      });
+      const fused = fuzzy.apply(['KYC_PASSED', 'kyc_passed', 'sanctions_hit', 'ofac']);
+
+      // Two label entries, fusion entry and Judgment ID entry
+      expect(fused.provenance_chain).toHaveLength(4);
+      expect(fused.provenance_chain[0]!.metadata?.['original_input'].value).toBe('KYC_PASSED');
+      expect(fused.T).toBeCloseTo(0.45, 10);
+    });
+
+    it('should handle unrecognized labels according to the policy', () => {
+      const ignoring = new CategoricalMapper(params).apply(['kyc_passed', 'unknown']);
+      expect(ignoring.provenance_chain).toHaveLength(3);
+
+      const defaulting = new CategoricalMapper({ ...params, multi_label: { unrecognized: 'default' } })
+        .apply(['kyc_passed', 'unknown']);
+      expect(defaulting.provenance_chain[1]!.metadata?.['match']).toEqual({ rule: 'default' });
+
+      expect(() => new CategoricalMapper({ ...params, multi_label: { unrecognized: 'error' } })
+        .apply(['kyc_passed', 'unknown'])).toThrow("Label 'unknown' not found in mapper");
+    });
+
+    it('should fall back to default_judgment when no label is recognized', () => {
+      const fused = new CategoricalMapper(params).apply(['unknown']);
+
+      expect(fused.I).toBe(0.5);
+      expect(verifyConformanceSealDetailed(fused).status).toBe('valid');
+
+      const { default_judgment: _default, ...withoutDefault } = params;
+      expect(() => new CategoricalMapper(withoutDefault).apply([]))
+        .toThrow('No label found in mapper and no default_judgment is defined');
+    });
+
+    it('should accept arrays only in multi-label mode', () => {
+      expect(() => mapper.apply(['VERIFIED'] as any)).toThrow(InputError);
+      expect(new CategoricalMapper(params).apply('pep').I).toBe(0.6);
+    });
+
+    it('should validate multi-label options', () => {
+      expect(() => new CategoricalMapper({ ...params, multi_label: { weights: { 'unknown': 1 } } }))
+        .toThrow("multi_label.weights refer to unknown category 'unknown'");
+      expect(() => new CategoricalMapper({ ...params, multi_label: { weights: { 'pep': -1 } } }))
+        .toThrow('multi_label.weights.pep must be a non-negative number');
+      const unweighted = () =>
+        new CategoricalMapper({ ...params, multi_label: { operator: 'otp-optimistic-v1.1', weights: { 'pep': 2 } } });
+      expect(unweighted).toThrow(ValidationError);
+      expect(unweighted).toThrow("multi_label.weights cannot be used with 'otp-optimistic-v1.1', which does not accept weights");
+      expect(new MapperValidator().validate(params)).toBe(true);
+    });
+  });
 });
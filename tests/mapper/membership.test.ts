@@ -0,0 +1,171 @@
+/**
+ * Tests for MembershipMapper
+ */
+
+import {
+  MembershipMapper,
+  MembershipParams,
+  MapperType,
+  MapperValidator,
+  MapperRegistry,
+  InputError,
+  ValidationError,
+  normalizeJudgmentValues
+} from '../../src/mapper';
+
+describe('MembershipMapper', () => {
+  const params: MembershipParams = {
+    id: 'defi-health-factor',
+    version: '1.0.0',
+    truth_function: { shape: 'logistic', midpoint: 1.5, steepness: 8 },
+    indeterminacy_function: { shape: 'gaussian', mean: 1.5, std_dev: 0.2 },
+    falsity_function: { shape: 'logistic', midpoint: 1.5, steepness: -8 }
+  };
+
+  let mapper: MembershipMapper;
+
+  beforeEach(() => {
+    mapper = new MembershipMapper(params);
+  });
+
+  describe('Construction', () => {
+    it('should create a valid MembershipMapper', () => {
+      expect(mapper.mapper_type).toBe(MapperType.MEMBERSHIP);
+    });
+
+    it('should require at least one membership function', () => {
+      expect(() => new MembershipMapper({ id: 'empty', version: '1.0.0' }))
+        .toThrow('MembershipMapper requires at least one of truth_function, indeterminacy_function and falsity_function');
+    });
+
+    it('should validate membership function parameters', () => {
+      const cases: Array<[any, string]> = [
+        [{ shape: 'cosine', period: 1 }, "truth_function: Unknown membership shape 'cosine'"],
+        [{ shape: 'gaussian', mean: 1 }, "truth_function: gaussian membership requires a finite number 'std_dev'"],
+        [{ shape: 'gaussian', mean: 1, std_dev: 0 }, 'truth_function: std_dev must be positive'],
+        [{ shape: 'logistic', midpoint: 1, steepness: 0 }, 'truth_function: steepness must not be 0'],
+        [{ shape: 'logistic', midpoint: 1, steepness: 2, mean: 1 }, "truth_function: Parameter 'mean' does not apply to logistic membership"],
+        [{ shape: 'triangular', a: 2, b: 1, c: 3 }, 'truth_function: triangular membership requires a <= b <= c and a < c'],
+        [{ shape: 'trapezoidal', a: 1, b: 1, c: 1, d: 1 }, 'truth_function: trapezoidal membership requires a <= b <= c <= d and a < d']
+      ];
+
+      for (const [truth_function, message] of cases) {
+        expect(() => new MembershipMapper({ id: 'invalid', version: '1.0.0', truth_function }))
+          .toThrow(message);
+      }
+    });
+  });
+
+  describe('Membership Functions', () => {
+    it('should evaluate logistic and gaussian memberships', () => {
+      const judgment = mapper.apply(1.5);
+
+      // Raw memberships 0.5, 1.0 and 0.5 are normalized to sum to 1
+      expect(judgment.T).toBeCloseTo(0.25, 10);
+      expect(judgment.I).toBeCloseTo(0.5, 10);
+      expect(judgment.F).toBeCloseTo(0.25, 10);
+    });
+
+    it('should evaluate trapezoidal memberships', () => {
+      const trapezoid = new MembershipMapper({
+        id: 'trapezoid',
+        version: '1.0.0',
+        truth_function: { shape: 'trapezoidal', a: 0, b: 1, c: 2, d: 4 }
+      });
+
+      expect(trapezoid.apply(-1).T).toBe(0);
+      expect(trapezoid.apply(0.5).T).toBeCloseTo(0.5, 10);
+      expect(trapezoid.apply(1.5).T).toBe(1);
+      expect(trapezoid.apply(3).T).toBeCloseTo(0.5, 10);
+      expect(trapezoid.apply(5).T).toBe(0);
+    });
+
+    it('should evaluate triangular memberships', () => {
+      const triangle = new MembershipMapper({
+        id: 'triangle',
+        version: '1.0.0',
+        indeterminacy_function: { shape: 'triangular', a: 0, b: 1, c: 3 },
+        falsity_function: { shape: 'triangular', a: 1, b: 3, c: 5 }
+      });
+
+      expect(triangle.apply(1)).toMatchObject({ T: 0, I: 1, F: 0 });
+      expect(triangle.apply(2).I).toBeCloseTo(0.5, 10);
+      expect(triangle.apply(2).F).toBeCloseTo(0.5, 10);
+      expect(triangle.apply(0.5).I).toBeCloseTo(0.5, 10);
+    });
+
+    it('should change smoothly around the threshold', () => {
+      const below = mapper.apply(1.49);
+      const above = mapper.apply(1.51);
+
+      expect(Math.abs(above.T - below.T)).toBeLessThan(0.05);
+      expect(Math.abs(above.F - below.F)).toBeLessThan(0.05);
+    });
+
+    it('should always satisfy the conservation constraint', () => {
+      for (let x = 0; x <= 3; x += 0.01) {
+        const judgment = mapper.apply(x);
+        expect(judgment.T + judgment.I + judgment.F).toBeLessThanOrEqual(1.0);
+      }
+    });
+
+    it('should reject non-numeric inputs', () => {
+      expect(() => mapper.apply('1.5' as any)).toThrow(InputError);
+      expect(() => mapper.apply(Infinity)).toThrow(InputError);
+    });
+  });
+
+  describe('Provenance', () => {
+    it('should record the membership functions', () => {
+      const entry = mapper.apply(1.5).provenance_chain[0]!;
+
+      expect(entry.source_id).toBe('defi-health-factor');
+      expect(entry.metadata?.['mapper_type']).toBe('membership');
+      expect(entry.metadata?.['membership_functions']).toEqual({
+        truth_function: params.truth_function,
+        indeterminacy_function: params.indeterminacy_function,
+        falsity_function: params.falsity_function
+      });
+    });
+  });
+
+  describe('Validation and Registry', () => {
+    it('should be accepted by the validator schema', () => {
+      const validator = new MapperValidator();
+
+      expect(validator.detectType(params)).toBe(MapperType.MEMBERSHIP);
+      expect(validator.validate(params)).toBe(true);
+    });
+
+    it('should report invalid membership functions', () => {
+      const validator = new MapperValidator();
+
+      expect(() => validator.validate({ ...params, truth_function: { shape: 'cosine' } }))
+        .toThrow('truth_function.shape: Value "cosine" is not one of logistic, gaussian, trapezoidal, triangular');
+      expect(() => validator.validate({ ...params, indeterminacy_function: { shape: 'gaussian', mean: 1.5, std_dev: -1 } }))
+        .toThrow(ValidationError);
+    });
+
+    it('should round-trip through registry export and import', () => {
+      const source = new MapperRegistry();
+      source.register(mapper);
+
+      const target = new MapperRegistry();
+      const result = target.import(JSON.parse(JSON.stringify(source.export())));
+
+      expect(result.errors).toEqual([]);
+      expect(target.get('defi-health-factor')!.apply(1.7)).toMatchObject({
+        T: mapper.apply(1.7).T,
+        I: mapper.apply(1.7).I,
+        F: mapper.apply(1.7).F
+      });
+    });
+  });
+
+  describe('normalizeJudgmentValues', () => {
+    it('should clip and scale raw values', () => {
+      expect(normalizeJudgmentValues(0.2, 0.3, 0.1)).toEqual({ T: 0.2, I: 0.3, F: 0.1 });
+      expect(normalizeJudgmentValues(-0.5, 1.5, 1.0)).toEqual({ T: 0, I: 0.5, F: 0.5 });
+    });
+  });
+});
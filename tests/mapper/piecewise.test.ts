@@ -0,0 +1,200 @@
+/**
+ * Tests for PiecewiseLinearMapper
+ */
+
+import {
+  PiecewiseLinearMapper,
+  PiecewiseKnot,
+  MapperType,
+  MapperValidator,
+  MapperRegistry,
+  InputError,
+  ValidationError
+} from '../../src/mapper';
+
+describe('PiecewiseLinearMapper', () => {
+  // False below 1.0, uncertain up to 1.2, true from 1.2 to 5, uncertain again from 10
+  const healthFactorKnots: PiecewiseKnot[] = [
+    { x: 1.0, T: 0.0, I: 0.0, F: 1.0 },
+    { x: 1.0, T: 0.0, I: 1.0, F: 0.0 },
+    { x: 1.2, T: 0.0, I: 1.0, F: 0.0 },
+    { x: 1.2, T: 1.0, I: 0.0, F: 0.0 },
+    { x: 5.0, T: 1.0, I: 0.0, F: 0.0 },
+    { x: 10.0, T: 0.0, I: 1.0, F: 0.0 }
+  ];
+
+  let mapper: PiecewiseLinearMapper;
+
+  beforeEach(() => {
+    mapper = new PiecewiseLinearMapper({
+      id: 'defi-health-factor',
+      version: '1.0.0',
+      knots: healthFactorKnots
+    });
+  });
+
+  describe('Construction', () => {
+    it('should create a valid PiecewiseLinearMapper', () => {
+      expect(mapper.mapper_type).toBe(MapperType.PIECEWISE_LINEAR);
+      expect(mapper.parameters.extrapolation).toBe('clamp');
+    });
+
+    it('should require at least two knots', () => {
+      expect(() => new PiecewiseLinearMapper({
+        id: 'invalid',
+        version: '1.0.0',
+        knots: [{ x: 1.0, T: 1.0, I: 0.0, F: 0.0 }]
+      })).toThrow('PiecewiseLinearMapper requires at least two knots');
+    });
+
+    it('should validate the conservation constraint at every knot', () => {
+      expect(() => new PiecewiseLinearMapper({
+        id: 'invalid',
+        version: '1.0.0',
+        knots: [{ x: 1.0, T: 1.0, I: 0.0, F: 0.0 }, { x: 2.0, T: 0.6, I: 0.6, F: 0.0 }]
+      })).toThrow('Invalid judgment at knot 1 in PiecewiseLinearMapper: Conservation constraint violated');
+    });
+
+    it('should require knots ordered by x', () => {
+      expect(() => new PiecewiseLinearMapper({
+        id: 'invalid',
+        version: '1.0.0',
+        knots: [{ x: 2.0, T: 1.0, I: 0.0, F: 0.0 }, { x: 1.0, T: 0.0, I: 0.0, F: 1.0 }]
+      })).toThrow(ValidationError);
+    });
+
+    it('should allow at most two knots with the same x', () => {
+      expect(() => new PiecewiseLinearMapper({
+        id: 'invalid',
+        version: '1.0.0',
+        knots: [
+          { x: 1.0, T: 1.0, I: 0.0, F: 0.0 },
+          { x: 1.0, T: 0.0, I: 1.0, F: 0.0 },
+          { x: 1.0, T: 0.0, I: 0.0, F: 1.0 }
+        ]
+      })).toThrow('At most two knots of PiecewiseLinearMapper may share x=1');
+    });
+
+    it('should reject unknown extrapolation policies', () => {
+      expect(() => new PiecewiseLinearMapper({
+        id: 'invalid',
+        version: '1.0.0',
+        knots: healthFactorKnots,
+        extrapolation: 'wrap' as any
+      })).toThrow("Invalid extrapolation policy 'wrap'");
+    });
+  });
+
+  describe('Interpolation', () => {
+    it('should return the judgment at a knot', () => {
+      expect(mapper.apply(5.0)).toMatchObject({ T: 1.0, I: 0.0, F: 0.0 });
+    });
+
+    it('should interpolate between knots', () => {
+      const judgment = mapper.apply(7.5);
+
+      expect(judgment.T).toBeCloseTo(0.5, 10);
+      expect(judgment.I).toBeCloseTo(0.5, 10);
+      expect(judgment.F).toBeCloseTo(0.0, 10);
+    });
+
+    it('should take the second judgment of a step at its x', () => {
+      expect(mapper.apply(0.999)).toMatchObject({ T: 0.0, I: 0.0, F: 1.0 });
+      expect(mapper.apply(1.0)).toMatchObject({ T: 0.0, I: 1.0, F: 0.0 });
+      expect(mapper.apply(1.1)).toMatchObject({ T: 0.0, I: 1.0, F: 0.0 });
+      expect(mapper.apply(1.2)).toMatchObject({ T: 1.0, I: 0.0, F: 0.0 });
+    });
+
+    it('should keep T + I + F = 1 between knots that sum to 1', () => {
+      for (let x = 5.0; x <= 10.0; x += 0.01) {
+        const judgment = mapper.apply(x);
+        expect(judgment.T + judgment.I + judgment.F).toBeLessThanOrEqual(1.0);
+        expect(judgment.T + judgment.I + judgment.F).toBeCloseTo(1.0, 10);
+      }
+    });
+
+    it('should reject non-numeric inputs', () => {
+      expect(() => mapper.apply('1.5' as any)).toThrow(InputError);
+      expect(() => mapper.apply(NaN)).toThrow(InputError);
+    });
+  });
+
+  describe('Extrapolation', () => {
+    const knots: PiecewiseKnot[] = [
+      { x: 0.0, T: 0.0, I: 0.2, F: 0.8 },
+      { x: 1.0, T: 0.4, I: 0.2, F: 0.4 },
+      { x: 2.0, T: 0.8, I: 0.2, F: 0.0 }
+    ];
+    const create = (extrapolation: 'clamp' | 'linear' | 'error') =>
+      new PiecewiseLinearMapper({ id: 'extrapolated', version: '1.0.0', knots, extrapolation });
+
+    it('should clamp to the end knots', () => {
+      expect(create('clamp').apply(-5)).toMatchObject({ T: 0.0, I: 0.2, F: 0.8 });
+      expect(create('clamp').apply(5)).toMatchObject({ T: 0.8, I: 0.2, F: 0.0 });
+    });
+
+    it('should continue the outermost segments', () => {
+      const judgment = create('linear').apply(-0.25);
+
+      expect(judgment.T).toBe(0.0);
+      expect(judgment.I).toBeCloseTo(0.2 / 1.1, 10);
+      expect(judgment.F).toBeCloseTo(0.9 / 1.1, 10);
+    });
+
+    it('should keep extrapolated judgments valid', () => {
+      const judgment = create('linear').apply(2.5);
+
+      expect(judgment.T).toBeCloseTo(1.0 / 1.2, 10);
+      expect(judgment.I).toBeCloseTo(0.2 / 1.2, 10);
+      expect(judgment.F).toBe(0.0);
+      expect(judgment.T + judgment.I + judgment.F).toBeLessThanOrEqual(1.0);
+    });
+
+    it('should reject out-of-range inputs with the error policy', () => {
+      expect(() => create('error').apply(2.5)).toThrow(
+        "Input value 2.5 is out of the defined mapper range [0, 2] and extrapolation is 'error'"
+      );
+      expect(create('error').apply(2.0).T).toBe(0.8);
+    });
+  });
+
+  describe('Validation and Registry', () => {
+    const config = {
+      id: 'defi-health-factor',
+      version: '1.0.0',
+      knots: healthFactorKnots,
+      extrapolation: 'linear'
+    };
+
+    it('should be accepted by the validator schema', () => {
+      const validator = new MapperValidator();
+
+      expect(validator.detectType(config)).toBe(MapperType.PIECEWISE_LINEAR);
+      expect(validator.validate(config)).toBe(true);
+      expect(validator.validate({ ...config, type: 'piecewise_linear' })).toBe(true);
+    });
+
+    it('should report invalid knots', () => {
+      const validator = new MapperValidator();
+
+      expect(() => validator.validate({ ...config, knots: [{ x: 1.0, T: 1.0, I: 0.0 }] }))
+        .toThrow("Schema validation failed: knots: Array too short (minimum 2 items), knots[0]: Missing required property 'F'");
+      expect(() => validator.validate({ ...config, knots: [...healthFactorKnots].reverse() }))
+        .toThrow('knots[1]: x must not be less than the x of the preceding knot');
+      expect(() => validator.validate({ ...config, extrapolation: 'wrap' }))
+        .toThrow('extrapolation: Value "wrap" is not one of clamp, linear, error');
+    });
+
+    it('should round-trip through registry export and import', () => {
+      const source = new MapperRegistry();
+      source.register(mapper);
+
+      const target = new MapperRegistry();
+      const result = target.import(JSON.parse(JSON.stringify(source.export())));
+
+      expect(result.errors).toEqual([]);
+      expect(target.get('defi-health-factor')).toBeInstanceOf(PiecewiseLinearMapper);
+      expect(target.get('defi-health-factor')!.apply(7.5).T).toBeCloseTo(0.5, 10);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests for custom mapper type plugins
+ */
+
+import {
+  MapperTypeRegistry,
+  MapperTypePlugin,
+  MapperRegistry,
+  MapperValidator,
+  Mapper,
+  BaseMapperParams,
+  NumericalMapper,
+  ValidationError,
+  createTimestamp,
+  getGlobalMapperTypeRegistry,
+  resetGlobalMapperTypeRegistry
+} from '../../src/mapper';
+import { NeutrosophicJudgment } from '../../src/judgment';
+
+interface ThresholdParams extends BaseMapperParams {
+  threshold: number;
+  margin: number;
+}
+
+class ThresholdMapper implements Mapper {
+  public readonly mapper_type = 'threshold';
+  public readonly parameters: ThresholdParams;
+
+  constructor(params: ThresholdParams) {
+    this.parameters = params;
+    this.validate();
+  }
+
+  validate(): boolean {
+    if (this.parameters.margin < 0) {
+      throw new ValidationError('margin must not be negative');
+    }
+    return true;
+  }
+
+  apply(input_value: number): NeutrosophicJudgment {
+    const { threshold, margin } = this.parameters;
+    const entry = this.createProvenanceEntry(input_value) as any;
+    if (Math.abs(input_value - threshold) <= margin) {
+      return new NeutrosophicJudgment(0, 1, 0, [entry]);
+    }
+    return input_value > threshold
+      ? new NeutrosophicJudgment(1, 0, 0, [entry])
+      : new NeutrosophicJudgment(0, 0, 1, [entry]);
+  }
+
+  createProvenanceEntry(input_value: any, timestamp?: string): Record<string, any> {
+    return {
+      source_id: this.parameters.id,
+      timestamp: timestamp || createTimestamp(),
+      metadata: { mapper_type: this.mapper_type, original_input: input_value }
+    };
+  }
+}
+
+describe('Mapper Type Plugins', () => {
+  const thresholdPlugin: MapperTypePlugin = {
+    type: 'threshold',
+    schema: {
+      type: 'object',
+      required: ['id', 'version', 'threshold', 'margin'],
+      properties: {
+        id: { type: 'string', minLength: 1 },
+        version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
+        description: { type: 'string' },
+        threshold: { type: 'number' },
+        margin: { type: 'number' },
+        metadata: { type: 'object' }
+      },
+      additionalProperties: false
+    },
+    create: parameters => new ThresholdMapper(parameters),
+    validate: parameters => {
+      if (parameters.margin > 10) {
+        throw new ValidationError('margin must not exceed 10');
+      }
+    },
+    detect: parameters => 'threshold' in parameters && 'margin' in parameters
+  };
+
+  const config: ThresholdParams = { id: 'temperature-alarm', version: '1.0.0', threshold: 50, margin: 2 };
+
+  beforeEach(() => {
+    getGlobalMapperTypeRegistry().register(thresholdPlugin);
+  });
+
+  afterEach(() => {
+    resetGlobalMapperTypeRegistry();
+  });
+
+  describe('MapperTypeRegistry', () => {
+    it('should register and list types', () => {
+      const types = new MapperTypeRegistry();
+      types.register(thresholdPlugin);
+
+      expect(types.list()).toEqual(['threshold']);
+      expect(types.get('threshold')).toBe(thresholdPlugin);
+      expect(types.unregister('threshold')).toBe(true);
+      expect(types.count()).toBe(0);
+    });
+
+    it('should reject invalid, built-in and duplicate types', () => {
+      expect(() => getGlobalMapperTypeRegistry().register({ ...thresholdPlugin, type: 'Threshold' }))
+        .toThrow("Invalid mapper type 'Threshold': must be a lowercase identifier");
+      expect(() => getGlobalMapperTypeRegistry().register({ ...thresholdPlugin, type: 'numerical' }))
+        .toThrow("Mapper type 'numerical' is built in");
+      expect(() => getGlobalMapperTypeRegistry().register(thresholdPlugin))
+        .toThrow("Mapper type 'threshold' is already registered");
+    });
+  });
+
+  describe('MapperValidator', () => {
+    const validator = new MapperValidator();
+
+    it('should detect and validate custom types', () => {
+      expect(validator.detectType(config)).toBe('threshold');
+      expect(validator.validate(config)).toBe(true);
+      expect(validator.getSchema('threshold')).toBe(thresholdPlugin.schema);
+      expect(validator.validate({ ...config, type: 'threshold' })).toBe(true);
+    });
+
+    it('should apply the schema of custom types', () => {
+      expect(() => validator.validate({ ...config, margin: 'wide' }))
+        .toThrow('Schema validation failed: margin: Expected number, got string');
+    });
+
+    it('should run the validation hook', () => {
+      expect(() => validator.validate({ ...config, margin: 20 })).toThrow('margin must not exceed 10');
+    });
+
+    it('should report custom types as available and supported', () => {
+      expect(validator.getAvailableTypes()).toContain('threshold');
+      expect(validator.getAvailableTypes()).toContain('numerical');
+      expect(validator.isTypeSupported('threshold')).toBe(true);
+      expect(validator.isTypeSupported('unregistered')).toBe(false);
+    });
+
+    it('should use the registry it was given', () => {
+      const isolated = new MapperValidator(new MapperTypeRegistry());
+
+      expect(isolated.isTypeSupported('threshold')).toBe(false);
+      expect(isolated.getAvailableTypes()).not.toContain('threshold');
+
+      expect(isolated.detectType(config)).toBeNull();
+      expect(() => isolated.getSchema('threshold')).toThrow('No schema defined for mapper type: threshold');
+    });
+  });
+
+  describe('MapperRegistry', () => {
+    it('should export and import custom mappers', () => {
+      const source = new MapperRegistry();
+      source.register(new ThresholdMapper(config));
+      source.register(new NumericalMapper({
+        id: 'health-factor',
+        version: '1.0.0',
+        falsity_point: 1.0,
+        indeterminacy_point: 1.5,
+        truth_point: 3.0
+      }));
+
+      const target = new MapperRegistry();
+      const result = target.import(JSON.parse(JSON.stringify(source.createSnapshot())));
+
+      expect(result.errors).toEqual([]);
+      expect(target.get('temperature-alarm')).toBeInstanceOf(ThresholdMapper);
+      expect(target.get('temperature-alarm')!.apply(60).T).toBe(1);
+      expect(target.getByType('threshold').map(mapper => mapper.parameters.id)).toEqual(['temperature-alarm']);
+      expect(target.getStats().byType).toEqual({ threshold: 1, numerical: 1 });
+    });
+
+    it('should import plain parameters of custom types', () => {
+      const target = new MapperRegistry();
+
+      expect(target.import([config]).imported).toEqual(['temperature-alarm']);
+    });
+
+    it('should report invalid custom configurations per entry', () => {
+      const result = new MapperRegistry().import([
+        { id: 'bad', type: 'threshold', version: '1.0.0', parameters: { ...config, id: 'bad', margin: 20 } },
+        { id: 'unknown', type: 'geofence', version: '1.0.0', parameters: { id: 'unknown', version: '1.0.0' } }
+      ]);
+
+      expect(result.errors).toEqual([
+        { index: 0, id: 'bad', message: 'margin must not exceed 10' },
+        { index: 1, id: 'unknown', message: 'Unknown mapper type: geofence' }
+      ]);
+    });
+
+    it('should use the mapper type registry given to import', () => {
+      resetGlobalMapperTypeRegistry();
+      const mapperTypes = new MapperTypeRegistry();
+      mapperTypes.register(thresholdPlugin);
+
+      expect(new MapperRegistry().import([config]).errors).toHaveLength(1);
+      expect(new MapperRegistry().import([config], { mapperTypes }).errors).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Tests for RecordMapper
+ */
+
+import {
+  RecordMapper,
+  RecordParams,
+  NumericalMapper,
+  CategoricalMapper,
+  BooleanMapper,
+  MapperType,
+  MapperValidator,
+  MapperRegistry,
+  getGlobalRegistry,
+  resetGlobalRegistry,
+  InputError,
+  ValidationError
+} from '../../src/mapper';
+import { fuse } from '../../src/fusion';
+import { FixedClock, withClock } from '../../src/clock';
+import { verifyConformanceSealDetailed } from '../../src/conformance';
+
+describe('RecordMapper', () => {
+  const params: RecordParams = {
+    id: 'defi-position',
+    version: '1.0.0',
+    fields: [
+      { path: 'health_factor', mapper_id: 'defi-health-factor' },
+      { path: 'owner.kyc_status', mapper_id: 'kyc-status' },
+      { path: 'is_flagged', mapper_id: 'sanctions-flag' }
+    ]
+  };
+  const record = { health_factor: 2.0, owner: { kyc_status: 'VERIFIED' }, is_flagged: false };
+
+  let registry: MapperRegistry;
+  let mapper: RecordMapper;
+
+  beforeEach(() => {
+    registry = new MapperRegistry();
+    registry.register(new NumericalMapper({
+      id: 'defi-health-factor',
+      version: '1.0.0',
+      falsity_point: 1.0,
+      indeterminacy_point: 1.5,
+      truth_point: 3.0
+    }));
+    registry.register(new CategoricalMapper({
+      id: 'kyc-status',
+      version: '1.0.0',
+      mappings: {
+        VERIFIED: { T: 0.9, I: 0.1, F: 0.0 },
+        REJECTED: { T: 0.0, I: 0.1, F: 0.9 }
+      }
+    }));
+    registry.register(new BooleanMapper({
+      id: 'sanctions-flag',
+      version: '1.0.0',
+      true_map: { T: 0.0, I: 0.0, F: 1.0 },
+      false_map: { T: 0.8, I: 0.2, F: 0.0 }
+    }));
+    mapper = new RecordMapper(params, { mappers: registry });
+  });
+
+  describe('Construction', () => {
+    it('should create a valid RecordMapper', () => {
+      expect(mapper.mapper_type).toBe(MapperType.RECORD);
+    });
+
+    it('should validate the fields', () => {
+      const cases: Array<[any, string]> = [
+        [{ fields: [] }, 'RecordMapper requires at least one field'],
+        [{ fields: [{ path: '', mapper_id: 'kyc-status' }] }, 'fields[0].path must be a non-empty string'],
+        [{ fields: [{ path: 'kyc_status' }] }, 'fields[0].mapper_id must be a non-empty string'],
+        [{ fields: [{ path: 'kyc_status', mapper_id: 'kyc-status', weight: -1 }] }, 'fields[0].weight must be a non-negative number'],
+        [{ fields: [{ path: 'nested', mapper_id: 'defi-position' }] }, "fields[0] refers to the record mapper 'defi-position' itself"],
+        [{ fields: [params.fields[0], params.fields[0]] }, "Field path 'health_factor' appears more than once"],
+        [{ operator: '' }, 'operator must be a non-empty operator ID'],
+        [
+          { operator: 'otp-optimistic-v1.1', fields: [{ ...params.fields[0], weight: 2 }] },
+          "Field weights cannot be used with 'otp-optimistic-v1.1', which does not accept weights"
+        ]
+      ];
+
+      for (const [overrides, message] of cases) {
+        expect(() => new RecordMapper({ ...params, ...overrides })).toThrow(message);
+      }
+    });
+  });
+
+  describe('Fusion', () => {
+    it('should fuse the field judgments into a sealed judgment', () => {
+      const fused = mapper.apply(record);
+      const fields = params.fields.map(field => registry.get(field.mapper_id)!);
+      const expected = fuse('otp-cawa-v1.1', [
+        fields[0]!.apply(2.0),
+        fields[1]!.apply('VERIFIED'),
+        fields[2]!.apply(false)
+      ]);
+
+      expect(fused.T).toBeCloseTo(expected.T, 10);
+      expect(fused.I).toBeCloseTo(expected.I, 10);
+      expect(fused.F).toBeCloseTo(expected.F, 10);
+      expect(verifyConformanceSealDetailed(fused).status).toBe('valid');
+    });
+
+    it('should use the configured operator and weights', () => {
+      const pessimistic = new RecordMapper({ ...params, operator: 'otp-pessimistic-v1.1' }, { mappers: registry })
+        .apply(record);
+      expect(pessimistic.provenance_chain[6]!.source_id).toBe('otp-pessimistic-v1.1');
+
+      const weighted = new RecordMapper({
+        ...params,
+        fields: [
+          { path: 'owner.kyc_status', mapper_id: 'kyc-status', weight: 3 },
+          { path: 'is_flagged', mapper_id: 'sanctions-flag' }
+        ]
+      }, { mappers: registry }).apply({ ...record, owner: { kyc_status: 'REJECTED' } });
+      const fusion = weighted.provenance_chain[weighted.provenance_chain.length - 2]!;
+
+      const expected = fuse('otp-cawa-v1.1', [
+        registry.get('kyc-status')!.apply('REJECTED'),
+        registry.get('sanctions-flag')!.apply(false)
+      ], [3, 1]);
+
+      expect(fusion.metadata?.['weights']).toEqual([3, 1]);
+      expect(weighted.F).toBeCloseTo(expected.F, 10);
+    });
+
+    it('should be reproducible with a fixed clock', () => {
+      const clock = new FixedClock('2025-01-01T00:00:00Z');
+      const first = withClock(clock, () => mapper.apply(record));
+      const second = withClock(clock, () => mapper.apply(record));
+
+      expect(second.provenance_chain).toEqual(first.provenance_chain);
+    });
+  });
+
+  describe('Provenance', () => {
+    it("should record each field's sub-judgment and original input", () => {
+      const chain = mapper.apply(record).provenance_chain;
+
+      // Mapper entry and field entry per field, then fusion and Judgment ID entries
+      expect(chain).toHaveLength(8);
+
+      const kyc = chain[3]!;
+      expect(chain[2]!.source_id).toBe('kyc-status');
+      expect(kyc.source_id).toBe('defi-position');
+      expect(kyc.metadata?.['original_input']?.['value']).toBe('VERIFIED');
+      expect(kyc.metadata?.['record_field']).toEqual({
+        path: 'owner.kyc_status',
+        mapper_id: 'kyc-status',
+        mapper_version: '1.0.0',
+        judgment: { T: 0.9, I: 0.1, F: 0.0 }
+      });
+      expect(chain[6]!.metadata?.['input_count']).toBe(3);
+    });
+
+    it('should record object and array field values as JSON', () => {
+      registry.register(new CategoricalMapper({
+        id: 'compliance-tags',
+        version: '1.0.0',
+        mappings: { kyc_passed: { T: 0.9, I: 0.1, F: 0.0 }, pep: { T: 0.2, I: 0.6, F: 0.2 } },
+        multi_label: {}
+      }));
+      const tagged = new RecordMapper({
+        id: 'tagged-owner',
+        version: '1.0.0',
+        fields: [{ path: 'owner.tags', mapper_id: 'compliance-tags' }]
+      }, { mappers: registry });
+
+      const chain = tagged.apply({ owner: { tags: ['kyc_passed', 'pep'] } }).provenance_chain;
+      const field = chain.find(entry => entry.metadata?.['record_field'])!;
+
+      expect(field.metadata?.['original_input']?.['value']).toEqual(['kyc_passed', 'pep']);
+    });
+  });
+
+  describe('Field Resolution', () => {
+    it('should resolve nested paths and array indices', () => {
+      const owners = new RecordMapper({
+        id: 'first-owner',
+        version: '1.0.0',
+        fields: [{ path: 'owners.0.kyc_status', mapper_id: 'kyc-status' }]
+      }, { mappers: registry });
+
+      expect(owners.apply({ owners: [{ kyc_status: 'REJECTED' }] }).F).toBeCloseTo(0.9, 10);
+    });
+
+    it('should reject records with missing required fields', () => {
+      expect(() => mapper.apply({ health_factor: 2.0, is_flagged: false }))
+        .toThrow("Field 'owner.kyc_status' is missing from the record");
+    });
+
+    it('should skip missing optional fields and pass null values on', () => {
+      const optional = new RecordMapper({
+        ...params,
+        fields: params.fields.map(field => ({ ...field, optional: true }))
+      }, { mappers: registry });
+
+      const fused = optional.apply({ owner: { kyc_status: 'VERIFIED' }, is_flagged: null });
+      expect(fused.provenance_chain[fused.provenance_chain.length - 2]!.metadata?.['input_count']).toBe(2);
+      expect(() => optional.apply({})).toThrow('No field of the record is present');
+    });
+
+    it('should report which field could not be mapped', () => {
+      expect(() => mapper.apply({ ...record, owner: { kyc_status: 'PENDING' } }))
+        .toThrow("Field 'owner.kyc_status': Input category 'PENDING' not found");
+      expect(() => mapper.apply([] as any)).toThrow(InputError);
+      expect(() => mapper.apply(null as any)).toThrow('Input for RecordMapper must be an object, got null');
+    });
+
+    it('should require registered field mappers', () => {
+      registry.unregister('sanctions-flag');
+
+      expect(() => mapper.apply(record))
+        .toThrow("Mapper 'sanctions-flag' for field 'is_flagged' is not registered");
+    });
+
+    it('should reject record mappers that refer to each other in a cycle', () => {
+      registry.register(new RecordMapper({
+        id: 'position-owner',
+        version: '1.0.0',
+        fields: [{ path: 'position', mapper_id: 'defi-position' }]
+      }, { mappers: registry }));
+      const cyclic = new RecordMapper({
+        ...params,
+        fields: [{ path: 'owner', mapper_id: 'position-owner' }]
+      }, { mappers: registry });
+      registry.register(cyclic);
+
+      const nested: Record<string, any> = {};
+      nested['owner'] = { position: nested };
+
+      expect(() => cyclic.apply(nested)).toThrow(ValidationError);
+      expect(() => cyclic.apply(nested))
+        .toThrow('Record mappers refer to each other in a cycle: defi-position -> position-owner -> defi-position');
+      expect(mapper.apply(record).T).toBeGreaterThan(0);
+    });
+
+    it('should look up field mappers in the global registry by default', () => {
+      resetGlobalRegistry();
+      try {
+        getGlobalRegistry().register(registry.get('kyc-status')!);
+        const global = new RecordMapper({ ...params, fields: [params.fields[1]!] });
+
+        expect(global.apply(record).T).toBeCloseTo(0.9, 10);
+      } finally {
+        resetGlobalRegistry();
+      }
+    });
+  });
+
+  describe('Validation and Registry', () => {
+    it('should be accepted by the validator schema', () => {
+      const validator = new MapperValidator();
+
+      expect(validator.detectType(params)).toBe(MapperType.RECORD);
+      expect(validator.validate({ ...params, operator: 'otp-optimistic-v1.1' })).toBe(true);
+      expect(() => validator.validate({ ...params, fields: [{ path: 'a', mapper_id: 'b', weights: 2 }] }))
+        .toThrow("fields[0]: Additional property 'weights' not allowed");
+      expect(() => validator.validate({ ...params, fields: [params.fields[0], params.fields[0]] }))
+        .toThrow(ValidationError);
+    });
+
+    it('should round-trip through registry export and import', () => {
+      registry.register(mapper);
+
+      const target = new MapperRegistry();
+      const result = target.import(JSON.parse(JSON.stringify(registry.export())));
+
+      expect(result.errors).toEqual([]);
+      expect(target.get('defi-position')).toBeInstanceOf(RecordMapper);
+    });
+  });
+});
@@ -321,6 +321,120 @@ describe('MapperRegistry', () => {
       expect(snapshot.timestamp).toBeDefined();
     });
 
+    it('should import exported mappers', () => {
+      const target = new MapperRegistry();
+      const result = target.import(registry.export());
+
+      expect(result).toEqual({ imported: ['export-test'], errors: [], dryRun: false });
+      expect(target.get('export-test')).toBeInstanceOf(NumericalMapper);
+      expect(target.get('export-test')!.apply(3.0).T).toBe(1.0);
+      expect(target.export()).toEqual(registry.export());
+    });
+
+    it('should import snapshots after JSON round-trip', () => {
+      registry.register(new CategoricalMapper({
+        id: 'kyc-status',
+        version: '1.0.0',
+        mappings: { VERIFIED: { T: 1.0, I: 0.0, F: 0.0 } }
+      }));
+      registry.register(new BooleanMapper({
+        id: 'sanctioned',
+        version: '1.0.0',
+        true_map: { T: 0.0, I: 0.0, F: 1.0 },
+        false_map: { T: 1.0, I: 0.0, F: 0.0 }
+      }));
+
+      const target = new MapperRegistry();
+      const result = target.import(JSON.parse(JSON.stringify(registry.createSnapshot())));
+
+      expect(result.imported).toEqual(['export-test', 'kyc-status', 'sanctioned']);
+      expect(target.get('kyc-status')).toBeInstanceOf(CategoricalMapper);
+      expect(target.get('sanctioned')).toBeInstanceOf(BooleanMapper);
+    });
+
+    it('should import plain mapper parameters', () => {
+      const target = new MapperRegistry();
+      const result = target.import([{
+        id: 'plain',
+        version: '1.0.0',
+        true_map: { T: 1.0, I: 0.0, F: 0.0 },
+        false_map: { T: 0.0, I: 0.0, F: 1.0 }
+      }]);
+
+      expect(result.errors).toEqual([]);
+      expect(target.get('plain')).toBeInstanceOf(BooleanMapper);
+    });
+
+    it('should report per-entry errors without aborting', () => {
+      const exported = registry.export()[0];
+      const target = new MapperRegistry();
+      const result = target.import([
+        { ...exported, parameters: { ...exported.parameters, truth_point: 1.0 } },
+        { id: 'mystery', type: 'quantum', version: '1.0.0', parameters: { id: 'mystery', version: '1.0.0' } },
+        { id: 'untyped', version: '1.0.0' },
+        exported,
+        exported
+      ]);
+
+      expect(result.imported).toEqual(['export-test']);
+      expect(result.errors).toEqual([
+        {
+          index: 0,
+          id: 'export-test',
+          message: 'falsity_point, indeterminacy_point, and truth_point must be distinct for NumericalMapper'
+        },
+        { index: 1, id: 'mystery', message: 'Unknown mapper type: quantum' },
+        { index: 2, id: 'untyped', message: "Cannot determine mapper type from configuration; declare it with a 'type' field" },
+        { index: 4, id: 'export-test', message: "Mapper with ID 'export-test' appears more than once in the import" }
+      ]);
+      expect(target.list()).toEqual(['export-test']);
+    });
+
+    it('should reject a type that does not match the parameters', () => {
+      const exported = registry.export()[0];
+      const result = new MapperRegistry().import([{ ...exported, type: 'categorical' }]);
+
+      expect(result.errors[0]!.message).toBe("Field 'falsity_point' belongs to numerical mappers, not to mapper type 'categorical'");
+    });
+
+    it('should keep existing mappers unless overwriting', () => {
+      const exported = registry.export()[0];
+      const changed = { ...exported, parameters: { ...exported.parameters, truth_point: 4.0 } };
+
+      const merged = registry.import([changed]);
+      expect(merged.errors[0]!.message).toBe("Mapper with ID 'export-test' already exists. Use overwrite to replace it.");
+      expect((registry.get('export-test')!.parameters as any).truth_point).toBe(3.0);
+
+      registry.import([changed], { overwrite: true });
+      expect((registry.get('export-test')!.parameters as any).truth_point).toBe(4.0);
+
+      registry.import([exported], true);
+      expect((registry.get('export-test')!.parameters as any).truth_point).toBe(3.0);
+    });
+
+    it('should replace the registry contents', () => {
+      const result = registry.import([{
+        id: 'replacement',
+        version: '1.0.0',
+        true_map: { T: 1.0, I: 0.0, F: 0.0 },
+        false_map: { T: 0.0, I: 0.0, F: 1.0 }
+      }], { mode: 'replace' });
+
+      expect(result.imported).toEqual(['replacement']);
+      expect(registry.list()).toEqual(['replacement']);
+    });
+
+    it('should not modify the registry in a dry run', () => {
+      const result = registry.import([], { mode: 'replace', dryRun: true });
+
+      expect(result).toEqual({ imported: [], errors: [], dryRun: true });
+      expect(registry.list()).toEqual(['export-test']);
+    });
+
+    it('should reject input that is not a bundle', () => {
+      expect(() => registry.import({} as any)).toThrow(ValidationError);
+    });
+
     it('should get statistics', () => {
       const stats = registry.getStats();
       
@@ -0,0 +1,196 @@
+/**
+ * Tests for TemporalMapper
+ */
+
+import {
+  TemporalMapper,
+  TemporalParams,
+  MapperType,
+  MapperValidator,
+  MapperRegistry,
+  InputError,
+  ValidationError,
+  parseDuration
+} from '../../src/mapper';
+import { FixedClock, withClock } from '../../src/clock';
+
+describe('TemporalMapper', () => {
+  const params: TemporalParams = {
+    id: 'node-last-seen',
+    version: '1.0.0',
+    fresh_within: 'PT1H',
+    stale_after: 'PT24H',
+    fresh_map: { T: 0.9, I: 0.1, F: 0.0 },
+    stale_map: { T: 0.0, I: 0.2, F: 0.8 }
+  };
+  const reference = '2025-01-02T00:00:00.000Z';
+
+  let clock: FixedClock;
+  let mapper: TemporalMapper;
+
+  beforeEach(() => {
+    clock = new FixedClock(reference);
+    mapper = new TemporalMapper(params, { clock });
+  });
+
+  describe('Construction', () => {
+    it('should create a valid TemporalMapper', () => {
+      expect(mapper.mapper_type).toBe(MapperType.TEMPORAL);
+      expect(mapper.getIntermediateJudgment()).toEqual({ T: 0.0, I: 1.0, F: 0.0 });
+    });
+
+    it('should validate the judgment mappings', () => {
+      expect(() => new TemporalMapper({ ...params, stale_map: { T: 0.5, I: 0.5, F: 0.5 } }))
+        .toThrow('Invalid stale_map in TemporalMapper: Conservation constraint violated');
+    });
+
+    it('should validate the breakpoints', () => {
+      expect(() => new TemporalMapper({ ...params, fresh_within: 'P1M' }))
+        .toThrow("fresh_within: Invalid ISO 8601 duration 'P1M'");
+      expect(() => new TemporalMapper({ ...params, fresh_within: 'P2D' }))
+        .toThrow('fresh_within (P2D) must not be greater than stale_after (PT24H)');
+      expect(() => new TemporalMapper({ ...params, epoch_unit: 'minutes' as any }))
+        .toThrow("Invalid epoch_unit 'minutes'");
+    });
+  });
+
+  describe('Freshness Breakpoints', () => {
+    it('should map ages to the fresh, intermediate and stale judgments', () => {
+      expect(mapper.apply('2025-01-01T23:30:00Z')).toMatchObject({ T: 0.9, I: 0.1, F: 0.0 });
+      expect(mapper.apply('2025-01-01T12:00:00Z')).toMatchObject({ T: 0.0, I: 1.0, F: 0.0 });
+      expect(mapper.apply('2024-12-31T00:00:00Z')).toMatchObject({ T: 0.0, I: 0.2, F: 0.8 });
+    });
+
+    it('should treat the breakpoints themselves as intermediate', () => {
+      expect(mapper.apply('2025-01-01T23:00:00Z').I).toBe(1.0);
+      expect(mapper.apply('2025-01-01T00:00:00Z').I).toBe(1.0);
+    });
+
+    it('should use the configured intermediate_map', () => {
+      const custom = new TemporalMapper({ ...params, intermediate_map: { T: 0.4, I: 0.4, F: 0.2 } }, { clock });
+
+      expect(custom.apply('PT6H')).toMatchObject({ T: 0.4, I: 0.4, F: 0.2 });
+    });
+
+    it('should support negative breakpoints for expiry dates', () => {
+      const certificate = new TemporalMapper({
+        id: 'certificate-expiry',
+        version: '1.0.0',
+        fresh_within: '-P7D',
+        stale_after: 'PT0S',
+        fresh_map: { T: 1.0, I: 0.0, F: 0.0 },
+        stale_map: { T: 0.0, I: 0.0, F: 1.0 }
+      }, { clock });
+
+      expect(certificate.apply('2025-03-01').T).toBe(1.0);
+      expect(certificate.apply('2025-01-05T00:00:00Z').I).toBe(1.0);
+      expect(certificate.apply('2024-12-31').F).toBe(1.0);
+    });
+  });
+
+  describe('Input Formats', () => {
+    it('should accept Dates, date-times with offsets and epoch timestamps', () => {
+      const thirtyMinutesAgo = Date.parse(reference) - 30 * 60 * 1000;
+
+      expect(mapper.getAge(new Date(thirtyMinutesAgo))).toBe(1800000);
+      expect(mapper.getAge('2025-01-02T00:30:00+01:00')).toBe(1800000);
+      expect(mapper.getAge(thirtyMinutesAgo)).toBe(1800000);
+
+      const seconds = new TemporalMapper({ ...params, epoch_unit: 'seconds' }, { clock });
+      expect(seconds.getAge(thirtyMinutesAgo / 1000)).toBe(1800000);
+    });
+
+    it('should take durations as the age itself', () => {
+      expect(mapper.getAge('PT30M')).toBe(1800000);
+      expect(mapper.apply('P1DT1S').F).toBe(0.8);
+    });
+
+    it('should reject invalid inputs', () => {
+      expect(() => mapper.apply('yesterday')).toThrow(InputError);
+      expect(() => mapper.apply('2025-01-01T12:00:00')).toThrow(InputError);
+      expect(() => mapper.apply('2025-13-45')).toThrow(InputError);
+      expect(() => mapper.apply(NaN)).toThrow(InputError);
+      expect(() => mapper.apply(new Date('invalid'))).toThrow(InputError);
+      expect(() => mapper.apply('PT')).toThrow(InputError);
+    });
+  });
+
+  describe('Reference Clock', () => {
+    it('should follow the injected clock', () => {
+      expect(mapper.apply('2025-01-01T23:30:00Z').T).toBe(0.9);
+
+      clock.advance(2 * 60 * 60 * 1000);
+      expect(mapper.apply('2025-01-01T23:30:00Z').I).toBe(1.0);
+    });
+
+    it('should use the context clock when none is injected', () => {
+      const contextual = new TemporalMapper(params);
+      const judgment = withClock(new FixedClock('2025-01-01T23:59:00Z'), () =>
+        contextual.apply('2025-01-01T23:30:00Z')
+      );
+
+      expect(judgment.T).toBe(0.9);
+      expect(judgment.provenance_chain[0]!.timestamp).toBe('2025-01-01T23:59:00.000Z');
+    });
+
+    it('should record the reference time, age and band in provenance', () => {
+      const entry = mapper.apply(new Date('2025-01-01T12:00:00Z')).provenance_chain[0]!;
+
+      expect(entry.timestamp).toBe(reference);
+      expect(entry.metadata?.['original_input']?.['value']).toBe('2025-01-01T12:00:00.000Z');
+      expect(entry.metadata?.['temporal']).toEqual({
+        reference_time: reference,
+        age_ms: 12 * 60 * 60 * 1000,
+        band: 'intermediate'
+      });
+    });
+  });
+
+  describe('Validation and Registry', () => {
+    it('should be accepted by the validator schema', () => {
+      const validator = new MapperValidator();
+
+      expect(validator.detectType(params)).toBe(MapperType.TEMPORAL);
+      expect(validator.validate(params)).toBe(true);
+      expect(validator.validate({ ...params, fresh_within: 3600000, epoch_unit: 'seconds', type: 'temporal' })).toBe(true);
+    });
+
+    it('should report invalid configurations', () => {
+      const validator = new MapperValidator();
+
+      expect(() => validator.validate({ ...params, stale_after: true }))
+        .toThrow('stale_after: Expected number or string, got boolean');
+      expect(() => validator.validate({ ...params, stale_after: 'PT30M' }))
+        .toThrow(ValidationError);
+      expect(() => validator.validate({ ...params, intermediate_map: { T: 0.6, I: 0.6, F: 0.0 } }))
+        .toThrow('intermediate_map: Conservation constraint violated');
+    });
+
+    it('should round-trip through registry export and import', () => {
+      const source = new MapperRegistry();
+      source.register(mapper);
+
+      const target = new MapperRegistry();
+      const result = target.import(JSON.parse(JSON.stringify(source.export())));
+
+      expect(result.errors).toEqual([]);
+      expect(target.get('node-last-seen')).toBeInstanceOf(TemporalMapper);
+    });
+  });
+
+  describe('parseDuration', () => {
+    it('should parse ISO 8601 durations and milliseconds', () => {
+      expect(parseDuration('PT1H')).toBe(3600000);
+      expect(parseDuration('P1W2DT3H4M5.5S')).toBe(((9 * 24 + 3) * 60 + 4) * 60000 + 5500);
+      expect(parseDuration('-P7D')).toBe(-7 * 86400000);
+      expect(parseDuration(1500)).toBe(1500);
+    });
+
+    it('should reject years, months and malformed durations', () => {
+      for (const duration of ['P1Y', 'P1M', 'P', 'PT', '1H', 'PT1.H']) {
+        expect(() => parseDuration(duration)).toThrow(InputError);
+      }
+      expect(() => parseDuration(Infinity)).toThrow(InputError);
+    });
+  });
+});
@@ -213,6 +213,76 @@ describe('MapperValidator', () => {
     });
   });
 
+  describe('Type Discriminator', () => {
+    const numericalConfig = {
+      id: 'test-numerical',
+      version: '1.0.0',
+      falsity_point: 1.0,
+      indeterminacy_point: 1.5,
+      truth_point: 3.0
+    };
+
+    it('should accept a declared type', () => {
+      expect(validator.validate({ ...numericalConfig, type: 'numerical' })).toBe(true);
+      expect(validator.detectType({ ...numericalConfig, type: 'numerical' })).toBe(MapperType.NUMERICAL);
+    });
+
+    it('should prefer the declared type over inference', () => {
+      const config = {
+        id: 'test-boolean',
+        version: '1.0.0',
+        type: 'boolean',
+        mappings: { 'YES': { T: 1.0, I: 0.0, F: 0.0 } },
+        true_map: { T: 0.9, I: 0.1, F: 0.0 },
+        false_map: { T: 0.0, I: 0.0, F: 1.0 }
+      };
+
+      expect(validator.detectType(config)).toBe(MapperType.BOOLEAN);
+      expect(() => validator.validate(config))
+        .toThrow("Field 'mappings' belongs to categorical mappers, not to mapper type 'boolean'");
+    });
+
+    it('should reject ambiguous configurations without a declared type', () => {
+      const config = {
+        id: 'test-ambiguous',
+        version: '1.0.0',
+        mappings: { 'YES': { T: 1.0, I: 0.0, F: 0.0 } },
+        true_map: { T: 0.9, I: 0.1, F: 0.0 },
+        false_map: { T: 0.0, I: 0.0, F: 1.0 }
+      };
+
+      expect(() => validator.validate(config))
+        .toThrow("Field 'true_map' belongs to boolean mappers, not to mapper type 'categorical'");
+    });
+
+    it('should report fields missing for the declared type', () => {
+      const { truth_point: _truthPoint, ...config } = numericalConfig;
+
+      expect(() => validator.validate({ ...config, type: 'numerical' }))
+        .toThrow("Mapper type 'numerical' requires field 'truth_point'");
+    });
+
+    it('should report unknown declared types', () => {
+      expect(() => validator.validate({ ...numericalConfig, type: 'numeric' }))
+        .toThrow("Unknown mapper type 'numeric': expected one of numerical, categorical, boolean, piecewise_linear, membership, temporal, record");
+    });
+
+    it('should report a declared type that differs from the requested one', () => {
+      expect(() => validator.validate({ ...numericalConfig, type: 'numerical' }, MapperType.BOOLEAN))
+        .toThrow("Mapper configuration declares type 'numerical' but is validated as 'boolean'");
+    });
+
+    it('should explain how to resolve undetermined types', () => {
+      expect(() => validator.validate({ id: 'unknown', version: '1.0.0' }))
+        .toThrow("Cannot determine mapper type from configuration; declare it with a 'type' field");
+    });
+
+    it('should reject non-string types', () => {
+      expect(() => validator.validate({ ...numericalConfig, type: 1 }))
+        .toThrow('type: Expected string, got number');
+    });
+  });
+
   describe('Schema Operations', () => {
     it('should get schema for numerical mapper', () => {
       const schema = validator.getSchema(MapperType.NUMERICAL);
@@ -0,0 +1,223 @@
+/**
+ * Tests for the Performance Oracle
+ */
+
+import {
+  NeutrosophicJudgment,
+  NumericalMapper,
+  PerformanceOracle,
+  computePerformanceMetrics,
+  conflict_aware_weighted_average,
+  optimistic_fusion,
+  createOutcomeJudgment,
+  generateJudgmentId,
+  ensureJudgmentId,
+  OutcomeType,
+  FixedClock
+} from '../src/index';
+
+describe('Performance Oracle', () => {
+  const clock = new FixedClock('2025-01-31T00:00:00Z');
+
+  const success = (judgmentId: string) => createOutcomeJudgment(judgmentId, 1.0, 0.0, 0.0, OutcomeType.SUCCESS, 'oracle', [], { clock });
+  const failure = (judgmentId: string) => createOutcomeJudgment(judgmentId, 0.0, 0.0, 1.0, OutcomeType.FAILURE, 'oracle', [], { clock });
+
+  describe('computePerformanceMetrics', () => {
+    const samples = [
+      { prediction: 0.9, outcome: 1, success: true },
+      { prediction: 0.8, outcome: 0, success: false },
+      { prediction: 0.3, outcome: 0, success: false },
+      { prediction: 0.6, outcome: 1, success: true }
+    ];
+
+    it('should compute the Brier score, log loss and success rate', () => {
+      const metrics = computePerformanceMetrics(samples);
+
+      expect(metrics.count).toBe(4);
+      expect(metrics.success_rate).toBe(0.5);
+      expect(metrics.brier_score).toBeCloseTo(0.225, 12);
+      expect(metrics.log_loss).toBeCloseTo(-(Math.log(0.9) + Math.log(0.2) + Math.log(0.7) + Math.log(0.6)) / 4, 12);
+    });
+
+    it('should compute the expected calibration error from the reliability diagram', () => {
+      const metrics = computePerformanceMetrics(samples, 2);
+
+      expect(metrics.calibration).toHaveLength(2);
+      expect(metrics.calibration[0]).toEqual({ lower: 0, upper: 0.5, count: 1, mean_prediction: 0.3, mean_outcome: 0 });
+      expect(metrics.calibration[1]!.count).toBe(3);
+      expect(metrics.calibration[1]!.mean_prediction).toBeCloseTo(2.3 / 3, 12);
+      expect(metrics.calibration[1]!.mean_outcome).toBeCloseTo(2 / 3, 12);
+      expect(metrics.expected_calibration_error).toBeCloseTo(0.15, 12);
+    });
+
+    it('should put predictions of 1 in the last bin and leave empty bins without means', () => {
+      const metrics = computePerformanceMetrics([{ prediction: 1, outcome: 1, success: true }], 4);
+
+      expect(metrics.calibration[3]!.count).toBe(1);
+      expect(metrics.calibration[0]).toEqual({ lower: 0, upper: 0.25, count: 0, mean_prediction: null, mean_outcome: null });
+      expect(metrics.expected_calibration_error).toBe(0);
+    });
+
+    it('should keep empty calibration bins JSON-safe', () => {
+      const metrics = computePerformanceMetrics([{ prediction: 1, outcome: 1, success: true }], 4);
+
+      expect(JSON.parse(JSON.stringify(metrics)).calibration).toEqual(metrics.calibration);
+    });
+
+    it('should compute the ROC curve and AUC of T against success', () => {
+      const metrics = computePerformanceMetrics(samples);
+
+      expect(metrics.roc).toEqual([
+        { threshold: Number.MAX_VALUE, true_positive_rate: 0, false_positive_rate: 0 },
+        { threshold: 0.9, true_positive_rate: 0.5, false_positive_rate: 0 },
+        { threshold: 0.8, true_positive_rate: 0.5, false_positive_rate: 0.5 },
+        { threshold: 0.6, true_positive_rate: 1, false_positive_rate: 0.5 },
+        { threshold: 0.3, true_positive_rate: 1, false_positive_rate: 1 }
+      ]);
+      expect(metrics.auc).toBe(0.75);
+    });
+
+    it('should keep the ROC curve JSON-safe', () => {
+      const roc = JSON.parse(JSON.stringify(computePerformanceMetrics(samples).roc));
+
+      expect(roc[0].threshold).toBe(Number.MAX_VALUE);
+    });
+
+    it('should leave partial outcomes out of the success rate and ROC curve', () => {
+      const metrics = computePerformanceMetrics([...samples, { prediction: 0.7, outcome: 0.5 }]);
+
+      expect(metrics.success_rate).toBe(0.5);
+      expect(metrics.roc).toEqual(computePerformanceMetrics(samples).roc);
+      expect(metrics.brier_score).toBeCloseTo((0.225 * 4 + 0.04) / 5, 12);
+      expect(computePerformanceMetrics([{ prediction: 0.7, outcome: 0.5 }]).success_rate).toBeNull();
+    });
+
+    it('should count tied predictions as half right', () => {
+      const metrics = computePerformanceMetrics([
+        { prediction: 0.7, outcome: 1, success: true },
+        { prediction: 0.7, outcome: 0, success: false }
+      ]);
+
+      expect(metrics.roc).toHaveLength(2);
+      expect(metrics.auc).toBe(0.5);
+    });
+
+    it('should leave the AUC undefined without both successes and failures', () => {
+      const metrics = computePerformanceMetrics([{ prediction: 0.7, outcome: 1, success: true }]);
+
+      expect(metrics.roc).toEqual([]);
+      expect(metrics.auc).toBeNull();
+    });
+
+    it('should reject empty or invalid samples', () => {
+      expect(() => computePerformanceMetrics([])).toThrow('Performance metrics need at least one sample');
+      expect(() => computePerformanceMetrics(samples, 0)).toThrow('bins must be a positive integer, got 0');
+      expect(() => computePerformanceMetrics([{ prediction: 1.2, outcome: 1, success: true }]))
+        .toThrow('Sample 0 must have a prediction and outcome between 0 and 1');
+    });
+  });
+
+  describe('PerformanceOracle', () => {
+    const mapper = new NumericalMapper({
+      id: 'defi-health-factor',
+      version: '1.0.0',
+      falsity_point: 1.0,
+      indeterminacy_point: 1.5,
+      truth_point: 3.0,
+      clamp_to_range: true
+    });
+
+    const createJudgment = (T: number, I: number, F: number, sourceId: string): NeutrosophicJudgment => {
+      return new NeutrosophicJudgment(T, I, F, [{ source_id: sourceId, timestamp: '2025-01-30T00:00:00Z' }]);
+    };
+
+    it('should pair decisions with the outcomes linked to their Judgment IDs', () => {
+      const oracle = new PerformanceOracle();
+      const healthy = ensureJudgmentId(mapper.apply(3.0), { clock });
+      const risky = ensureJudgmentId(mapper.apply(1.0), { clock });
+
+      oracle.addOutcome(success(oracle.addDecision(healthy)));
+      oracle.addOutcome(failure(oracle.addDecision(risky)));
+
+      const report = oracle.report();
+      expect(report.overall.count).toBe(2);
+      expect(report.overall.brier_score).toBe(0);
+      expect(report.overall.auc).toBe(1);
+      expect(report.pending).toBe(0);
+      expect(report.unmatched_outcomes).toBe(0);
+    });
+
+    it('should identify decisions without a Judgment ID entry by their generated ID', () => {
+      const oracle = new PerformanceOracle();
+      const judgment = createJudgment(0.8, 0.2, 0.0, 'sensor');
+
+      expect(oracle.addDecision(judgment)).toBe(generateJudgmentId(judgment));
+    });
+
+    it('should break metrics down by source, mapper and fusion operator', () => {
+      const oracle = new PerformanceOracle();
+      const mapped = mapper.apply(3.0);
+      const sensor = createJudgment(0.6, 0.2, 0.1, 'sensor');
+      const feed = createJudgment(0.2, 0.3, 0.4, 'feed');
+
+      const averaged = conflict_aware_weighted_average([mapped, sensor], [1.0, 1.0], { clock });
+      const optimistic = optimistic_fusion([sensor, feed], { clock });
+
+      oracle.addOutcome(success(oracle.addDecision(averaged)));
+      oracle.addOutcome(failure(oracle.addDecision(optimistic)));
+      oracle.addOutcome(failure(oracle.addDecision(feed)));
+
+      const report = oracle.report();
+      expect(Object.keys(report.by_source).sort()).toEqual(['defi-health-factor', 'feed', 'sensor']);
+      expect(report.by_source['sensor']!.count).toBe(2);
+      expect(report.by_source['feed']!.count).toBe(2);
+      expect(Object.keys(report.by_mapper)).toEqual(['defi-health-factor']);
+      expect(report.by_mapper['defi-health-factor']!.brier_score).toBeCloseTo((1 - averaged.T) ** 2, 12);
+      expect(report.by_operator['otp-cawa-v1.1']!.count).toBe(1);
+      expect(report.by_operator['otp-optimistic-v1.1']!.success_rate).toBe(0);
+      expect(report.by_operator['otp-judgment-id-generator']).toBeUndefined();
+    });
+
+    it('should count pending decisions and unmatched outcomes', () => {
+      const oracle = new PerformanceOracle();
+      const decided = oracle.addDecision(createJudgment(0.8, 0.2, 0.0, 'sensor'));
+      oracle.addDecision(createJudgment(0.4, 0.2, 0.3, 'sensor'));
+
+      oracle.addOutcome(success(decided)).addOutcome(success('unknown-decision'));
+
+      expect(oracle.report()).toMatchObject({ pending: 1, unmatched_outcomes: 1 });
+    });
+
+    it('should let the last outcome of a decision count', () => {
+      const oracle = new PerformanceOracle();
+      const decided = oracle.addDecision(createJudgment(0.8, 0.2, 0.0, 'sensor'));
+
+      oracle.addOutcome(failure(decided)).addOutcome(success(decided));
+
+      expect(oracle.report().overall.success_rate).toBe(1);
+    });
+
+    it('should use partial outcomes as fractional results without a success label', () => {
+      const oracle = new PerformanceOracle();
+      const partial = oracle.addDecision(createJudgment(0.8, 0.2, 0.0, 'sensor'));
+      const succeeded = oracle.addDecision(createJudgment(0.6, 0.2, 0.1, 'sensor'));
+      const failed = oracle.addDecision(createJudgment(0.3, 0.2, 0.4, 'sensor'));
+
+      oracle.addOutcome(createOutcomeJudgment(partial, 0.5, 0.0, 0.5, OutcomeType.PARTIAL, 'oracle', [], { clock }));
+      oracle.addOutcome(success(succeeded)).addOutcome(failure(failed));
+
+      const report = oracle.report();
+      expect(report.overall.brier_score).toBeCloseTo((0.09 + 0.16 + 0.09) / 3, 12);
+      expect(report.overall.success_rate).toBe(0.5);
+      expect(report.overall.auc).toBe(1);
+    });
+
+    it('should require outcomes and valid bins', () => {
+      const oracle = new PerformanceOracle();
+      oracle.addDecision(createJudgment(0.8, 0.2, 0.0, 'sensor'));
+
+      expect(() => oracle.report()).toThrow('No decision has an outcome to measure');
+      expect(() => new PerformanceOracle({ bins: 2.5 })).toThrow('bins must be a positive integer, got 2.5');
+    });
+  });
+});
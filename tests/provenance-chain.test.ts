@@ -0,0 +1,186 @@
+/**
+ * Tests for hash-linked provenance chains
+ */
+
+import {
+  NeutrosophicJudgment,
+  ProvenanceEntry,
+  conflict_aware_weighted_average,
+  fuse,
+  FixedClock,
+  digestProvenanceEntry,
+  isLinkedChain,
+  linkProvenanceChain,
+  linkJudgment,
+  appendProvenanceEntry,
+  verifyProvenanceChain,
+  verifyConformanceSeal,
+  verifyJudgmentId,
+  verifyFusion,
+  generateJudgmentId,
+  generateSigningKeyPair,
+  signFusedJudgment
+} from '../src/index';
+
+describe('Hash-Linked Provenance Chains', () => {
+  const clock = new FixedClock('2025-01-01T00:00:00Z');
+
+  const createJudgment = (T: number, I: number, F: number, sourceId: string): NeutrosophicJudgment => {
+    return linkJudgment(new NeutrosophicJudgment(T, I, F, [
+      { source_id: sourceId, timestamp: '2023-01-01T00:00:00Z' }
+    ]));
+  };
+
+  const withChain = (judgment: NeutrosophicJudgment, chain: ProvenanceEntry[]): NeutrosophicJudgment => {
+    return new NeutrosophicJudgment(judgment.T, judgment.I, judgment.F, chain);
+  };
+
+  const judgment1 = createJudgment(0.8, 0.2, 0.0, 'sensor1');
+  const judgment2 = createJudgment(0.6, 0.3, 0.1, 'sensor2');
+  const judgment3 = createJudgment(0.2, 0.3, 0.5, 'sensor3');
+
+  describe('Linking', () => {
+    it('should link a flat chain linearly', () => {
+      const chain = linkProvenanceChain([
+        { source_id: 'a', timestamp: '2023-01-01T00:00:00Z' },
+        { source_id: 'b', timestamp: '2023-01-01T00:00:01Z' }
+      ]) as any[];
+
+      expect(chain[0].previous_digest).toBeNull();
+      expect(chain[1].previous_digest).toBe(digestProvenanceEntry(chain[0]));
+      expect(isLinkedChain(chain)).toBe(true);
+      expect(verifyProvenanceChain(chain)).toEqual({ valid: true });
+    });
+
+    it('should reject partially linked chains', () => {
+      const chain = [
+        ...linkProvenanceChain([{ source_id: 'a', timestamp: '2023-01-01T00:00:00Z' }]),
+        { source_id: 'b', timestamp: '2023-01-01T00:00:01Z' }
+      ];
+
+      expect(() => linkProvenanceChain(chain)).toThrow('Cannot link a partially linked provenance chain');
+    });
+
+    it('should only link appended entries in linked chains', () => {
+      const entry = { source_id: 'b', timestamp: '2023-01-01T00:00:01Z' };
+
+      expect(appendProvenanceEntry([{ source_id: 'a', timestamp: '2023-01-01T00:00:00Z' }], entry)[1]).toBe(entry);
+      expect((appendProvenanceEntry(judgment1.provenance_chain, entry)[1] as any).previous_digest)
+        .toBe(digestProvenanceEntry(judgment1.provenance_chain[0]!));
+    });
+
+    it('should keep Judgment IDs unchanged', () => {
+      const plain = new NeutrosophicJudgment(0.8, 0.2, 0.0, [
+        { source_id: 'sensor1', timestamp: '2023-01-01T00:00:00Z' }
+      ]);
+
+      expect(generateJudgmentId(linkJudgment(plain))).toBe(generateJudgmentId(plain));
+    });
+  });
+
+  describe('Fusion', () => {
+    it('should link the fusion entry to the heads of all input chains', () => {
+      const fused = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4], { clock });
+      const fusionEntry = fused.provenance_chain[2] as any;
+      const idEntry = fused.provenance_chain[3] as any;
+
+      expect(fusionEntry.parent_digests).toEqual([
+        digestProvenanceEntry(judgment1.provenance_chain[0]!),
+        digestProvenanceEntry(judgment2.provenance_chain[0]!)
+      ]);
+      expect(idEntry.previous_digest).toBe(digestProvenanceEntry(fusionEntry));
+      expect(verifyProvenanceChain(fused)).toEqual({ valid: true });
+      expect(verifyConformanceSeal(fused)).toBe(true);
+      expect(verifyJudgmentId(fused)).toBe(true);
+      expect(verifyFusion(fused).valid).toBe(true);
+    });
+
+    it('should produce the same seal as unlinked fusion', () => {
+      const linked = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4], { clock });
+      const flat = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4], { clock, hashChain: false });
+
+      expect((flat.provenance_chain[2] as any).parent_digests).toBeUndefined();
+      expect((linked.provenance_chain[2] as any).conformance_seal)
+        .toBe((flat.provenance_chain[2] as any).conformance_seal);
+    });
+
+    it('should link unlinked inputs on request', () => {
+      const plain = new NeutrosophicJudgment(0.8, 0.2, 0.0, [
+        { source_id: 'sensor1', timestamp: '2023-01-01T00:00:00Z' }
+      ]);
+      const unlinked = conflict_aware_weighted_average([plain, plain], [0.5, 0.5], { clock });
+      const linked = conflict_aware_weighted_average([plain, plain], [0.5, 0.5], { clock, hashChain: true });
+
+      expect(isLinkedChain(unlinked.provenance_chain)).toBe(false);
+      expect(verifyProvenanceChain(unlinked).valid).toBe(false);
+      expect(verifyProvenanceChain(linked)).toEqual({ valid: true });
+    });
+
+    it('should verify nested fusion as a DAG', () => {
+      const inner = fuse('otp-optimistic-v1.1', [judgment1, judgment2], undefined, { clock });
+      const outer = conflict_aware_weighted_average([inner, judgment3], [0.7, 0.3], { clock });
+
+      expect(verifyProvenanceChain(outer)).toEqual({ valid: true });
+      expect((outer.provenance_chain[5] as any).parent_digests).toEqual([
+        digestProvenanceEntry(inner.provenance_chain[3]!),
+        digestProvenanceEntry(judgment3.provenance_chain[0]!)
+      ]);
+    });
+
+    it('should survive signing after fusion', () => {
+      const { signingKey } = generateSigningKeyPair('fusion-node-1');
+      const fused = conflict_aware_weighted_average([judgment1, judgment2], [0.6, 0.4], { clock });
+
+      expect(verifyProvenanceChain(signFusedJudgment(fused, signingKey))).toEqual({ valid: true });
+    });
+  });
+
+  describe('Tamper detection', () => {
+    const fused = conflict_aware_weighted_average([judgment1, judgment2, judgment3], [0.5, 0.3, 0.2], { clock });
+
+    it('should pinpoint a modified entry', () => {
+      const chain = [...fused.provenance_chain];
+      chain[1] = { ...chain[1]!, source_id: 'forged-sensor' };
+
+      expect(verifyProvenanceChain(withChain(fused, chain))).toMatchObject({ valid: false, broken_at: 3 });
+    });
+
+    it('should pinpoint a removed entry', () => {
+      const chain = fused.provenance_chain.filter((_, index) => index !== 3);
+
+      expect(verifyProvenanceChain(withChain(fused, chain))).toMatchObject({
+        valid: false,
+        broken_at: 3,
+        reason: 'Entry 3 does not link to a preceding entry'
+      });
+    });
+
+    it('should detect reordered entries', () => {
+      const inner = fuse('otp-optimistic-v1.1', [judgment1, judgment2], undefined, { clock });
+      const chain = [...inner.provenance_chain];
+      [chain[2], chain[3]] = [chain[3]!, chain[2]!];
+
+      expect(verifyProvenanceChain(withChain(inner, chain))).toMatchObject({ valid: false, broken_at: 2 });
+    });
+
+    it('should detect entries not connected to the head', () => {
+      const chain = [fused.provenance_chain[0]!, ...fused.provenance_chain];
+
+      expect(verifyProvenanceChain(withChain(fused, chain))).toMatchObject({
+        valid: false,
+        broken_at: 0,
+        reason: 'Entry 0 is not connected to the head of the chain'
+      });
+    });
+
+    it('should report unlinked entries', () => {
+      const chain = [...fused.provenance_chain, { source_id: 'appended', timestamp: '2025-01-01T00:00:00Z' }];
+
+      expect(verifyProvenanceChain(withChain(fused, chain))).toMatchObject({
+        valid: false,
+        broken_at: 5,
+        reason: 'Entry 5 is not hash-linked'
+      });
+    });
+  });
+});
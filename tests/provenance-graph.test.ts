@@ -0,0 +1,195 @@
+/**
+ * Tests for the provenance graph model
+ */
+
+import {
+  NeutrosophicJudgment,
+  ProvenanceGraph,
+  conflict_aware_weighted_average,
+  optimistic_fusion,
+  pessimistic_fusion,
+  fuseGraphs,
+  FixedClock,
+  generateJudgmentId,
+  verifyJudgmentId,
+  verifyConformanceSeal,
+  verifyProvenanceChain,
+  linkJudgment
+} from '../src/index';
+
+describe('ProvenanceGraph', () => {
+  const clock = new FixedClock('2025-01-01T00:00:00Z');
+
+  const createJudgment = (T: number, I: number, F: number, sourceId: string): NeutrosophicJudgment => {
+    return new NeutrosophicJudgment(T, I, F, [
+      { source_id: sourceId, timestamp: '2023-01-01T00:00:00Z' }
+    ]);
+  };
+
+  const sensor1 = createJudgment(0.8, 0.2, 0.0, 'sensor1');
+  const sensor2 = createJudgment(0.6, 0.3, 0.1, 'sensor2');
+  const sensor3 = createJudgment(0.2, 0.3, 0.5, 'sensor3');
+
+  // sensor2 contributes to both inner fusions
+  const optimistic = optimistic_fusion([sensor1, sensor2], { clock });
+  const pessimistic = pessimistic_fusion([sensor2, sensor3], { clock });
+  const fused = conflict_aware_weighted_average([optimistic, pessimistic], [0.7, 0.3], { clock });
+
+  describe('fromJudgment', () => {
+    it('should treat unfused judgments as a single leaf', () => {
+      const graph = ProvenanceGraph.fromJudgment(sensor1);
+
+      expect(graph.root).toBe(generateJudgmentId(sensor1));
+      expect(graph.count()).toBe(1);
+      expect(graph.depth()).toBe(0);
+      expect(graph.leaves()).toEqual([graph.getNode(graph.root)]);
+    });
+
+    it('should key nodes by Judgment ID and deduplicate shared inputs', () => {
+      const graph = ProvenanceGraph.fromJudgment(fused);
+
+      expect(graph.count()).toBe(6);
+      expect(graph.getNode(generateJudgmentId(sensor2))!.entries).toEqual(sensor2.provenance_chain);
+    });
+
+    it('should record edges with their weights', () => {
+      const root = ProvenanceGraph.fromJudgment(fused).getNode(generateJudgmentId(fused))!;
+
+      expect(root.operator_id).toBe('otp-cawa-v1.1');
+      expect(root.inputs).toEqual([
+        { judgment_id: generateJudgmentId(optimistic), weight: 0.7 },
+        { judgment_id: generateJudgmentId(pessimistic), weight: 0.3 }
+      ]);
+      expect(root.entries.map(entry => entry.source_id)).toEqual(['otp-cawa-v1.1', 'otp-judgment-id-generator']);
+    });
+
+    it('should reject chains that do not match the input descriptors', () => {
+      const chain = fused.provenance_chain.filter((_, index) => index !== 0);
+
+      expect(() => ProvenanceGraph.fromProvenanceChain(chain, fused))
+        .toThrow("Cannot split provenance chain: inputs of 'otp-cawa-v1.1' span 8 entries, expected 7");
+    });
+  });
+
+  describe('Traversal', () => {
+    const graph = ProvenanceGraph.fromJudgment(fused);
+
+    it('should list ancestors nearest first, each once', () => {
+      expect(graph.ancestors().map(node => node.judgment_id)).toEqual([
+        generateJudgmentId(optimistic),
+        generateJudgmentId(pessimistic),
+        generateJudgmentId(sensor1),
+        generateJudgmentId(sensor2),
+        generateJudgmentId(sensor3)
+      ]);
+      expect(graph.ancestors(generateJudgmentId(sensor1))).toEqual([]);
+    });
+
+    it('should list leaves', () => {
+      expect(graph.leaves().map(node => node.entries[0]!.source_id)).toEqual(['sensor1', 'sensor2', 'sensor3']);
+      expect(graph.leaves(generateJudgmentId(pessimistic)).map(node => node.entries[0]!.source_id))
+        .toEqual(['sensor2', 'sensor3']);
+    });
+
+    it('should compute depth', () => {
+      expect(graph.depth()).toBe(2);
+      expect(graph.depth(generateJudgmentId(optimistic))).toBe(1);
+    });
+
+    it('should find the path to a source', () => {
+      const path = graph.pathTo('sensor3')!;
+
+      expect(path.map(node => node.judgment_id)).toEqual([
+        generateJudgmentId(fused),
+        generateJudgmentId(pessimistic),
+        generateJudgmentId(sensor3)
+      ]);
+      expect(graph.pathTo('otp-optimistic-v1.1')!).toHaveLength(2);
+      expect(graph.pathTo('unknown-sensor')).toBeUndefined();
+    });
+
+    it('should reject unknown nodes', () => {
+      expect(() => graph.depth('missing')).toThrow('Unknown provenance node: missing');
+    });
+  });
+
+  describe('Flat chain conversion', () => {
+    it('should round-trip the flat provenance chain', () => {
+      const graph = ProvenanceGraph.fromJudgment(fused);
+
+      expect(graph.toProvenanceChain()).toEqual(fused.provenance_chain);
+      expect(graph.toJudgment().equals(fused)).toBe(true);
+      expect(verifyConformanceSeal(graph.toJudgment())).toBe(true);
+    });
+
+    it('should rebuild inner judgments', () => {
+      const graph = ProvenanceGraph.fromJudgment(fused);
+      const inner = graph.toJudgment(generateJudgmentId(pessimistic));
+
+      expect(inner.equals(pessimistic)).toBe(true);
+      expect(verifyJudgmentId(inner)).toBe(true);
+    });
+
+    it('should preserve hash links', () => {
+      const linked = conflict_aware_weighted_average(
+        [pessimistic_fusion([linkJudgment(sensor1), linkJudgment(sensor2)], { clock }), linkJudgment(sensor3)],
+        [0.5, 0.5],
+        { clock }
+      );
+      const rebuilt = ProvenanceGraph.fromJudgment(linked).toJudgment();
+
+      expect(rebuilt.provenance_chain).toEqual(linked.provenance_chain);
+      expect(verifyProvenanceChain(rebuilt)).toEqual({ valid: true });
+    });
+  });
+
+  describe('fuseGraphs', () => {
+    const inner1 = fuseGraphs('otp-optimistic-v1.1', [sensor1, sensor2], undefined, { clock });
+    const inner2 = fuseGraphs('otp-pessimistic-v1.1', [sensor2, sensor3], undefined, { clock });
+    const outer = fuseGraphs('otp-cawa-v1.1', [inner1, inner2], [0.7, 0.3], { clock });
+
+    it('should produce the graph of the fused judgment', () => {
+      expect(outer).toEqual(ProvenanceGraph.fromJudgment(fused));
+      expect(outer.toJudgment().equals(fused)).toBe(true);
+      expect(verifyConformanceSeal(outer.toJudgment())).toBe(true);
+    });
+
+    it('should share the nodes of the input graphs', () => {
+      const shared = generateJudgmentId(sensor2);
+
+      expect(outer.count()).toBe(6);
+      expect(outer.getNode(shared)).toBe(inner1.getNode(shared));
+      expect(outer.getNode(inner2.root)).toBe(inner2.getNode(inner2.root));
+      expect(outer.getNode(outer.root)!.entries).toHaveLength(2);
+    });
+
+    it('should record the sealed weights on the new edges', () => {
+      expect(outer.getNode(outer.root)!.inputs).toEqual([
+        { judgment_id: inner1.root, weight: 0.7 },
+        { judgment_id: inner2.root, weight: 0.3 }
+      ]);
+    });
+
+    it('should take linked nodes when inputs are hash-linked by fusion', () => {
+      const linked = fuseGraphs('otp-pessimistic-v1.1', [inner1, sensor3], undefined, { clock, hashChain: true });
+
+      expect(linked.toProvenanceChain()).toEqual(linked.toJudgment().provenance_chain);
+      expect(verifyProvenanceChain(linked.toJudgment())).toEqual({ valid: true });
+      expect(linked).toEqual(ProvenanceGraph.fromJudgment(linked.toJudgment()));
+    });
+
+    it('should reject input graphs that are not the inputs of the fusion', () => {
+      expect(() => ProvenanceGraph.fromFusion(fused, [inner1])).toThrow("Input graphs do not match the inputs of 'otp-cawa-v1.1'");
+      expect(() => ProvenanceGraph.fromFusion(sensor1, [])).toThrow('Judgment has no fusion entry that describes its inputs');
+    });
+  });
+
+  describe('Judgment IDs of nested fusion', () => {
+    it('should give the outer fused judgment its own Judgment ID', () => {
+      const last = fused.provenance_chain[fused.provenance_chain.length - 1] as any;
+
+      expect(last.source_id).toBe('otp-judgment-id-generator');
+      expect(verifyJudgmentId(fused)).toBe(true);
+    });
+  });
+});
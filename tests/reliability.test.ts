@@ -0,0 +1,210 @@
+/**
+ * Tests for source reliability profiles
+ */
+
+import {
+  NeutrosophicJudgment,
+  ReliabilityProfile,
+  ConflictAwareAccumulator,
+  conflict_aware_weighted_average,
+  optimistic_fusion,
+  generateConformanceSeal,
+  extractFusionInputs,
+  verifyConformanceSeal,
+  verifyConformanceSealDetailed,
+  verifyFusion,
+  FixedClock
+} from '../src/index';
+
+describe('Source Reliability', () => {
+  const clock = new FixedClock('2025-01-31T00:00:00Z');
+
+  const createJudgment = (T: number, I: number, F: number, sourceId: string): NeutrosophicJudgment => {
+    return new NeutrosophicJudgment(T, I, F, [{ source_id: sourceId, timestamp: '2025-01-30T00:00:00Z' }]);
+  };
+
+  const oracle = createJudgment(0.9, 0.1, 0.0, 'chainlink-eth-usd');
+  const community = createJudgment(0.3, 0.2, 0.5, 'community-feed');
+  const unknown = createJudgment(0.5, 0.5, 0.0, 'new-feed');
+
+  const profile = new ReliabilityProfile({
+    id: 'oracle-sources',
+    version: '1.0.0',
+    priors: { 'chainlink-eth-usd': 0.9, 'community-feed': 0.4 }
+  });
+
+  const fusionEntry = (judgment: NeutrosophicJudgment) =>
+    judgment.provenance_chain[judgment.provenance_chain.length - 2]!;
+
+  describe('ReliabilityProfile', () => {
+    it('should return priors, and the default for unknown sources', () => {
+      expect(profile.reliabilityOf('chainlink-eth-usd')).toBe(0.9);
+      expect(profile.reliabilityOf('new-feed')).toBe(0.5);
+      expect(new ReliabilityProfile({ id: 'p', version: '1', default_reliability: 0.2 }).reliabilityOf('x')).toBe(0.2);
+    });
+
+    it('should learn from outcomes, weighing the prior as pseudo-observations', () => {
+      const learned = profile.learn([
+        { source_id: 'community-feed', outcome: 1 },
+        { source_id: 'community-feed', outcome: 1 },
+        { source_id: 'new-feed', outcome: 0 }
+      ]);
+
+      expect(learned.reliabilityOf('community-feed')).toBeCloseTo((0.4 * 10 + 2) / 12, 12);
+      expect(learned.reliabilityOf('new-feed')).toBeCloseTo(5 / 11, 12);
+      expect(learned.revision).toBe(1);
+      expect(learned.digest()).not.toBe(profile.digest());
+      expect(profile.reliabilityOf('community-feed')).toBe(0.4);
+    });
+
+    it('should round-trip through JSON with the same digest', () => {
+      const learned = profile.learn([{ source_id: 'community-feed', outcome: 0.5 }]);
+      const restored = ReliabilityProfile.fromJSON(JSON.parse(JSON.stringify(learned)));
+
+      expect(restored.toJSON()).toEqual(learned.toJSON());
+      expect(restored.digest()).toBe(learned.digest());
+      expect(restored.reliabilityOf('community-feed')).toBe(learned.reliabilityOf('community-feed'));
+    });
+
+    it('should reject invalid configurations and observations', () => {
+      expect(() => new ReliabilityProfile({ id: '', version: '1' })).toThrow('id must be a non-empty string');
+      expect(() => new ReliabilityProfile({ id: 'p', version: '1', priors: { a: 1.5 } }))
+        .toThrow("Prior of 'a' must be a number between 0 and 1, got 1.5");
+      expect(() => new ReliabilityProfile({ id: 'p', version: '1', prior_strength: 0 }))
+        .toThrow('prior_strength must be a positive number');
+      expect(() => new ReliabilityProfile({ id: 'p', version: '1', observations: { a: { successes: -1, failures: 0 } } }))
+        .toThrow("Observations of 'a' must have non-negative successes and failures");
+      expect(() => profile.learn([{ source_id: 'a', outcome: 2 }]))
+        .toThrow("Outcome for 'a' must be a number between 0 and 1, got 2");
+    });
+  });
+
+  describe('fusion', () => {
+    it('should weight inputs by the reliability of their sources', () => {
+      const fused = conflict_aware_weighted_average([oracle, community, unknown], undefined, { clock, reliability: profile });
+      const expected = conflict_aware_weighted_average([oracle, community, unknown], [0.9, 0.4, 0.5], { clock });
+
+      expect(fused.T).toBe(expected.T);
+      expect(fusionEntry(fused).metadata?.['weights']).toEqual([0.9, 0.4, 0.5]);
+      expect(fusionEntry(fused).metadata?.['reliability']).toEqual({
+        profile_id: 'oracle-sources',
+        version: '1.0.0',
+        revision: 0,
+        digest: profile.digest(),
+        sources: ['chainlink-eth-usd', 'community-feed', 'new-feed'],
+        reliabilities: [0.9, 0.4, 0.5],
+        base_weights: [1.0, 1.0, 1.0]
+      });
+    });
+
+    it('should multiply explicit weights by the reliabilities', () => {
+      const fused = conflict_aware_weighted_average([oracle, community], [0.5, 2.0], { clock, reliability: profile });
+
+      expect(fusionEntry(fused).metadata?.['weights']).toEqual([0.45, 0.8]);
+      expect(fusionEntry(fused).metadata?.['reliability'].base_weights).toEqual([0.5, 2.0]);
+    });
+
+    it('should apply per-source overrides and record the ones used', () => {
+      const fused = conflict_aware_weighted_average([oracle, community], undefined, {
+        clock,
+        reliability: profile,
+        reliabilityOverrides: { 'community-feed': 0.1, 'unused-feed': 0.3 }
+      });
+
+      expect(fusionEntry(fused).metadata?.['weights']).toEqual([0.9, 0.1]);
+      expect(fusionEntry(fused).metadata?.['reliability'].overrides).toEqual({ 'community-feed': 0.1 });
+    });
+
+    it('should record the revision of learned profiles', () => {
+      const learned = profile.learn([{ source_id: 'community-feed', outcome: 1 }]);
+      const fused = conflict_aware_weighted_average([oracle, community], undefined, { clock, reliability: learned });
+
+      expect(fusionEntry(fused).metadata?.['reliability']).toMatchObject({ revision: 1, digest: learned.digest() });
+    });
+
+    it('should let unweighted operators ignore sources of zero reliability', () => {
+      const distrusting = new ReliabilityProfile({ id: 'p', version: '1', priors: { 'chainlink-eth-usd': 0 } });
+      const fused = optimistic_fusion([oracle, community], { clock, reliability: distrusting });
+
+      expect(fused.T).toBe(0.3);
+    });
+
+    it('should apply reliability before time decay', () => {
+      const stale = new NeutrosophicJudgment(0.3, 0.2, 0.4, [{ source_id: 'community-feed', timestamp: '2025-01-23T00:00:00Z' }]);
+      const fused = conflict_aware_weighted_average([oracle, stale], undefined, {
+        clock,
+        reliability: profile,
+        decay: { function: 'exponential', halfLife: 'P7D', referenceTime: '2025-01-30T00:00:00Z' }
+      });
+
+      expect(fusionEntry(fused).metadata?.['decay'].base_weights).toEqual([0.9, 0.4]);
+      expect(fusionEntry(fused).metadata?.['weights']).toEqual([0.9, 0.2]);
+      expect(verifyConformanceSeal(fused)).toBe(true);
+    });
+
+    it('should fuse accumulated judgments with reliability', () => {
+      const accumulator = new ConflictAwareAccumulator().add(oracle).add(community);
+      const options = { clock, reliability: profile };
+
+      expect(accumulator.fuse(options)).toEqual(conflict_aware_weighted_average([oracle, community], undefined, options));
+    });
+
+    it('should require a profile for overrides', () => {
+      expect(() => conflict_aware_weighted_average([oracle], undefined, { reliabilityOverrides: { a: 1 } }))
+        .toThrow('reliabilityOverrides require a reliability profile');
+      expect(() => conflict_aware_weighted_average([oracle], undefined, { reliability: profile, reliabilityOverrides: { a: -1 } }))
+        .toThrow("Override for 'a' must be a number between 0 and 1, got -1");
+    });
+  });
+
+  describe('Conformance Seal', () => {
+    const fused = conflict_aware_weighted_average([oracle, community], undefined, { clock, reliability: profile });
+
+    const withEntry = (edit: (entry: any, inputs: ReturnType<typeof extractFusionInputs>) => void) => {
+      const chain = fused.provenance_chain.map(entry => ({ ...entry }));
+      const entry: any = chain[chain.length - 2]!;
+      entry.metadata = { ...entry.metadata };
+      edit(entry, extractFusionInputs(fused));
+      return new NeutrosophicJudgment(fused.T, fused.I, fused.F, chain);
+    };
+
+    it('should verify reliability-weighted fusions', () => {
+      expect(verifyConformanceSeal(fused)).toBe(true);
+      expect(verifyFusion(fused).valid).toBe(true);
+    });
+
+    it('should cover the profile version', () => {
+      const tampered = withEntry(entry => {
+        entry.metadata.reliability = { ...entry.metadata.reliability, version: '2.0.0' };
+      });
+
+      expect(verifyConformanceSealDetailed(tampered).status).toBe('tampered');
+    });
+
+    it('should reject weights that do not follow from the recorded reliabilities', () => {
+      const forged = withEntry((entry, inputs) => {
+        entry.metadata.reliability = { ...entry.metadata.reliability, reliabilities: [0.9, 0.9] };
+        entry.conformance_seal = generateConformanceSeal(
+          inputs.judgments,
+          inputs.weights,
+          'otp-cawa-v1.1',
+          entry.metadata.canonicalization,
+          { reliability: entry.metadata.reliability }
+        );
+      });
+
+      expect(verifyConformanceSealDetailed(forged)).toMatchObject({
+        valid: false,
+        status: 'tampered',
+        reason: 'Recorded weights do not follow from the recorded reliability weighting'
+      });
+      expect(verifyFusion(forged)).toMatchObject({
+        valid: false,
+        seal_status: 'tampered',
+        reason: 'Recorded weights do not follow from the recorded reliability weighting'
+      });
+      const inputs = extractFusionInputs(forged);
+      expect(verifyFusion(forged, { inputs: inputs.judgments, weights: inputs.weights }).valid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for the signing module - Digital signatures on fusion provenance
+ */
+
+import { mkdtempSync, rmSync, statSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  NeutrosophicJudgment,
+  conflict_aware_weighted_average,
+  fuse,
+  generateSigningKeyPair,
+  signFusionProvenanceEntry,
+  signFusedJudgment,
+  verifySignedFusion,
+  verifyConformanceSeal,
+  verifyJudgmentId,
+  createFusionProvenanceEntry,
+  InMemoryKeyRing,
+  FileKeyRing,
+  SignatureError,
+  SignatureAlgorithm
+} from '../src/index';
+
+describe('Fusion Signatures', () => {
+  const createJudgment = (T: number, I: number, F: number, sourceId: string): NeutrosophicJudgment => {
+    return new NeutrosophicJudgment(T, I, F, [
+      { source_id: sourceId, timestamp: '2023-01-01T00:00:00Z' }
+    ]);
+  };
+
+  const judgments = [createJudgment(0.8, 0.2, 0.0, 'sensor1'), createJudgment(0.6, 0.3, 0.1, 'sensor2')];
+  const algorithms: SignatureAlgorithm[] = ['ed25519', 'ecdsa-p256'];
+
+  describe.each(algorithms)('%s', algorithm => {
+    const { signingKey, publicKeyPem } = generateSigningKeyPair('fusion-node-1', algorithm);
+    const keyring = new InMemoryKeyRing();
+    keyring.addPublicKey('fusion-node-1', publicKeyPem);
+
+    it('should sign during fusion and verify', () => {
+      const fused = fuse('otp-cawa-v1.1', judgments, [0.6, 0.4], { signingKey });
+      const signature = (fused.provenance_chain[2] as any).signature;
+
+      expect(signature.key_id).toBe('fusion-node-1');
+      expect(signature.algorithm).toBe(algorithm);
+      expect(verifySignedFusion(fused, keyring)).toEqual({ valid: true, key_id: 'fusion-node-1', algorithm });
+      expect(verifyConformanceSeal(fused)).toBe(true);
+      expect(verifyJudgmentId(fused)).toBe(true);
+    });
+
+    it('should sign an existing fused judgment', () => {
+      const fused = conflict_aware_weighted_average(judgments, [0.6, 0.4]);
+
+      expect(verifySignedFusion(fused, keyring)).toEqual({ valid: false, reason: 'Fusion entry is not signed' });
+      expect(verifySignedFusion(signFusedJudgment(fused, signingKey), keyring).valid).toBe(true);
+    });
+
+    it('should detect a re-sealed forgery', () => {
+      const fused = fuse('otp-cawa-v1.1', judgments, [0.6, 0.4], { signingKey });
+      const chain = [...fused.provenance_chain];
+      chain[2] = { ...chain[2]!, metadata: { ...chain[2]!.metadata, weights: [0.9, 0.1] } };
+
+      const result = verifySignedFusion(new NeutrosophicJudgment(fused.T, fused.I, fused.F, chain), keyring);
+
+      expect(result.valid).toBe(false);
+      expect(result.reason).toBe('Signature does not match the fusion entry');
+    });
+  });
+
+  describe('verifySignedFusion', () => {
+    const { signingKey } = generateSigningKeyPair('node-a');
+
+    it('should reject unknown key IDs', () => {
+      const fused = fuse('otp-cawa-v1.1', judgments, [0.6, 0.4], { signingKey });
+
+      expect(verifySignedFusion(fused, new InMemoryKeyRing()).reason).toBe('Unknown key ID: node-a');
+    });
+
+    it('should reject signatures made with a different key', () => {
+      const impostor = generateSigningKeyPair('node-a').signingKey;
+      const keyring = new InMemoryKeyRing();
+      keyring.addPrivateKey('node-a', signingKey.private_key);
+
+      const fused = fuse('otp-cawa-v1.1', judgments, [0.6, 0.4], { signingKey: impostor });
+
+      expect(verifySignedFusion(fused, keyring).valid).toBe(false);
+    });
+
+    it('should reject algorithm mismatches', () => {
+      const keyring = new InMemoryKeyRing();
+      keyring.addPublicKey('node-a', generateSigningKeyPair('node-a', 'ecdsa-p256').publicKeyPem);
+
+      const fused = fuse('otp-cawa-v1.1', judgments, [0.6, 0.4], { signingKey });
+
+      expect(verifySignedFusion(fused, keyring).reason)
+        .toBe("Key 'node-a' is ecdsa-p256 but the signature claims ed25519");
+    });
+  });
+
+  describe('signFusionProvenanceEntry', () => {
+    it('should refuse to sign unsealed entries', () => {
+      const { signingKey } = generateSigningKeyPair('node-a');
+      const entry = { source_id: 'sensor1', timestamp: '2023-01-01T00:00:00Z' };
+
+      expect(() => signFusionProvenanceEntry(entry, signingKey)).toThrow(SignatureError);
+    });
+
+    it('should keep the original entry unchanged', () => {
+      const { signingKey } = generateSigningKeyPair('node-a');
+      const entry = createFusionProvenanceEntry('otp-cawa-v1.1', '2023-01-01T00:00:00Z', 'a'.repeat(64));
+
+      const signed = signFusionProvenanceEntry(entry, signingKey);
+
+      expect(signed.signature.value).toMatch(/^[A-Za-z0-9+/]+=*$/);
+      expect((entry as any).signature).toBeUndefined();
+    });
+  });
+
+  describe('FileKeyRing', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'otp-keys-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should generate keys and load them from disk', () => {
+      const signingKey = new FileKeyRing(directory).generate('node-b', 'ecdsa-p256');
+      const fused = fuse('otp-cawa-v1.1', judgments, [0.6, 0.4], { signingKey });
+
+      const reloaded = new FileKeyRing(directory);
+
+      expect(reloaded.getSigningKey('node-b')?.algorithm).toBe('ecdsa-p256');
+      expect(verifySignedFusion(fused, reloaded).valid).toBe(true);
+      expect(statSync(join(directory, 'node-b.pem')).mode & 0o777).toBe(0o600);
+    });
+
+    it('should verify with only a public key file', () => {
+      const keyring = new FileKeyRing(directory);
+      const signingKey = keyring.generate('node-c');
+      const publicOnly = new InMemoryKeyRing();
+      publicOnly.addPublicKey('node-c', readFileSync(join(directory, 'node-c.pub.pem'), 'utf8'));
+      rmSync(join(directory, 'node-c.pem'));
+
+      const fused = fuse('otp-cawa-v1.1', judgments, [0.6, 0.4], { signingKey });
+      const fromFiles = new FileKeyRing(directory);
+
+      expect(fromFiles.getSigningKey('node-c')).toBeUndefined();
+      expect(verifySignedFusion(fused, fromFiles).valid).toBe(true);
+      expect(verifySignedFusion(fused, publicOnly).valid).toBe(true);
+    });
+
+    it('should refuse to overwrite existing keys', () => {
+      const keyring = new FileKeyRing(directory);
+      keyring.generate('node-d');
+
+      expect(() => keyring.generate('node-d')).toThrow("Key 'node-d' already exists");
+    });
+
+    it('should reject key IDs that are not plain file names', () => {
+      expect(() => new FileKeyRing(directory).getVerificationKey('../secret')).toThrow(SignatureError);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Tests for streaming mapping and windowed fusion
+ */
+
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  NeutrosophicJudgment,
+  NumericalMapper,
+  MapperRegistry,
+  MapperTransform,
+  WindowedFusionTransform,
+  WindowedFusion,
+  WindowJudgment,
+  StreamJudgment,
+  mapJudgments,
+  fuseWindows,
+  fuse,
+  FixedClock,
+  InputError,
+  ValidationError,
+  verifyConformanceSeal,
+  verifyJudgmentId
+} from '../src/index';
+
+describe('Streaming', () => {
+  const clock = new FixedClock('2025-01-01T00:00:00Z');
+
+  const healthMapper = new NumericalMapper({
+    id: 'defi-health-factor',
+    version: '1.0.0',
+    falsity_point: 1.0,
+    indeterminacy_point: 1.5,
+    truth_point: 3.0,
+    clamp_to_range: false
+  });
+  const registry = new MapperRegistry();
+  registry.register(healthMapper);
+
+  const item = (key: string, time: number, T: number): StreamJudgment => ({
+    key,
+    time,
+    judgment: new NeutrosophicJudgment(T, 0.0, 1.0 - T, [{ source_id: `${key}@${time}`, timestamp: new Date(time).toISOString() }])
+  });
+
+  const collect = async <T>(source: AsyncIterable<T>): Promise<T[]> => {
+    const items: T[] = [];
+    for await (const each of source) {
+      items.push(each);
+    }
+    return items;
+  };
+
+  const windowsOf = (results: WindowJudgment[]) =>
+    results.map(({ key, start, end, count }) => ({ key, start, end, count }));
+
+  describe('mapJudgments', () => {
+    const events = [
+      { account: 'alice', at: '2025-01-01T00:00:10Z', health_factor: 2.25 },
+      { account: 'bob', at: '2025-01-01T00:00:20Z', health_factor: 3.0 }
+    ];
+
+    it('should map records through a registered mapper', async () => {
+      const results = await collect(mapJudgments(events, {
+        mapper: 'defi-health-factor',
+        mappers: registry,
+        value: event => event.health_factor,
+        key: event => event.account,
+        time: event => event.at
+      }));
+
+      expect(results.map(({ key, time }) => ({ key, time }))).toEqual([
+        { key: 'alice', time: Date.parse('2025-01-01T00:00:10Z') },
+        { key: 'bob', time: Date.parse('2025-01-01T00:00:20Z') }
+      ]);
+      expect(results[0]!.judgment).toMatchObject({ T: 0.5, I: 0.5, F: 0.0 });
+    });
+
+    it('should default the key to the mapper ID and the time to the clock', async () => {
+      const [result] = await collect(mapJudgments([2.0], { mapper: healthMapper, clock }));
+
+      expect(result!.key).toBe('defi-health-factor');
+      expect(result!.time).toBe(clock.now().getTime());
+    });
+
+    it('should apply the error policies', async () => {
+      const values = [2.0, 5.0, 2.5];
+      const reported: any[] = [];
+
+      const skipped = await collect(mapJudgments(values, {
+        mapper: healthMapper,
+        onError: 'skip',
+        onMapperError: error => reported.push(error)
+      }));
+      expect(skipped).toHaveLength(2);
+      expect(reported).toEqual([{ index: 1, message: expect.stringContaining('out of the defined mapper range') }]);
+
+      const substituted = await collect(mapJudgments(values, { mapper: healthMapper, onError: 'default', clock }));
+      expect(substituted[1]!.judgment).toMatchObject({ T: 0.0, I: 1.0, F: 0.0 });
+      expect(substituted[1]!.judgment.provenance_chain[0]!.metadata?.['batch_error']).toBe(reported[0].message);
+
+      await expect(collect(mapJudgments(values, { mapper: healthMapper }))).rejects.toThrow('Value at index 1');
+    });
+
+    it('should reject unregistered mappers and bad keys or times', async () => {
+      await expect(collect(mapJudgments([1], { mapper: 'missing', mappers: registry })))
+        .rejects.toThrow(ValidationError);
+      await expect(collect(mapJudgments([{ v: 2 }], { mapper: healthMapper, value: r => r.v, time: () => 'soon' })))
+        .rejects.toThrow(InputError);
+      await expect(collect(mapJudgments([{ v: 2 }], { mapper: healthMapper, value: r => r.v, key: () => null as any })))
+        .rejects.toThrow('Record key must be a string or number, got null');
+    });
+
+    it('should only read records as judgments are requested', async () => {
+      let read = 0;
+      async function* source() {
+        for (const value of [1.5, 2.0, 2.5]) {
+          read++;
+          yield value;
+        }
+      }
+
+      const judgments = mapJudgments(source(), { mapper: healthMapper });
+      await judgments.next();
+      expect(read).toBe(1);
+      await judgments.return(undefined);
+    });
+  });
+
+  describe('WindowedFusion', () => {
+    it('should fuse tumbling windows as the watermark passes their end', () => {
+      const windows = new WindowedFusion({ window: { type: 'tumbling', size: 'PT1M' }, clock });
+      const a0 = item('a', 0, 0.8);
+      const a1 = item('a', 30000, 0.4);
+
+      expect(windows.push(a0)).toEqual([]);
+      expect(windows.push(a1)).toEqual([]);
+      expect(windows.push(item('b', 45000, 0.6))).toEqual([]);
+
+      const closed = windows.push(item('a', 70000, 1.0));
+      expect(windowsOf(closed)).toEqual([
+        { key: 'a', start: 0, end: 60000, count: 2 },
+        { key: 'b', start: 0, end: 60000, count: 1 }
+      ]);
+      expect(closed[0]!.judgment.T).toBeCloseTo(fuse('otp-cawa-v1.1', [a0.judgment, a1.judgment], undefined, { clock }).T);
+      expect(verifyConformanceSeal(closed[0]!.judgment)).toBe(true);
+      expect(verifyJudgmentId(closed[0]!.judgment)).toBe(true);
+
+      expect(windowsOf(windows.flush())).toEqual([{ key: 'a', start: 60000, end: 120000, count: 1 }]);
+      expect(windows.openWindows).toBe(0);
+    });
+
+    it('should assign judgments to every sliding window that contains them', () => {
+      const windows = new WindowedFusion({ window: { type: 'sliding', size: 60000, slide: 30000 } });
+      windows.push(item('a', 45000, 0.5));
+
+      expect(windowsOf(windows.flush())).toEqual([
+        { key: 'a', start: 0, end: 60000, count: 1 },
+        { key: 'a', start: 30000, end: 90000, count: 1 }
+      ]);
+    });
+
+    it('should close sessions after a gap and merge sessions bridged by a late judgment', () => {
+      const windows = new WindowedFusion({ window: { type: 'session', gap: 10 }, lateness: 20 });
+      windows.push(item('a', 0, 0.5));
+      windows.push(item('a', 15, 0.5));
+      expect(windows.openWindows).toBe(2);
+
+      windows.push(item('a', 8, 0.5));
+      expect(windows.openWindows).toBe(1);
+
+      expect(windowsOf(windows.push(item('a', 60, 0.5)))).toEqual([{ key: 'a', start: 0, end: 25, count: 3 }]);
+      expect(windowsOf(windows.flush())).toEqual([{ key: 'a', start: 60, end: 70, count: 1 }]);
+    });
+
+    it('should fuse in event-time order regardless of arrival order', () => {
+      const items = [item('a', 10, 0.9), item('a', 20, 0.3), item('a', 30, 0.6)];
+      const inOrder = new WindowedFusion({ window: { type: 'tumbling', size: 100 }, lateness: 50, clock });
+      const shuffled = new WindowedFusion({ window: { type: 'tumbling', size: 100 }, lateness: 50, clock });
+      items.forEach(each => inOrder.push(each));
+      [items[2]!, items[0]!, items[1]!].forEach(each => shuffled.push(each));
+
+      expect(shuffled.flush()[0]!.judgment.provenance_chain)
+        .toEqual(inOrder.flush()[0]!.judgment.provenance_chain);
+    });
+
+    it('should report judgments whose windows have closed', () => {
+      const late: StreamJudgment[] = [];
+      const windows = new WindowedFusion({ window: { type: 'tumbling', size: 60000 }, onLate: each => late.push(each) });
+      const tooLate = item('a', 10000, 0.5);
+
+      windows.push(item('a', 70000, 0.5));
+      windows.push(tooLate);
+
+      expect(late).toEqual([tooLate]);
+      expect(windowsOf(windows.flush())).toEqual([{ key: 'a', start: 60000, end: 120000, count: 1 }]);
+    });
+
+    it('should use the configured operator and fusion options', () => {
+      const windows = new WindowedFusion({ window: { type: 'tumbling', size: 100 }, operator: 'otp-pessimistic-v1.1', clock });
+      windows.push(item('a', 0, 0.9));
+      windows.push(item('a', 1, 0.1));
+      const [result] = windows.flush();
+      const chain = result!.judgment.provenance_chain;
+
+      expect(chain[chain.length - 2]!.source_id).toBe('otp-pessimistic-v1.1');
+      expect(chain[chain.length - 2]!.timestamp).toBe('2025-01-01T00:00:00.000Z');
+    });
+
+    it('should validate the options and input', () => {
+      expect(() => new WindowedFusion({ window: { type: 'hopping' } as any }))
+        .toThrow("Invalid window type 'hopping': expected one of tumbling, sliding, session");
+      expect(() => new WindowedFusion({ window: { type: 'tumbling', size: 0 } }))
+        .toThrow('Window size must be positive, got 0 ms');
+      expect(() => new WindowedFusion({ window: { type: 'session', gap: 'P1M' } })).toThrow(ValidationError);
+      expect(() => new WindowedFusion({ window: { type: 'tumbling', size: 10 }, lateness: -1 }))
+        .toThrow('Window lateness must be non-negative, got -1 ms');
+      expect(() => new WindowedFusion({ window: { type: 'tumbling', size: 10 }, operator: 'otp-unknown' }))
+        .toThrow(ValidationError);
+
+      const windows = new WindowedFusion({ window: { type: 'tumbling', size: 10 } });
+      expect(() => windows.push({ key: 'a', time: NaN, judgment: item('a', 0, 1).judgment })).toThrow(InputError);
+      expect(() => windows.push({ key: 'a', time: 0, judgment: { T: 1, I: 0, F: 0 } } as any)).toThrow(InputError);
+    });
+  });
+
+  describe('fuseWindows', () => {
+    it('should yield each window as it closes and the rest at the end', async () => {
+      const results = await collect(fuseWindows(
+        [item('a', 0, 0.5), item('a', 150, 0.5), item('a', 250, 0.5)],
+        { window: { type: 'tumbling', size: 100 } }
+      ));
+
+      expect(windowsOf(results).map(window => window.start)).toEqual([0, 100, 200]);
+    });
+  });
+
+  describe('Transforms', () => {
+    const events = [
+      { account: 'alice', at: 0, health_factor: 2.0 },
+      { account: 'bob', at: 10000, health_factor: 3.0 },
+      { account: 'alice', at: 20000, health_factor: 2.5 },
+      { account: 'alice', at: 90000, health_factor: 1.5 }
+    ];
+
+    it('should map and fuse a Readable stream in a pipeline', async () => {
+      const results: WindowJudgment[] = [];
+      await pipeline(
+        Readable.from(events),
+        new MapperTransform({
+          mapper: 'defi-health-factor',
+          mappers: registry,
+          value: event => event.health_factor,
+          key: event => event.account,
+          time: event => event.at
+        }),
+        new WindowedFusionTransform({ window: { type: 'tumbling', size: 'PT1M' }, highWaterMark: 1 }),
+        new Writable({
+          objectMode: true,
+          write(window, _encoding, callback) {
+            results.push(window);
+            callback();
+          }
+        })
+      );
+
+      expect(windowsOf(results)).toEqual([
+        { key: 'alice', start: 0, end: 60000, count: 2 },
+        { key: 'bob', start: 0, end: 60000, count: 1 },
+        { key: 'alice', start: 60000, end: 120000, count: 1 }
+      ]);
+      expect(results[0]!.judgment).toBeInstanceOf(NeutrosophicJudgment);
+    });
+
+    it('should fail the pipeline on values that cannot be mapped', async () => {
+      await expect(pipeline(
+        Readable.from([2.0, 'x']),
+        new MapperTransform({ mapper: healthMapper }),
+        new Writable({ objectMode: true, write: (_item, _encoding, callback) => callback() })
+      )).rejects.toThrow('Value at index 1: Input for NumericalMapper must be a number, got string');
+    });
+  });
+});